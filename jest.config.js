@@ -4,6 +4,13 @@ module.exports = {
   testEnvironment: "node",
   roots: ["<rootDir>/tests"],
   testMatch: ["**/*.test.ts"],
+  transform: {
+    "^.+\\.ts$": "ts-jest",
+    // ESM-only dependencies (@noble/curves, @digitalbazaar/bbs-signatures)
+    // are compiled to CommonJS along with the sources
+    "^.+\\.js$": ["ts-jest", { tsconfig: { allowJs: true }, isolatedModules: true }],
+  },
+  transformIgnorePatterns: ["/node_modules/(?!(@noble|@digitalbazaar|@scure)/)"],
   collectCoverageFrom: ["src/**/*.ts", "!src/**/*.d.ts", "!src/example.ts"],
   coverageDirectory: "coverage",
   verbose: true,
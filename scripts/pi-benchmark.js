@@ -17,20 +17,75 @@ try {
 
 const {
   ECDSACryptoService,
+  RSACryptoService,
   PQCryptoService,
   FalconCryptoService,
+  SLHDSACryptoService,
   VCIssuer,
   VCVerifier,
 } = cryptoLib;
 
+const MLDSA_KEY_SIZES = {
+  "ML-DSA-44": "1312 bytes public, 2560 bytes secret",
+  "ML-DSA-65": "1952 bytes public, 4032 bytes secret",
+  "ML-DSA-87": "2592 bytes public, 4896 bytes secret",
+};
+
+const FALCON_KEY_SIZES = {
+  "Falcon-512": "897 bytes public, 1281 bytes secret",
+  "Falcon-1024": "1793 bytes public, 2305 bytes secret",
+};
+
+const SLHDSA_KEY_SIZES = {
+  "SLH-DSA-SHA2-128s": "32 bytes public, 64 bytes secret",
+  "SLH-DSA-SHA2-128f": "32 bytes public, 64 bytes secret",
+};
+
+const RSA_BACKENDS = ["native", "node-rsa"];
+
+const RSA_PADDINGS = {
+  pss: "PSS",
+  pkcs1: "PKCS#1 v1.5",
+};
+
 const iterations = parsePositiveInteger(
   readArgValue("--iterations") ?? process.env.PI_BENCH_ITERATIONS,
   200,
 );
+const mldsaParameterSet = parseMLDSAParameterSet(
+  readArgValue("--mldsa") ?? process.env.PI_BENCH_MLDSA,
+);
+const falconVariant = parseFalconVariant(
+  readArgValue("--falcon") ?? process.env.PI_BENCH_FALCON,
+);
+const slhdsaParameterSet = parseSLHDSAParameterSet(
+  readArgValue("--slhdsa") ?? process.env.PI_BENCH_SLHDSA,
+);
+const rsaKeySize = parseRSAKeySize(
+  readArgValue("--rsa-bits") ?? process.env.PI_BENCH_RSA_BITS,
+);
+const rsaBackend = parseRSABackend(
+  readArgValue("--rsa-backend") ?? process.env.PI_BENCH_RSA_BACKEND,
+);
+const rsaPadding = parseRSAPadding(
+  readArgValue("--rsa-padding") ?? process.env.PI_BENCH_RSA_PADDING,
+);
 const outputDir =
   readArgValue("--output-dir") ?? "comparison-results/pi-benchmark-results";
 
 async function main() {
+  const rsa = new RSACryptoService(rsaKeySize, {
+    backend: rsaBackend,
+    padding: rsaPadding,
+  });
+  const rsaName = `RSA-${rsa.getKeySize()} ${RSA_PADDINGS[rsa.getPadding()]} (${rsa.getBackend()})`;
+  const mldsa = new PQCryptoService(mldsaParameterSet);
+  const mldsaName = mldsa.getParameterSet();
+  const falcon = new FalconCryptoService(falconVariant);
+  const falconName = falcon.getVariant();
+  const slhdsa = new SLHDSACryptoService(slhdsaParameterSet);
+  const slhdsaName = slhdsa.getParameterSet();
+
   const results = {
     timestamp: new Date().toISOString(),
     environment: {
@@ -44,20 +99,25 @@ async function main() {
     },
     testConfig: {
       iterations,
+      rsaKeySize,
+      rsaBackend,
+      rsaPadding,
+      mldsaParameterSet: mldsaName,
+      falconVariant: falconName,
+      slhdsaParameterSet: slhdsaName,
     },
     algorithms: {
       ecdsa: createEmptyMetrics(
         "ECDSA secp256k1",
         "256-bit (32 bytes private, 65 bytes public)",
       ),
-      dilithium2: createEmptyMetrics(
-        "ML-DSA-44 (Dilithium2)",
-        "1952 bytes public, 4000 bytes secret",
-      ),
-      falcon512: createEmptyMetrics(
-        "Falcon-512",
-        "897 bytes public, 1281 bytes secret",
+      rsa: createEmptyMetrics(
+        rsaName,
+        `${rsaKeySize}-bit (PEM: PKCS#8 private, SPKI public)`,
       ),
+      dilithium2: createEmptyMetrics(mldsaName, MLDSA_KEY_SIZES[mldsaName]),
+      falcon512: createEmptyMetrics(falconName, FALCON_KEY_SIZES[falconName]),
+      slhdsa: createEmptyMetrics(slhdsaName, SLHDSA_KEY_SIZES[slhdsaName]),
     },
     summary: {
       fastest: { keyGen: "", signing: "", verification: "" },
@@ -69,6 +129,10 @@ async function main() {
   console.log("RASPBERRY PI BENCHMARK");
   console.log("=".repeat(80));
   console.log(`Iterations per test: ${iterations}`);
+  console.log(`RSA: ${rsaName}`);
+  console.log(`ML-DSA parameter set: ${mldsaName}`);
+  console.log(`Falcon variant: ${falconName}`);
+  console.log(`SLH-DSA parameter set: ${slhdsaName}`);
   console.log(`CPU: ${results.environment.cpuModel}`);
   console.log(
     `Platform: ${results.environment.platform} ${results.environment.release}`,
@@ -81,49 +145,56 @@ async function main() {
     results.algorithms.ecdsa,
     iterations,
   );
-  await benchmarkAlgorithm(
-    new PQCryptoService(),
-    results.algorithms.dilithium2,
-    iterations,
-  );
-  await benchmarkAlgorithm(
-    new FalconCryptoService(),
-    results.algorithms.falcon512,
-    iterations,
-  );
+  await benchmarkAlgorithm(rsa, results.algorithms.rsa, iterations);
+  await benchmarkAlgorithm(mldsa, results.algorithms.dilithium2, iterations);
+  await benchmarkAlgorithm(falcon, results.algorithms.falcon512, iterations);
+  await benchmarkAlgorithm(slhdsa, results.algorithms.slhdsa, iterations);
 
   results.summary.fastest.keyGen = getFastest([
     { name: "ECDSA", time: avg(results.algorithms.ecdsa.keyGenTime) },
-    { name: "ML-DSA-44", time: avg(results.algorithms.dilithium2.keyGenTime) },
-    { name: "Falcon-512", time: avg(results.algorithms.falcon512.keyGenTime) },
+    { name: rsaName, time: avg(results.algorithms.rsa.keyGenTime) },
+    { name: mldsaName, time: avg(results.algorithms.dilithium2.keyGenTime) },
+    { name: falconName, time: avg(results.algorithms.falcon512.keyGenTime) },
+    { name: slhdsaName, time: avg(results.algorithms.slhdsa.keyGenTime) },
   ]);
   results.summary.fastest.signing = getFastest([
     { name: "ECDSA", time: avg(results.algorithms.ecdsa.signTime) },
-    { name: "ML-DSA-44", time: avg(results.algorithms.dilithium2.signTime) },
-    { name: "Falcon-512", time: avg(results.algorithms.falcon512.signTime) },
+    { name: rsaName, time: avg(results.algorithms.rsa.signTime) },
+    { name: mldsaName, time: avg(results.algorithms.dilithium2.signTime) },
+    { name: falconName, time: avg(results.algorithms.falcon512.signTime) },
+    { name: slhdsaName, time: avg(results.algorithms.slhdsa.signTime) },
   ]);
   results.summary.fastest.verification = getFastest([
     { name: "ECDSA", time: avg(results.algorithms.ecdsa.verifyTime) },
-    { name: "ML-DSA-44", time: avg(results.algorithms.dilithium2.verifyTime) },
-    { name: "Falcon-512", time: avg(results.algorithms.falcon512.verifyTime) },
+    { name: rsaName, time: avg(results.algorithms.rsa.verifyTime) },
+    { name: mldsaName, time: avg(results.algorithms.dilithium2.verifyTime) },
+    { name: falconName, time: avg(results.algorithms.falcon512.verifyTime) },
+    { name: slhdsaName, time: avg(results.algorithms.slhdsa.verifyTime) },
   ]);
 
   results.summary.smallest.keySize = "ECDSA";
   results.summary.smallest.signatureSize = getSmallestSignature([
     { name: "ECDSA", size: results.algorithms.ecdsa.signatureSize },
-    { name: "ML-DSA-44", size: results.algorithms.dilithium2.signatureSize },
-    { name: "Falcon-512", size: results.algorithms.falcon512.signatureSize },
+    { name: rsaName, size: results.algorithms.rsa.signatureSize },
+    { name: mldsaName, size: results.algorithms.dilithium2.signatureSize },
+    { name: falconName, size: results.algorithms.falcon512.signatureSize },
+    { name: slhdsaName, size: results.algorithms.slhdsa.signatureSize },
   ]);
   results.summary.smallest.credentialSize = getSmallestCredential([
     { name: "ECDSA", size: avg(results.algorithms.ecdsa.credentialSize) },
+    { name: rsaName, size: avg(results.algorithms.rsa.credentialSize) },
     {
-      name: "ML-DSA-44",
+      name: mldsaName,
       size: avg(results.algorithms.dilithium2.credentialSize),
     },
     {
-      name: "Falcon-512",
+      name: falconName,
       size: avg(results.algorithms.falcon512.credentialSize),
     },
+    {
+      name: slhdsaName,
+      size: avg(results.algorithms.slhdsa.credentialSize),
+    },
   ]);
 
   const report = generateMarkdownReport(results);
@@ -240,15 +311,18 @@ function generateMarkdownReport(results) {
 | Algorithm | Key Gen Avg (ms) | Sign Avg (ms) | Verify Avg (ms) | Signature Size (bytes) | Credential Size (bytes) |
 | --- | ---: | ---: | ---: | ---: | ---: |
 | ${algorithms.ecdsa.name} | ${avg(algorithms.ecdsa.keyGenTime).toFixed(3)} | ${avg(algorithms.ecdsa.signTime).toFixed(3)} | ${avg(algorithms.ecdsa.verifyTime).toFixed(3)} | ${algorithms.ecdsa.signatureSize} | ${Math.round(avg(algorithms.ecdsa.credentialSize))} |
+| ${algorithms.rsa.name} | ${avg(algorithms.rsa.keyGenTime).toFixed(3)} | ${avg(algorithms.rsa.signTime).toFixed(3)} | ${avg(algorithms.rsa.verifyTime).toFixed(3)} | ${algorithms.rsa.signatureSize} | ${Math.round(avg(algorithms.rsa.credentialSize))} |
 | ${algorithms.dilithium2.name} | ${avg(algorithms.dilithium2.keyGenTime).toFixed(3)} | ${avg(algorithms.dilithium2.signTime).toFixed(3)} | ${avg(algorithms.dilithium2.verifyTime).toFixed(3)} | ${algorithms.dilithium2.signatureSize} | ${Math.round(avg(algorithms.dilithium2.credentialSize))} |
 | ${algorithms.falcon512.name} | ${avg(algorithms.falcon512.keyGenTime).toFixed(3)} | ${avg(algorithms.falcon512.signTime).toFixed(3)} | ${avg(algorithms.falcon512.verifyTime).toFixed(3)} | ${algorithms.falcon512.signatureSize} | ${Math.round(avg(algorithms.falcon512.credentialSize))} |
+| ${algorithms.slhdsa.name} | ${avg(algorithms.slhdsa.keyGenTime).toFixed(3)} | ${avg(algorithms.slhdsa.signTime).toFixed(3)} | ${avg(algorithms.slhdsa.verifyTime).toFixed(3)} | ${algorithms.slhdsa.signatureSize} | ${Math.round(avg(algorithms.slhdsa.credentialSize))} |
 
 ## Pi 3 Notes
 
 - ECDSA should be the practical baseline on a Pi 3.
-- RSA-2048 is usable but usually slower.
-- ML-DSA-44 is the current NIST PQ benchmark path.
-- Falcon-512 is the heaviest path and may be significantly slower on this hardware.
+- ${algorithms.rsa.name} is usable but usually slower; the native backend caches parsed keys.
+- ${algorithms.dilithium2.name} is the current NIST PQ benchmark path.
+- ${algorithms.falcon512.name} is the heaviest path and may be significantly slower on this hardware.
+- ${algorithms.slhdsa.name} is the conservative hash-based option; "s" variants sign far slower than "f" variants.
 `;
 }
 
@@ -287,6 +361,94 @@ function readArgValue(name) {
   return process.argv[index + 1];
 }
 
+function parseMLDSAParameterSet(value) {
+  if (value === undefined) {
+    return "ML-DSA-44";
+  }
+
+  const parameterSet = String(value).startsWith("ML-DSA-")
+    ? String(value)
+    : `ML-DSA-${value}`;
+  if (!(parameterSet in MLDSA_KEY_SIZES)) {
+    console.error("--mldsa must be one of 44, 65 or 87");
+    process.exit(1);
+  }
+
+  return parameterSet;
+}
+
+function parseFalconVariant(value) {
+  if (value === undefined) {
+    return "Falcon-512";
+  }
+
+  const variant = String(value).startsWith("Falcon-")
+    ? String(value)
+    : `Falcon-${value}`;
+  if (!(variant in FALCON_KEY_SIZES)) {
+    console.error("--falcon must be one of 512 or 1024");
+    process.exit(1);
+  }
+
+  return variant;
+}
+
+function parseSLHDSAParameterSet(value) {
+  if (value === undefined) {
+    return "SLH-DSA-SHA2-128f";
+  }
+
+  const parameterSet = String(value).startsWith("SLH-DSA-")
+    ? String(value)
+    : `SLH-DSA-SHA2-${value}`;
+  if (!(parameterSet in SLHDSA_KEY_SIZES)) {
+    console.error("--slhdsa must be one of 128s or 128f");
+    process.exit(1);
+  }
+
+  return parameterSet;
+}
+
+function parseRSAKeySize(value) {
+  if (value === undefined) {
+    return 2048;
+  }
+
+  const keySize = Number.parseInt(String(value), 10);
+  if (![2048, 3072, 4096].includes(keySize)) {
+    console.error("--rsa-bits must be one of 2048, 3072 or 4096");
+    process.exit(1);
+  }
+
+  return keySize;
+}
+
+function parseRSABackend(value) {
+  if (value === undefined) {
+    return "native";
+  }
+
+  if (!RSA_BACKENDS.includes(String(value))) {
+    console.error("--rsa-backend must be one of native or node-rsa");
+    process.exit(1);
+  }
+
+  return String(value);
+}
+
+function parseRSAPadding(value) {
+  if (value === undefined) {
+    return "pss";
+  }
+
+  if (!(String(value) in RSA_PADDINGS)) {
+    console.error("--rsa-padding must be one of pss or pkcs1");
+    process.exit(1);
+  }
+
+  return String(value);
+}
+
 function parsePositiveInteger(value, fallback) {
   const parsed = Number.parseInt(String(value ?? ""), 10);
   if (!Number.isFinite(parsed) || parsed <= 0) {
@@ -299,4 +461,4 @@ function parsePositiveInteger(value, fallback) {
 main().catch((error) => {
   console.error("Pi benchmark failed:", error);
   process.exit(1);
-});
\ No newline at end of file
+});
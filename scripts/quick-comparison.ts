@@ -11,6 +11,8 @@ import {
   ECDSACryptoService,
   RSACryptoService,
   PQCryptoService,
+  FalconCryptoService,
+  SLHDSACryptoService,
   VCIssuer,
   VCVerifier,
 } from "../src";
@@ -46,9 +48,22 @@ async function runQuickComparison() {
   await testAlgorithm(new RSACryptoService(4096), "RSA-4096");
 
   // Post-Quantum Test
-  console.log("\n4️⃣  ML-DSA-65 (Post-Quantum / Dilithium3)");
+  const mldsa = new PQCryptoService("ML-DSA-65");
+  console.log(`\n4️⃣  ${mldsa.getParameterSet()} (Post-Quantum / Dilithium3)`);
   console.log("-".repeat(80));
-  await testAlgorithm(new PQCryptoService(), "ML-DSA-65");
+  await testAlgorithm(mldsa, mldsa.getParameterSet());
+
+  // Post-Quantum Test (Falcon)
+  const falcon = new FalconCryptoService("Falcon-1024");
+  console.log(`\n5️⃣  ${falcon.getVariant()} (Post-Quantum / NIST Level 5)`);
+  console.log("-".repeat(80));
+  await testAlgorithm(falcon, falcon.getVariant());
+
+  // Post-Quantum Test (hash-based)
+  const slhdsa = new SLHDSACryptoService("SLH-DSA-SHA2-128s");
+  console.log(`\n6️⃣  ${slhdsa.getParameterSet()} (Post-Quantum / Hash-Based)`);
+  console.log("-".repeat(80));
+  await testAlgorithm(slhdsa, slhdsa.getParameterSet());
 
   console.log("\n" + "=".repeat(80));
   console.log("COMPARISON COMPLETE");
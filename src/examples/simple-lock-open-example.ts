@@ -1,30 +1,39 @@
 import {
   ECDSACryptoService,
+  OffChainService,
+  HolderBindingService,
+  VCHolder,
   VCIssuer,
   VCVerifier,
   AccessControlCredentialSubject,
 } from "../index";
 
 async function main() {
-  // 1. Generate keypair for the lock admin (issuer)
+  // 1. Generate keypairs for the lock admin (issuer) and the user (holder)
   const crypto = new ECDSACryptoService();
+  const offChain = new OffChainService(crypto);
   const issuerIdentity = await crypto.generateIdentity();
+  const holderIdentity = await crypto.generateIdentity();
   const userEmail = "example@user.com";
 
-  // 2. Issue a VC for lock #1 (Test Lock) to example@user.com
-  const issuer = new VCIssuer();
+  // 2. Issue a VC for lock #1 (Test Lock) to example@user.com, bound to the
+  //    user's key: credentialSubject.id is the did:key of the holder key
+  const issuer = new VCIssuer(crypto, offChain);
   const lockId = "lock-1";
   const lockName = "Test Lock";
-  const credentialSubject: AccessControlCredentialSubject = {
-    id: `did:key:${issuerIdentity.publicKey}`,
-    userMetaDataHash: crypto.hash(userEmail),
-    lock: {
-      id: lockId,
-      name: lockName,
-    },
-    accessLevel: "standard",
-    permissions: ["unlock"],
-  };
+  const credentialSubject: AccessControlCredentialSubject =
+    new HolderBindingService(crypto).bindSubject(
+      {
+        userMetaDataHash: crypto.hash(userEmail),
+        lock: {
+          id: lockId,
+          name: lockName,
+        },
+        accessLevel: "standard",
+        permissions: ["unlock"],
+      },
+      holderIdentity.publicKey
+    );
   const vc = await issuer.issueOffChainCredential(
     { id: "did:example:lock-admin", name: "Lock Admin" },
     credentialSubject,
@@ -36,12 +45,25 @@ async function main() {
   );
   console.log("Issued Verifiable Credential:\n", vc);
 
-  // 3. Simulate the lock verifying the credential and opening
-  const verifier = new VCVerifier();
+  // 3. The lock sends a fresh challenge; the user's wallet signs it, with
+  //    the lock's id as domain, with the holder key
+  const challenge = offChain.createChallenge();
+  const signature = await new VCHolder().proveHolderBinding(
+    challenge,
+    holderIdentity.privateKey,
+    lockId
+  );
+
+  // 4. Simulate the lock verifying the credential and the proof of
+  //    possession, and opening
+  const verifier = new VCVerifier(crypto, offChain);
   const result = await verifier.verifyOffChainCredential(
     vc,
     issuerIdentity.publicKey,
-    { checkExpiration: true }
+    {
+      checkExpiration: true,
+      holderBinding: { challenge, domain: lockId, signature },
+    }
   );
 
   console.log("\nVerification Result:", result);
@@ -54,6 +76,30 @@ async function main() {
   } else {
     console.log("\n❌ Access denied!");
   }
+
+  // 5. Someone with a copy of the credential, but not the holder key
+  const attacker = await crypto.generateIdentity();
+  const replayChallenge = offChain.createChallenge();
+  const copied = await verifier.verifyOffChainCredential(
+    vc,
+    issuerIdentity.publicKey,
+    {
+      checkExpiration: true,
+      holderBinding: {
+        challenge: replayChallenge,
+        domain: lockId,
+        signature: await new VCHolder().proveHolderBinding(
+          replayChallenge,
+          attacker.privateKey,
+          lockId
+        ),
+      },
+    }
+  );
+  console.log(
+    "\nCopied credential:",
+    copied.verified ? "accepted" : copied.error
+  );
 }
 
 main().catch(console.error);
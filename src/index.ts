@@ -14,7 +14,7 @@ export * from "./types/w3c-vc.types";
 // ============================================================================
 // LEGACY TYPES (for backward compatibility)
 // ============================================================================
-export { CryptoIdentity, Hash, Address } from "./types";
+export { CryptoIdentity, Signer, Hash, Address } from "./types";
 
 // ============================================================================
 // NEW SERVICE-BASED ARCHITECTURE (Recommended)
@@ -22,9 +22,59 @@ export { CryptoIdentity, Hash, Address } from "./types";
 
 // Core crypto services
 export { CryptoService, ECDSACryptoService } from "./services/CryptoService";
-export { RSACryptoService } from "./services/RSACryptoService";
-export { PQCryptoService } from "./services/PQCryptoService";
-export { FalconCryptoService } from "./services/FalconCryptoService";
+export {
+  RSACryptoService,
+  RSABackend,
+  RSAPadding,
+} from "./services/RSACryptoService";
+export { Ed25519CryptoService } from "./services/Ed25519CryptoService";
+export { P256CryptoService } from "./services/P256CryptoService";
+export { BLSCryptoService } from "./services/BLSCryptoService";
+export { BBSCryptoService } from "./services/BBSCryptoService";
+export {
+  PQCryptoService,
+  MLDSAParameterSet,
+} from "./services/PQCryptoService";
+export {
+  FalconCryptoService,
+  FalconVariant,
+} from "./services/FalconCryptoService";
+export {
+  SLHDSACryptoService,
+  SLHDSAParameterSet,
+} from "./services/SLHDSACryptoService";
+export {
+  CompositeCryptoService,
+  CompositeVerificationMode,
+} from "./services/CompositeCryptoService";
+export {
+  canonicalizeJSON,
+  CanonicalizationVersion,
+  DEFAULT_CANONICALIZATION,
+  resolveCanonicalization,
+} from "./services/JsonCanonicalizer";
+export {
+  KeyFormatService,
+  KeyAlgorithm,
+  JWK,
+  Multikey,
+} from "./services/KeyFormatService";
+export {
+  KeystoreService,
+  EncryptedKeystore,
+  ScryptParams,
+} from "./services/KeystoreService";
+export { InMemorySigner } from "./services/InMemorySigner";
+export {
+  RemoteSigner,
+  RemoteSignerRequest,
+  RemoteSignerTransport,
+} from "./services/RemoteSigner";
+export {
+  HDKeyService,
+  HDKeyLocation,
+  HD_ROOT_PATH,
+} from "./services/HDKeyService";
 
 // Separation of concerns: on-chain vs off-chain
 export { OffChainService } from "./services/OffChainService";
@@ -32,8 +82,56 @@ export { OnChainService } from "./services/OnChainService";
 
 // W3C VC issuing and verification
 export { VCIssuer } from "./services/VCIssuer";
-export { VCVerifier } from "./services/VCVerifier";
+export { VCVerifier, IssuerKeyRecovery } from "./services/VCVerifier";
+export { VCHolder } from "./services/VCHolder";
+export { VPBuilder, PresentationProofOptions } from "./services/VPBuilder";
+export {
+  VPVerifier,
+  PresentationVerificationOptions,
+} from "./services/VPVerifier";
 export { VCRevoke } from "./services/VCRevoke";
+export {
+  HolderBindingService,
+  HolderBindingCheck,
+  HolderBindingMethod,
+  HolderConfirmation,
+} from "./services/HolderBindingService";
+export { getProofs, createProofDocument } from "./services/ProofSet";
+export {
+  AlgorithmRegistry,
+  AlgorithmRegistration,
+} from "./services/AlgorithmRegistry";
+export {
+  DataIntegrityService,
+  DataIntegrityProofOptions,
+  DataIntegrityCryptosuite,
+  ECDSACryptosuite,
+  EdDSACryptosuite,
+  ECDSA_CRYPTOSUITES,
+  EDDSA_CRYPTOSUITES,
+} from "./services/DataIntegrityService";
+export { RDFCanonicalizer, JsonLdContext } from "./services/RDFCanonicalizer";
+export {
+  JoseService,
+  JoseHeader,
+  DecodedJWS,
+  VCJwtPayload,
+  VC_JWT_MEDIA_TYPE,
+} from "./services/JoseService";
+export {
+  SDJwtService,
+  SDJwtDisclosure,
+  SDJwtKeyBinding,
+  ParsedSDJwt,
+  SD_JWT_VC_MEDIA_TYPE,
+} from "./services/SDJwtService";
+export { encodeCBOR, decodeCBOR, CBORTag } from "./services/CborCodec";
+export {
+  CoseService,
+  CoseHeader,
+  DecodedCOSE,
+  CoseSizeReport,
+} from "./services/CoseService";
 
 // ============================================================================
 // DEFAULT EXPORT (convenience)
@@ -0,0 +1,197 @@
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { RSACryptoService } from "./RSACryptoService";
+import { Ed25519CryptoService } from "./Ed25519CryptoService";
+import { P256CryptoService } from "./P256CryptoService";
+import { BLSCryptoService } from "./BLSCryptoService";
+import { PQCryptoService } from "./PQCryptoService";
+import { FalconCryptoService } from "./FalconCryptoService";
+import { SLHDSACryptoService } from "./SLHDSACryptoService";
+
+/**
+ * One proof type (and cryptosuite) handled by a CryptoService
+ */
+export interface AlgorithmRegistration {
+  proofType: string;
+  cryptosuite?: string;
+  cryptoService: CryptoService;
+}
+
+/**
+ * Algorithm Registry
+ *
+ * Maps proof `type` and `cryptosuite` values to the CryptoService that
+ * creates and verifies them.
+ *
+ * - VCIssuer looks up the proof type of its CryptoService here
+ * - VCVerifier, given a registry, picks the CryptoService from each proof,
+ *   so one verifier accepts credentials of every registered algorithm
+ *
+ * Services are matched by instance, or by class and cryptosuite, never by
+ * constructor name (which minifiers rename).
+ *
+ * Use case: Gateways that verify credentials of several algorithms at once
+ */
+export class AlgorithmRegistry {
+  private registrations: AlgorithmRegistration[] = [];
+
+  /**
+   * Create a registry with every built-in algorithm
+   * - EcdsaSecp256k1Signature2020 / EcdsaSecp256k1RecoverySignature2020 (ECDSA)
+   * - RsaSignature2018 with "rsa-pss-sha256" and "rsa-pkcs1-sha256" (RSA),
+   *   and without cryptosuite for proofs issued before the padding was
+   *   recorded (RSA-PSS, the default)
+   * - Ed25519Sha256Signature (hex signature over the SHA-256 credential
+   *   hash, not Ed25519Signature2020), EcdsaSecp256r1Signature2019 (P-256)
+   * - DataIntegrityProof with "ecdsa-jcs-2019" and "ecdsa-rdfc-2019" (P-256)
+   * - DataIntegrityProof with "eddsa-jcs-2022" and "eddsa-rdfc-2022" (Ed25519)
+   * - DataIntegrityProof for BLS12-381, ML-DSA, Falcon and SLH-DSA,
+   *   one registration per cryptosuite
+   *
+   * Composite and BBS services need explicit setup and are not included.
+   *
+   * @returns Registry with the built-in algorithms
+   */
+  static createDefault(): AlgorithmRegistry {
+    const ecdsa = new ECDSACryptoService();
+    const ed25519 = new Ed25519CryptoService();
+    const p256 = new P256CryptoService();
+    const rsa = new RSACryptoService();
+    const registry = new AlgorithmRegistry()
+      .register(ecdsa, "EcdsaSecp256k1Signature2020")
+      .register(ecdsa, "EcdsaSecp256k1RecoverySignature2020")
+      .register(rsa, "RsaSignature2018")
+      .register(rsa.withPadding("pkcs1"), "RsaSignature2018")
+      .register(rsa, "RsaSignature2018", "")
+      .register(ed25519, "Ed25519Sha256Signature")
+      .register(p256, "EcdsaSecp256r1Signature2019")
+      .register(p256, "DataIntegrityProof", "ecdsa-jcs-2019")
+      .register(p256, "DataIntegrityProof", "ecdsa-rdfc-2019")
+      .register(ed25519, "DataIntegrityProof", "eddsa-jcs-2022")
+      .register(ed25519, "DataIntegrityProof", "eddsa-rdfc-2022")
+      .register(new BLSCryptoService());
+
+    for (const parameterSet of [
+      "ML-DSA-44",
+      "ML-DSA-65",
+      "ML-DSA-87",
+    ] as const) {
+      registry.register(new PQCryptoService(parameterSet));
+    }
+    for (const variant of ["Falcon-512", "Falcon-1024"] as const) {
+      registry.register(new FalconCryptoService(variant));
+    }
+    for (const parameterSet of [
+      "SLH-DSA-SHA2-128s",
+      "SLH-DSA-SHA2-128f",
+      "SLH-DSA-SHA2-192s",
+      "SLH-DSA-SHA2-192f",
+      "SLH-DSA-SHA2-256s",
+      "SLH-DSA-SHA2-256f",
+    ] as const) {
+      registry.register(new SLHDSACryptoService(parameterSet));
+    }
+
+    return registry;
+  }
+
+  /**
+   * Register a CryptoService for a proof type
+   * Replaces an earlier registration of the same proof type and cryptosuite
+   *
+   * @param cryptoService - Service that signs and verifies the proofs
+   * @param proofType - Proof type (defaults to "DataIntegrityProof")
+   * @param cryptosuite - Cryptosuite (defaults to the service's own; "" for
+   *   proofs without one)
+   * @returns This registry, for chaining
+   *
+   * @example
+   * ```typescript
+   * const registry = AlgorithmRegistry.createDefault().register(
+   *   new CompositeCryptoService(new ECDSACryptoService(), new PQCryptoService())
+   * );
+   * const verifier = new VCVerifier(registry);
+   * ```
+   */
+  register(
+    cryptoService: CryptoService,
+    proofType: string = "DataIntegrityProof",
+    cryptosuite: string | undefined = cryptoService.getCryptosuite?.(),
+  ): this {
+    this.registrations = this.registrations.filter(
+      (entry) =>
+        entry.proofType !== proofType || entry.cryptosuite !== cryptosuite,
+    );
+    this.registrations.push({ proofType, cryptosuite, cryptoService });
+    return this;
+  }
+
+  /**
+   * Find the CryptoService for a proof
+   * A proof without cryptosuite only matches registrations without one, and
+   * vice versa, so a proof is never verified with the wrong variant
+   *
+   * @param proofType - Proof type of the credential
+   * @param cryptosuite - Cryptosuite of the proof, if any
+   * @returns Matching CryptoService, or undefined if none is registered
+   */
+  resolve(proofType: string, cryptosuite?: string): CryptoService | undefined {
+    return this.registrations.find(
+      (entry) =>
+        entry.proofType === proofType &&
+        (entry.cryptosuite || undefined) === (cryptosuite || undefined),
+    )?.cryptoService;
+  }
+
+  /**
+   * Find the registration (proof type and cryptosuite) of a CryptoService
+   * Matches the registered instance first, then any service of the same class
+   * and cryptosuite
+   *
+   * @param cryptoService - Service used for issuing
+   * @returns First matching registration, or undefined
+   */
+  lookup(cryptoService: CryptoService): AlgorithmRegistration | undefined {
+    const cryptosuite = cryptoService.getCryptosuite?.();
+    return (
+      this.registrations.find(
+        (entry) => entry.cryptoService === cryptoService,
+      ) ||
+      this.registrations.find(
+        (entry) =>
+          entry.cryptoService.constructor === cryptoService.constructor &&
+          entry.cryptosuite === cryptosuite,
+      )
+    );
+  }
+
+  /**
+   * Find the CryptoService for a JOSE algorithm (the "alg" of a JWS header)
+   *
+   * @param algorithm - JOSE algorithm, e.g. "ES256K"
+   * @returns First registered service with that algorithm, or undefined
+   */
+  resolveJoseAlgorithm(algorithm: string): CryptoService | undefined {
+    return this.registrations.find(
+      (entry) => entry.cryptoService.getJoseAlgorithm?.() === algorithm,
+    )?.cryptoService;
+  }
+
+  /**
+   * Find the CryptoService for a COSE algorithm (the "alg" of a COSE header)
+   *
+   * @param algorithm - COSE algorithm, e.g. -47
+   * @returns First registered service with that algorithm, or undefined
+   */
+  resolveCoseAlgorithm(algorithm: number | string): CryptoService | undefined {
+    return this.registrations.find(
+      (entry) => entry.cryptoService.getCoseAlgorithm?.() === algorithm,
+    )?.cryptoService;
+  }
+
+  /**
+   * Get every registration, in registration order
+   */
+  getRegistrations(): AlgorithmRegistration[] {
+    return [...this.registrations];
+  }
+}
@@ -0,0 +1,299 @@
+import * as bbs from "@digitalbazaar/bbs-signatures";
+import { createHash } from "crypto";
+import { CryptoService } from "./CryptoService";
+import { CryptoIdentity } from "../types";
+
+const CIPHERSUITE = bbs.CIPHERSUITES.BLS12381_SHA256;
+
+/**
+ * BBS Cryptographic Service (BLS12-381-SHA-256 ciphersuite)
+ *
+ * BBS signs a list of messages with one constant-size signature. The holder
+ * can later derive an unlinkable zero-knowledge proof that reveals only some
+ * of the messages, and a verifier checks it with the issuer's public key.
+ *
+ * Key characteristics:
+ * - Secret key: 32 bytes, Public key: 96 bytes (G2), Signature: 80 bytes
+ * - Derived proof: 272 bytes + 32 bytes per hidden message
+ * - Hex encoding with 0x prefix, like ECDSACryptoService
+ *
+ * CREDENTIAL MAPPING (used by VCIssuer, VCHolder and VCVerifier):
+ * - Every credentialSubject claim is one message: the canonical JSON of
+ *   [keys, value], where keys are the property names along the claim's path
+ *   (e.g. ["lock","id"]) and arrays are single claims (e.g. ["permissions"]).
+ *   Keys containing "." or "=" cannot make two claims collide
+ * - Messages are ordered by path
+ * - The BBS header binds the rest of the credential (issuer, validity, type...)
+ *
+ * Use case: Sharing only the claims a third-party lock needs
+ */
+export class BBSCryptoService extends CryptoService {
+  /**
+   * Generate BBS key pair
+   * @returns CryptoIdentity with hex-encoded keys (32-byte secret, 96-byte G2 public key)
+   */
+  async generateIdentity(): Promise<CryptoIdentity> {
+    try {
+      const keypair = await bbs.generateKeyPair({ ciphersuite: CIPHERSUITE });
+
+      // Create pseudo-address from public key hash for consistency with other services
+      const addressHash = createHash("sha256")
+        .update(keypair.publicKey)
+        .digest("hex");
+
+      return {
+        privateKey: "0x" + Buffer.from(keypair.secretKey).toString("hex"),
+        publicKey: "0x" + Buffer.from(keypair.publicKey).toString("hex"),
+        address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
+      };
+    } catch (error) {
+      throw new Error(`BBS key generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Sign data as a single BBS message
+   * @param data - Hash string to sign (hex format)
+   * @param privateKey - Hex-encoded 32-byte BBS secret key
+   * @returns Hex-encoded 80-byte signature
+   */
+  async sign(data: string, privateKey: string): Promise<string> {
+    try {
+      const signature = await bbs.sign({
+        secretKey: this.fromHex(privateKey),
+        header: new Uint8Array(),
+        messages: [this.fromHex(data)],
+        ciphersuite: CIPHERSUITE,
+      });
+      return "0x" + Buffer.from(signature).toString("hex");
+    } catch (error) {
+      throw new Error(`BBS signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify a single-message BBS signature
+   * @param data - Original hash string (hex format)
+   * @param signature - Hex-encoded signature
+   * @param publicKey - Hex-encoded 96-byte BBS public key
+   * @returns True if signature is valid
+   */
+  async verify(
+    data: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      return await bbs.verifySignature({
+        publicKey: this.fromHex(publicKey),
+        signature: this.fromHex(signature),
+        header: new Uint8Array(),
+        messages: [this.fromHex(data)],
+        ciphersuite: CIPHERSUITE,
+      });
+    } catch (error) {
+      console.error("BBS verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Sign a list of messages with one BBS signature
+   * @param messages - Messages to sign (order matters)
+   * @param header - Data bound to the signature that is always disclosed
+   * @param privateKey - Hex-encoded 32-byte BBS secret key
+   * @returns Hex-encoded 80-byte signature
+   */
+  async signMessages(
+    messages: string[],
+    header: string,
+    privateKey: string,
+  ): Promise<string> {
+    try {
+      const signature = await bbs.sign({
+        secretKey: this.fromHex(privateKey),
+        header: this.encode(header),
+        messages: messages.map((message) => this.encode(message)),
+        ciphersuite: CIPHERSUITE,
+      });
+      return "0x" + Buffer.from(signature).toString("hex");
+    } catch (error) {
+      throw new Error(`BBS signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify a BBS signature over a list of messages
+   * @param messages - All signed messages, in signing order
+   * @param header - Header used when signing
+   * @param signature - Hex-encoded signature
+   * @param publicKey - Hex-encoded 96-byte BBS public key
+   * @returns True if signature is valid
+   */
+  async verifyMessages(
+    messages: string[],
+    header: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      return await bbs.verifySignature({
+        publicKey: this.fromHex(publicKey),
+        signature: this.fromHex(signature),
+        header: this.encode(header),
+        messages: messages.map((message) => this.encode(message)),
+        ciphersuite: CIPHERSUITE,
+      });
+    } catch (error) {
+      console.error("BBS verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Derive a proof that reveals only some of the signed messages
+   * @param messages - All signed messages, in signing order
+   * @param header - Header used when signing
+   * @param signature - Hex-encoded issuer signature
+   * @param publicKey - Hex-encoded 96-byte BBS public key of the issuer
+   * @param disclosedIndexes - Ascending indexes of the messages to reveal
+   * @param presentationHeader - Verifier challenge bound to the proof
+   * @returns Hex-encoded derived proof
+   */
+  async deriveProof(
+    messages: string[],
+    header: string,
+    signature: string,
+    publicKey: string,
+    disclosedIndexes: number[],
+    presentationHeader: string = "",
+  ): Promise<string> {
+    try {
+      const proof = await bbs.deriveProof({
+        publicKey: this.fromHex(publicKey),
+        signature: this.fromHex(signature),
+        header: this.encode(header),
+        messages: messages.map((message) => this.encode(message)),
+        presentationHeader: this.encode(presentationHeader),
+        disclosedMessageIndexes: disclosedIndexes,
+        ciphersuite: CIPHERSUITE,
+      });
+      return "0x" + Buffer.from(proof).toString("hex");
+    } catch (error) {
+      throw new Error(`BBS proof derivation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify a derived proof against the revealed messages
+   * @param disclosedMessages - Revealed messages, in signing order
+   * @param disclosedIndexes - Indexes of the revealed messages
+   * @param header - Header used when signing
+   * @param proof - Hex-encoded derived proof
+   * @param publicKey - Hex-encoded 96-byte BBS public key of the issuer
+   * @param presentationHeader - Verifier challenge the proof must be bound to
+   * @returns True if proof is valid
+   */
+  async verifyProof(
+    disclosedMessages: string[],
+    disclosedIndexes: number[],
+    header: string,
+    proof: string,
+    publicKey: string,
+    presentationHeader: string = "",
+  ): Promise<boolean> {
+    try {
+      return await bbs.verifyProof({
+        publicKey: this.fromHex(publicKey),
+        proof: this.fromHex(proof),
+        header: this.encode(header),
+        presentationHeader: this.encode(presentationHeader),
+        disclosedMessages: disclosedMessages.map((message) =>
+          this.encode(message),
+        ),
+        disclosedMessageIndexes: disclosedIndexes,
+        ciphersuite: CIPHERSUITE,
+      });
+    } catch (error) {
+      console.error("BBS proof verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Turn credentialSubject claims into ordered BBS messages
+   * @param credentialSubject - Claims to sign (or the revealed subset)
+   * @returns Claim paths (dotted, for display and reveal requests), their
+   *   property names and their messages, ordered by path
+   */
+  createClaimMessages(
+    credentialSubject: Record<string, unknown>,
+  ): { path: string; keys: string[]; message: string }[] {
+    const claims: { path: string; keys: string[]; message: string }[] = [];
+
+    const collect = (value: unknown, keys: string[]) => {
+      if (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.keys(value).length > 0
+      ) {
+        for (const [key, nested] of Object.entries(value)) {
+          if (nested !== undefined) {
+            collect(nested, [...keys, key]);
+          }
+        }
+        return;
+      }
+      claims.push({
+        path: keys.join("."),
+        keys,
+        message: this.canonicalize([keys, value]),
+      });
+    };
+
+    collect(credentialSubject, []);
+    const order = (keys: string[]) => this.canonicalize(keys);
+    return claims.sort((a, b) => (order(a.keys) < order(b.keys) ? -1 : 1));
+  }
+
+  /**
+   * Create the BBS header for a credential
+   * Covers every field except credentialSubject (signed per claim) and proof,
+   * and whether the subject is bound to a holder key, so a derived credential
+   * cannot drop the binding claim (see HolderBindingService.isBound)
+   */
+  createHeader(credential: object, holderBound: boolean = false): string {
+    return this.canonicalize([
+      { ...credential, credentialSubject: undefined, proof: undefined },
+      holderBound,
+    ]);
+  }
+
+  /**
+   * Hash data using SHA-256
+   * @param data - String data to hash
+   * @returns Hex-encoded hash with 0x prefix
+   */
+  hash(data: string): string {
+    return "0x" + createHash("sha256").update(data, "utf8").digest("hex");
+  }
+
+  /**
+   * Decode a 0x-prefixed (or bare) hex string
+   *
+   * @private
+   */
+  private fromHex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value.replace(/^0x/, ""), "hex"));
+  }
+
+  /**
+   * Encode a string as UTF-8 bytes
+   *
+   * @private
+   */
+  private encode(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, "utf8"));
+  }
+}
@@ -0,0 +1,208 @@
+import { bls12_381 } from "@noble/curves/bls12-381.js";
+import { createHash, randomBytes, randomFillSync } from "crypto";
+import { CryptoService } from "./CryptoService";
+import { CryptoIdentity } from "../types";
+
+const bls = bls12_381.longSignatures;
+
+/**
+ * BLS Cryptographic Service using BLS12-381
+ *
+ * Implementation using @noble/curves in "long signature" mode
+ * (public keys in G1, signatures in G2 - same layout as Ethereum consensus).
+ *
+ * Key characteristics:
+ * - Secret key: 32 bytes, Public key: 48 bytes, Signature: 96 bytes (compressed)
+ * - Signatures can be aggregated into a single 96-byte signature
+ * - Many signatures from one issuer verify with a single pairing check
+ * - SHA-256 credential hash (same as RSA/PQ services for fair comparison)
+ * - Hex encoding with 0x prefix, like ECDSACryptoService
+ *
+ * Use case: Gate controllers verifying bursts of credentials at shift change
+ */
+export class BLSCryptoService extends CryptoService {
+  /**
+   * Generate BLS12-381 key pair
+   * @returns CryptoIdentity with hex-encoded keys (32-byte secret, 48-byte G1 public key)
+   */
+  async generateIdentity(): Promise<CryptoIdentity> {
+    try {
+      const seed = new Uint8Array(bls.lengths.seed ?? 48);
+      if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+        crypto.getRandomValues(seed);
+      } else {
+        randomFillSync(seed);
+      }
+
+      const keypair = bls.keygen(seed);
+      const publicKey = keypair.publicKey.toBytes();
+
+      // Create pseudo-address from public key hash for consistency with other services
+      const addressHash = createHash("sha256").update(publicKey).digest("hex");
+
+      return {
+        privateKey: "0x" + Buffer.from(keypair.secretKey).toString("hex"),
+        publicKey: "0x" + Buffer.from(publicKey).toString("hex"),
+        address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
+      };
+    } catch (error) {
+      throw new Error(`BLS key generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Sign data using BLS12-381
+   * @param data - Hash string to sign (hex format)
+   * @param privateKey - Hex-encoded 32-byte BLS secret key
+   * @returns Hex-encoded 96-byte G2 signature
+   */
+  async sign(data: string, privateKey: string): Promise<string> {
+    try {
+      const signature = bls.sign(
+        bls.hash(this.fromHex(data)),
+        this.fromHex(privateKey),
+      );
+      return "0x" + signature.toHex();
+    } catch (error) {
+      throw new Error(`BLS signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify BLS12-381 signature
+   * @param data - Original hash string (hex format)
+   * @param signature - Hex-encoded signature
+   * @param publicKey - Hex-encoded 48-byte G1 public key
+   * @returns True if signature is valid
+   */
+  async verify(
+    data: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      return bls.verify(
+        this.fromHex(signature),
+        bls.hash(this.fromHex(data)),
+        this.fromHex(publicKey),
+      );
+    } catch (error) {
+      console.error("BLS verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Verify many signatures from the same issuer with one pairing check
+   *
+   * Each signature and message hash is weighted with a random 64-bit scalar
+   * before summing, so invalid signatures cannot cancel each other out:
+   *   e(G1, Σ rᵢ·σᵢ) == e(pk, Σ rᵢ·H(mᵢ))
+   *
+   * @param items - Hash strings and their hex-encoded signatures
+   * @param publicKey - Hex-encoded 48-byte G1 public key of the issuer
+   * @returns True only if every signature is valid
+   */
+  async verifyBatch(
+    items: { data: string; signature: string }[],
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      if (items.length === 0) return true;
+
+      const weights = items.map(
+        () => BigInt("0x" + randomBytes(8).toString("hex")) | 1n,
+      );
+      const signature = items
+        .map((item, i) =>
+          bls.Signature.fromHex(item.signature.replace(/^0x/, "")).multiply(
+            weights[i],
+          ),
+        )
+        .reduce((sum, point) => sum.add(point));
+      const message = items
+        .map((item, i) =>
+          bls.hash(this.fromHex(item.data)).multiply(weights[i]),
+        )
+        .reduce((sum, point) => sum.add(point));
+
+      return bls.verify(signature, message, this.fromHex(publicKey));
+    } catch (error) {
+      console.error("BLS batch verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Aggregate signatures into a single 96-byte signature
+   * @param signatures - Hex-encoded signatures (any issuers, distinct messages)
+   * @returns Hex-encoded aggregate signature
+   */
+  aggregateSignatures(signatures: string[]): string {
+    try {
+      const aggregate = bls.aggregateSignatures(
+        signatures.map((signature) => this.fromHex(signature)),
+      );
+      return "0x" + aggregate.toHex();
+    } catch (error) {
+      throw new Error(`BLS aggregation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify an aggregate signature against the signed hashes and their signers
+   *
+   * Messages must be distinct: same-message aggregation across issuers would
+   * additionally need proof of possession to resist rogue-key attacks.
+   *
+   * @param items - Hash strings and the hex-encoded public key that signed each
+   * @param aggregateSignature - Output of aggregateSignatures
+   * @returns True if every signer signed its hash
+   */
+  async verifyAggregate(
+    items: { data: string; publicKey: string }[],
+    aggregateSignature: string,
+  ): Promise<boolean> {
+    try {
+      if (new Set(items.map((item) => item.data)).size !== items.length) {
+        throw new Error("Aggregated messages must be distinct");
+      }
+
+      return bls.verifyBatch(
+        this.fromHex(aggregateSignature),
+        items.map((item) => ({
+          message: bls.hash(this.fromHex(item.data)),
+          publicKey: this.fromHex(item.publicKey),
+        })),
+      );
+    } catch (error) {
+      console.error("BLS aggregate verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Hash data using SHA-256
+   * @param data - String data to hash
+   * @returns Hex-encoded hash with 0x prefix
+   */
+  hash(data: string): string {
+    return "0x" + createHash("sha256").update(data, "utf8").digest("hex");
+  }
+
+  /**
+   * Cryptosuite identifier recorded in issued proofs
+   */
+  getCryptosuite(): string {
+    return "bls12381-g2";
+  }
+
+  /**
+   * Decode a 0x-prefixed (or bare) hex string
+   *
+   * @private
+   */
+  private fromHex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value.replace(/^0x/, ""), "hex"));
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * CBOR tag (major type 6) wrapping a data item
+ */
+export class CBORTag {
+  /**
+   * @param tag - Tag number
+   * @param value - Tagged data item
+   */
+  constructor(
+    readonly tag: number,
+    readonly value: unknown,
+  ) {}
+}
+
+// Major types (RFC 8949, section 3.1)
+const UNSIGNED = 0;
+const NEGATIVE = 1;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+const TAG = 6;
+const SIMPLE = 7;
+
+/**
+ * Encode a value as deterministic CBOR (RFC 8949, section 4.2.1)
+ *
+ * - Shortest argument encoding and definite lengths only
+ * - Map keys sorted by the bytewise order of their encodings
+ * - Safe integers as integers; other numbers as float32 when exact, else float64
+ * - Uint8Array as byte string, Map and plain objects as maps, CBORTag as tag
+ * - false, true, null and undefined as simple values
+ *
+ * @param value - Value to encode
+ * @returns CBOR bytes
+ * @throws Error for non-finite numbers, BigInts, functions and symbols
+ *
+ * @example
+ * ```typescript
+ * encodeCBOR({ a: 1, b: [2, 3] }); // a2 61 61 01 61 62 82 02 03
+ * ```
+ */
+export function encodeCBOR(value: unknown): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  encodeItem(value, chunks);
+  return concatBytes(chunks);
+}
+
+/**
+ * Decode a single CBOR data item
+ *
+ * - Maps decode to Map (keys of any type), tags to CBORTag
+ * - Half, single and double precision floats decode to numbers
+ *
+ * @param bytes - CBOR bytes
+ * @returns Decoded value
+ * @throws Error for indefinite lengths, integers beyond 2^53, duplicate map
+ *   keys, unsupported simple values or trailing bytes
+ */
+export function decodeCBOR(bytes: Uint8Array): unknown {
+  const decoder = new Decoder(bytes);
+  const value = decoder.decodeItem();
+  if (decoder.offset !== bytes.length) {
+    throw new Error("Unexpected bytes after the CBOR data item");
+  }
+  return value;
+}
+
+function encodeItem(value: unknown, chunks: Uint8Array[]): void {
+  if (value === false) {
+    chunks.push(Uint8Array.of(0xf4));
+  } else if (value === true) {
+    chunks.push(Uint8Array.of(0xf5));
+  } else if (value === null) {
+    chunks.push(Uint8Array.of(0xf6));
+  } else if (value === undefined) {
+    chunks.push(Uint8Array.of(0xf7));
+  } else if (typeof value === "number") {
+    encodeNumber(value, chunks);
+  } else if (typeof value === "string") {
+    const bytes = new Uint8Array(Buffer.from(value, "utf8"));
+    chunks.push(encodeHead(TEXT, bytes.length), bytes);
+  } else if (value instanceof Uint8Array) {
+    chunks.push(encodeHead(BYTES, value.length), value);
+  } else if (Array.isArray(value)) {
+    chunks.push(encodeHead(ARRAY, value.length));
+    for (const item of value) {
+      encodeItem(item, chunks);
+    }
+  } else if (value instanceof CBORTag) {
+    chunks.push(encodeHead(TAG, value.tag));
+    encodeItem(value.value, chunks);
+  } else if (value instanceof Map || typeof value === "object") {
+    const entries =
+      value instanceof Map
+        ? [...value.entries()]
+        : Object.entries(value as object);
+    const encoded = entries
+      .map(([key, item]) => [encodeCBOR(key), encodeCBOR(item)])
+      .sort(([a], [b]) => Buffer.compare(a, b));
+    chunks.push(encodeHead(MAP, encoded.length));
+    for (const [key, item] of encoded) {
+      chunks.push(key, item);
+    }
+  } else {
+    throw new Error(`Cannot encode a ${typeof value} as CBOR`);
+  }
+}
+
+function encodeNumber(value: number, chunks: Uint8Array[]): void {
+  if (Number.isSafeInteger(value)) {
+    chunks.push(
+      value >= 0
+        ? encodeHead(UNSIGNED, value)
+        : encodeHead(NEGATIVE, -1 - value),
+    );
+    return;
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error(`Cannot encode non-finite number ${value} as CBOR`);
+  }
+
+  if (Math.fround(value) === value) {
+    const bytes = new Uint8Array(5);
+    bytes[0] = 0xfa;
+    new DataView(bytes.buffer).setFloat32(1, value);
+    chunks.push(bytes);
+  } else {
+    const bytes = new Uint8Array(9);
+    bytes[0] = 0xfb;
+    new DataView(bytes.buffer).setFloat64(1, value);
+    chunks.push(bytes);
+  }
+}
+
+/**
+ * Initial byte and shortest argument of a data item
+ */
+function encodeHead(major: number, argument: number): Uint8Array {
+  if (argument < 24) {
+    return Uint8Array.of((major << 5) | argument);
+  }
+  if (argument < 0x100) {
+    return Uint8Array.of((major << 5) | 24, argument);
+  }
+  if (argument < 0x10000) {
+    return Uint8Array.of((major << 5) | 25, argument >> 8, argument & 0xff);
+  }
+
+  const long = argument >= 0x100000000;
+  const bytes = new Uint8Array(long ? 9 : 5);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = (major << 5) | (long ? 27 : 26);
+  if (long) {
+    view.setBigUint64(1, BigInt(argument));
+  } else {
+    view.setUint32(1, argument);
+  }
+  return bytes;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+/**
+ * Cursor over the bytes of a CBOR data item
+ */
+class Decoder {
+  offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  }
+
+  decodeItem(): unknown {
+    const initial = this.readUint(1);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === SIMPLE) {
+      return this.decodeSimple(info);
+    }
+
+    const argument = this.readArgument(info);
+    switch (major) {
+      case UNSIGNED:
+        return argument;
+      case NEGATIVE:
+        return -1 - argument;
+      case BYTES: {
+        const start = this.take(argument);
+        return new Uint8Array(this.bytes.subarray(start, start + argument));
+      }
+      case TEXT: {
+        const start = this.take(argument);
+        return Buffer.from(
+          this.bytes.subarray(start, start + argument),
+        ).toString("utf8");
+      }
+      case ARRAY: {
+        const items: unknown[] = [];
+        for (let i = 0; i < argument; i++) {
+          items.push(this.decodeItem());
+        }
+        return items;
+      }
+      case MAP: {
+        const map = new Map<unknown, unknown>();
+        const seen = new Set<string>();
+        for (let i = 0; i < argument; i++) {
+          const start = this.offset;
+          const key = this.decodeItem();
+          const encodedKey = Buffer.from(
+            this.bytes.subarray(start, this.offset),
+          ).toString("hex");
+          if (seen.has(encodedKey)) {
+            throw new Error("CBOR map has a duplicate key");
+          }
+          seen.add(encodedKey);
+          map.set(key, this.decodeItem());
+        }
+        return map;
+      }
+      default:
+        return new CBORTag(argument, this.decodeItem());
+    }
+  }
+
+  private decodeSimple(info: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return decodeFloat16(this.readUint(2));
+      case 26:
+        return this.view.getFloat32(this.take(4));
+      case 27:
+        return this.view.getFloat64(this.take(8));
+      default:
+        throw new Error(`Unsupported CBOR simple value ${info}`);
+    }
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        return this.readUint(1);
+      case 25:
+        return this.readUint(2);
+      case 26:
+        return this.readUint(4);
+      case 27: {
+        const value = this.view.getBigUint64(this.take(8));
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new Error("CBOR integer exceeds 2^53 - 1");
+        }
+        return Number(value);
+      }
+      case 31:
+        throw new Error("Indefinite-length CBOR items are not supported");
+      default:
+        throw new Error(`Malformed CBOR: reserved additional info ${info}`);
+    }
+  }
+
+  private readUint(length: 1 | 2 | 4): number {
+    const offset = this.take(length);
+    return length === 1
+      ? this.view.getUint8(offset)
+      : length === 2
+        ? this.view.getUint16(offset)
+        : this.view.getUint32(offset);
+  }
+
+  /**
+   * Move past `length` bytes; returns the offset of the first one
+   */
+  private take(length: number): number {
+    const offset = this.offset;
+    if (offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of CBOR data");
+    }
+    this.offset += length;
+    return offset;
+  }
+}
+
+function decodeFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) {
+    return sign * mantissa * 2 ** -24;
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? NaN : sign * Infinity;
+  }
+  return sign * (mantissa + 1024) * 2 ** (exponent - 25);
+}
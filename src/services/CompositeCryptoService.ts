@@ -0,0 +1,268 @@
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { Ed25519CryptoService } from "./Ed25519CryptoService";
+import { P256CryptoService } from "./P256CryptoService";
+import {
+  CanonicalizationVersion,
+  DEFAULT_CANONICALIZATION,
+} from "./JsonCanonicalizer";
+import { CryptoIdentity } from "../types";
+
+/**
+ * Which halves of a composite signature must be valid
+ * - "both": classical AND post-quantum signature (default)
+ * - "classical": only the classical half, for legacy verifiers
+ */
+export type CompositeVerificationMode = "both" | "classical";
+
+/**
+ * Hybrid (Composite) Cryptographic Service
+ *
+ * Wraps a classical service (e.g. ECDSACryptoService) and a post-quantum
+ * service (e.g. PQCryptoService) and signs every hash with both. A composite
+ * signature only verifies when both halves are valid, so it stays secure as
+ * long as either algorithm is unbroken.
+ *
+ * SERIALIZATION:
+ * Composite keys and signatures are encoded as
+ *   "composite:" + base64url(classical) + "." + base64url(postQuantum)
+ * where each half is the component service's own string encoding.
+ * A composite CryptoIdentity is:
+ * - privateKey: composite of both private keys
+ * - publicKey: composite of both public keys
+ * - address: the classical identity's address (stays usable on-chain)
+ *
+ * HASHING:
+ * The classical service's hash and canonicalization are used, so the classical
+ * half is exactly what a classical-only issuer would have signed. Legacy
+ * verifiers can check it on its own with verificationMode "classical".
+ *
+ * Use case: Migration path to post-quantum without breaking existing locks
+ */
+export class CompositeCryptoService extends CryptoService {
+  static readonly PREFIX = "composite:";
+
+  private classical: CryptoService;
+  private postQuantum: CryptoService;
+  private verificationMode: CompositeVerificationMode;
+
+  /**
+   * @param classical - Classical service (e.g. ECDSACryptoService)
+   * @param postQuantum - Post-quantum service (e.g. PQCryptoService)
+   * @param options - Verification options
+   */
+  constructor(
+    classical: CryptoService,
+    postQuantum: CryptoService,
+    options: { verificationMode?: CompositeVerificationMode } = {},
+  ) {
+    super();
+    this.classical = classical;
+    this.postQuantum = postQuantum;
+    this.verificationMode = options.verificationMode || "both";
+  }
+
+  /**
+   * Encode a classical and a post-quantum value as one composite string
+   * @param classical - Classical key or signature
+   * @param postQuantum - Post-quantum key or signature
+   * @returns Composite string
+   */
+  static encode(classical: string, postQuantum: string): string {
+    return `${CompositeCryptoService.PREFIX}${Buffer.from(
+      classical,
+      "utf8",
+    ).toString("base64url")}.${Buffer.from(postQuantum, "utf8").toString(
+      "base64url",
+    )}`;
+  }
+
+  /**
+   * Decode a composite string into its classical and post-quantum halves
+   * @param value - Composite string
+   * @returns Classical and post-quantum values
+   * @throws Error if the value is not a composite string
+   */
+  static decode(value: string): { classical: string; postQuantum: string } {
+    if (!CompositeCryptoService.isComposite(value)) {
+      throw new Error("Value is not a composite key or signature");
+    }
+
+    const parts = value.slice(CompositeCryptoService.PREFIX.length).split(".");
+    if (parts.length !== 2) {
+      throw new Error("Composite value must have exactly two components");
+    }
+
+    return {
+      classical: Buffer.from(parts[0], "base64url").toString("utf8"),
+      postQuantum: Buffer.from(parts[1], "base64url").toString("utf8"),
+    };
+  }
+
+  /**
+   * Check whether a string uses the composite encoding
+   */
+  static isComposite(value: string): boolean {
+    return value.startsWith(CompositeCryptoService.PREFIX);
+  }
+
+  /**
+   * Combine two existing identities into a composite identity
+   * Useful for adding a post-quantum key to an already deployed classical key
+   *
+   * @param classical - Existing classical identity
+   * @param postQuantum - Post-quantum identity
+   * @returns Composite identity
+   */
+  static combineIdentities(
+    classical: CryptoIdentity,
+    postQuantum: CryptoIdentity,
+  ): CryptoIdentity {
+    return {
+      privateKey: CompositeCryptoService.encode(
+        classical.privateKey,
+        postQuantum.privateKey,
+      ),
+      publicKey: CompositeCryptoService.encode(
+        classical.publicKey,
+        postQuantum.publicKey,
+      ),
+      address: classical.address,
+    };
+  }
+
+  /**
+   * Generate a composite identity (one key pair per component service)
+   * @returns Composite CryptoIdentity
+   */
+  async generateIdentity(): Promise<CryptoIdentity> {
+    try {
+      const [classical, postQuantum] = await Promise.all([
+        this.classical.generateIdentity(),
+        this.postQuantum.generateIdentity(),
+      ]);
+      return CompositeCryptoService.combineIdentities(classical, postQuantum);
+    } catch (error) {
+      throw new Error(`Composite key generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Sign data with both component services
+   * @param data - Hash string to sign
+   * @param privateKey - Composite private key
+   * @returns Composite signature
+   */
+  async sign(data: string, privateKey: string): Promise<string> {
+    try {
+      const keys = CompositeCryptoService.decode(privateKey);
+      const [classicalSignature, postQuantumSignature] = await Promise.all([
+        this.classical.sign(data, keys.classical),
+        this.postQuantum.sign(data, keys.postQuantum),
+      ]);
+      return CompositeCryptoService.encode(
+        classicalSignature,
+        postQuantumSignature,
+      );
+    } catch (error) {
+      throw new Error(`Composite signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify a composite signature
+   *
+   * In "both" mode the signature and key must be composite and both halves
+   * must verify. In "classical" mode only the classical half is checked, and
+   * plain classical keys are accepted as well.
+   *
+   * @param data - Original hash string
+   * @param signature - Composite signature
+   * @param publicKey - Composite public key (or classical key in "classical" mode)
+   * @returns True if signature is valid
+   */
+  async verify(
+    data: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      const signatures = CompositeCryptoService.decode(signature);
+
+      if (this.verificationMode === "classical") {
+        const classicalKey = CompositeCryptoService.isComposite(publicKey)
+          ? CompositeCryptoService.decode(publicKey).classical
+          : publicKey;
+        return this.classical.verify(data, signatures.classical, classicalKey);
+      }
+
+      const keys = CompositeCryptoService.decode(publicKey);
+      const [classicalValid, postQuantumValid] = await Promise.all([
+        this.classical.verify(data, signatures.classical, keys.classical),
+        this.postQuantum.verify(data, signatures.postQuantum, keys.postQuantum),
+      ]);
+      return classicalValid && postQuantumValid;
+    } catch (error) {
+      console.error("Composite verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Hash data using the classical service's hash function
+   */
+  hash(data: string): string {
+    return this.classical.hash(data);
+  }
+
+  /**
+   * Canonicalize using the classical service's canonicalization
+   */
+  canonicalize(
+    obj: unknown,
+    version: CanonicalizationVersion = DEFAULT_CANONICALIZATION,
+  ): string {
+    return this.classical.canonicalize(obj, version);
+  }
+
+  /**
+   * Create a canonical hash using the classical service
+   * Identical to the hash a classical-only issuer would sign
+   */
+  createCanonicalHash(
+    obj: unknown,
+    version: CanonicalizationVersion = DEFAULT_CANONICALIZATION,
+  ): string {
+    return this.classical.createCanonicalHash(obj, version);
+  }
+
+  /**
+   * Cryptosuite identifier, e.g. "composite-ecdsa-mldsa44"
+   */
+  getCryptosuite(): string {
+    return `composite-${this.describe(this.classical)}-${this.describe(
+      this.postQuantum,
+    )}`;
+  }
+
+  /**
+   * Get the configured verification mode
+   */
+  getVerificationMode(): CompositeVerificationMode {
+    return this.verificationMode;
+  }
+
+  /**
+   * Short identifier for a component service
+   *
+   * @private
+   */
+  private describe(service: CryptoService): string {
+    const cryptosuite = service.getCryptosuite?.();
+    if (cryptosuite) return cryptosuite;
+    // Checked by class rather than by name, which minifiers rename
+    if (service instanceof ECDSACryptoService) return "ecdsa";
+    if (service instanceof Ed25519CryptoService) return "ed25519";
+    if (service instanceof P256CryptoService) return "p256";
+    return service.constructor.name.replace(/CryptoService$/, "").toLowerCase();
+  }
+}
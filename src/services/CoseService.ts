@@ -0,0 +1,483 @@
+import { createHash } from "crypto";
+import { ethers } from "ethers";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { encodeCBOR, decodeCBOR, CBORTag } from "./CborCodec";
+import { Credential, W3C_VC_CONTEXT_V2 } from "../types/w3c-vc.types";
+import { Signer } from "../types";
+
+/**
+ * Protected header of a COSE_Sign1 message
+ */
+export interface CoseHeader {
+  alg: number | string; // COSE algorithm, e.g. -47 for ES256K
+  kid?: string;
+}
+
+/**
+ * Parts of a COSE_Sign1 message
+ */
+export interface DecodedCOSE {
+  header: CoseHeader;
+  payload: Uint8Array; // Compact CBOR credential
+  toBeSigned: Uint8Array; // Sig_structure (RFC 9052, section 4.4)
+  signature: Uint8Array;
+}
+
+/**
+ * Sizes of a COSE-secured credential, in bytes
+ */
+export interface CoseSizeReport {
+  total: number; // Whole COSE_Sign1 message
+  payload: number; // Compact CBOR credential
+  signature: number;
+  json: number; // The same credential as JSON (UTF-8), for comparison
+}
+
+// CBOR tag of a COSE_Sign1 message
+const COSE_SIGN1_TAG = 18;
+
+// CBOR tag of an epoch-based date/time
+const EPOCH_DATE_TAG = 1;
+
+// COSE header labels
+const HEADER_ALG = 1;
+const HEADER_KID = 4;
+
+// Compact claim keys; names not listed here stay text keys. Keys 0-23 take a
+// single byte, so they go to the claims every access credential has
+const CLAIM_KEYS = new Map<string, number>(
+  Object.entries({
+    "@context": 1,
+    id: 2,
+    type: 3,
+    issuer: 4,
+    validFrom: 5,
+    validUntil: 6,
+    credentialSubject: 7,
+    credentialStatus: 8,
+    name: 9,
+    description: 10,
+    // AccessControlCredentialSubject
+    userMetaDataHash: 11,
+    lock: 12,
+    accessLevel: 13,
+    permissions: 14,
+    accessSchedule: 15,
+    allowedDays: 16,
+    allowedTimeRanges: 17,
+    start: 18,
+    end: 19,
+    timezone: 20,
+    location: 21,
+    building: 22,
+    floor: 23,
+    room: 24,
+    accessValidFrom: 25,
+    accessValidUntil: 26,
+    // Other credential members
+    credentialSchema: 27,
+    evidence: 28,
+    termsOfUse: 29,
+    statusPurpose: 30,
+    statusListIndex: 31,
+    statusListCredential: 32,
+  }),
+);
+
+const CLAIM_NAMES = new Map(
+  [...CLAIM_KEYS.entries()].map(([name, key]) => [key, name]),
+);
+
+// Compact values of @context and type entries
+const TERM_VALUES = new Map<string, number>([
+  [W3C_VC_CONTEXT_V2, 1],
+  ["VerifiableCredential", 2],
+  ["AccessControlCredential", 3],
+]);
+
+const TERM_NAMES = new Map(
+  [...TERM_VALUES.entries()].map(([name, value]) => [value, name]),
+);
+
+// Members whose string values are looked up in TERM_VALUES
+const TERM_MEMBERS = ["@context", "type"];
+
+// Lowercase hex with 0x prefix, as produced by ethers.hexlify
+const HEX_VALUE = /^0x(?:[0-9a-f]{2})+$/;
+
+// COSE algorithms that sign a SHA-256 digest of the Sig_structure (ES256K,
+// ES256); the others sign the Sig_structure itself
+const SHA256_ALGORITHMS: (number | string)[] = [-47, -7];
+
+// Key algorithms whose services take hex signatures; the others use base64
+const HEX_SIGNATURE_ALGORITHMS = [
+  "secp256k1",
+  "P-256",
+  "Ed25519",
+  "BLS12381G1",
+  "BLS12381G2",
+];
+
+/**
+ * COSE Service
+ *
+ * Secures credentials as COSE_Sign1 messages (RFC 9052) with a compact CBOR
+ * payload, for BLE and NFC locks where every byte counts.
+ *
+ * Payload encoding (lossless with the JSON form):
+ * - Well-known claim names, including every AccessControlCredentialSubject
+ *   claim, become small integer keys; other names stay text keys
+ * - The VC 2.0 context and the VerifiableCredential / AccessControlCredential
+ *   types become small integers
+ * - Lowercase 0x-hex strings (hashes, addresses) become byte strings
+ * - Dates in toISOString() form become epoch dates (tag 1)
+ *
+ * Key characteristics:
+ * - Any CryptoService with a COSE algorithm: ES256K (-47), ES256 (-7),
+ *   EdDSA (-8), ML-DSA (-48, -49, -50), Falcon and SLH-DSA (by name)
+ * - Signatures in COSE form (64-byte r || s for ECDSA, no recovery byte)
+ * - The header algorithm must match the service
+ * - An ES256K access credential fits in about 330 bytes, half the size of
+ *   its unsigned JSON form
+ *
+ * Use case: Credentials presented over BLE or NFC to constrained locks
+ */
+export class CoseService {
+  private cryptoService: CryptoService;
+  private algorithm: number | string;
+  private hexSignatures: boolean;
+
+  /**
+   * @param cryptoService - Service that signs and verifies (defaults to ECDSA)
+   * @throws Error if the service has no COSE algorithm
+   */
+  constructor(cryptoService: CryptoService = new ECDSACryptoService()) {
+    const algorithm = cryptoService.getCoseAlgorithm?.();
+    if (algorithm === undefined) {
+      throw new Error(
+        `${cryptoService.constructor.name} has no COSE algorithm`,
+      );
+    }
+    this.cryptoService = cryptoService;
+    this.algorithm = algorithm;
+    this.hexSignatures = HEX_SIGNATURE_ALGORITHMS.includes(
+      new KeyFormatService(cryptoService).getAlgorithm(),
+    );
+  }
+
+  /**
+   * Get the COSE algorithm of the service (the "alg" header)
+   */
+  getAlgorithm(): number | string {
+    return this.algorithm;
+  }
+
+  /**
+   * Secure a credential as a COSE_Sign1 message
+   * @param credential - Unsigned credential (without proof)
+   * @param signer - Signer or private key of the service's key type
+   * @param options - Key id for the "kid" header (defaults to "<issuer>#keys-1")
+   * @returns Tagged COSE_Sign1 message
+   *
+   * @example
+   * ```typescript
+   * const cose = new CoseService(new ECDSACryptoService());
+   * const message = await cose.signCredential(credential, identity.privateKey);
+   * ```
+   */
+  async signCredential(
+    credential: Credential,
+    signer: string | Signer,
+    options: { kid?: string } = {},
+  ): Promise<Uint8Array> {
+    if ("proof" in credential) {
+      throw new Error("Credentials secured with COSE must not have a proof");
+    }
+
+    const issuer =
+      typeof credential.issuer === "string"
+        ? credential.issuer
+        : credential.issuer.id;
+    const header = encodeCBOR(
+      new Map<number, unknown>([
+        [HEADER_ALG, this.algorithm],
+        [
+          HEADER_KID,
+          new Uint8Array(Buffer.from(options.kid || `${issuer}#keys-1`)),
+        ],
+      ]),
+    );
+    const payload = CoseService.encodeCredential(credential);
+
+    const data = this.createSigningData(
+      CoseService.createToBeSigned(header, payload),
+    );
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+    const signature =
+      typeof signer === "string"
+        ? await this.cryptoService.sign(data, signer)
+        : await signer.sign(data);
+
+    return encodeCBOR(
+      new CBORTag(COSE_SIGN1_TAG, [
+        header,
+        new Map(),
+        payload,
+        this.toSignatureBytes(signature),
+      ]),
+    );
+  }
+
+  /**
+   * Verify the signature of a COSE_Sign1 message
+   * @param message - COSE_Sign1 message or its decoded parts
+   * @param publicKey - Public key of the signer
+   * @returns True if the header algorithm is the service's and the signature
+   *   is valid
+   * @throws Error if the message is malformed
+   */
+  async verify(
+    message: Uint8Array | DecodedCOSE,
+    publicKey: string,
+  ): Promise<boolean> {
+    const { header, toBeSigned, signature } =
+      message instanceof Uint8Array ? CoseService.decode(message) : message;
+    if (header.alg !== this.algorithm) {
+      return false;
+    }
+
+    const data = this.createSigningData(toBeSigned);
+    if (this.cryptoService instanceof ECDSACryptoService) {
+      return this.cryptoService.verifyCompact(
+        data,
+        ethers.hexlify(signature),
+        publicKey,
+      );
+    }
+    return this.cryptoService.verify(
+      data,
+      this.hexSignatures
+        ? ethers.hexlify(signature)
+        : Buffer.from(signature).toString("base64"),
+      publicKey,
+    );
+  }
+
+  /**
+   * Split a COSE_Sign1 message into its parts (without verifying it)
+   * @param message - Tagged or untagged COSE_Sign1 message
+   * @returns Protected header, payload, Sig_structure and signature
+   * @throws Error if the message is malformed
+   */
+  static decode(message: Uint8Array): DecodedCOSE {
+    let item = decodeCBOR(message);
+    if (item instanceof CBORTag) {
+      if (item.tag !== COSE_SIGN1_TAG) {
+        throw new Error(`Unexpected CBOR tag ${item.tag}, expected COSE_Sign1`);
+      }
+      item = item.value;
+    }
+    if (
+      !Array.isArray(item) ||
+      item.length !== 4 ||
+      !(item[0] instanceof Uint8Array) ||
+      !(item[1] instanceof Map) ||
+      !(item[2] instanceof Uint8Array) ||
+      !(item[3] instanceof Uint8Array)
+    ) {
+      throw new Error("Malformed COSE_Sign1 message");
+    }
+    const [headerBytes, , payload, signature] = item;
+
+    const header = decodeCBOR(headerBytes);
+    const alg = header instanceof Map ? header.get(HEADER_ALG) : undefined;
+    if (typeof alg !== "number" && typeof alg !== "string") {
+      throw new Error('COSE protected header has no "alg"');
+    }
+    const kid = (header as Map<unknown, unknown>).get(HEADER_KID);
+
+    return {
+      header: {
+        alg,
+        ...(kid instanceof Uint8Array && {
+          kid: Buffer.from(kid).toString("utf8"),
+        }),
+      },
+      payload,
+      toBeSigned: CoseService.createToBeSigned(headerBytes, payload),
+      signature,
+    };
+  }
+
+  /**
+   * Encode a credential as compact CBOR (the COSE payload)
+   * @param credential - Credential, with or without proof
+   * @returns CBOR bytes
+   * @throws Error if @context or type hold numbers, which the compact form
+   *   reserves for well-known terms
+   */
+  static encodeCredential(credential: Credential): Uint8Array {
+    // Only what survives JSON serialization is encoded
+    const json: unknown = JSON.parse(JSON.stringify(credential));
+    return encodeCBOR(CoseService.compact(json, false));
+  }
+
+  /**
+   * Decode a compact CBOR credential into its JSON form
+   * @param payload - CBOR bytes from encodeCredential
+   * @returns Credential
+   * @throws Error for unknown claim keys or terms
+   */
+  static decodeCredential(payload: Uint8Array): Credential {
+    const credential = CoseService.expand(decodeCBOR(payload), false);
+    if (
+      typeof credential !== "object" ||
+      credential === null ||
+      Array.isArray(credential)
+    ) {
+      throw new Error("COSE payload is not a credential");
+    }
+    return credential as Credential;
+  }
+
+  /**
+   * Measure a COSE-secured credential
+   * @param message - COSE_Sign1 message
+   * @returns Sizes in bytes
+   */
+  static getSizeReport(message: Uint8Array): CoseSizeReport {
+    const { payload, signature } = CoseService.decode(message);
+    return {
+      total: message.length,
+      payload: payload.length,
+      signature: signature.length,
+      json: Buffer.byteLength(
+        JSON.stringify(CoseService.decodeCredential(payload)),
+      ),
+    };
+  }
+
+  /**
+   * Sig_structure of a COSE_Sign1 message, without external data
+   *
+   * @private
+   */
+  private static createToBeSigned(
+    header: Uint8Array,
+    payload: Uint8Array,
+  ): Uint8Array {
+    return encodeCBOR(["Signature1", header, new Uint8Array(0), payload]);
+  }
+
+  /**
+   * Data handed to the raw signer
+   * - ES256K / ES256 sign SHA-256(Sig_structure)
+   * - Other algorithms sign the Sig_structure itself
+   *
+   * @private
+   */
+  private createSigningData(toBeSigned: Uint8Array): string {
+    if (SHA256_ALGORITHMS.includes(this.algorithm)) {
+      return "0x" + createHash("sha256").update(toBeSigned).digest("hex");
+    }
+    return ethers.hexlify(toBeSigned);
+  }
+
+  /**
+   * Raw signature bytes; ES256K signatures lose their recovery byte
+   *
+   * @private
+   */
+  private toSignatureBytes(signature: string): Uint8Array {
+    const bytes = this.hexSignatures
+      ? ethers.getBytes(signature)
+      : new Uint8Array(Buffer.from(signature, "base64"));
+    return this.cryptoService instanceof ECDSACryptoService &&
+      bytes.length === 65
+      ? bytes.slice(0, 64)
+      : bytes;
+  }
+
+  /**
+   * JSON value to its compact CBOR form
+   *
+   * @private
+   */
+  private static compact(value: unknown, term: boolean): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => CoseService.compact(item, term));
+    }
+    if (typeof value === "object" && value !== null) {
+      return new Map(
+        Object.entries(value).map(([name, item]) => [
+          CLAIM_KEYS.get(name) ?? name,
+          CoseService.compact(item, TERM_MEMBERS.includes(name)),
+        ]),
+      );
+    }
+    if (term && typeof value === "number") {
+      throw new Error("Credential @context and type must not hold numbers");
+    }
+    if (typeof value !== "string") {
+      return value;
+    }
+
+    const termValue = term ? TERM_VALUES.get(value) : undefined;
+    if (termValue !== undefined) {
+      return termValue;
+    }
+    if (HEX_VALUE.test(value)) {
+      return ethers.getBytes(value);
+    }
+    const time = new Date(value).getTime();
+    if (!Number.isNaN(time) && new Date(time).toISOString() === value) {
+      return new CBORTag(EPOCH_DATE_TAG, time / 1000);
+    }
+    return value;
+  }
+
+  /**
+   * Compact CBOR value back to its JSON form
+   *
+   * @private
+   */
+  private static expand(value: unknown, term: boolean): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => CoseService.expand(item, term));
+    }
+    if (value instanceof Map) {
+      const entries = [...value.entries()].map(([key, item]) => {
+        const name = typeof key === "number" ? CLAIM_NAMES.get(key) : key;
+        if (typeof name !== "string") {
+          throw new Error(`Unknown claim key: ${key}`);
+        }
+        return [name, CoseService.expand(item, TERM_MEMBERS.includes(name))];
+      });
+      const expanded = Object.fromEntries(entries);
+      if (Object.keys(expanded).length !== entries.length) {
+        throw new Error("COSE payload encodes a claim twice");
+      }
+      return expanded;
+    }
+    if (value instanceof Uint8Array) {
+      return ethers.hexlify(value);
+    }
+    if (value instanceof CBORTag) {
+      if (value.tag !== EPOCH_DATE_TAG || typeof value.value !== "number") {
+        throw new Error(`Unsupported CBOR tag ${value.tag}`);
+      }
+      return new Date(Math.round(value.value * 1000)).toISOString();
+    }
+    if (term && typeof value === "number") {
+      const name = TERM_NAMES.get(value);
+      if (name === undefined) {
+        throw new Error(`Unknown term: ${value}`);
+      }
+      return name;
+    }
+    return value;
+  }
+}
@@ -1,5 +1,15 @@
 import { ethers, SigningKey } from "ethers";
 import { CryptoIdentity } from "../types";
+import {
+  canonicalizeJSON,
+  CanonicalizationVersion,
+  DEFAULT_CANONICALIZATION,
+} from "./JsonCanonicalizer";
+
+// Order of the secp256k1 group, to bring signatures to low-S form
+const SECP256K1_N = BigInt(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141"
+);
 
 /**
  * Base Cryptographic Service
@@ -53,17 +63,88 @@ export abstract class CryptoService {
 
   /**
    * Canonicalize an object for deterministic hashing/signing
+   * Shared by every service: RFC 8785 (JCS) unless the legacy algorithm is
+   * requested to verify credentials signed with it
+   *
    * @param obj - Object to canonicalize
+   * @param version - Canonicalization algorithm (defaults to "rfc8785")
    * @returns Canonical string representation
+   *
+   * @example
+   * ```typescript
+   * const crypto = new ECDSACryptoService();
+   * const canonical = crypto.canonicalize({ b: 2, a: 1, c: undefined });
+   * // Result: '{"a":1,"b":2}' (sorted keys, undefined filtered)
+   * ```
    */
-  abstract canonicalize(obj: unknown): string;
+  canonicalize(
+    obj: unknown,
+    version: CanonicalizationVersion = DEFAULT_CANONICALIZATION
+  ): string {
+    return canonicalizeJSON(obj, version);
+  }
 
   /**
    * Create a canonical hash of an object for signing
-   * @param obj - Object to hash
-   * @returns Hash string
+   * This ensures consistent hashing regardless of JSON property order
+   *
+   * CRITICAL: This must be deterministic!
+   * The same object must always produce the same hash.
+   *
+   * Used by VCIssuer, VCVerifier, and VCRevoke for consistent credential hashing.
+   *
+   * @param obj - Object to hash (typically a Credential)
+   * @param version - Canonicalization algorithm (defaults to "rfc8785")
+   * @returns Hash of the canonical representation (algorithm's hash function)
+   *
+   * @example
+   * ```typescript
+   * const crypto = new ECDSACryptoService();
+   * const credential = { ... };
+   * const hash = crypto.createCanonicalHash(credential);
+   * ```
+   */
+  createCanonicalHash(
+    obj: unknown,
+    version: CanonicalizationVersion = DEFAULT_CANONICALIZATION
+  ): string {
+    return this.hash(this.canonicalize(obj, version));
+  }
+
+  /**
+   * Cryptosuite identifier recorded in issued proofs (optional)
+   * Lets verifiers tell apart algorithms that share a proof type,
+   * e.g. the ML-DSA parameter sets behind a DataIntegrityProof
+   * @returns Cryptosuite identifier
+   */
+  getCryptosuite?(): string;
+
+  /**
+   * JOSE algorithm ("alg" of RFC 7518) for JWS-secured credentials (optional)
+   * Services without one cannot issue or verify VC-JWTs
+   * @returns JOSE algorithm name (e.g. "ES256K")
    */
-  abstract createCanonicalHash(obj: unknown): string;
+  getJoseAlgorithm?(): string;
+
+  /**
+   * COSE algorithm ("alg" header of RFC 9052) for COSE-secured credentials
+   * (optional). Services without one cannot issue or verify CBOR credentials
+   * @returns COSE algorithm identifier (e.g. -47), or a name for algorithms
+   *   without a registered identifier
+   */
+  getCoseAlgorithm?(): number | string;
+
+  /**
+   * Verify many signatures made with the same public key at once (optional)
+   * Services without a cheaper combined check are verified one by one
+   * @param items - Hash strings and their signatures
+   * @param publicKey - Public key of the signer
+   * @returns True only if every signature is valid
+   */
+  verifyBatch?(
+    items: { data: string; signature: string }[],
+    publicKey: string
+  ): Promise<boolean>;
 }
 
 /**
@@ -175,6 +256,40 @@ export class ECDSACryptoService extends CryptoService {
     }
   }
 
+  /**
+   * Verify a 64-byte r || s signature (JOSE / COSE form, no recovery byte)
+   * Both recovery bytes are tried; high-S signatures of other libraries are
+   * brought to low-S form first
+   *
+   * @param data - Original hash
+   * @param signature - 64-byte compact signature (hex)
+   * @param publicKey - Full public key of the signer
+   * @returns True if signature is valid
+   */
+  async verifyCompact(
+    data: string,
+    signature: string,
+    publicKey: string
+  ): Promise<boolean> {
+    if (!ethers.isHexString(signature, 64)) {
+      return false;
+    }
+
+    const r = ethers.dataSlice(signature, 0, 32);
+    let s = BigInt(ethers.dataSlice(signature, 32, 64));
+    if (s > SECP256K1_N / BigInt(2)) {
+      s = SECP256K1_N - s;
+    }
+
+    for (const v of ["0x1b", "0x1c"]) {
+      const candidate = ethers.concat([r, ethers.toBeHex(s, 32), v]);
+      if (await this.verify(data, candidate, publicKey)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Hash data using Keccak-256 (Ethereum's hash function)
    * @param data - String data to hash
@@ -185,68 +300,16 @@ export class ECDSACryptoService extends CryptoService {
   }
 
   /**
-   * Canonicalize an object for deterministic hashing
-   * Sorts keys alphabetically and filters out undefined values
-   *
-   * This matches JSON.stringify behavior where undefined properties are omitted.
-   * Ensures the same object always produces the same canonical string.
-   *
-   * @param obj - Object to canonicalize
-   * @returns Canonical string representation
-   *
-   * @example
-   * ```typescript
-   * const crypto = new ECDSACryptoService();
-   * const canonical = crypto.canonicalize({ b: 2, a: 1, c: undefined });
-   * // Result: '{"a":1,"b":2}' (sorted keys, undefined filtered)
-   * ```
+   * JOSE algorithm of secp256k1 ECDSA with SHA-256 (RFC 8812)
    */
-  canonicalize(obj: unknown): string {
-    if (obj === null) return "null";
-    if (obj === undefined) return "undefined";
-    if (typeof obj !== "object") return JSON.stringify(obj);
-
-    if (Array.isArray(obj)) {
-      const items = obj.map((item) => this.canonicalize(item));
-      return `[${items.join(",")}]`;
-    }
-
-    // Sort keys alphabetically and filter out undefined values
-    // This matches JSON.stringify behavior where undefined properties are omitted
-    const sorted = Object.keys(obj as Record<string, unknown>)
-      .sort()
-      .filter((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return value !== undefined;
-      })
-      .map((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return `"${key}":${this.canonicalize(value)}`;
-      });
-
-    return `{${sorted.join(",")}}`;
+  getJoseAlgorithm(): string {
+    return "ES256K";
   }
+
   /**
-   * Create a canonical hash of an object for signing
-   * This ensures consistent hashing regardless of JSON property order
-   *
-   * CRITICAL: This must be deterministic!
-   * The same object must always produce the same hash.
-   *
-   * Used by VCIssuer, VCVerifier, and VCRevoke for consistent credential hashing.
-   *
-   * @param obj - Object to hash (typically a Credential)
-   * @returns Keccak-256 hash of the canonical representation
-   *
-   * @example
-   * ```typescript
-   * const crypto = new ECDSACryptoService();
-   * const credential = { ... };
-   * const hash = crypto.createCanonicalHash(credential);
-   * ```
+   * COSE algorithm of secp256k1 ECDSA with SHA-256 (ES256K, RFC 8812)
    */
-  createCanonicalHash(obj: unknown): string {
-    const canonical = this.canonicalize(obj);
-    return this.hash(canonical);
+  getCoseAlgorithm(): number {
+    return -47;
   }
 }
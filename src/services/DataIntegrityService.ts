@@ -0,0 +1,347 @@
+import { createHash } from "crypto";
+import { ethers } from "ethers";
+import { CryptoService } from "./CryptoService";
+import { P256CryptoService } from "./P256CryptoService";
+import { Ed25519CryptoService } from "./Ed25519CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { canonicalizeJSON } from "./JsonCanonicalizer";
+import { RDFCanonicalizer } from "./RDFCanonicalizer";
+import {
+  Credential,
+  ECDSAProof,
+  ISO8601DateTime,
+  Presentation,
+} from "../types/w3c-vc.types";
+import { Signer } from "../types";
+
+/**
+ * ECDSA cryptosuites of W3C Data Integrity (vc-di-ecdsa)
+ * - "ecdsa-jcs-2019": JSON Canonicalization Scheme (RFC 8785)
+ * - "ecdsa-rdfc-2019": RDF Dataset Canonicalization (RDFC-1.0)
+ */
+export type ECDSACryptosuite = "ecdsa-jcs-2019" | "ecdsa-rdfc-2019";
+
+/**
+ * EdDSA cryptosuites of W3C Data Integrity (vc-di-eddsa)
+ * - "eddsa-jcs-2022": JSON Canonicalization Scheme (RFC 8785)
+ * - "eddsa-rdfc-2022": RDF Dataset Canonicalization (RDFC-1.0)
+ */
+export type EdDSACryptosuite = "eddsa-jcs-2022" | "eddsa-rdfc-2022";
+
+/**
+ * Every cryptosuite supported by DataIntegrityService
+ */
+export type DataIntegrityCryptosuite = ECDSACryptosuite | EdDSACryptosuite;
+
+/**
+ * Every ECDSA cryptosuite supported by DataIntegrityService
+ */
+export const ECDSA_CRYPTOSUITES: readonly ECDSACryptosuite[] = [
+  "ecdsa-jcs-2019",
+  "ecdsa-rdfc-2019",
+];
+
+/**
+ * Every EdDSA cryptosuite supported by DataIntegrityService
+ */
+export const EDDSA_CRYPTOSUITES: readonly EdDSACryptosuite[] = [
+  "eddsa-jcs-2022",
+  "eddsa-rdfc-2022",
+];
+
+/**
+ * Options of a new DataIntegrityProof
+ */
+export interface DataIntegrityProofOptions {
+  cryptosuite: DataIntegrityCryptosuite;
+  verificationMethod: string;
+  proofPurpose?: string; // defaults to "assertionMethod"
+  created?: ISO8601DateTime; // defaults to now
+  challenge?: string; // Verifier nonce (presentations)
+  domain?: string; // Verifier domain (presentations)
+  id?: string; // Proof id, for proof chains
+  previousProof?: string | string[]; // Proof(s) this proof chains to
+}
+
+// XML Schema dateTime, as required for proof.created
+const DATE_TIME_PATTERN =
+  /^-?\d{4,}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Data Integrity Service
+ *
+ * Creates and verifies standard `DataIntegrityProof` objects with the ECDSA
+ * (vc-di-ecdsa) and EdDSA (vc-di-eddsa) cryptosuites of the W3C, so
+ * credentials verify with any conformant verifier.
+ *
+ * Signing (per the specifications):
+ *   proofConfig = proof options + document @context (without proofValue)
+ *   hashData    = SHA-256(canonical proofConfig) || SHA-256(canonical document)
+ *   proofValue  = base58btc multibase of the signature over hashData
+ *                 (ECDSA P-256 with SHA-256 as r || s, or Ed25519)
+ *
+ * Key characteristics:
+ * - The proof options (created, verificationMethod, proofPurpose, ...) are
+ *   signed too, so they cannot be changed after issuing
+ * - The *-rdfc-* suites canonicalize with RDFC-1.0 through an offline
+ *   RDFCanonicalizer: unknown contexts and undefined terms are rejected
+ * - ECDSA suites take P-256 keys (the specification also allows P-384, but
+ *   not secp256k1); EdDSA suites take Ed25519 keys
+ *
+ * Use case: Credentials checked by external conformance verifiers and wallets
+ */
+export class DataIntegrityService {
+  private cryptoService: P256CryptoService | Ed25519CryptoService;
+  private rdfCanonicalizer: RDFCanonicalizer;
+
+  /**
+   * @param cryptoService - P-256 or Ed25519 service that signs and verifies
+   *   the proofs
+   * @param options - RDFCanonicalizer with the contexts of the credentials
+   *   (defaults to one with only the VC v2 context)
+   * @throws Error if the service uses another key type
+   */
+  constructor(
+    cryptoService: CryptoService = new P256CryptoService(),
+    options: { rdfCanonicalizer?: RDFCanonicalizer } = {},
+  ) {
+    if (
+      !(cryptoService instanceof P256CryptoService) &&
+      !(cryptoService instanceof Ed25519CryptoService)
+    ) {
+      throw new Error(
+        "Data Integrity cryptosuites require P256CryptoService or Ed25519CryptoService",
+      );
+    }
+    this.cryptoService = cryptoService;
+    this.rdfCanonicalizer = options.rdfCanonicalizer || new RDFCanonicalizer();
+  }
+
+  /**
+   * Check whether a cryptosuite is supported by DataIntegrityService
+   * @param cryptosuite - Cryptosuite of a proof or registration
+   */
+  static isDataIntegrityCryptosuite(
+    cryptosuite: string | undefined,
+  ): cryptosuite is DataIntegrityCryptosuite {
+    return (
+      ECDSA_CRYPTOSUITES.includes(cryptosuite as ECDSACryptosuite) ||
+      EDDSA_CRYPTOSUITES.includes(cryptosuite as EdDSACryptosuite)
+    );
+  }
+
+  /**
+   * Get the did:key verification method of a public key
+   * (did:key:z...#z..., resolvable by any did:key resolver)
+   *
+   * @param publicKey - P-256 or Ed25519 public key (hex)
+   * @returns Verification method id for proof.verificationMethod
+   */
+  getVerificationMethod(publicKey: string): string {
+    const publicKeyMultibase = new KeyFormatService(
+      this.cryptoService,
+    ).publicKeyToMultibase(publicKey);
+    return `did:key:${publicKeyMultibase}#${publicKeyMultibase}`;
+  }
+
+  /**
+   * Create a DataIntegrityProof for a document
+   * @param document - Unsigned credential or presentation (without proof,
+   *   or with the previous proofs of a proof chain)
+   * @param signer - Signer or private key of the service's key type
+   * @param options - Cryptosuite, verification method and proof purpose
+   *   (and the challenge and domain of a presentation)
+   * @returns Proof to attach as the document's `proof`
+   *
+   * @example
+   * ```typescript
+   * const dataIntegrity = new DataIntegrityService(p256Crypto);
+   * const proof = await dataIntegrity.createProof(credential, privateKey, {
+   *   cryptosuite: "ecdsa-jcs-2019",
+   *   verificationMethod: dataIntegrity.getVerificationMethod(publicKey),
+   * });
+   * const vc = { ...credential, proof };
+   * ```
+   */
+  async createProof(
+    document: Credential | Presentation,
+    signer: string | Signer,
+    options: DataIntegrityProofOptions,
+  ): Promise<ECDSAProof> {
+    const proofOptions = {
+      type: "DataIntegrityProof",
+      cryptosuite: options.cryptosuite,
+      created: options.created || new Date().toISOString(),
+      verificationMethod: options.verificationMethod,
+      proofPurpose: options.proofPurpose || "assertionMethod",
+      ...(options.challenge !== undefined && { challenge: options.challenge }),
+      ...(options.domain !== undefined && { domain: options.domain }),
+      ...(options.id !== undefined && { id: options.id }),
+      ...(options.previousProof !== undefined && {
+        previousProof: options.previousProof,
+      }),
+    };
+
+    const data = await this.createSigningData(document, proofOptions);
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+    const signature =
+      typeof signer === "string"
+        ? await this.cryptoService.sign(data, signer)
+        : await signer.sign(data);
+
+    return {
+      ...proofOptions,
+      proofValue: "z" + ethers.encodeBase58(signature),
+    };
+  }
+
+  /**
+   * Verify a DataIntegrityProof
+   * @param document - Credential or presentation without proof (or with the
+   *   previous proofs of a proof chain)
+   * @param proof - DataIntegrityProof with a supported cryptosuite
+   * @param publicKey - Public key of the issuer (hex)
+   * @returns True if the signature covers the document and proof options
+   * @throws Error if the proof is malformed
+   */
+  async verifyProof(
+    document: Credential | Presentation,
+    proof: ECDSAProof,
+    publicKey: string,
+  ): Promise<boolean> {
+    const { proofValue, ...proofOptions } = proof;
+    const data = await this.createSigningData(document, proofOptions);
+    return this.cryptoService.verify(
+      data,
+      this.decodeProofValue(proofValue),
+      publicKey,
+    );
+  }
+
+  /**
+   * Create the hash data of the specification
+   * SHA-256(canonical proof configuration) || SHA-256(canonical document)
+   *
+   * @param document - Credential or presentation without proof
+   * @param proofOptions - Proof without proofValue
+   * @returns 64-byte hash data (hex)
+   * @throws Error if the proof options or the document are invalid
+   */
+  async createHashData(
+    document: Credential | Presentation,
+    proofOptions: Record<string, unknown>,
+  ): Promise<string> {
+    const cryptosuite = proofOptions.cryptosuite as string;
+    if (proofOptions.type !== "DataIntegrityProof") {
+      throw new Error(
+        `Expected a DataIntegrityProof, got ${proofOptions.type}`,
+      );
+    }
+    if (!DataIntegrityService.isDataIntegrityCryptosuite(cryptosuite)) {
+      throw new Error(`Unsupported cryptosuite: ${cryptosuite}`);
+    }
+    if (this.isEdDSA() !== cryptosuite.startsWith("eddsa-")) {
+      throw new Error(
+        `Cryptosuite ${cryptosuite} does not match ${this.cryptoService.constructor.name} keys`,
+      );
+    }
+    if (
+      proofOptions.created !== undefined &&
+      !DATE_TIME_PATTERN.test(String(proofOptions.created))
+    ) {
+      throw new Error(`Invalid proof creation date: ${proofOptions.created}`);
+    }
+
+    // The proof configuration is interpreted with the document's contexts
+    const proofConfig = {
+      ...proofOptions,
+      "@context": proofOptions["@context"] || document["@context"],
+    };
+
+    const [canonicalProofConfig, canonicalDocument] = await Promise.all([
+      this.canonicalize(proofConfig, cryptosuite),
+      this.canonicalize(document, cryptosuite),
+    ]);
+
+    return ethers.concat([
+      this.sha256(canonicalProofConfig),
+      this.sha256(canonicalDocument),
+    ]);
+  }
+
+  /**
+   * Data handed to the raw signer
+   * - ECDSA with SHA-256 signs SHA-256(hashData)
+   * - Ed25519 signs hashData itself
+   *
+   * @private
+   */
+  private async createSigningData(
+    document: Credential | Presentation,
+    proofOptions: Record<string, unknown>,
+  ): Promise<string> {
+    const hashData = await this.createHashData(document, proofOptions);
+    if (this.isEdDSA()) {
+      return hashData;
+    }
+    return (
+      "0x" +
+      createHash("sha256").update(ethers.getBytes(hashData)).digest("hex")
+    );
+  }
+
+  /**
+   * Canonicalize a document for the cryptosuite
+   *
+   * @private
+   */
+  private async canonicalize(
+    document: object,
+    cryptosuite: DataIntegrityCryptosuite,
+  ): Promise<string> {
+    if (cryptosuite.includes("-jcs-")) {
+      return canonicalizeJSON(document, "rfc8785");
+    }
+    return this.rdfCanonicalizer.canonicalize(document);
+  }
+
+  /**
+   * Whether the service signs with Ed25519 (EdDSA suites)
+   *
+   * @private
+   */
+  private isEdDSA(): boolean {
+    return this.cryptoService instanceof Ed25519CryptoService;
+  }
+
+  /**
+   * Decode a base58btc proofValue into a 64-byte hex signature
+   *
+   * @private
+   */
+  private decodeProofValue(proofValue: string): string {
+    if (typeof proofValue !== "string" || !proofValue.startsWith("z")) {
+      throw new Error("proofValue must be a base58btc (z) multibase value");
+    }
+
+    const signature = ethers.toBeHex(
+      ethers.decodeBase58(proofValue.slice(1)),
+      64,
+    );
+    if ("z" + ethers.encodeBase58(signature) !== proofValue) {
+      throw new Error("proofValue is not a 64-byte signature");
+    }
+    return signature;
+  }
+
+  /**
+   * SHA-256 of a UTF-8 string
+   *
+   * @private
+   */
+  private sha256(data: string): string {
+    return "0x" + createHash("sha256").update(data, "utf8").digest("hex");
+  }
+}
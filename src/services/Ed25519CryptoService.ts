@@ -0,0 +1,126 @@
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { createHash, randomFillSync } from "crypto";
+import { CryptoService } from "./CryptoService";
+import { CryptoIdentity } from "../types";
+
+/**
+ * EdDSA Cryptographic Service using Ed25519
+ *
+ * Implementation using @noble/curves (pure JS, audited) so it runs the same
+ * on Node.js, React Native and in the browser.
+ *
+ * Key characteristics:
+ * - Public key: 32 bytes, Signature: 64 bytes
+ * - Deterministic signatures (RFC 8032) - no nonce reuse risk
+ * - SHA-256 credential hash (same as RSA/PQ services for fair comparison)
+ * - Hex encoding with 0x prefix, like ECDSACryptoService
+ *
+ * Use case: Interoperability with lock vendors and wallets that only speak EdDSA
+ */
+export class Ed25519CryptoService extends CryptoService {
+  /**
+   * Generate Ed25519 key pair
+   * @returns CryptoIdentity with hex-encoded keys (32-byte secret seed, 32-byte public key)
+   */
+  async generateIdentity(): Promise<CryptoIdentity> {
+    try {
+      const seed = new Uint8Array(32);
+      if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+        crypto.getRandomValues(seed);
+      } else {
+        randomFillSync(seed);
+      }
+
+      const keypair = ed25519.keygen(seed);
+      const publicKey = keypair.publicKey;
+
+      // Create pseudo-address from public key hash for consistency with other services
+      const addressHash = createHash("sha256").update(publicKey).digest("hex");
+
+      return {
+        privateKey: "0x" + Buffer.from(keypair.secretKey).toString("hex"),
+        publicKey: "0x" + Buffer.from(publicKey).toString("hex"),
+        address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
+      };
+    } catch (error) {
+      throw new Error(`Ed25519 key generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Sign data using Ed25519
+   * @param data - Hash string to sign (hex format)
+   * @param privateKey - Hex-encoded 32-byte Ed25519 secret key
+   * @returns Hex-encoded 64-byte signature
+   */
+  async sign(data: string, privateKey: string): Promise<string> {
+    try {
+      const secretKey = this.fromHex(privateKey);
+      const dataBytes = this.fromHex(data);
+
+      const signature = ed25519.sign(dataBytes, secretKey);
+      return "0x" + Buffer.from(signature).toString("hex");
+    } catch (error) {
+      throw new Error(`Ed25519 signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify Ed25519 signature
+   * @param data - Original hash string (hex format)
+   * @param signature - Hex-encoded signature
+   * @param publicKey - Hex-encoded 32-byte Ed25519 public key
+   * @returns True if signature is valid
+   */
+  async verify(
+    data: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      const publicKeyBytes = this.fromHex(publicKey);
+      const signatureBytes = this.fromHex(signature);
+      const dataBytes = this.fromHex(data);
+
+      // Strict RFC 8032 verification (rejects non-canonical encodings)
+      return ed25519.verify(signatureBytes, dataBytes, publicKeyBytes, {
+        zip215: false,
+      });
+    } catch (error) {
+      console.error("Ed25519 verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Hash data using SHA-256
+   * @param data - String data to hash
+   * @returns Hex-encoded hash with 0x prefix
+   */
+  hash(data: string): string {
+    return "0x" + createHash("sha256").update(data, "utf8").digest("hex");
+  }
+
+  /**
+   * JOSE algorithm of Ed25519 (RFC 8037)
+   */
+  getJoseAlgorithm(): string {
+    return "EdDSA";
+  }
+
+  /**
+   * COSE algorithm of Ed25519 (EdDSA, RFC 9053)
+   */
+  getCoseAlgorithm(): number {
+    return -8;
+  }
+
+  /**
+   * Decode a 0x-prefixed (or bare) hex string
+   *
+   * @private
+   */
+  private fromHex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value.replace(/^0x/, ""), "hex"));
+  }
+}
@@ -1,27 +1,54 @@
-import { falcon512 } from "@noble/post-quantum/falcon.js";
+import { falcon512, falcon1024 } from "@noble/post-quantum/falcon.js";
 import { createHash, randomFillSync } from "crypto";
 import { CryptoIdentity } from "../types";
 import { CryptoService } from "./CryptoService";
 
 /**
- * Post-Quantum Cryptographic Service using Falcon-512
+ * Falcon parameter sets
+ * - Falcon-512: NIST security level 1
+ * - Falcon-1024: NIST security level 5
+ */
+export type FalconVariant = "Falcon-512" | "Falcon-1024";
+
+const FALCON_IMPLEMENTATIONS = {
+  "Falcon-512": falcon512,
+  "Falcon-1024": falcon1024,
+};
+
+/**
+ * Post-Quantum Cryptographic Service using Falcon
  *
- * Falcon-512 is a lattice-based signature scheme from the NIST PQC Round 3
- * selection process. This service mirrors the existing PQ service pattern
- * but locks the implementation to Falcon-512 only so benchmark comparisons
- * stay at a single security level.
+ * Falcon is a lattice-based signature scheme from the NIST PQC Round 3
+ * selection process. This service mirrors the existing PQ service pattern.
+ * It defaults to Falcon-512; Falcon-1024 can be selected so comparisons
+ * against ML-DSA can be made at equal NIST security levels
+ * (Falcon-512 ~ ML-DSA-44, Falcon-1024 ~ ML-DSA-87).
  */
 export class FalconCryptoService extends CryptoService {
+  private variant: FalconVariant;
+
+  /**
+   * @param variant - Falcon parameter set (Falcon-512 or Falcon-1024)
+   */
+  constructor(variant: FalconVariant = "Falcon-512") {
+    super();
+    if (!Object.keys(FALCON_IMPLEMENTATIONS).includes(variant)) {
+      throw new Error("Falcon variant must be Falcon-512 or Falcon-1024");
+    }
+    this.variant = variant;
+  }
+
   async generateIdentity(): Promise<CryptoIdentity> {
     try {
-      const seed = new Uint8Array(48);
+      const implementation = this.getImplementation();
+      const seed = new Uint8Array(implementation.lengths.seed ?? 48);
       if (typeof crypto !== "undefined" && crypto.getRandomValues) {
         crypto.getRandomValues(seed);
       } else {
         randomFillSync(seed);
       }
 
-      const keypair = falcon512.keygen(seed);
+      const keypair = implementation.keygen(seed);
       const secretKey = keypair.secretKey;
       const publicKey = keypair.publicKey;
 
@@ -35,7 +62,7 @@ export class FalconCryptoService extends CryptoService {
         address: `0x${addressHash.substring(0, 40)}`,
       };
     } catch (error) {
-      throw new Error(`Falcon-512 key generation failed: ${error}`);
+      throw new Error(`${this.variant} key generation failed: ${error}`);
     }
   }
 
@@ -46,10 +73,10 @@ export class FalconCryptoService extends CryptoService {
         Buffer.from(data.replace("0x", ""), "hex"),
       );
 
-      const signature = falcon512.sign(dataBytes, secretKey);
+      const signature = this.getImplementation().sign(dataBytes, secretKey);
       return Buffer.from(signature).toString("base64");
     } catch (error) {
-      throw new Error(`Falcon-512 signing failed: ${error}`);
+      throw new Error(`${this.variant} signing failed: ${error}`);
     }
   }
 
@@ -65,9 +92,13 @@ export class FalconCryptoService extends CryptoService {
         Buffer.from(data.replace("0x", ""), "hex"),
       );
 
-      return falcon512.verify(signatureBytes, dataBytes, publicKeyBytes);
+      return this.getImplementation().verify(
+        signatureBytes,
+        dataBytes,
+        publicKeyBytes,
+      );
     } catch (error) {
-      console.error("Falcon-512 verification failed:", error);
+      console.error(`${this.variant} verification failed:`, error);
       return false;
     }
   }
@@ -77,32 +108,22 @@ export class FalconCryptoService extends CryptoService {
     return "0x" + hash;
   }
 
-  createCanonicalHash(obj: unknown): string {
-    const canonical = this.canonicalize(obj);
-    return this.hash(canonical);
+  getVariant(): FalconVariant {
+    return this.variant;
   }
 
-  canonicalize(obj: unknown): string {
-    if (obj === null) return "null";
-    if (obj === undefined) return "undefined";
-    if (typeof obj !== "object") return JSON.stringify(obj);
+  getCryptosuite(): string {
+    return this.variant.replace("Falcon-", "falcon");
+  }
 
-    if (Array.isArray(obj)) {
-      const items = obj.map((item) => this.canonicalize(item));
-      return `[${items.join(",")}]`;
-    }
+  /**
+   * COSE algorithm name (Falcon has no registered COSE identifier)
+   */
+  getCoseAlgorithm(): string {
+    return this.variant;
+  }
 
-    const sorted = Object.keys(obj as Record<string, unknown>)
-      .sort()
-      .filter((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return value !== undefined;
-      })
-      .map((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return `"${key}":${this.canonicalize(value)}`;
-      });
-
-    return `{${sorted.join(",")}}`;
+  private getImplementation() {
+    return FALCON_IMPLEMENTATIONS[this.variant];
   }
 }
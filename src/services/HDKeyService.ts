@@ -0,0 +1,197 @@
+import { ethers, HDNodeWallet, Mnemonic } from "ethers";
+import { ECDSACryptoService } from "./CryptoService";
+import { InMemorySigner } from "./InMemorySigner";
+import { CryptoIdentity } from "../types";
+
+/**
+ * Position of a key in the site / building / lock hierarchy
+ * Omit building (and lock) to derive the site-level (building-level) key
+ */
+export interface HDKeyLocation {
+  site: number;
+  building?: number;
+  lock?: number;
+}
+
+/**
+ * Root of the lock key hierarchy (BIP-44 purpose and Ethereum coin type)
+ */
+export const HD_ROOT_PATH = "m/44'/60'";
+
+// Largest index of a hardened BIP-32 child
+const MAX_INDEX = 0x7fffffff;
+
+// BIP-39 word counts and their entropy sizes in bytes
+const MNEMONIC_ENTROPY_BYTES: Record<number, number> = {
+  12: 16,
+  15: 20,
+  18: 24,
+  21: 28,
+  24: 32,
+};
+
+/**
+ * HD Key Service
+ *
+ * Derives secp256k1 identities for sites, buildings and locks from one master
+ * seed (BIP-32), backed up as a BIP-39 mnemonic.
+ *
+ * Derivation path (every level hardened):
+ *   m/44'/60'/{site}'                      site key
+ *   m/44'/60'/{site}'/{building}'          building key
+ *   m/44'/60'/{site}'/{building}'/{lock}'  lock key
+ *
+ * Hardened derivation means a leaked lock key reveals nothing about its
+ * siblings or parents. Indexes are numbers from 0 to 2^31-1; keep a registry
+ * that maps site, building and lock ids to their index.
+ *
+ * Key characteristics:
+ * - Same key format as ECDSACryptoService.generateIdentity (hex private key,
+ *   65-byte public key, Ethereum address)
+ * - The mnemonic (plus optional passphrase) restores every derived key
+ * - Separate from ECDSACryptoService.generateIdentity, which skips HD
+ *   derivation to keep benchmarks free of it
+ *
+ * Use case: Thousands of lock keys with a single backup
+ */
+export class HDKeyService {
+  private root: HDNodeWallet;
+  private mnemonic?: Mnemonic;
+
+  private constructor(root: HDNodeWallet, mnemonic?: Mnemonic) {
+    this.root = root;
+    this.mnemonic = mnemonic;
+  }
+
+  /**
+   * Create a new master seed with a fresh mnemonic
+   * @param options - Mnemonic length (12-24 words, default 24) and optional
+   *   BIP-39 passphrase
+   * @returns HDKeyService for the new seed
+   *
+   * @example
+   * ```typescript
+   * const hd = HDKeyService.generate();
+   * console.log(hd.getMnemonic()); // write down and store offline
+   * const lock = hd.deriveIdentity({ site: 0, building: 2, lock: 17 });
+   * ```
+   */
+  static generate(
+    options: { wordCount?: number; passphrase?: string } = {},
+  ): HDKeyService {
+    const wordCount = options.wordCount || 24;
+    const entropyBytes = MNEMONIC_ENTROPY_BYTES[wordCount];
+    if (!entropyBytes) {
+      throw new Error("Mnemonic must have 12, 15, 18, 21 or 24 words");
+    }
+
+    const mnemonic = Mnemonic.fromEntropy(
+      ethers.randomBytes(entropyBytes),
+      options.passphrase,
+    );
+    return new HDKeyService(
+      HDNodeWallet.fromSeed(mnemonic.computeSeed()),
+      mnemonic,
+    );
+  }
+
+  /**
+   * Restore the master seed from a mnemonic backup
+   * @param phrase - BIP-39 mnemonic phrase
+   * @param passphrase - BIP-39 passphrase used when the mnemonic was created
+   * @returns HDKeyService for the restored seed
+   * @throws Error if the phrase is not a valid mnemonic
+   */
+  static fromMnemonic(phrase: string, passphrase?: string): HDKeyService {
+    const normalized = phrase.trim().toLowerCase().split(/\s+/).join(" ");
+    if (!Mnemonic.isValidMnemonic(normalized)) {
+      throw new Error("Invalid mnemonic phrase");
+    }
+
+    const mnemonic = Mnemonic.fromPhrase(normalized, passphrase);
+    return new HDKeyService(
+      HDNodeWallet.fromSeed(mnemonic.computeSeed()),
+      mnemonic,
+    );
+  }
+
+  /**
+   * Use an existing master seed (e.g. from another BIP-32 tool)
+   * @param seed - 16 to 64 byte seed (hex string)
+   * @returns HDKeyService for the seed (no mnemonic available)
+   */
+  static fromSeed(seed: string): HDKeyService {
+    return new HDKeyService(HDNodeWallet.fromSeed(seed));
+  }
+
+  /**
+   * Get the mnemonic phrase to back up
+   * @returns Mnemonic phrase, or undefined if created from a raw seed
+   */
+  getMnemonic(): string | undefined {
+    return this.mnemonic?.phrase;
+  }
+
+  /**
+   * Get the derivation path of a site, building or lock key
+   * @param location - Site, building and lock index
+   * @returns BIP-32 path (e.g. "m/44'/60'/0'/2'/17'")
+   */
+  getPath(location: HDKeyLocation): string {
+    const indexes = [location.site];
+    if (location.building !== undefined) {
+      indexes.push(location.building);
+    }
+    if (location.lock !== undefined) {
+      if (location.building === undefined) {
+        throw new Error("A lock key requires a building index");
+      }
+      indexes.push(location.lock);
+    }
+
+    for (const index of indexes) {
+      if (!Number.isInteger(index) || index < 0 || index > MAX_INDEX) {
+        throw new Error(
+          `Invalid HD index ${index} (must be 0 to ${MAX_INDEX})`,
+        );
+      }
+    }
+
+    return `${HD_ROOT_PATH}/${indexes.map((index) => `${index}'`).join("/")}`;
+  }
+
+  /**
+   * Derive the identity of a site, building or lock
+   * @param location - Site, building and lock index
+   * @returns CryptoIdentity in ECDSACryptoService format
+   */
+  deriveIdentity(location: HDKeyLocation): CryptoIdentity {
+    return this.deriveIdentityAtPath(this.getPath(location));
+  }
+
+  /**
+   * Derive the identity at an arbitrary BIP-32 path
+   * @param path - Absolute path starting with "m/"
+   * @returns CryptoIdentity in ECDSACryptoService format
+   */
+  deriveIdentityAtPath(path: string): CryptoIdentity {
+    const node = this.root.derivePath(path);
+    return {
+      privateKey: node.privateKey,
+      publicKey: node.signingKey.publicKey,
+      address: node.address,
+    };
+  }
+
+  /**
+   * Derive a signer for a site, building or lock key
+   * @param location - Site, building and lock index
+   * @returns InMemorySigner for the derived key
+   */
+  deriveSigner(location: HDKeyLocation): InMemorySigner {
+    return new InMemorySigner(
+      new ECDSACryptoService(),
+      this.deriveIdentity(location),
+    );
+  }
+}
@@ -0,0 +1,257 @@
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { KeyFormatService, JWK } from "./KeyFormatService";
+import { canonicalizeJSON } from "./JsonCanonicalizer";
+import { Credential, CredentialSubject } from "../types/w3c-vc.types";
+import { Signer } from "../types";
+
+/**
+ * Holder key confirmation claim (`cnf`, as in RFC 7800)
+ */
+export interface HolderConfirmation {
+  jwk: JWK;
+}
+
+/**
+ * How a credential names its holder key
+ * - "did:key": credentialSubject.id is the did:key of the holder key
+ * - "cnf": credentialSubject.cnf carries the holder key as a JWK, so the
+ *   subject id stays free (e.g. for a did:web or an account id)
+ */
+export type HolderBindingMethod = "did:key" | "cnf";
+
+/**
+ * Proof of possession a verifier checks (VCVerifier holderBinding option)
+ */
+export interface HolderBindingCheck {
+  challenge: string; // Challenge the verifier sent (OffChainService.createChallenge)
+  domain: string; // The verifier itself (e.g. its lock id)
+  signature: string; // Holder's signature over both (VCHolder.proveHolderBinding)
+  cryptoService?: CryptoService; // Service of the holder key (defaults to ECDSA)
+}
+
+/**
+ * Holder Binding Service
+ *
+ * Binds a credential to the key of its holder, so a copied credential is
+ * useless without that key. The issuer names the holder key in the
+ * credential; before granting access, the verifier sends a fresh challenge
+ * and the holder proves possession of the key by signing it, together with
+ * the verifier's domain.
+ *
+ * Proof of possession:
+ *   challenge = OffChainService.createChallenge()             (verifier, per attempt)
+ *   signature = sign(hash({ challenge, domain }), holder key)  (holder)
+ *
+ * Key characteristics:
+ * - Any CryptoService with a multicodec (did:key) or JWK form of its keys;
+ *   ECDSA (secp256k1) by default, as used by the holder's wallet
+ * - The domain names the verifier, so a verifier cannot relay the holder's
+ *   signature to another one that sent the same challenge
+ * - A cnf claim takes precedence over a did:key subject id
+ *
+ * Use case: Locks admitting only the holder a credential was issued to
+ */
+export class HolderBindingService {
+  private cryptoService: CryptoService;
+  private keyFormat: KeyFormatService;
+
+  /**
+   * @param cryptoService - Service of the holder key (defaults to ECDSA)
+   */
+  constructor(cryptoService: CryptoService = new ECDSACryptoService()) {
+    this.cryptoService = cryptoService;
+    this.keyFormat = new KeyFormatService(cryptoService);
+  }
+
+  /**
+   * Get the did:key of a holder public key
+   * @param publicKey - Holder public key in the service's format
+   * @returns did:key:z... for credentialSubject.id
+   */
+  createDidKey(publicKey: string): string {
+    return `did:key:${this.keyFormat.publicKeyToMultibase(publicKey)}`;
+  }
+
+  /**
+   * Get the cnf claim of a holder public key
+   * @param publicKey - Holder public key in the service's format
+   * @returns Confirmation claim for credentialSubject.cnf
+   */
+  createConfirmation(publicKey: string): HolderConfirmation {
+    return { jwk: this.keyFormat.publicKeyToJWK(publicKey) };
+  }
+
+  /**
+   * Bind a credential subject to a holder key
+   * @param credentialSubject - Claims about the holder
+   * @param publicKey - Holder public key in the service's format
+   * @param method - did:key subject id (default) or cnf claim
+   * @returns Subject naming the holder key
+   *
+   * @example
+   * ```typescript
+   * const subject = new HolderBindingService().bindSubject(
+   *   { userMetaDataHash, lock: { id: "lock-1", name: "Test Lock" } },
+   *   holderIdentity.publicKey
+   * );
+   * // subject.id === "did:key:zQ3s..."
+   * ```
+   */
+  bindSubject<T extends CredentialSubject>(
+    credentialSubject: T,
+    publicKey: string,
+    method: HolderBindingMethod = "did:key",
+  ): T & { cnf?: HolderConfirmation } {
+    return method === "cnf"
+      ? { ...credentialSubject, cnf: this.createConfirmation(publicKey) }
+      : { ...credentialSubject, id: this.createDidKey(publicKey) };
+  }
+
+  /**
+   * Claims of a credential subject that name its holder key
+   * @param credentialSubject - Claims about the holder
+   * @returns "cnf" and/or "id" (for a did:key subject id)
+   */
+  static getBindingClaims(credentialSubject: CredentialSubject): string[] {
+    const { id, cnf } = credentialSubject;
+    return [
+      ...(cnf !== undefined ? ["cnf"] : []),
+      ...(typeof id === "string" && id.startsWith("did:key:") ? ["id"] : []),
+    ];
+  }
+
+  /**
+   * Whether a credential names a holder key (did:key subject id or cnf claim)
+   * @param credential - Credential to check
+   * @returns True if any credential subject is bound to a holder key
+   */
+  static isBound(credential: Credential): boolean {
+    const subjects = Array.isArray(credential.credentialSubject)
+      ? credential.credentialSubject
+      : [credential.credentialSubject];
+    return subjects.some(
+      (subject) => HolderBindingService.getBindingClaims(subject).length > 0,
+    );
+  }
+
+  /**
+   * Get the holder public key a credential is bound to
+   * @param credential - Credential with a single subject
+   * @returns Holder public key in the service's format
+   * @throws Error if the credential names no holder key of this algorithm
+   */
+  resolveHolderKey(credential: Credential): string {
+    if (Array.isArray(credential.credentialSubject)) {
+      throw new Error("Holder binding supports a single credentialSubject");
+    }
+
+    const { id, cnf } = credential.credentialSubject;
+    if (cnf !== undefined) {
+      const jwk = (cnf as Partial<HolderConfirmation>).jwk;
+      if (!jwk) {
+        throw new Error("The cnf claim has no jwk");
+      }
+      return this.keyFormat.publicKeyFromJWK(jwk);
+    }
+
+    if (typeof id === "string" && id.startsWith("did:key:")) {
+      // did:key:<multibase>, optionally with its #<multibase> fragment
+      const publicKeyMultibase = id.slice("did:key:".length).split("#")[0];
+      return this.keyFormat.publicKeyFromMultibase(publicKeyMultibase);
+    }
+
+    throw new Error("Credential subject is not bound to a holder key");
+  }
+
+  /**
+   * Check that a credential is bound to a given holder key, e.g. the key
+   * that signed a presentation of it
+   * @param credential - Credential naming the holder key
+   * @param publicKey - Holder public key in the service's format
+   * @returns Whether the credential is bound to the key
+   */
+  matchHolderKey(
+    credential: Credential,
+    publicKey: string,
+  ): { valid: boolean; reason?: string; holderPublicKey?: string } {
+    try {
+      const holderPublicKey = this.resolveHolderKey(credential);
+      // Compare the JWKs, as one key has several hex or PEM encodings
+      const toJWK = (key: string) =>
+        canonicalizeJSON(this.keyFormat.publicKeyToJWK(key));
+      return toJWK(holderPublicKey) === toJWK(publicKey)
+        ? { valid: true, holderPublicKey }
+        : { valid: false, reason: "Credential is bound to another holder key" };
+    } catch (error) {
+      return { valid: false, reason: (error as Error).message };
+    }
+  }
+
+  /**
+   * Sign a verifier challenge with the holder key
+   * @param challenge - Fresh challenge of the verifier
+   * @param signer - Signer or private key of the holder
+   * @param domain - Verifier the challenge came from (e.g. its lock id)
+   * @returns Proof-of-possession signature
+   */
+  async signChallenge(
+    challenge: string,
+    signer: string | Signer,
+    domain: string,
+  ): Promise<string> {
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+    const possessionHash = this.createPossessionHash(challenge, domain);
+    return typeof signer === "string"
+      ? this.cryptoService.sign(possessionHash, signer)
+      : signer.sign(possessionHash);
+  }
+
+  /**
+   * Verify that the presenter holds the key a credential is bound to
+   * @param credential - Credential naming the holder key
+   * @param challenge - Challenge the verifier sent
+   * @param signature - Holder's signature over the challenge and domain
+   * @param domain - The verifier itself (e.g. its lock id)
+   * @returns Whether the signature is valid, and the holder key
+   */
+  async verifyPossession(
+    credential: Credential,
+    challenge: string,
+    signature: string,
+    domain: string,
+  ): Promise<{ valid: boolean; reason?: string; holderPublicKey?: string }> {
+    if (!challenge) {
+      return { valid: false, reason: "No challenge to verify against" };
+    }
+    if (!domain) {
+      return { valid: false, reason: "No domain to verify against" };
+    }
+
+    let holderPublicKey: string;
+    try {
+      holderPublicKey = this.resolveHolderKey(credential);
+    } catch (error) {
+      return { valid: false, reason: (error as Error).message };
+    }
+
+    const signatureValid = await this.cryptoService.verify(
+      this.createPossessionHash(challenge, domain),
+      signature,
+      holderPublicKey,
+    );
+    return signatureValid
+      ? { valid: true, holderPublicKey }
+      : { valid: false, reason: "Invalid possession signature" };
+  }
+
+  /**
+   * Hash the holder signs: the challenge and the verifier's domain
+   *
+   * @private
+   */
+  private createPossessionHash(challenge: string, domain: string): string {
+    return this.cryptoService.hash(canonicalizeJSON({ challenge, domain }));
+  }
+}
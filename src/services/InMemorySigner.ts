@@ -0,0 +1,76 @@
+import { CryptoService } from "./CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { KeystoreService, EncryptedKeystore } from "./KeystoreService";
+import { CryptoIdentity, Signer } from "../types";
+
+/**
+ * In-Memory Signer
+ *
+ * Signer backed by a CryptoIdentity held in process memory.
+ *
+ * Key characteristics:
+ * - Signs with the given CryptoService, so signatures match CryptoService.sign
+ * - The private key is captured in a closure, not stored on the object, so it
+ *   does not show up when the signer is logged or serialized
+ * - Can be loaded straight from an encrypted keystore
+ *
+ * Use case: Development, tests and issuers without an external key service
+ */
+export class InMemorySigner implements Signer {
+  readonly algorithm: string;
+  readonly publicKey: string;
+  readonly address: string;
+  private signHash: (hash: string) => Promise<string>;
+
+  /**
+   * @param cryptoService - Service that produces the signatures
+   * @param identity - Identity to sign with
+   */
+  constructor(cryptoService: CryptoService, identity: CryptoIdentity) {
+    const { privateKey } = identity;
+    this.algorithm = KeyFormatService.getSignerAlgorithm(cryptoService);
+    this.publicKey = identity.publicKey;
+    this.address = identity.address;
+    this.signHash = (hash) => cryptoService.sign(hash, privateKey);
+  }
+
+  /**
+   * Create a signer for a newly generated identity
+   * @param cryptoService - Service to generate the identity with
+   * @returns Signer for the new identity
+   */
+  static async generate(cryptoService: CryptoService): Promise<InMemorySigner> {
+    return new InMemorySigner(
+      cryptoService,
+      await cryptoService.generateIdentity(),
+    );
+  }
+
+  /**
+   * Create a signer from an encrypted keystore
+   * @param cryptoService - Service the keystore was created for
+   * @param keystore - Keystore object or JSON string (see KeystoreService)
+   * @param password - Keystore password
+   * @returns Signer for the decrypted identity
+   */
+  static async fromKeystore(
+    cryptoService: CryptoService,
+    keystore: EncryptedKeystore | string,
+    password: string,
+  ): Promise<InMemorySigner> {
+    const identity = await new KeystoreService(cryptoService).decrypt(
+      keystore,
+      password,
+    );
+    return new InMemorySigner(cryptoService, identity);
+  }
+
+  /**
+   * Sign a hash with the held private key
+   * @param hash - Hash string to sign
+   * @returns Signature in the CryptoService's format
+   */
+  async sign(hash: string): Promise<string> {
+    return this.signHash(hash);
+  }
+}
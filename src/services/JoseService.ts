@@ -0,0 +1,300 @@
+import { createHash } from "crypto";
+import { ethers } from "ethers";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { Credential } from "../types/w3c-vc.types";
+import { Signer } from "../types";
+
+/**
+ * Media type of a credential secured as a compact JWS (VC-JOSE-COSE)
+ */
+export const VC_JWT_MEDIA_TYPE = "application/vc+jwt";
+
+/**
+ * Protected header of a JWS
+ */
+export interface JoseHeader {
+  alg: string;
+  typ?: string;
+  cty?: string;
+  kid?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Payload of a VC-JWT: the credential plus the JWT claims mapped from it
+ */
+export interface VCJwtPayload extends Credential {
+  iss: string; // issuer (id)
+  nbf?: number; // validFrom, seconds since the epoch
+  exp?: number; // validUntil, seconds since the epoch
+}
+
+/**
+ * Parts of a compact JWS
+ */
+export interface DecodedJWS {
+  header: JoseHeader;
+  payload: Record<string, unknown>;
+  signingInput: string; // ASCII(BASE64URL(header) "." BASE64URL(payload))
+  signature: string; // hex
+}
+
+// Registered JWT claims that are not credential members
+const JWT_CLAIMS = ["iss", "sub", "aud", "exp", "nbf", "iat", "jti"];
+
+// Algorithms that sign a SHA-256 digest of the signing input; the others
+// (EdDSA, ML-DSA, ...) sign the signing input itself
+const SHA256_ALGORITHMS = ["ES256K", "ES256"];
+
+/**
+ * JOSE Service
+ *
+ * Secures credentials as compact JWS (VC-JOSE-COSE, `application/vc+jwt`),
+ * the format most mobile SDKs and identity providers understand. The JWS
+ * payload is the credential itself, with the JWT claims `iss`, `nbf` and `exp`
+ * mapped from `issuer`, `validFrom` and `validUntil`.
+ *
+ * Key characteristics:
+ * - Any CryptoService with a JOSE algorithm: ES256K (ECDSACryptoService),
+ *   ES256 (P256CryptoService), EdDSA (Ed25519CryptoService)
+ * - Signatures in JOSE form (64-byte r || s for ECDSA, no recovery byte)
+ * - The header algorithm must match the service, so "none" or a swapped
+ *   algorithm is never accepted
+ *
+ * Use case: Credentials for mobile SDKs and identity providers that only
+ *   understand JWT credentials
+ */
+export class JoseService {
+  private cryptoService: CryptoService;
+  private algorithm: string;
+
+  /**
+   * @param cryptoService - Service that signs and verifies (defaults to ECDSA)
+   * @throws Error if the service has no JOSE algorithm
+   */
+  constructor(cryptoService: CryptoService = new ECDSACryptoService()) {
+    const algorithm = cryptoService.getJoseAlgorithm?.();
+    if (!algorithm) {
+      throw new Error(
+        `${cryptoService.constructor.name} has no JOSE algorithm`,
+      );
+    }
+    this.cryptoService = cryptoService;
+    this.algorithm = algorithm;
+  }
+
+  /**
+   * Get the JOSE algorithm of the service (the JWS "alg")
+   */
+  getAlgorithm(): string {
+    return this.algorithm;
+  }
+
+  /**
+   * Secure a credential as a compact JWS
+   * @param credential - Unsigned credential (without proof)
+   * @param signer - Signer or private key of the service's key type
+   * @param options - Key id for the "kid" header (defaults to "<issuer>#keys-1")
+   * @returns Compact JWS (application/vc+jwt)
+   *
+   * @example
+   * ```typescript
+   * const jose = new JoseService(new ECDSACryptoService());
+   * const jwt = await jose.signCredential(credential, identity.privateKey);
+   * ```
+   */
+  async signCredential(
+    credential: Credential,
+    signer: string | Signer,
+    options: { kid?: string } = {},
+  ): Promise<string> {
+    if ("proof" in credential) {
+      throw new Error("Credentials secured as JWS must not have a proof");
+    }
+
+    const iss =
+      typeof credential.issuer === "string"
+        ? credential.issuer
+        : credential.issuer.id;
+    const payload: VCJwtPayload = { ...credential, iss };
+    if (credential.validFrom) {
+      payload.nbf = JoseService.toNumericDate(credential.validFrom);
+    }
+    if (credential.validUntil) {
+      payload.exp = JoseService.toNumericDate(credential.validUntil);
+    }
+
+    return this.sign(
+      {
+        alg: this.algorithm,
+        typ: "vc+jwt",
+        cty: "vc",
+        kid: options.kid || `${iss}#keys-1`,
+      },
+      payload,
+      signer,
+    );
+  }
+
+  /**
+   * Create a compact JWS
+   * @param header - Protected header (alg must be the service's algorithm)
+   * @param payload - JSON payload
+   * @param signer - Signer or private key of the service's key type
+   * @returns Compact JWS
+   */
+  async sign(
+    header: JoseHeader,
+    payload: object,
+    signer: string | Signer,
+  ): Promise<string> {
+    if (header.alg !== this.algorithm) {
+      throw new Error(
+        `Header algorithm ${header.alg} does not match ${this.algorithm}`,
+      );
+    }
+
+    const signingInput = `${this.encode(header)}.${this.encode(payload)}`;
+    const data = this.createSigningData(signingInput);
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+    let signature =
+      typeof signer === "string"
+        ? await this.cryptoService.sign(data, signer)
+        : await signer.sign(data);
+
+    // JOSE ES256K signatures carry no recovery byte
+    if (this.algorithm === "ES256K" && ethers.dataLength(signature) === 65) {
+      signature = ethers.dataSlice(signature, 0, 64);
+    }
+
+    return `${signingInput}.${Buffer.from(ethers.getBytes(signature)).toString(
+      "base64url",
+    )}`;
+  }
+
+  /**
+   * Verify the signature of a compact JWS
+   * @param jws - Compact JWS or its decoded parts
+   * @param publicKey - Public key of the signer (hex)
+   * @returns True if the header algorithm is the service's and the signature
+   *   is valid
+   * @throws Error if the JWS is malformed
+   */
+  async verify(jws: string | DecodedJWS, publicKey: string): Promise<boolean> {
+    const { header, signingInput, signature } =
+      typeof jws === "string" ? JoseService.decode(jws) : jws;
+    if (header.alg !== this.algorithm) {
+      return false;
+    }
+
+    const data = this.createSigningData(signingInput);
+    if (
+      this.algorithm === "ES256K" &&
+      this.cryptoService instanceof ECDSACryptoService
+    ) {
+      return this.cryptoService.verifyCompact(data, signature, publicKey);
+    }
+    return this.cryptoService.verify(data, signature, publicKey);
+  }
+
+  /**
+   * Split a compact JWS into its parts (without verifying it)
+   * @param jws - Compact JWS
+   * @returns Header, payload, signing input and signature
+   * @throws Error if the JWS is malformed
+   */
+  static decode(jws: string): DecodedJWS {
+    const parts = typeof jws === "string" ? jws.split(".") : [];
+    if (parts.length !== 3 || parts.some((part) => !/^[\w-]+$/.test(part))) {
+      throw new Error("Malformed compact JWS");
+    }
+
+    const header = JoseService.decodeJSON(parts[0], "header");
+    if (typeof header.alg !== "string") {
+      throw new Error('JWS header has no "alg"');
+    }
+
+    return {
+      header: header as JoseHeader,
+      payload: JoseService.decodeJSON(parts[1], "payload"),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: ethers.hexlify(Buffer.from(parts[2], "base64url")),
+    };
+  }
+
+  /**
+   * Recover the credential from a VC-JWT payload (without the JWT claims)
+   * @param payload - Decoded JWS payload
+   * @returns Credential
+   */
+  static toCredential(payload: Record<string, unknown>): Credential {
+    const credential = { ...payload };
+    for (const claim of JWT_CLAIMS) {
+      delete credential[claim];
+    }
+    return credential as unknown as Credential;
+  }
+
+  /**
+   * Convert an ISO 8601 date into a JWT NumericDate (seconds since the epoch)
+   * @param dateTime - ISO 8601 date
+   * @returns NumericDate
+   * @throws Error if the date is invalid
+   */
+  static toNumericDate(dateTime: string): number {
+    const time = new Date(dateTime).getTime();
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid date: ${dateTime}`);
+    }
+    return Math.floor(time / 1000);
+  }
+
+  /**
+   * Data handed to the raw signer
+   * - ES256K / ES256 sign SHA-256(signing input)
+   * - Other algorithms sign the signing input itself
+   *
+   * @private
+   */
+  private createSigningData(signingInput: string): string {
+    if (SHA256_ALGORITHMS.includes(this.algorithm)) {
+      return (
+        "0x" + createHash("sha256").update(signingInput, "ascii").digest("hex")
+      );
+    }
+    return ethers.hexlify(ethers.toUtf8Bytes(signingInput));
+  }
+
+  /**
+   * BASE64URL(UTF-8(JSON))
+   *
+   * @private
+   */
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+  }
+
+  /**
+   * Decode a BASE64URL JSON object
+   *
+   * @private
+   */
+  private static decodeJSON(
+    part: string,
+    name: string,
+  ): Record<string, unknown> {
+    let value: unknown;
+    try {
+      value = JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+    } catch {
+      throw new Error(`JWS ${name} is not valid JSON`);
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`JWS ${name} is not a JSON object`);
+    }
+    return value as Record<string, unknown>;
+  }
+}
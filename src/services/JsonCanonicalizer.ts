@@ -0,0 +1,185 @@
+/**
+ * Canonicalization algorithm used to hash credentials
+ * - "rfc8785": JSON Canonicalization Scheme (RFC 8785), the default
+ * - "legacy": algorithm of releases up to 3.1, kept so credentials signed
+ *   with it still verify
+ *
+ * Both produce the same output for ordinary credentials. They differ for keys
+ * that need escaping, undefined array items, non-finite numbers, values with
+ * toJSON (e.g. Date) and a top-level undefined.
+ */
+export type CanonicalizationVersion = "rfc8785" | "legacy";
+
+/**
+ * Canonicalization used when none is given
+ */
+export const DEFAULT_CANONICALIZATION: CanonicalizationVersion = "rfc8785";
+
+/**
+ * Canonicalization to verify a proof with
+ *
+ * Proofs record the canonicalization they were signed with; proofs without
+ * one come from releases up to 3.1. The proof field is not signed, so a
+ * recorded "legacy" is only accepted when the verifier asks for it: legacy
+ * canonicalization does not escape member names, so a rewritten document
+ * (e.g. with validUntil folded into another member's name) could otherwise
+ * hash like the signed one.
+ *
+ * @param recorded - canonicalization member of the proof
+ * @param override - Canonicalization the verifier asked for, if any
+ * @returns Canonicalization to hash the document with
+ * @throws Error if the proof records legacy canonicalization without override
+ */
+export function resolveCanonicalization(
+  recorded: string | undefined,
+  override?: CanonicalizationVersion,
+): CanonicalizationVersion {
+  if (override) {
+    return override;
+  }
+  if (recorded === undefined) {
+    return DEFAULT_CANONICALIZATION;
+  }
+  if (recorded === "legacy") {
+    throw new Error(
+      'Proof uses legacy canonicalization; verify with canonicalization: "legacy" to accept it',
+    );
+  }
+  if (recorded !== "rfc8785") {
+    throw new Error(`Unknown canonicalization version: ${recorded}`);
+  }
+  return recorded;
+}
+
+// Unpaired UTF-16 surrogates, which I-JSON (RFC 7493) does not allow
+const LONE_SURROGATE =
+  /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+/**
+ * Canonicalize a JSON value for deterministic hashing and signing
+ *
+ * RFC 8785:
+ * - Object members sorted by the UTF-16 code units of their names
+ * - Numbers and strings serialized like ECMAScript JSON.stringify
+ * - No whitespace; undefined members are omitted, undefined array items
+ *   become null (as in JSON.stringify)
+ * - Non-finite numbers, BigInts and unpaired surrogates are rejected
+ *
+ * @param value - JSON value to canonicalize
+ * @param version - Canonicalization algorithm (defaults to "rfc8785")
+ * @returns Canonical JSON string
+ * @throws Error if the value cannot be represented as I-JSON
+ *
+ * @example
+ * ```typescript
+ * canonicalizeJSON({ b: 2, a: [1e21, "€"] });
+ * // '{"a":[1e+21,"€"],"b":2}'
+ * ```
+ */
+export function canonicalizeJSON(
+  value: unknown,
+  version: CanonicalizationVersion = DEFAULT_CANONICALIZATION,
+): string {
+  if (version === "legacy") {
+    return canonicalizeLegacy(value);
+  }
+  if (version !== "rfc8785") {
+    throw new Error(`Unknown canonicalization version: ${version}`);
+  }
+
+  const canonical = canonicalizeRFC8785(value);
+  if (canonical === undefined) {
+    throw new Error(`Cannot canonicalize a top-level ${typeof value}`);
+  }
+  return canonical;
+}
+
+/**
+ * RFC 8785 serialization; undefined for values JSON omits
+ * (undefined, functions, symbols)
+ */
+function canonicalizeRFC8785(value: unknown): string | undefined {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as { toJSON?: unknown }).toJSON === "function"
+  ) {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  if (value === null || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+  if (typeof value === "string") {
+    return serializeString(value);
+  }
+  if (typeof value === "bigint") {
+    throw new Error("Cannot canonicalize a BigInt");
+  }
+  if (
+    value === undefined ||
+    typeof value === "function" ||
+    typeof value === "symbol"
+  ) {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => canonicalizeRFC8785(item) ?? "null");
+    return `[${items.join(",")}]`;
+  }
+
+  // Array.prototype.sort compares UTF-16 code units, as RFC 8785 requires
+  const record = value as Record<string, unknown>;
+  const members: string[] = [];
+  for (const key of Object.keys(record).sort()) {
+    const member = canonicalizeRFC8785(record[key]);
+    if (member !== undefined) {
+      members.push(`${serializeString(key)}:${member}`);
+    }
+  }
+  return `{${members.join(",")}}`;
+}
+
+/**
+ * Serialize a string like JSON.stringify, rejecting unpaired surrogates
+ */
+function serializeString(value: string): string {
+  if (LONE_SURROGATE.test(value)) {
+    throw new Error("Cannot canonicalize a string with unpaired surrogates");
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Canonicalization of releases up to 3.1 (unchanged, do not fix)
+ */
+function canonicalizeLegacy(obj: unknown): string {
+  if (obj === null) return "null";
+  if (obj === undefined) return "undefined";
+  if (typeof obj !== "object") return JSON.stringify(obj);
+
+  if (Array.isArray(obj)) {
+    const items = obj.map((item) => canonicalizeLegacy(item));
+    return `[${items.join(",")}]`;
+  }
+
+  const sorted = Object.keys(obj as Record<string, unknown>)
+    .sort()
+    .filter((key) => {
+      const value = (obj as Record<string, unknown>)[key];
+      return value !== undefined;
+    })
+    .map((key) => {
+      const value = (obj as Record<string, unknown>)[key];
+      return `"${key}":${canonicalizeLegacy(value)}`;
+    });
+
+  return `{${sorted.join(",")}}`;
+}
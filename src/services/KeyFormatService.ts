@@ -0,0 +1,838 @@
+import { createHash, createPrivateKey, createPublicKey } from "crypto";
+import { ethers, SigningKey } from "ethers";
+import { p256 } from "@noble/curves/nist.js";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { RSACryptoService } from "./RSACryptoService";
+import { Ed25519CryptoService } from "./Ed25519CryptoService";
+import { P256CryptoService } from "./P256CryptoService";
+import { BLSCryptoService } from "./BLSCryptoService";
+import { BBSCryptoService } from "./BBSCryptoService";
+import { PQCryptoService, MLDSAParameterSet } from "./PQCryptoService";
+import { FalconCryptoService, FalconVariant } from "./FalconCryptoService";
+import { SLHDSACryptoService, SLHDSAParameterSet } from "./SLHDSACryptoService";
+import { CompositeCryptoService } from "./CompositeCryptoService";
+import { CryptoIdentity, Signer } from "../types";
+
+/**
+ * Key algorithm behind a CryptoService instance
+ */
+export type KeyAlgorithm =
+  | "secp256k1"
+  | "P-256"
+  | "Ed25519"
+  | "RSA"
+  | "BLS12381G1"
+  | "BLS12381G2"
+  | MLDSAParameterSet
+  | FalconVariant
+  | SLHDSAParameterSet;
+
+/**
+ * JSON Web Key (RFC 7517)
+ * - EC (secp256k1, P-256): x, y, d
+ * - OKP (Ed25519, BLS12381G1/G2): x, d
+ * - RSA: n, e, d, p, q, dp, dq, qi
+ * - AKP (ML-DSA, SLH-DSA, Falcon): alg, pub, priv. For ML-DSA, priv is the
+ *   32-byte key generation seed (draft-ietf-cose-dilithium); for SLH-DSA it is
+ *   the FIPS 205 private key; Falcon has no registered AKP form, so priv is
+ *   its full secret key and only loads in this library
+ */
+export interface JWK {
+  kty: string;
+  crv?: string;
+  alg?: string;
+  x?: string;
+  y?: string;
+  d?: string;
+  n?: string;
+  e?: string;
+  pub?: string;
+  priv?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Multikey verification method (W3C Controlled Identifiers)
+ */
+export interface Multikey {
+  id?: string;
+  type: "Multikey";
+  controller?: string;
+  publicKeyMultibase: string;
+}
+
+// Unsigned varint multicodec prefixes of the registered public key codes
+const MULTICODEC_PREFIXES: Partial<Record<KeyAlgorithm, number[]>> = {
+  secp256k1: [0xe7, 0x01], // secp256k1-pub (compressed)
+  "P-256": [0x80, 0x24], // p256-pub (compressed)
+  Ed25519: [0xed, 0x01], // ed25519-pub
+  RSA: [0x85, 0x24], // rsa-pub (PKCS#1 DER)
+  BLS12381G1: [0xea, 0x01], // bls12_381-g1-pub
+  BLS12381G2: [0xeb, 0x01], // bls12_381-g2-pub
+  "ML-DSA-44": [0x90, 0x24], // mldsa-44-pub
+  "ML-DSA-65": [0x91, 0x24], // mldsa-65-pub
+  "ML-DSA-87": [0x92, 0x24], // mldsa-87-pub
+};
+
+// ML-DSA private keys in AKP JWKs are the key generation seed
+const ML_DSA_SEED_LENGTH = 32;
+
+// Last arc of the NIST OIDs 2.16.840.1.101.3.4.3.x used in SubjectPublicKeyInfo
+const NIST_SIGNATURE_OID_ARCS: Partial<Record<KeyAlgorithm, number>> = {
+  "ML-DSA-44": 17,
+  "ML-DSA-65": 18,
+  "ML-DSA-87": 19,
+  "SLH-DSA-SHA2-128s": 20,
+  "SLH-DSA-SHA2-128f": 21,
+  "SLH-DSA-SHA2-192s": 22,
+  "SLH-DSA-SHA2-192f": 23,
+  "SLH-DSA-SHA2-256s": 24,
+  "SLH-DSA-SHA2-256f": 25,
+};
+
+/**
+ * Key Format Service
+ *
+ * Converts keys of a CryptoService between the service's own string format
+ * (hex for ECDSA/EdDSA/BLS, PEM for RSA, base64 for post-quantum) and:
+ * - JWK: every algorithm (AKP key type for the post-quantum ones)
+ * - Multikey (publicKeyMultibase, base58btc): algorithms with a registered
+ *   multicodec (secp256k1, P-256, Ed25519, RSA, BLS12-381, ML-DSA)
+ * - PEM: secp256k1, P-256, Ed25519 and RSA; public keys only for ML-DSA and
+ *   SLH-DSA (SubjectPublicKeyInfo with the NIST OIDs)
+ *
+ * Imported identities get the same address the service itself would derive.
+ * Composite keys are not supported; convert each component with its own service.
+ *
+ * Use case: Publishing issuer keys in DID documents and loading external keys
+ */
+export class KeyFormatService {
+  private cryptoService: CryptoService;
+  private algorithm: KeyAlgorithm;
+
+  /**
+   * @param cryptoService - Service whose keys are converted
+   */
+  constructor(cryptoService: CryptoService) {
+    this.cryptoService = cryptoService;
+    this.algorithm = this.detectAlgorithm(cryptoService);
+  }
+
+  /**
+   * Get the key algorithm of the configured service
+   */
+  getAlgorithm(): KeyAlgorithm {
+    return this.algorithm;
+  }
+
+  /**
+   * Get the algorithm a Signer of a CryptoService reports (Signer.algorithm)
+   * The key algorithm, or the cryptosuite of a composite service
+   * @param cryptoService - Service the signer's signatures are for
+   * @returns Algorithm name, e.g. "secp256k1" or "composite-ecdsa-mldsa44"
+   * @throws Error if the service has no known key algorithm
+   */
+  static getSignerAlgorithm(cryptoService: CryptoService): string {
+    return cryptoService instanceof CompositeCryptoService
+      ? cryptoService.getCryptosuite()
+      : new KeyFormatService(cryptoService).getAlgorithm();
+  }
+
+  /**
+   * Check that a Signer holds a key of a CryptoService's algorithm, so a
+   * proof is never labelled with an algorithm it was not signed with
+   * Services without a known key algorithm (custom services) are not checked
+   * @param cryptoService - Service the signature is created for
+   * @param signer - Signer to sign with
+   * @throws Error if the signer holds a key of another algorithm
+   */
+  static assertSignerAlgorithm(
+    cryptoService: CryptoService,
+    signer: Signer,
+  ): void {
+    let expected: string;
+    try {
+      expected = KeyFormatService.getSignerAlgorithm(cryptoService);
+    } catch {
+      return;
+    }
+    if (signer.algorithm !== expected) {
+      throw new Error(
+        `Signer holds a ${signer.algorithm} key, service expects ${expected}`,
+      );
+    }
+  }
+
+  // ==========================================================================
+  // JWK
+  // ==========================================================================
+
+  /**
+   * Export a public key as JWK
+   * @param publicKey - Public key in the service's format
+   * @returns Public JWK
+   */
+  publicKeyToJWK(publicKey: string): JWK {
+    switch (this.algorithm) {
+      case "secp256k1":
+      case "P-256": {
+        const bytes = this.rawPublicKey(publicKey);
+        return {
+          kty: "EC",
+          crv: this.algorithm,
+          x: this.toBase64Url(bytes.slice(1, 33)),
+          y: this.toBase64Url(bytes.slice(33, 65)),
+        };
+      }
+      case "RSA":
+        return createPublicKey(publicKey).export({ format: "jwk" }) as JWK;
+      case "Ed25519":
+      case "BLS12381G1":
+      case "BLS12381G2":
+        return {
+          kty: "OKP",
+          crv: this.algorithm,
+          x: this.toBase64Url(this.rawPublicKey(publicKey)),
+        };
+      default:
+        return {
+          kty: "AKP",
+          alg: this.algorithm,
+          pub: this.toBase64Url(this.rawPublicKey(publicKey)),
+        };
+    }
+  }
+
+  /**
+   * Export an identity (public and private key) as JWK
+   * @param identity - Identity in the service's format
+   * @returns Private JWK
+   */
+  identityToJWK(identity: CryptoIdentity): JWK {
+    if (this.algorithm === "RSA") {
+      return createPrivateKey(identity.privateKey).export({
+        format: "jwk",
+      }) as JWK;
+    }
+
+    const jwk = this.publicKeyToJWK(identity.publicKey);
+    const rawPrivateKey = this.rawPrivateKey(identity.privateKey);
+    if (
+      this.cryptoService instanceof PQCryptoService &&
+      rawPrivateKey.length !== ML_DSA_SEED_LENGTH
+    ) {
+      throw new Error(
+        `${this.algorithm} JWKs carry the 32-byte seed; an expanded secret key cannot be exported`,
+      );
+    }
+    const privateKey = this.toBase64Url(rawPrivateKey);
+    if (jwk.kty === "AKP") {
+      jwk.priv = privateKey;
+    } else {
+      jwk.d = privateKey;
+    }
+    return jwk;
+  }
+
+  /**
+   * Import a public key from JWK
+   * @param jwk - Public or private JWK
+   * @returns Public key in the service's format
+   * @throws Error if the JWK is for a different algorithm
+   */
+  publicKeyFromJWK(jwk: JWK): string {
+    this.assertJWKAlgorithm(jwk);
+
+    switch (this.algorithm) {
+      case "secp256k1":
+      case "P-256":
+        return this.encodePublicKey(
+          this.concat(
+            [0x04],
+            this.fromBase64Url(this.requireMember(jwk, "x")),
+            this.fromBase64Url(this.requireMember(jwk, "y")),
+          ),
+        );
+      case "RSA":
+        return createPublicKey({
+          key: { kty: "RSA", n: jwk.n, e: jwk.e },
+          format: "jwk",
+        })
+          .export({ type: "spki", format: "pem" })
+          .toString();
+      case "Ed25519":
+      case "BLS12381G1":
+      case "BLS12381G2":
+        return this.encodePublicKey(
+          this.fromBase64Url(this.requireMember(jwk, "x")),
+        );
+      default:
+        return this.encodePublicKey(
+          this.fromBase64Url(this.requireMember(jwk, "pub")),
+        );
+    }
+  }
+
+  /**
+   * Import an identity from a private JWK
+   * @param jwk - Private JWK
+   * @returns CryptoIdentity in the service's format
+   * @throws Error if the JWK has no private key or is for a different algorithm
+   */
+  identityFromJWK(jwk: JWK): CryptoIdentity {
+    this.assertJWKAlgorithm(jwk);
+
+    if (this.algorithm === "RSA") {
+      this.requireMember(jwk, "d");
+      return this.identityFromPEM(
+        createPrivateKey({ key: jwk, format: "jwk" })
+          .export({ type: "pkcs8", format: "pem" })
+          .toString(),
+      );
+    }
+
+    const privateKey = this.fromBase64Url(
+      this.requireMember(jwk, jwk.kty === "AKP" ? "priv" : "d"),
+    );
+    const publicKey = this.publicKeyFromJWK(jwk);
+
+    // An ML-DSA priv is the seed the key pair is generated from
+    if (this.cryptoService instanceof PQCryptoService) {
+      if (privateKey.length !== ML_DSA_SEED_LENGTH) {
+        throw new Error(`${this.algorithm} JWK priv must be the 32-byte seed`);
+      }
+      const identity = this.cryptoService.identityFromSeed(privateKey);
+      if (identity.publicKey !== publicKey) {
+        throw new Error("JWK pub does not match its priv seed");
+      }
+      return identity;
+    }
+
+    return {
+      privateKey: this.encodePrivateKey(privateKey),
+      publicKey,
+      address: this.deriveAddress(publicKey),
+    };
+  }
+
+  // ==========================================================================
+  // MULTIKEY
+  // ==========================================================================
+
+  /**
+   * Encode a public key as publicKeyMultibase (base58btc multicodec)
+   * @param publicKey - Public key in the service's format
+   * @returns Multibase string starting with "z"
+   * @throws Error if the algorithm has no registered multicodec
+   */
+  publicKeyToMultibase(publicKey: string): string {
+    const prefix = this.getMulticodecPrefix();
+
+    let bytes: Uint8Array;
+    if (this.algorithm === "secp256k1") {
+      bytes = ethers.getBytes(SigningKey.computePublicKey(publicKey, true));
+    } else if (this.algorithm === "P-256") {
+      bytes = p256.Point.fromBytes(this.rawPublicKey(publicKey)).toBytes(true);
+    } else if (this.algorithm === "RSA") {
+      bytes = createPublicKey(publicKey).export({
+        type: "pkcs1",
+        format: "der",
+      });
+    } else {
+      bytes = this.rawPublicKey(publicKey);
+    }
+
+    return "z" + ethers.encodeBase58(this.concat(prefix, bytes));
+  }
+
+  /**
+   * Decode a publicKeyMultibase value
+   * @param publicKeyMultibase - Multibase string starting with "z"
+   * @returns Public key in the service's format
+   * @throws Error if the value is not a base58btc key of this algorithm
+   */
+  publicKeyFromMultibase(publicKeyMultibase: string): string {
+    const prefix = this.getMulticodecPrefix();
+    if (!publicKeyMultibase.startsWith("z")) {
+      throw new Error("Only base58btc (z) multibase keys are supported");
+    }
+
+    const bytes = ethers.toBeArray(
+      ethers.decodeBase58(publicKeyMultibase.slice(1)),
+    );
+    if (!prefix.every((byte, index) => bytes[index] === byte)) {
+      throw new Error(`Multikey is not a ${this.algorithm} public key`);
+    }
+    const keyBytes = bytes.slice(prefix.length);
+
+    if (this.algorithm === "secp256k1") {
+      return SigningKey.computePublicKey(keyBytes, false);
+    }
+    if (this.algorithm === "P-256") {
+      return this.encodePublicKey(
+        p256.Point.fromBytes(keyBytes).toBytes(false),
+      );
+    }
+    if (this.algorithm === "RSA") {
+      return createPublicKey({
+        key: Buffer.from(keyBytes),
+        format: "der",
+        type: "pkcs1",
+      })
+        .export({ type: "spki", format: "pem" })
+        .toString();
+    }
+    return this.encodePublicKey(keyBytes);
+  }
+
+  /**
+   * Create a Multikey verification method for a DID document
+   * @param publicKey - Public key in the service's format
+   * @param options - Optional verification method id and controller
+   * @returns Multikey object
+   */
+  toMultikey(
+    publicKey: string,
+    options: { id?: string; controller?: string } = {},
+  ): Multikey {
+    const multikey: Multikey = {
+      type: "Multikey",
+      publicKeyMultibase: this.publicKeyToMultibase(publicKey),
+    };
+    if (options.id) multikey.id = options.id;
+    if (options.controller) multikey.controller = options.controller;
+    return multikey;
+  }
+
+  // ==========================================================================
+  // PEM
+  // ==========================================================================
+
+  /**
+   * Export a public key as PEM (SubjectPublicKeyInfo)
+   * @param publicKey - Public key in the service's format
+   * @returns PEM-encoded public key
+   * @throws Error if the algorithm has no standard PEM encoding
+   */
+  publicKeyToPEM(publicKey: string): string {
+    switch (this.algorithm) {
+      case "secp256k1":
+      case "P-256":
+      case "Ed25519":
+        return createPublicKey({
+          key: this.publicKeyToJWK(publicKey),
+          format: "jwk",
+        })
+          .export({ type: "spki", format: "pem" })
+          .toString();
+      case "RSA":
+        return createPublicKey(publicKey)
+          .export({ type: "spki", format: "pem" })
+          .toString();
+      default:
+        return this.toPEM(
+          "PUBLIC KEY",
+          this.encodeNISTPublicKeyInfo(this.rawPublicKey(publicKey)),
+        );
+    }
+  }
+
+  /**
+   * Import a public key from PEM (SubjectPublicKeyInfo)
+   * @param pem - PEM-encoded public key
+   * @returns Public key in the service's format
+   * @throws Error if the PEM is for a different algorithm
+   */
+  publicKeyFromPEM(pem: string): string {
+    const oidArc = NIST_SIGNATURE_OID_ARCS[this.algorithm];
+    if (oidArc === undefined) {
+      if (!this.hasNodeKeyType()) {
+        throw new Error(`PEM is not supported for ${this.algorithm} keys`);
+      }
+      return this.publicKeyFromJWK(
+        createPublicKey(pem).export({ format: "jwk" }) as JWK,
+      );
+    }
+
+    const der = this.fromPEM("PUBLIC KEY", pem);
+    const prefix = this.encodeNISTPublicKeyInfo(new Uint8Array());
+    // The length fields vary with the key size, so locate the OID and read
+    // the BIT STRING that follows it
+    const oid = prefix.slice(prefix.length - 14, prefix.length - 3);
+    const start = this.indexOf(der, oid);
+    if (start < 0 || der[start + oid.length] !== 0x03) {
+      throw new Error(`PEM is not a ${this.algorithm} public key`);
+    }
+    const lengthByte = der[start + oid.length + 1];
+    const headerLength = 2 + (lengthByte & 0x80 ? lengthByte & 0x7f : 0) + 1;
+    const keyBytes = der.slice(start + oid.length + headerLength);
+    const expected = this.encodeNISTPublicKeyInfo(keyBytes);
+    if (Buffer.compare(Buffer.from(expected), Buffer.from(der)) !== 0) {
+      throw new Error(`PEM is not a ${this.algorithm} public key`);
+    }
+    return this.encodePublicKey(keyBytes);
+  }
+
+  /**
+   * Export an identity as PEM (PKCS#8 private key, SPKI public key)
+   * @param identity - Identity in the service's format
+   * @returns PEM-encoded private and public key
+   * @throws Error if the algorithm has no standard private key PEM encoding
+   */
+  identityToPEM(identity: CryptoIdentity): {
+    privateKey: string;
+    publicKey: string;
+  } {
+    this.assertPEMSupported();
+    const key =
+      this.algorithm === "RSA"
+        ? createPrivateKey(identity.privateKey)
+        : createPrivateKey({
+            key: this.identityToJWK(identity),
+            format: "jwk",
+          });
+
+    return {
+      privateKey: key.export({ type: "pkcs8", format: "pem" }).toString(),
+      publicKey: createPublicKey(key)
+        .export({ type: "spki", format: "pem" })
+        .toString(),
+    };
+  }
+
+  /**
+   * Import an identity from a PKCS#8 PEM private key
+   * @param privateKeyPem - PEM-encoded private key
+   * @returns CryptoIdentity in the service's format
+   * @throws Error if the PEM is for a different algorithm
+   */
+  identityFromPEM(privateKeyPem: string): CryptoIdentity {
+    this.assertPEMSupported();
+    const key = createPrivateKey(privateKeyPem);
+
+    if (this.algorithm === "RSA") {
+      if (key.asymmetricKeyType !== "rsa") {
+        throw new Error("PEM is not a RSA private key");
+      }
+      const publicKey = createPublicKey(key)
+        .export({ type: "spki", format: "pem" })
+        .toString();
+      return {
+        privateKey: key.export({ type: "pkcs8", format: "pem" }).toString(),
+        publicKey,
+        address: this.deriveAddress(publicKey),
+      };
+    }
+
+    return this.identityFromJWK(key.export({ format: "jwk" }) as JWK);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  /**
+   * Derive the address the service would assign to a public key
+   *
+   * @private
+   */
+  private deriveAddress(publicKey: string): string {
+    if (this.algorithm === "secp256k1") {
+      return ethers.computeAddress(publicKey);
+    }
+
+    const addressHash = createHash("sha256")
+      .update(
+        this.algorithm === "RSA"
+          ? Buffer.from(publicKey, "utf8")
+          : this.rawPublicKey(publicKey),
+      )
+      .digest("hex");
+    return `0x${addressHash.substring(0, 40)}`;
+  }
+
+  /**
+   * Identify the key algorithm of a CryptoService
+   *
+   * @private
+   */
+  private detectAlgorithm(cryptoService: CryptoService): KeyAlgorithm {
+    if (cryptoService instanceof ECDSACryptoService) return "secp256k1";
+    if (cryptoService instanceof P256CryptoService) return "P-256";
+    if (cryptoService instanceof Ed25519CryptoService) return "Ed25519";
+    if (cryptoService instanceof RSACryptoService) return "RSA";
+    if (cryptoService instanceof BLSCryptoService) return "BLS12381G1";
+    if (cryptoService instanceof BBSCryptoService) return "BLS12381G2";
+    if (cryptoService instanceof PQCryptoService) {
+      return cryptoService.getParameterSet();
+    }
+    if (cryptoService instanceof FalconCryptoService) {
+      return cryptoService.getVariant();
+    }
+    if (cryptoService instanceof SLHDSACryptoService) {
+      return cryptoService.getParameterSet();
+    }
+    if (cryptoService instanceof CompositeCryptoService) {
+      throw new Error(
+        "Composite keys have no single key format; convert each component with its own service",
+      );
+    }
+    throw new Error(
+      `Key formats are not supported for ${cryptoService.constructor.name}`,
+    );
+  }
+
+  /**
+   * Whether keys are hex strings (otherwise base64, or PEM for RSA)
+   *
+   * @private
+   */
+  private usesHexKeys(): boolean {
+    return [
+      "secp256k1",
+      "P-256",
+      "Ed25519",
+      "BLS12381G1",
+      "BLS12381G2",
+    ].includes(this.algorithm);
+  }
+
+  /**
+   * Decode a public key from the service's format
+   *
+   * @private
+   */
+  private rawPublicKey(publicKey: string): Uint8Array {
+    if (this.algorithm === "secp256k1") {
+      return ethers.getBytes(SigningKey.computePublicKey(publicKey, false));
+    }
+    if (this.algorithm === "P-256") {
+      return p256.Point.fromBytes(
+        new Uint8Array(Buffer.from(publicKey.replace(/^0x/, ""), "hex")),
+      ).toBytes(false);
+    }
+    return this.rawPrivateKey(publicKey);
+  }
+
+  /**
+   * Decode a hex or base64 key from the service's format
+   *
+   * @private
+   */
+  private rawPrivateKey(key: string): Uint8Array {
+    return this.usesHexKeys()
+      ? new Uint8Array(Buffer.from(key.replace(/^0x/, ""), "hex"))
+      : new Uint8Array(Buffer.from(key, "base64"));
+  }
+
+  /**
+   * Encode raw public key bytes in the service's format
+   *
+   * @private
+   */
+  private encodePublicKey(bytes: Uint8Array): string {
+    return this.encodePrivateKey(bytes);
+  }
+
+  /**
+   * Encode raw key bytes in the service's format
+   *
+   * @private
+   */
+  private encodePrivateKey(bytes: Uint8Array): string {
+    return this.usesHexKeys()
+      ? "0x" + Buffer.from(bytes).toString("hex")
+      : Buffer.from(bytes).toString("base64");
+  }
+
+  /**
+   * Check that a JWK belongs to the configured algorithm
+   *
+   * @private
+   */
+  private assertJWKAlgorithm(jwk: JWK): void {
+    const expected = this.publicKeyToJWKShape();
+    if (
+      jwk.kty !== expected.kty ||
+      (expected.crv !== undefined && jwk.crv !== expected.crv) ||
+      (expected.alg !== undefined && jwk.alg !== expected.alg)
+    ) {
+      throw new Error(`JWK is not a ${this.algorithm} key`);
+    }
+  }
+
+  /**
+   * kty / crv / alg members identifying the configured algorithm
+   *
+   * @private
+   */
+  private publicKeyToJWKShape(): { kty: string; crv?: string; alg?: string } {
+    switch (this.algorithm) {
+      case "secp256k1":
+      case "P-256":
+        return { kty: "EC", crv: this.algorithm };
+      case "RSA":
+        return { kty: "RSA" };
+      case "Ed25519":
+      case "BLS12381G1":
+      case "BLS12381G2":
+        return { kty: "OKP", crv: this.algorithm };
+      default:
+        return { kty: "AKP", alg: this.algorithm };
+    }
+  }
+
+  /**
+   * Read a required JWK member
+   *
+   * @private
+   */
+  private requireMember(jwk: JWK, member: keyof JWK): string {
+    const value = jwk[member];
+    if (typeof value !== "string" || value.length === 0) {
+      throw new Error(`JWK is missing "${String(member)}"`);
+    }
+    return value;
+  }
+
+  /**
+   * Multicodec prefix of the configured algorithm
+   *
+   * @private
+   */
+  private getMulticodecPrefix(): number[] {
+    const prefix = MULTICODEC_PREFIXES[this.algorithm];
+    if (!prefix) {
+      throw new Error(`No registered multicodec for ${this.algorithm} keys`);
+    }
+    return prefix;
+  }
+
+  /**
+   * Whether Node.js can import the algorithm as a KeyObject (PKCS#8 / SPKI)
+   *
+   * @private
+   */
+  private hasNodeKeyType(): boolean {
+    return ["secp256k1", "P-256", "Ed25519", "RSA"].includes(this.algorithm);
+  }
+
+  /**
+   * Check that the algorithm has a PKCS#8 private key encoding
+   *
+   * @private
+   */
+  private assertPEMSupported(): void {
+    if (!this.hasNodeKeyType()) {
+      throw new Error(
+        `PEM private keys are not supported for ${this.algorithm}`,
+      );
+    }
+  }
+
+  /**
+   * Build a SubjectPublicKeyInfo for ML-DSA / SLH-DSA (NIST OID, no parameters)
+   *
+   * @private
+   */
+  private encodeNISTPublicKeyInfo(publicKey: Uint8Array): Uint8Array {
+    const oidArc = NIST_SIGNATURE_OID_ARCS[this.algorithm];
+    if (oidArc === undefined) {
+      throw new Error(`PEM is not supported for ${this.algorithm} keys`);
+    }
+
+    const oid = this.der(
+      0x06,
+      new Uint8Array([0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x03, oidArc]),
+    );
+    return this.der(
+      0x30,
+      this.concat(
+        this.der(0x30, oid),
+        this.der(0x03, this.concat([0x00], publicKey)),
+      ),
+    );
+  }
+
+  /**
+   * Encode one DER TLV
+   *
+   * @private
+   */
+  private der(tag: number, content: Uint8Array): Uint8Array {
+    const length: number[] = [];
+    if (content.length < 0x80) {
+      length.push(content.length);
+    } else {
+      for (let value = content.length; value > 0; value >>= 8) {
+        length.unshift(value & 0xff);
+      }
+      length.unshift(0x80 | length.length);
+    }
+    return this.concat([tag], length, content);
+  }
+
+  /**
+   * Wrap DER bytes in PEM armor
+   *
+   * @private
+   */
+  private toPEM(label: string, der: Uint8Array): string {
+    const lines =
+      Buffer.from(der)
+        .toString("base64")
+        .match(/.{1,64}/g) || [];
+    return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+  }
+
+  /**
+   * Strip PEM armor
+   *
+   * @private
+   */
+  private fromPEM(label: string, pem: string): Uint8Array {
+    const body = pem
+      .replace(`-----BEGIN ${label}-----`, "")
+      .replace(`-----END ${label}-----`, "")
+      .replace(/\s+/g, "");
+    return new Uint8Array(Buffer.from(body, "base64"));
+  }
+
+  /**
+   * Find a byte sequence inside another
+   *
+   * @private
+   */
+  private indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+    return Buffer.from(haystack).indexOf(Buffer.from(needle));
+  }
+
+  /**
+   * Concatenate byte arrays
+   *
+   * @private
+   */
+  private concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+    return new Uint8Array(
+      Buffer.concat(parts.map((part) => Buffer.from(part as Uint8Array))),
+    );
+  }
+
+  /**
+   * Base64url encode without padding
+   *
+   * @private
+   */
+  private toBase64Url(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString("base64url");
+  }
+
+  /**
+   * Base64url decode
+   *
+   * @private
+   */
+  private fromBase64Url(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, "base64url"));
+  }
+}
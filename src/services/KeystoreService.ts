@@ -0,0 +1,409 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+  ScryptOptions,
+} from "crypto";
+import { ethers } from "ethers";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { CryptoIdentity } from "../types";
+
+/**
+ * scrypt cost parameters
+ * - N: CPU/memory cost (power of two)
+ * - r: block size
+ * - p: parallelization
+ */
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Password-encrypted CryptoIdentity
+ *
+ * The private key is encrypted with AES-256-GCM under a key derived from the
+ * password with scrypt. version, algorithm, address and publicKey stay readable
+ * (e.g. to publish the key) and are authenticated as GCM additional data.
+ */
+export interface EncryptedKeystore {
+  version: 1;
+  algorithm: string;
+  address: string;
+  publicKey: string;
+  crypto: {
+    cipher: "aes-256-gcm";
+    ciphertext: string; // base64
+    iv: string; // base64, 12 bytes
+    authTag: string; // base64, 16 bytes
+    kdf: "scrypt";
+    kdfparams: ScryptParams & {
+      dklen: 32;
+      salt: string; // base64, 32 bytes
+    };
+  };
+}
+
+// Same cost as ethers JSON keystores (~128 MiB, a few hundred ms)
+const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 131072, r: 8, p: 1 };
+
+// Reject stored parameters that would take unreasonable memory or time to
+// load: they are read from the keystore before the password can be checked
+const MAX_SCRYPT_N = 1 << 20;
+const MAX_SCRYPT_R = 32;
+const MAX_SCRYPT_P = 16;
+const MAX_SCRYPT_MEMORY = 1 << 30; // 128 * N * r bytes, 1 GiB
+const MAX_SCRYPT_COST = 1 << 23; // N * r * p, as for N=2^20, r=8, p=1
+const MAX_PBKDF2_ITERATIONS = 1 << 20; // Geth writes 2^18
+
+/**
+ * Keystore Service
+ *
+ * Encrypts a CryptoIdentity at rest with a password and loads it back.
+ *
+ * Key characteristics:
+ * - scrypt key derivation, AES-256-GCM encryption
+ * - Works for every CryptoService key format (hex, PEM, base64, composite)
+ * - Keystore is bound to the service's algorithm; loading it into another
+ *   service fails instead of producing unusable keys
+ * - ECDSA services also load ethers / Web3 Secret Storage JSON keystores
+ *
+ * Use case: Storing issuer private keys instead of plaintext strings
+ */
+export class KeystoreService {
+  private cryptoService: CryptoService;
+  private algorithm: string;
+  private scryptParams: ScryptParams;
+
+  /**
+   * @param cryptoService - Service whose identities are stored
+   * @param options - scrypt cost for new keystores (defaults to N=2^17, r=8, p=1)
+   */
+  constructor(
+    cryptoService: CryptoService,
+    options: { scrypt?: Partial<ScryptParams> } = {},
+  ) {
+    this.cryptoService = cryptoService;
+    this.algorithm = KeyFormatService.getSignerAlgorithm(cryptoService);
+    this.scryptParams = { ...DEFAULT_SCRYPT_PARAMS, ...options.scrypt };
+    this.assertScryptParams(this.scryptParams);
+  }
+
+  /**
+   * Get the key algorithm keystores are bound to
+   */
+  getAlgorithm(): string {
+    return this.algorithm;
+  }
+
+  /**
+   * Encrypt an identity with a password
+   * @param identity - Identity to store
+   * @param password - Password to derive the encryption key from
+   * @returns Encrypted keystore (JSON-serializable)
+   */
+  async encrypt(
+    identity: CryptoIdentity,
+    password: string,
+  ): Promise<EncryptedKeystore> {
+    const salt = randomBytes(32);
+    const iv = randomBytes(12);
+    const key = await this.deriveKey(password, salt, this.scryptParams);
+
+    const keystore: EncryptedKeystore = {
+      version: 1,
+      algorithm: this.algorithm,
+      address: identity.address,
+      publicKey: identity.publicKey,
+      crypto: {
+        cipher: "aes-256-gcm",
+        ciphertext: "",
+        iv: iv.toString("base64"),
+        authTag: "",
+        kdf: "scrypt",
+        kdfparams: {
+          ...this.scryptParams,
+          dklen: 32,
+          salt: salt.toString("base64"),
+        },
+      },
+    };
+
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(this.createAdditionalData(keystore));
+    const ciphertext = Buffer.concat([
+      cipher.update(identity.privateKey, "utf8"),
+      cipher.final(),
+    ]);
+    key.fill(0);
+
+    keystore.crypto.ciphertext = ciphertext.toString("base64");
+    keystore.crypto.authTag = cipher.getAuthTag().toString("base64");
+    return keystore;
+  }
+
+  /**
+   * Decrypt a keystore with its password
+   * @param keystore - Keystore object or its JSON string; ECDSA services also
+   *   accept ethers JSON keystores
+   * @param password - Password used for encryption
+   * @returns Decrypted CryptoIdentity
+   * @throws Error if the password is wrong, the keystore was modified or it
+   *   holds keys of another algorithm
+   */
+  async decrypt(
+    keystore: EncryptedKeystore | string,
+    password: string,
+  ): Promise<CryptoIdentity> {
+    const json =
+      typeof keystore === "string" ? keystore : JSON.stringify(keystore);
+    if (ethers.isKeystoreJson(json)) {
+      return this.decryptEthersKeystore(json, password);
+    }
+
+    const parsed: EncryptedKeystore = JSON.parse(json);
+    if (parsed.version !== 1 || parsed.crypto?.cipher !== "aes-256-gcm") {
+      throw new Error("Unsupported keystore format");
+    }
+    if (parsed.algorithm !== this.algorithm) {
+      throw new Error(
+        `Keystore holds ${parsed.algorithm} keys, service expects ${this.algorithm}`,
+      );
+    }
+
+    const { kdfparams } = parsed.crypto;
+    const params = { N: kdfparams.N, r: kdfparams.r, p: kdfparams.p };
+    this.assertScryptParams(params);
+    const key = await this.deriveKey(
+      password,
+      Buffer.from(kdfparams.salt, "base64"),
+      params,
+    );
+
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        key,
+        Buffer.from(parsed.crypto.iv, "base64"),
+      );
+      decipher.setAAD(this.createAdditionalData(parsed));
+      decipher.setAuthTag(Buffer.from(parsed.crypto.authTag, "base64"));
+      const privateKey = Buffer.concat([
+        decipher.update(Buffer.from(parsed.crypto.ciphertext, "base64")),
+        decipher.final(),
+      ]).toString("utf8");
+
+      return {
+        privateKey,
+        publicKey: parsed.publicKey,
+        address: parsed.address,
+      };
+    } catch {
+      throw new Error("Invalid password or corrupted keystore");
+    } finally {
+      key.fill(0);
+    }
+  }
+
+  /**
+   * Encrypt an ECDSA identity as an ethers JSON keystore
+   * (Web3 Secret Storage v3, readable by ethers, MetaMask and geth)
+   * @param identity - secp256k1 identity
+   * @param password - Password to derive the encryption key from
+   * @returns Keystore JSON string
+   */
+  async encryptEthersKeystore(
+    identity: CryptoIdentity,
+    password: string,
+  ): Promise<string> {
+    this.assertECDSA();
+    return ethers.encryptKeystoreJson(
+      { address: identity.address, privateKey: identity.privateKey },
+      password,
+      { scrypt: this.scryptParams },
+    );
+  }
+
+  /**
+   * Decrypt an ethers JSON keystore into an ECDSA identity
+   *
+   * @private
+   */
+  private async decryptEthersKeystore(
+    json: string,
+    password: string,
+  ): Promise<CryptoIdentity> {
+    this.assertECDSA();
+    this.assertEthersKeystoreParams(json);
+
+    let account: ethers.KeystoreAccount;
+    try {
+      account = await ethers.decryptKeystoreJson(json, password);
+    } catch {
+      throw new Error("Invalid password or corrupted keystore");
+    }
+
+    return {
+      privateKey: account.privateKey,
+      publicKey: ethers.SigningKey.computePublicKey(account.privateKey, false),
+      address: account.address,
+    };
+  }
+
+  /**
+   * Derive the AES key from the password
+   *
+   * @private
+   */
+  private deriveKey(
+    password: string,
+    salt: Buffer,
+    params: ScryptParams,
+  ): Promise<Buffer> {
+    const options: ScryptOptions = {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.N * params.r,
+    };
+
+    return new Promise((resolve, reject) => {
+      scrypt(password.normalize("NFKC"), salt, 32, options, (error, key) =>
+        error ? reject(error) : resolve(key),
+      );
+    });
+  }
+
+  /**
+   * Readable keystore fields authenticated by AES-GCM
+   *
+   * @private
+   */
+  private createAdditionalData(keystore: EncryptedKeystore): Buffer {
+    const { crypto } = keystore;
+    return Buffer.from(
+      JSON.stringify([
+        keystore.version,
+        keystore.algorithm,
+        keystore.address,
+        keystore.publicKey,
+        crypto.kdfparams.N,
+        crypto.kdfparams.r,
+        crypto.kdfparams.p,
+      ]),
+      "utf8",
+    );
+  }
+
+  /**
+   * Check scrypt cost parameters
+   *
+   * @private
+   */
+  private assertScryptParams(params: ScryptParams): void {
+    const { N, r, p } = params;
+    if (
+      !Number.isInteger(N) ||
+      N < 2 ||
+      N > MAX_SCRYPT_N ||
+      (N & (N - 1)) !== 0
+    ) {
+      throw new Error(
+        `Invalid scrypt parameters (N must be a power of two up to ${MAX_SCRYPT_N})`,
+      );
+    }
+    if (!Number.isInteger(r) || r < 1 || r > MAX_SCRYPT_R) {
+      throw new Error(
+        `Invalid scrypt parameters (r must be between 1 and ${MAX_SCRYPT_R})`,
+      );
+    }
+    if (!Number.isInteger(p) || p < 1 || p > MAX_SCRYPT_P) {
+      throw new Error(
+        `Invalid scrypt parameters (p must be between 1 and ${MAX_SCRYPT_P})`,
+      );
+    }
+    if (128 * N * r > MAX_SCRYPT_MEMORY || N * r * p > MAX_SCRYPT_COST) {
+      throw new Error(
+        "Invalid scrypt parameters (cost exceeds 1 GiB of memory or N*r*p of 2^23)",
+      );
+    }
+  }
+
+  /**
+   * Check the key derivation of an ethers JSON keystore before ethers
+   * derives the key with it. Members are looked up as ethers reads them:
+   * names in any case, integers as numbers or decimal strings.
+   *
+   * @private
+   */
+  private assertEthersKeystoreParams(json: string): void {
+    const member = (object: unknown, name: string): unknown => {
+      if (object === null || typeof object !== "object") {
+        return undefined;
+      }
+      const key = Object.keys(object).find(
+        (candidate) => candidate.toLowerCase() === name,
+      );
+      return key === undefined
+        ? undefined
+        : (object as Record<string, unknown>)[key];
+    };
+    const crypto = member(JSON.parse(json), "crypto");
+    const kdf = member(crypto, "kdf");
+    const param = (name: string) => {
+      const value = member(member(crypto, "kdfparams"), name);
+      return typeof value === "string" && /^-?[0-9]+$/.test(value)
+        ? parseInt(value, 10)
+        : (value as number);
+    };
+
+    switch (typeof kdf === "string" ? kdf.toLowerCase() : kdf) {
+      case "scrypt":
+        this.assertScryptParams({
+          N: param("n"),
+          r: param("r"),
+          p: param("p"),
+        });
+        return;
+      case "pbkdf2":
+        this.assertPbkdf2Params(param("c"), param("dklen"));
+        return;
+      default:
+        throw new Error(`Unsupported keystore key derivation: ${kdf}`);
+    }
+  }
+
+  /**
+   * Check PBKDF2 parameters of an ethers JSON keystore
+   *
+   * @private
+   */
+  private assertPbkdf2Params(iterations: number, keyLength: number): void {
+    if (
+      !Number.isInteger(iterations) ||
+      iterations < 1 ||
+      iterations > MAX_PBKDF2_ITERATIONS
+    ) {
+      throw new Error(
+        `Invalid pbkdf2 parameters (c must be between 1 and ${MAX_PBKDF2_ITERATIONS})`,
+      );
+    }
+    if (keyLength !== 32) {
+      throw new Error("Invalid pbkdf2 parameters (dklen must be 32)");
+    }
+  }
+
+  /**
+   * ethers JSON keystores only hold secp256k1 keys
+   *
+   * @private
+   */
+  private assertECDSA(): void {
+    if (!(this.cryptoService instanceof ECDSACryptoService)) {
+      throw new Error("ethers JSON keystores require ECDSACryptoService");
+    }
+  }
+}
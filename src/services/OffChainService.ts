@@ -1,5 +1,7 @@
-import { ethers } from "ethers";
+import { ethers, SigningKey } from "ethers";
 import { ECDSACryptoService } from "./CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { Signer } from "../types";
 
 /**
  * Off-Chain Service
@@ -26,23 +28,31 @@ export class OffChainService {
    * USE CASE: Physical lock verifies VC without smart contract
    *
    * @param dataHash - The hash to sign (e.g., credential hash)
-   * @param privateKey - Private key for signing
+   * @param signer - Signer (e.g. KMS-backed RemoteSigner) or private key
    * @returns Object containing signature and signed hash
    * @example
    * ```typescript
    * const offChain = new OffChainService();
    * const credentialHash = offChain.hashCredential(credential);
-   * const result = await offChain.signCredential(credentialHash, privateKey);
+   * const result = await offChain.signData(credentialHash, signer);
    * // Physical lock can verify with publicKey
    * ```
    */
   async signData(
     dataHash: string,
-    privateKey: string
+    signer: string | Signer
   ): Promise<{ signature: string; signedHash: string }> {
-    const signature = await this.cryptoService.sign(dataHash, privateKey, {
-      ethereumPrefix: false, // RAW signature, no Ethereum prefix
-    });
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+
+    // Signers always produce RAW signatures, no Ethereum prefix
+    const signature =
+      typeof signer === "string"
+        ? await this.cryptoService.sign(dataHash, signer, {
+            ethereumPrefix: false, // RAW signature, no Ethereum prefix
+          })
+        : await signer.sign(dataHash);
 
     return {
       signature,
@@ -81,6 +91,20 @@ export class OffChainService {
     });
   }
 
+  /**
+   * Recover the public key that made a raw signature
+   * Useful for verification without knowing the signer beforehand; the
+   * recovered key must still be checked against the keys you trust
+   *
+   * @param dataHash - Hash that was signed
+   * @param signature - 65-byte signature (r || s || v)
+   * @returns Full 65-byte public key of the signer (0x04...)
+   * @throws Error if the signature is malformed
+   */
+  async recoverPublicKey(dataHash: string, signature: string): Promise<string> {
+    return SigningKey.recoverPublicKey(ethers.getBytes(dataHash), signature);
+  }
+
   /**
    * Hash credential data for signing
    * Creates a canonical hash of the credential content
@@ -120,12 +144,12 @@ export class OffChainService {
    * Generate a time-based access token
    * Useful for temporary access grants
    *
-   * @param identity - Crypto identity to sign with
+   * @param signer - Signer or private key to sign with
    * @param validitySeconds - How long the token is valid
    * @returns Signed token with expiration
    */
   async generateAccessToken(
-    privateKey: string,
+    signer: string | Signer,
     validitySeconds: number = 300
   ): Promise<{
     token: string;
@@ -137,7 +161,7 @@ export class OffChainService {
       ethers.randomBytes(16)
     )}`;
     const tokenHash = this.cryptoService.hash(token);
-    const signature = await this.signData(tokenHash, privateKey);
+    const signature = await this.signData(tokenHash, signer);
 
     return {
       token,
@@ -1,4 +1,6 @@
+import { ethers } from "ethers";
 import { ECDSACryptoService } from "./CryptoService";
+import { Signer } from "../types";
 
 /**
  * On-Chain Service
@@ -26,23 +28,37 @@ export class OnChainService {
    * Automatically adds Ethereum-specific prefix
    *
    * @param dataHash - The hash to sign
-   * @param privateKey - Private key for signing
+   * @param signer - secp256k1 Signer (e.g. KMS-backed RemoteSigner) or private key
    * @returns Object containing signature and signed hash
    * @example
    * ```typescript
    * const onChain = new OnChainService();
    * const credentialHash = onChain.hashCredential(credential);
-   * const result = await onChain.signForBlockchain(credentialHash, privateKey);
+   * const result = await onChain.signForBlockchain(credentialHash, signer);
    * await contract.revokeCredential(credentialHash, result.signature);
    * ```
    */
   async signForBlockchain(
     dataHash: string,
-    privateKey: string
+    signer: string | Signer
   ): Promise<{ signature: string; signedHash: string }> {
-    const signature = await this.cryptoService.sign(dataHash, privateKey, {
-      ethereumPrefix: true, // Ethereum-prefixed signature
-    });
+    let signature: string;
+    if (typeof signer === "string") {
+      signature = await this.cryptoService.sign(dataHash, signer, {
+        ethereumPrefix: true, // Ethereum-prefixed signature
+      });
+    } else {
+      if (signer.algorithm !== "secp256k1") {
+        throw new Error(
+          `On-chain signing requires a secp256k1 signer, got ${signer.algorithm}`
+        );
+      }
+      // Signers sign raw hashes, so apply the Ethereum prefix here
+      // (same digest wallet.signMessage signs)
+      signature = await signer.sign(
+        ethers.hashMessage(ethers.getBytes(dataHash))
+      );
+    }
 
     return {
       signature,
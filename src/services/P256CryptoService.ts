@@ -0,0 +1,150 @@
+import { p256 } from "@noble/curves/nist.js";
+import { createHash, randomFillSync } from "crypto";
+import { CryptoService } from "./CryptoService";
+import { CryptoIdentity } from "../types";
+
+/**
+ * ECDSA Cryptographic Service using NIST P-256 (secp256r1)
+ *
+ * Implementation using @noble/curves. P-256 is the curve accelerated by the
+ * secure elements found in newer lock hardware, smart cards and phone
+ * keystores, so verification there does not fall back to software.
+ *
+ * Key characteristics:
+ * - SHA-256 hash function (ES256 / ecdsa-sha2-nistp256)
+ * - Public key: 65 bytes uncompressed (0x04...) or 33 bytes compressed (0x02/0x03...)
+ * - Signature: 64 bytes compact (r || s), hex with 0x prefix
+ * - Signatures are produced in low-S form, but high-S signatures from
+ *   hardware signers are accepted on verification
+ *
+ * Use case: Credentials verified by P-256 secure elements
+ */
+export class P256CryptoService extends CryptoService {
+  /**
+   * Generate P-256 key pair
+   * @returns CryptoIdentity with hex-encoded keys (32-byte private, 65-byte uncompressed public)
+   */
+  async generateIdentity(): Promise<CryptoIdentity> {
+    try {
+      const seed = new Uint8Array(48);
+      if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+        crypto.getRandomValues(seed);
+      } else {
+        randomFillSync(seed);
+      }
+
+      const secretKey = p256.utils.randomSecretKey(seed);
+      const publicKey = p256.getPublicKey(secretKey, false);
+
+      // Create pseudo-address from public key hash for consistency with other services
+      const addressHash = createHash("sha256").update(publicKey).digest("hex");
+
+      return {
+        privateKey: "0x" + Buffer.from(secretKey).toString("hex"),
+        publicKey: "0x" + Buffer.from(publicKey).toString("hex"),
+        address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
+      };
+    } catch (error) {
+      throw new Error(`P-256 key generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Sign data using ECDSA P-256
+   * The data is already a SHA-256 digest, so it is signed as-is (no prehash)
+   *
+   * @param data - Hash string to sign (hex format)
+   * @param privateKey - Hex-encoded 32-byte private key
+   * @returns Hex-encoded 64-byte compact signature
+   */
+  async sign(data: string, privateKey: string): Promise<string> {
+    try {
+      const secretKey = this.fromHex(privateKey);
+      const dataBytes = this.fromHex(data);
+
+      const signature = p256.sign(dataBytes, secretKey, { prehash: false });
+      return "0x" + Buffer.from(signature).toString("hex");
+    } catch (error) {
+      throw new Error(`P-256 signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify ECDSA P-256 signature
+   * @param data - Original hash string (hex format)
+   * @param signature - Hex-encoded compact signature
+   * @param publicKey - Hex-encoded public key, compressed (33 bytes) or uncompressed (65 bytes)
+   * @returns True if signature is valid
+   */
+  async verify(
+    data: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      const publicKeyBytes = this.fromHex(publicKey);
+      const signatureBytes = this.fromHex(signature);
+      const dataBytes = this.fromHex(data);
+
+      return p256.verify(signatureBytes, dataBytes, publicKeyBytes, {
+        prehash: false,
+        lowS: false,
+      });
+    } catch (error) {
+      console.error("P-256 verification failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Convert a public key to its compressed 33-byte form
+   * @param publicKey - Hex-encoded public key (compressed or uncompressed)
+   * @returns Hex-encoded compressed public key (0x02... / 0x03...)
+   */
+  compressPublicKey(publicKey: string): string {
+    const point = p256.Point.fromBytes(this.fromHex(publicKey));
+    return "0x" + point.toHex(true);
+  }
+
+  /**
+   * Convert a public key to its uncompressed 65-byte form
+   * @param publicKey - Hex-encoded public key (compressed or uncompressed)
+   * @returns Hex-encoded uncompressed public key (0x04...)
+   */
+  decompressPublicKey(publicKey: string): string {
+    const point = p256.Point.fromBytes(this.fromHex(publicKey));
+    return "0x" + point.toHex(false);
+  }
+
+  /**
+   * Hash data using SHA-256
+   * @param data - String data to hash
+   * @returns Hex-encoded hash with 0x prefix
+   */
+  hash(data: string): string {
+    return "0x" + createHash("sha256").update(data, "utf8").digest("hex");
+  }
+
+  /**
+   * JOSE algorithm of P-256 ECDSA with SHA-256 (RFC 7518)
+   */
+  getJoseAlgorithm(): string {
+    return "ES256";
+  }
+
+  /**
+   * COSE algorithm of P-256 ECDSA with SHA-256 (ES256, RFC 9053)
+   */
+  getCoseAlgorithm(): number {
+    return -7;
+  }
+
+  /**
+   * Decode a 0x-prefixed (or bare) hex string
+   *
+   * @private
+   */
+  private fromHex(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value.replace(/^0x/, ""), "hex"));
+  }
+}
@@ -1,18 +1,48 @@
-import { ml_dsa44 } from "@noble/post-quantum/ml-dsa.js";
+import { ml_dsa44, ml_dsa65, ml_dsa87 } from "@noble/post-quantum/ml-dsa.js";
 import { CryptoService } from "./CryptoService";
 import { CryptoIdentity } from "../types";
 import { createHash } from "crypto";
 
 /**
- * Post-Quantum Cryptographic Service using ML-DSA-44 (Dilithium2)
+ * ML-DSA parameter sets (FIPS 204)
+ * - ML-DSA-44: NIST security level 2 (Dilithium2)
+ * - ML-DSA-65: NIST security level 3 (Dilithium3)
+ * - ML-DSA-87: NIST security level 5 (Dilithium5)
+ */
+export type MLDSAParameterSet = "ML-DSA-44" | "ML-DSA-65" | "ML-DSA-87";
+
+const ML_DSA_IMPLEMENTATIONS = {
+  "ML-DSA-44": ml_dsa44,
+  "ML-DSA-65": ml_dsa65,
+  "ML-DSA-87": ml_dsa87,
+};
+
+// Length of the key generation seed (xi in FIPS 204)
+const ML_DSA_SEED_LENGTH = 32;
+
+// Upper bound on cached expanded secret keys per service
+const EXPANDED_KEY_CACHE_LIMIT = 64;
+
+// IANA COSE algorithm identifiers of the parameter sets
+const COSE_ALGORITHMS: Record<MLDSAParameterSet, number> = {
+  "ML-DSA-44": -48,
+  "ML-DSA-65": -49,
+  "ML-DSA-87": -50,
+};
+
+/**
+ * Post-Quantum Cryptographic Service using ML-DSA (Dilithium)
  *
  * Implementation using CRYSTALS-Dilithium (NIST-selected post-quantum signature algorithm).
- * ML-DSA-44 (formerly Dilithium2) provides security level 2 (equivalent to AES-128).
+ * Defaults to ML-DSA-44 (formerly Dilithium2), security level 2 (equivalent to AES-128).
+ * ML-DSA-65 (level 3) and ML-DSA-87 (level 5) can be selected for long-lived credentials.
  *
- * Key characteristics:
+ * Key characteristics (ML-DSA-44 / ML-DSA-65 / ML-DSA-87):
  * - Resistant to quantum computer attacks (Shor's algorithm)
- * - Public key: 1,312 bytes (raw) → ~1,750 bytes (base64)
- * - Signature: ~2,420 bytes (raw) → ~3,227 bytes (base64)
+ * - Public key: 1,312 / 1,952 / 2,592 bytes (raw)
+ * - Signature: 2,420 / 3,309 / 4,627 bytes (raw)
+ * - Private key: the 32-byte key generation seed, expanded when signing;
+ *   expanded secret keys (2,560 / 4,032 / 4,896 bytes) are accepted too
  * - Fast verification and signing speed
  * - NIST standardized (FIPS 204)
  * - Uses Base64 encoding for 33% size efficiency vs hex
@@ -22,14 +52,30 @@ import { createHash } from "crypto";
  * Note: Uses Base64 encoding (not hex) since PQ signatures don't need Ethereum compatibility
  */
 export class PQCryptoService extends CryptoService {
+  private parameterSet: MLDSAParameterSet;
+  private expandedKeyCache = new Map<string, Uint8Array>();
+
+  /**
+   * @param parameterSet - ML-DSA parameter set (ML-DSA-44, ML-DSA-65 or ML-DSA-87)
+   */
+  constructor(parameterSet: MLDSAParameterSet = "ML-DSA-44") {
+    super();
+    if (!Object.keys(ML_DSA_IMPLEMENTATIONS).includes(parameterSet)) {
+      throw new Error(
+        "ML-DSA parameter set must be ML-DSA-44, ML-DSA-65 or ML-DSA-87",
+      );
+    }
+    this.parameterSet = parameterSet;
+  }
+
   /**
-   * Generate ML-DSA-44 key pair
-   * @returns CryptoIdentity with hex-encoded keys
+   * Generate ML-DSA key pair
+   * @returns CryptoIdentity with Base64-encoded keys (the private key is the seed)
    */
   async generateIdentity(): Promise<CryptoIdentity> {
     try {
       // Generate random seed for key generation
-      const seed = new Uint8Array(32);
+      const seed = new Uint8Array(ML_DSA_SEED_LENGTH);
       if (typeof crypto !== "undefined" && crypto.getRandomValues) {
         crypto.getRandomValues(seed);
       } else {
@@ -38,59 +84,67 @@ export class PQCryptoService extends CryptoService {
         nodeCrypto.randomFillSync(seed);
       }
 
-      // Generate ML-DSA-44 key pair
-      const keypair = ml_dsa44.keygen(seed);
-      const secretKey = keypair.secretKey;
-      const publicKey = keypair.publicKey;
+      return this.identityFromSeed(seed);
+    } catch (error) {
+      throw new Error(`${this.parameterSet} key generation failed: ${error}`);
+    }
+  }
 
-      // Convert to Base64 for efficient storage/transmission (33% smaller than hex)
-      const privateKeyBase64 = Buffer.from(secretKey).toString("base64");
-      const publicKeyBase64 = Buffer.from(publicKey).toString("base64");
+  /**
+   * Derive the identity of a key generation seed
+   * The seed is the private key, as in the AKP JWK "priv" member
+   * @param seed - 32-byte seed
+   * @returns CryptoIdentity with the Base64-encoded seed and public key
+   */
+  identityFromSeed(seed: Uint8Array): CryptoIdentity {
+    if (seed.length !== ML_DSA_SEED_LENGTH) {
+      throw new Error(`ML-DSA seed must be ${ML_DSA_SEED_LENGTH} bytes`);
+    }
 
-      // Create pseudo-address from public key hash for consistency with other services
-      const addressHash = createHash("sha256").update(publicKey).digest("hex");
+    // Generate ML-DSA key pair for the configured parameter set
+    const { publicKey } = this.getImplementation().keygen(seed);
 
-      return {
-        privateKey: privateKeyBase64,
-        publicKey: publicKeyBase64,
-        address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
-      };
-    } catch (error) {
-      throw new Error(`ML-DSA-44 key generation failed: ${error}`);
-    }
+    // Create pseudo-address from public key hash for consistency with other services
+    const addressHash = createHash("sha256").update(publicKey).digest("hex");
+
+    // Base64 for efficient storage/transmission (33% smaller than hex)
+    return {
+      privateKey: Buffer.from(seed).toString("base64"),
+      publicKey: Buffer.from(publicKey).toString("base64"),
+      address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
+    };
   }
 
   /**
-   * Sign data using ML-DSA-44
+   * Sign data using ML-DSA
    * @param data - Hash string to sign (hex format)
-   * @param privateKey - Base64-encoded ML-DSA-44 secret key
+   * @param privateKey - Base64-encoded ML-DSA seed or expanded secret key
    * @returns Base64-encoded signature
    */
   async sign(data: string, privateKey: string): Promise<string> {
     try {
-      // Convert base64 private key to Uint8Array
-      const secretKey = new Uint8Array(Buffer.from(privateKey, "base64"));
+      const secretKey = this.getSecretKey(privateKey);
 
       // Convert data hash to bytes (hash is still hex with 0x prefix for consistency)
       const dataBytes = new Uint8Array(
         Buffer.from(data.replace("0x", ""), "hex"),
       );
 
-      // Sign using ML-DSA-44
-      const signature = ml_dsa44.sign(dataBytes, secretKey);
+      // Sign using the configured ML-DSA parameter set
+      const signature = this.getImplementation().sign(dataBytes, secretKey);
 
       // Return base64-encoded signature (33% smaller than hex)
       return Buffer.from(signature).toString("base64");
     } catch (error) {
-      throw new Error(`ML-DSA-44 signing failed: ${error}`);
+      throw new Error(`${this.parameterSet} signing failed: ${error}`);
     }
   }
 
   /**
-   * Verify ML-DSA-44 signature
+   * Verify ML-DSA signature
    * @param data - Original hash string (hex format)
    * @param signature - Base64-encoded signature
-   * @param publicKey - Base64-encoded ML-DSA-44 public key
+   * @param publicKey - Base64-encoded ML-DSA public key
    * @returns True if signature is valid
    */
   async verify(
@@ -107,10 +161,14 @@ export class PQCryptoService extends CryptoService {
         Buffer.from(data.replace("0x", ""), "hex"),
       );
 
-      // Verify using ML-DSA-44
-      return ml_dsa44.verify(signatureBytes, dataBytes, publicKeyBytes);
+      // Verify using the configured ML-DSA parameter set
+      return this.getImplementation().verify(
+        signatureBytes,
+        dataBytes,
+        publicKeyBytes,
+      );
     } catch (error) {
-      console.error("ML-DSA-44 verification failed:", error);
+      console.error(`${this.parameterSet} verification failed:`, error);
       return false;
     }
   }
@@ -126,38 +184,57 @@ export class PQCryptoService extends CryptoService {
   }
 
   /**
-   * Create a canonical hash of an object for signing
-   * Uses the same canonicalization as ECDSA/RSA for fair comparison
+   * Get the configured ML-DSA parameter set
+   */
+  getParameterSet(): MLDSAParameterSet {
+    return this.parameterSet;
+  }
+
+  /**
+   * Cryptosuite identifier recorded in issued proofs (e.g. "mldsa65")
    */
-  createCanonicalHash(obj: unknown): string {
-    const canonical = this.canonicalize(obj);
-    return this.hash(canonical);
+  getCryptosuite(): string {
+    return this.parameterSet.replace("ML-DSA-", "mldsa");
   }
 
   /**
-   * Canonicalize an object for deterministic hashing
-   * Identical implementation to ECDSACryptoService for consistency
+   * COSE algorithm of the parameter set (ML-DSA-44, -65, -87: -48, -49, -50)
    */
-  canonicalize(obj: unknown): string {
-    if (obj === null) return "null";
-    if (obj === undefined) return "undefined";
-    if (typeof obj !== "object") return JSON.stringify(obj);
-
-    if (Array.isArray(obj)) {
-      const items = obj.map((item) => this.canonicalize(item));
-      return `[${items.join(",")}]`;
+  getCoseAlgorithm(): number {
+    return COSE_ALGORITHMS[this.parameterSet];
+  }
+
+  /**
+   * Get the expanded secret key of a private key, expanding (and caching)
+   * seeds; the oldest cache entry is evicted first
+   *
+   * @private
+   */
+  private getSecretKey(privateKey: string): Uint8Array {
+    const bytes = new Uint8Array(Buffer.from(privateKey, "base64"));
+    if (bytes.length !== ML_DSA_SEED_LENGTH) {
+      return bytes;
+    }
+
+    let secretKey = this.expandedKeyCache.get(privateKey);
+    if (!secretKey) {
+      secretKey = this.getImplementation().keygen(bytes).secretKey;
+      if (this.expandedKeyCache.size >= EXPANDED_KEY_CACHE_LIMIT) {
+        this.expandedKeyCache.delete(
+          this.expandedKeyCache.keys().next().value as string,
+        );
+      }
+      this.expandedKeyCache.set(privateKey, secretKey);
     }
-    const sorted = Object.keys(obj as Record<string, unknown>)
-      .sort()
-      .filter((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return value !== undefined;
-      })
-      .map((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return `"${key}":${this.canonicalize(value)}`;
-      });
-
-    return `{${sorted.join(",")}}`;
+    return secretKey;
+  }
+
+  /**
+   * Resolve the noble implementation for the configured parameter set
+   *
+   * @private
+   */
+  private getImplementation() {
+    return ML_DSA_IMPLEMENTATIONS[this.parameterSet];
   }
 }
@@ -0,0 +1,86 @@
+import {
+  Credential,
+  ECDSAProof,
+  Presentation,
+  VerifiableCredential,
+  VerifiablePresentation,
+} from "../types/w3c-vc.types";
+
+/**
+ * Proofs of a secured document as an array
+ *
+ * A document with several proofs is a proof set (every proof signs the
+ * document independently) or a proof chain (a proof with `previousProof`
+ * also signs the proofs it references), as in W3C VC Data Integrity.
+ *
+ * @param document - Credential or presentation
+ * @returns Proofs in document order (empty if there is none)
+ */
+export function getProofs(
+  document: VerifiableCredential | VerifiablePresentation,
+): ECDSAProof[] {
+  if (!document.proof) {
+    return [];
+  }
+  return (
+    Array.isArray(document.proof) ? document.proof : [document.proof]
+  ) as ECDSAProof[];
+}
+
+/**
+ * Document signed by one proof of a proof set or chain
+ *
+ * - Without `previousProof`: the document without any proof
+ * - With `previousProof`: the document with `proof` set to the referenced
+ *   proof (a string reference) or proofs (an array of references)
+ *
+ * @param document - Secured credential or presentation
+ * @param proof - One of its proofs
+ * @returns Document the proof's signature covers
+ * @throws Error if a referenced proof is missing or its id is not unique
+ *
+ * @example
+ * ```typescript
+ * for (const proof of getProofs(vc)) {
+ *   const hash = cryptoService.createCanonicalHash(createProofDocument(vc, proof));
+ *   // verify proof.proofValue over hash
+ * }
+ * ```
+ */
+export function createProofDocument(
+  document: VerifiableCredential,
+  proof: ECDSAProof,
+): Credential;
+export function createProofDocument(
+  document: VerifiablePresentation,
+  proof: ECDSAProof,
+): Presentation;
+export function createProofDocument(
+  document: VerifiableCredential | VerifiablePresentation,
+  proof: ECDSAProof,
+): Credential | Presentation {
+  const { proof: _proof, ...unsecured } = document;
+  if (proof.previousProof === undefined) {
+    return unsecured;
+  }
+
+  const proofs = getProofs(document);
+  const references = Array.isArray(proof.previousProof)
+    ? proof.previousProof
+    : [proof.previousProof];
+  const previous = references.map((id) => {
+    const matches = proofs.filter((candidate) => candidate.id === id);
+    if (matches.length === 0) {
+      throw new Error(`Previous proof ${id} not found`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Proof id ${id} is not unique`);
+    }
+    return matches[0];
+  });
+
+  return {
+    ...unsecured,
+    proof: Array.isArray(proof.previousProof) ? previous : previous[0],
+  };
+}
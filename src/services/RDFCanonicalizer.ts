@@ -0,0 +1,154 @@
+import jsonld from "jsonld";
+import { contexts } from "@digitalbazaar/credentials-context";
+import { W3C_VC_CONTEXT_V2 } from "../types/w3c-vc.types";
+
+/**
+ * JSON-LD context document, as served for a context URL
+ */
+export type JsonLdContext = Record<string, unknown>;
+
+// Details jsonld attaches to its errors
+interface JsonLdErrorDetails {
+  url?: string;
+  cause?: { message?: string };
+  event?: { details?: { property?: string; type?: string } };
+}
+
+/**
+ * RDF Canonicalizer
+ *
+ * RDF Dataset Canonicalization (RDFC-1.0) of JSON-LD credentials, with an
+ * offline document loader. The `@context` entries of a credential decide what
+ * its claims mean; canonicalizing the RDF statements they produce signs that
+ * meaning instead of the JSON layout.
+ *
+ * Key characteristics:
+ * - Offline: contexts come only from the bundle (VC v2) or registerContext,
+ *   nothing is fetched from the network
+ * - Strict: claims and types that no context defines are rejected instead of
+ *   being silently dropped from the signed data (JSON-LD safe mode)
+ * - Registered contexts cannot be replaced, so a context cannot be swapped
+ *   for one that gives signed claims a different meaning
+ *
+ * Use case: Partners that only accept RDF-canonicalized proofs
+ *   (ecdsa-rdfc-2019, eddsa-rdfc-2022)
+ */
+export class RDFCanonicalizer {
+  private contexts = new Map<string, JsonLdContext>();
+
+  /**
+   * Create a canonicalizer with the bundled VC v2 context
+   */
+  constructor() {
+    const context = contexts.get(W3C_VC_CONTEXT_V2);
+    if (!context) {
+      throw new Error("Bundled VC v2 context is missing");
+    }
+    this.contexts.set(W3C_VC_CONTEXT_V2, context);
+  }
+
+  /**
+   * Register a context served by the offline loader
+   * @param url - Context URL used in credential `@context` arrays
+   * @param context - Context document (an object with a "@context" member)
+   * @returns This canonicalizer, for chaining
+   * @throws Error if the URL is already registered or the document is invalid
+   *
+   * @example
+   * ```typescript
+   * const rdfc = new RDFCanonicalizer().registerContext(
+   *   "https://locks.example.com/contexts/lock-access/v1",
+   *   {
+   *     "@context": {
+   *       "@protected": true,
+   *       AccessControlCredential: "https://locks.example.com/vocab#AccessControlCredential",
+   *       accessLevel: "https://locks.example.com/vocab#accessLevel",
+   *     },
+   *   }
+   * );
+   * ```
+   */
+  registerContext(url: string, context: JsonLdContext): this {
+    if (this.contexts.has(url)) {
+      throw new Error(`JSON-LD context ${url} is already registered`);
+    }
+    if (
+      typeof context !== "object" ||
+      context === null ||
+      typeof context["@context"] !== "object" ||
+      context["@context"] === null
+    ) {
+      throw new Error(`JSON-LD context ${url} must have a "@context" member`);
+    }
+
+    this.contexts.set(url, context);
+    return this;
+  }
+
+  /**
+   * Check whether a context URL is available offline
+   */
+  hasContext(url: string): boolean {
+    return this.contexts.has(url);
+  }
+
+  /**
+   * Offline JSON-LD document loader (usable with other JSON-LD tools)
+   * @param url - Context URL
+   * @returns Remote document of the context
+   * @throws Error if the context is not registered
+   */
+  loadDocument = async (
+    url: string,
+  ): Promise<{
+    contextUrl?: string;
+    documentUrl: string;
+    document: JsonLdContext;
+  }> => {
+    const document = this.contexts.get(url);
+    if (!document) {
+      throw new Error(`JSON-LD context ${url} is not available offline`);
+    }
+    return { contextUrl: undefined, documentUrl: url, document };
+  };
+
+  /**
+   * Canonicalize a JSON-LD document with RDFC-1.0
+   * @param document - Credential, proof configuration or other JSON-LD object
+   * @returns Canonical N-Quads
+   * @throws Error if a context is unknown or a term is not defined
+   */
+  async canonicalize(document: object): Promise<string> {
+    try {
+      return await jsonld.canonize(document, {
+        algorithm: "RDFC-1.0",
+        format: "application/n-quads",
+        safe: true,
+        documentLoader: this.loadDocument,
+      } as unknown as Parameters<typeof jsonld.canonize>[1]);
+    } catch (error) {
+      throw this.describeError(error);
+    }
+  }
+
+  /**
+   * Turn jsonld errors into messages that name the offending context or term
+   *
+   * @private
+   */
+  private describeError(error: unknown): Error {
+    const details = (error as { details?: JsonLdErrorDetails }).details;
+    const event = details?.event?.details;
+
+    if (details?.cause?.message) {
+      return new Error(details.cause.message);
+    }
+    if (event?.property) {
+      return new Error(`Undefined JSON-LD term "${event.property}"`);
+    }
+    if (event?.type) {
+      return new Error(`Undefined JSON-LD type "${event.type}"`);
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
@@ -1,47 +1,120 @@
 import NodeRSA from "node-rsa";
-import { createHash } from "crypto";
+import {
+  constants,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPair,
+  KeyObject,
+  sign as nativeSign,
+  verify as nativeVerify,
+} from "crypto";
+import { promisify } from "util";
 import { CryptoService } from "./CryptoService";
 import { CryptoIdentity } from "../types";
 
 /**
- * RSA-PSS Cryptographic Service
+ * RSA implementation used for key generation, signing and verification
+ * - "node-rsa": node-rsa, re-imports the PEM key on every call (original baseline)
+ * - "native": Node.js crypto KeyObjects, cached per PEM key
+ */
+export type RSABackend = "node-rsa" | "native";
+
+/**
+ * RSA signature padding
+ * - "pss": RSASSA-PSS with SHA-256 and 32-byte salt
+ * - "pkcs1": RSASSA-PKCS1-v1_5 with SHA-256
+ */
+export type RSAPadding = "pss" | "pkcs1";
+
+const RSA_KEY_SIZES = [2048, 3072, 4096];
+
+// Cryptosuite recorded in issued proofs, naming the padding
+const RSA_CRYPTOSUITES: Record<RSAPadding, string> = {
+  pss: "rsa-pss-sha256",
+  pkcs1: "rsa-pkcs1-sha256",
+};
+
+// Upper bound on cached KeyObjects per service (oldest entry is evicted first)
+const KEY_CACHE_LIMIT = 64;
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+/**
+ * RSA Cryptographic Service
  *
- * Implementation using node-rsa (backed by Node.js native crypto/OpenSSL)
- * for realistic RSA performance benchmarks.
+ * Implementation using either node-rsa or Node.js native crypto (both backed
+ * by OpenSSL) for realistic RSA performance benchmarks.
  *
  * Key characteristics:
- * - 2048-bit or 4096-bit key size (configurable)
+ * - 2048-bit, 3072-bit or 4096-bit key size (configurable)
  * - SHA-256 hash function
- * - PSS padding (more secure than PKCS#1 v1.5)
- * - Uses native OpenSSL (20-100x faster than pure JS)
+ * - PSS padding by default, PKCS#1 v1.5 for legacy verifiers
+ * - PKCS#8 / SPKI PEM keys, identical for both backends
  * - Larger key and signature sizes than ECDSA
  *
+ * Both backends produce interoperable signatures: a credential signed with
+ * one backend verifies with the other as long as the padding matches. The
+ * padding is recorded in the proof cryptosuite ("rsa-pss-sha256" or
+ * "rsa-pkcs1-sha256"), so verifiers pick the matching one.
+ *
  * Use case: Realistic comparison baseline for traditional public-key cryptography
  */
 export class RSACryptoService extends CryptoService {
   private keySize: number;
+  private backend: RSABackend;
+  private padding: RSAPadding;
+  private privateKeyCache = new Map<string, KeyObject>();
+  private publicKeyCache = new Map<string, KeyObject>();
+  private paddingVariants = new Map<RSAPadding, RSACryptoService>();
 
   /**
-   * @param keySize - RSA key size in bits (2048 or 4096)
+   * @param keySize - RSA key size in bits (2048, 3072 or 4096)
+   * @param options - Backend (defaults to node-rsa) and padding (defaults to PSS)
    */
-  constructor(keySize: number = 2048) {
+  constructor(
+    keySize: number = 2048,
+    options: { backend?: RSABackend; padding?: RSAPadding } = {}
+  ) {
     super();
-    if (keySize !== 2048 && keySize !== 4096) {
-      throw new Error("RSA key size must be 2048 or 4096 bits");
+    if (!RSA_KEY_SIZES.includes(keySize)) {
+      throw new Error("RSA key size must be 2048, 3072 or 4096 bits");
+    }
+    const backend = options.backend || "node-rsa";
+    if (backend !== "node-rsa" && backend !== "native") {
+      throw new Error('RSA backend must be "node-rsa" or "native"');
+    }
+    const padding = options.padding || "pss";
+    if (padding !== "pss" && padding !== "pkcs1") {
+      throw new Error('RSA padding must be "pss" or "pkcs1"');
     }
     this.keySize = keySize;
+    this.backend = backend;
+    this.padding = padding;
   }
 
   /**
-   * Generate RSA key pair using node-rsa
+   * Generate RSA key pair using the configured backend
    * @returns CryptoIdentity with PEM-encoded keys
    */
   async generateIdentity(): Promise<CryptoIdentity> {
     try {
-      const key = new NodeRSA({ b: this.keySize });
+      let privateKeyPem: string;
+      let publicKeyPem: string;
 
-      const privateKeyPem = key.exportKey("pkcs8-private-pem");
-      const publicKeyPem = key.exportKey("pkcs8-public-pem");
+      if (this.backend === "native") {
+        const keyPair = await generateKeyPairAsync("rsa", {
+          modulusLength: this.keySize,
+          publicKeyEncoding: { type: "spki", format: "pem" },
+          privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        });
+        privateKeyPem = keyPair.privateKey;
+        publicKeyPem = keyPair.publicKey;
+      } else {
+        const key = new NodeRSA({ b: this.keySize });
+        privateKeyPem = key.exportKey("pkcs8-private-pem");
+        publicKeyPem = key.exportKey("pkcs8-public-pem");
+      }
 
       // Create a pseudo-address from public key hash (for consistency with other services)
       const publicKeyHash = createHash("sha256")
@@ -59,27 +132,29 @@ export class RSACryptoService extends CryptoService {
   }
 
   /**
-   * Sign data using RSA-PSS
+   * Sign data using RSA with the configured padding
    * @param data - Hash string to sign (hex format)
    * @param privateKey - PEM-encoded private key
    * @returns Base64-encoded signature
    */
   async sign(data: string, privateKey: string): Promise<string> {
     try {
+      // Convert hex hash to buffer
+      const dataBuffer = Buffer.from(data.replace("0x", ""), "hex");
+
+      if (this.backend === "native") {
+        const signature = nativeSign("sha256", dataBuffer, {
+          key: this.getPrivateKeyObject(privateKey),
+          ...this.getNativePaddingOptions(),
+        });
+        return signature.toString("base64");
+      }
+
       const key = new NodeRSA();
       key.importKey(privateKey, "pkcs8-private-pem");
 
-      // Set signing scheme to PSS with SHA-256
-      key.setOptions({
-        signingScheme: {
-          scheme: "pss",
-          hash: "sha256",
-          saltLength: 32,
-        },
-      });
-
-      // Convert hex hash to buffer
-      const dataBuffer = Buffer.from(data.replace("0x", ""), "hex");
+      // Set signing scheme with SHA-256
+      key.setOptions({ signingScheme: this.getNodeRSASigningScheme() });
 
       // Sign and return base64
       const signature = key.sign(dataBuffer, "base64");
@@ -90,7 +165,7 @@ export class RSACryptoService extends CryptoService {
   }
 
   /**
-   * Verify RSA-PSS signature
+   * Verify RSA signature with the configured padding
    * @param data - Original hash string (hex format)
    * @param signature - Base64-encoded signature
    * @param publicKey - PEM-encoded public key
@@ -102,20 +177,26 @@ export class RSACryptoService extends CryptoService {
     publicKey: string
   ): Promise<boolean> {
     try {
+      // Convert hex hash to buffer
+      const dataBuffer = Buffer.from(data.replace("0x", ""), "hex");
+
+      if (this.backend === "native") {
+        return nativeVerify(
+          "sha256",
+          dataBuffer,
+          {
+            key: this.getPublicKeyObject(publicKey),
+            ...this.getNativePaddingOptions(),
+          },
+          Buffer.from(signature, "base64")
+        );
+      }
+
       const key = new NodeRSA();
       key.importKey(publicKey, "pkcs8-public-pem");
 
-      // Set verification scheme to PSS with SHA-256
-      key.setOptions({
-        signingScheme: {
-          scheme: "pss",
-          hash: "sha256",
-          saltLength: 32,
-        },
-      });
-
-      // Convert hex hash to buffer
-      const dataBuffer = Buffer.from(data.replace("0x", ""), "hex");
+      // Set verification scheme with SHA-256
+      key.setOptions({ signingScheme: this.getNodeRSASigningScheme() });
 
       // Verify signature
       return key.verify(dataBuffer, signature, undefined, "base64");
@@ -135,47 +216,128 @@ export class RSACryptoService extends CryptoService {
   }
 
   /**
-   * Create a canonical hash of an object for signing
-   * Uses the same canonicalization as ECDSA for fair comparison
+   * Get the configured key size
    */
-  createCanonicalHash(obj: unknown): string {
-    const canonical = this.canonicalize(obj);
-    return this.hash(canonical);
+  getKeySize(): number {
+    return this.keySize;
   }
 
   /**
-   * Canonicalize an object for deterministic hashing
-   * Identical implementation to ECDSACryptoService for consistency
+   * Get the configured backend
    */
-  canonicalize(obj: unknown): string {
-    if (obj === null) return "null";
-    if (obj === undefined) return "undefined";
-    if (typeof obj !== "object") return JSON.stringify(obj);
+  getBackend(): RSABackend {
+    return this.backend;
+  }
 
-    if (Array.isArray(obj)) {
-      const items = obj.map((item) => this.canonicalize(item));
-      return `[${items.join(",")}]`;
-    }
+  /**
+   * Get the configured padding
+   */
+  getPadding(): RSAPadding {
+    return this.padding;
+  }
+
+  /**
+   * Cryptosuite identifier, naming the padding (e.g. "rsa-pss-sha256")
+   */
+  getCryptosuite(): string {
+    return RSA_CRYPTOSUITES[this.padding];
+  }
+
+  /**
+   * Get the padding a cryptosuite names
+   * @param cryptosuite - Cryptosuite of an RsaSignature2018 proof
+   * @returns Padding, or undefined for other cryptosuites
+   */
+  static getPaddingOf(cryptosuite: string): RSAPadding | undefined {
+    return (Object.keys(RSA_CRYPTOSUITES) as RSAPadding[]).find(
+      (padding) => RSA_CRYPTOSUITES[padding] === cryptosuite
+    );
+  }
 
-    // Sort keys alphabetically and filter out undefined values
-    const sorted = Object.keys(obj as Record<string, unknown>)
-      .sort()
-      .filter((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return value !== undefined;
-      })
-      .map((key) => {
-        const value = (obj as Record<string, unknown>)[key];
-        return `"${key}":${this.canonicalize(value)}`;
+  /**
+   * Get a service with the same key size and backend and another padding
+   * Returns this service for its own padding; other variants are created once
+   * @param padding - Padding to sign and verify with
+   * @returns Service with that padding
+   */
+  withPadding(padding: RSAPadding): RSACryptoService {
+    if (padding === this.padding) {
+      return this;
+    }
+    let variant = this.paddingVariants.get(padding);
+    if (!variant) {
+      variant = new RSACryptoService(this.keySize, {
+        backend: this.backend,
+        padding,
       });
+      this.paddingVariants.set(padding, variant);
+    }
+    return variant;
+  }
 
-    return `{${sorted.join(",")}}`;
+  /**
+   * Get a cached private KeyObject for a PEM key (native backend)
+   *
+   * @private
+   */
+  private getPrivateKeyObject(privateKeyPem: string): KeyObject {
+    let key = this.privateKeyCache.get(privateKeyPem);
+    if (!key) {
+      key = createPrivateKey(privateKeyPem);
+      this.cacheKey(this.privateKeyCache, privateKeyPem, key);
+    }
+    return key;
   }
 
   /**
-   * Get the configured key size
+   * Get a cached public KeyObject for a PEM key (native backend)
+   *
+   * @private
    */
-  getKeySize(): number {
-    return this.keySize;
+  private getPublicKeyObject(publicKeyPem: string): KeyObject {
+    let key = this.publicKeyCache.get(publicKeyPem);
+    if (!key) {
+      key = createPublicKey(publicKeyPem);
+      this.cacheKey(this.publicKeyCache, publicKeyPem, key);
+    }
+    return key;
+  }
+
+  /**
+   * Store a KeyObject, evicting the oldest entry when the cache is full
+   *
+   * @private
+   */
+  private cacheKey(
+    cache: Map<string, KeyObject>,
+    pem: string,
+    key: KeyObject
+  ): void {
+    if (cache.size >= KEY_CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(pem, key);
+  }
+
+  /**
+   * Padding options for Node.js crypto sign/verify
+   *
+   * @private
+   */
+  private getNativePaddingOptions(): { padding: number; saltLength?: number } {
+    return this.padding === "pss"
+      ? { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 }
+      : { padding: constants.RSA_PKCS1_PADDING };
+  }
+
+  /**
+   * Signing scheme options for node-rsa
+   *
+   * @private
+   */
+  private getNodeRSASigningScheme(): NodeRSA.AdvancedSigningScheme {
+    return this.padding === "pss"
+      ? { scheme: "pss", hash: "sha256", saltLength: 32 }
+      : { scheme: "pkcs1", hash: "sha256" };
   }
 }
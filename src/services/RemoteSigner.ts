@@ -0,0 +1,161 @@
+import { CryptoService } from "./CryptoService";
+import { Signer } from "../types";
+
+/**
+ * Request sent to an out-of-process signer
+ * - "getPublicKey": describe the key (algorithm, publicKey, address)
+ * - "sign": sign a hash with the key (raw signature, like CryptoService.sign)
+ */
+export type RemoteSignerRequest =
+  | { method: "getPublicKey"; keyId: string }
+  | { method: "sign"; keyId: string; hash: string };
+
+/**
+ * Delivers a request to the external signer and returns its JSON response
+ * (HTTP call, IPC message, KMS SDK call, ...)
+ * - "getPublicKey" responds with { algorithm, publicKey, address }
+ * - "sign" responds with { signature }
+ */
+export type RemoteSignerTransport = (
+  request: RemoteSignerRequest,
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Remote Signer
+ *
+ * Adapter that lets the library sign with a key held by another process
+ * (KMS, HSM, signing microservice). The private key never enters this process;
+ * only hashes are sent out and signatures come back.
+ *
+ * Key characteristics:
+ * - Transport-agnostic: the caller supplies one async function
+ * - One key per signer, selected by keyId
+ * - Optionally checks every returned signature against the public key
+ *
+ * Use case: Keeping issuer keys in a KMS/HSM-like service
+ */
+export class RemoteSigner implements Signer {
+  readonly algorithm: string;
+  readonly publicKey: string;
+  readonly address: string;
+  private transport: RemoteSignerTransport;
+  private keyId: string;
+  private cryptoService?: CryptoService;
+
+  private constructor(
+    transport: RemoteSignerTransport,
+    keyId: string,
+    key: { algorithm: string; publicKey: string; address: string },
+    cryptoService?: CryptoService,
+  ) {
+    this.transport = transport;
+    this.keyId = keyId;
+    this.algorithm = key.algorithm;
+    this.publicKey = key.publicKey;
+    this.address = key.address;
+    this.cryptoService = cryptoService;
+  }
+
+  /**
+   * Connect to a key of an external signer
+   * @param transport - Function that delivers requests to the signer
+   * @param options - keyId of the key to use (defaults to "default") and an
+   *   optional CryptoService to verify every returned signature with
+   * @returns Signer for the remote key
+   *
+   * @example
+   * ```typescript
+   * const signer = await RemoteSigner.connect(
+   *   async (request) => (await fetch(kmsUrl, {
+   *     method: "POST",
+   *     body: JSON.stringify(request),
+   *   })).json(),
+   *   { keyId: "issuer-2025" }
+   * );
+   * const vc = await issuer.issueCredential(
+   *   issuerInfo, subject, signer, signer.publicKey
+   * );
+   * ```
+   */
+  static async connect(
+    transport: RemoteSignerTransport,
+    options: { keyId?: string; cryptoService?: CryptoService } = {},
+  ): Promise<RemoteSigner> {
+    const keyId = options.keyId || "default";
+    const response = await RemoteSigner.send(transport, {
+      method: "getPublicKey",
+      keyId,
+    });
+
+    const { algorithm, publicKey, address } = response;
+    if (
+      typeof algorithm !== "string" ||
+      typeof publicKey !== "string" ||
+      typeof address !== "string"
+    ) {
+      throw new Error("Remote signer returned an invalid key description");
+    }
+
+    return new RemoteSigner(
+      transport,
+      keyId,
+      { algorithm, publicKey, address },
+      options.cryptoService,
+    );
+  }
+
+  /**
+   * Get the key identifier used in requests
+   */
+  getKeyId(): string {
+    return this.keyId;
+  }
+
+  /**
+   * Sign a hash with the remote key
+   * @param hash - Hash string to sign
+   * @returns Signature in the CryptoService's format
+   * @throws Error if the transport fails or returns an invalid signature
+   */
+  async sign(hash: string): Promise<string> {
+    const { signature } = await RemoteSigner.send(this.transport, {
+      method: "sign",
+      keyId: this.keyId,
+      hash,
+    });
+    if (typeof signature !== "string") {
+      throw new Error("Remote signer returned an invalid signature");
+    }
+
+    if (
+      this.cryptoService &&
+      !(await this.cryptoService.verify(hash, signature, this.publicKey))
+    ) {
+      throw new Error("Remote signer returned an invalid signature");
+    }
+
+    return signature;
+  }
+
+  /**
+   * Send one request through the transport
+   *
+   * @private
+   */
+  private static async send(
+    transport: RemoteSignerTransport,
+    request: RemoteSignerRequest,
+  ): Promise<Record<string, unknown>> {
+    let response: Record<string, unknown>;
+    try {
+      response = await transport(request);
+    } catch (error) {
+      throw new Error(`Remote signing failed: ${error}`);
+    }
+
+    if (typeof response !== "object" || response === null) {
+      throw new Error("Remote signer returned an invalid response");
+    }
+    return response;
+  }
+}
@@ -0,0 +1,519 @@
+import { createHash, randomBytes } from "crypto";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { JoseService, DecodedJWS } from "./JoseService";
+import { JWK } from "./KeyFormatService";
+import {
+  Credential,
+  CredentialSubject,
+  W3C_VC_CONTEXT_V2,
+} from "../types/w3c-vc.types";
+import { Signer } from "../types";
+
+/**
+ * Media type of an SD-JWT VC
+ */
+export const SD_JWT_VC_MEDIA_TYPE = "application/dc+sd-jwt";
+
+/**
+ * Disclosure of one selectively disclosable claim
+ */
+export interface SDJwtDisclosure {
+  encoded: string; // BASE64URL(JSON([salt, name, value]))
+  digest: string; // BASE64URL(SHA-256(encoded))
+  salt: string;
+  name: string;
+  value: unknown;
+}
+
+/**
+ * Parts of an SD-JWT or SD-JWT+KB
+ */
+export interface ParsedSDJwt {
+  jwt: DecodedJWS; // Issuer-signed JWT
+  disclosures: SDJwtDisclosure[];
+  keyBindingJwt?: DecodedJWS;
+  sdHashInput: string; // The SD-JWT without key binding JWT, as hashed in sd_hash
+}
+
+/**
+ * Holder key binding of a presentation
+ */
+export interface SDJwtKeyBinding {
+  signer: string | Signer; // Holder key named in the cnf claim
+  audience: string; // Verifier the presentation is meant for
+  nonce: string; // Fresh verifier nonce
+}
+
+// Claim names that cannot be disclosed, as they carry the SD-JWT structure
+const RESERVED_NAMES = ["_sd", "_sd_alg", "..."];
+
+// JWT claims that are not credentialSubject claims
+const CREDENTIAL_CLAIMS = [
+  "iss",
+  "iat",
+  "nbf",
+  "exp",
+  "jti",
+  "sub",
+  "vct",
+  "cnf",
+  "_sd_alg",
+];
+
+/**
+ * SD-JWT Service
+ *
+ * Selective disclosure with SD-JWT (RFC 9901) in the SD-JWT VC format. Each
+ * selectively disclosable claim is replaced by the digest of a salted
+ * disclosure; the holder presents only the disclosures it chooses, and the
+ * verifier recomputes their digests against the issuer-signed JWT.
+ *
+ * Format:
+ *   <issuer-signed JWT>~<disclosure>~...~<key binding JWT, optional>
+ *
+ * Key characteristics:
+ * - Signs with JoseService, so any service with a JOSE algorithm works
+ *   (ES256K, ES256, EdDSA)
+ * - Disclosable claims are credentialSubject paths; nested claims such as
+ *   "lock.name" can be disclosable on their own
+ * - Key binding: the issuer names the holder key in `cnf`, and the holder
+ *   signs a key binding JWT over the presentation, verifier and nonce
+ *
+ * Use case: EU wallets (SD-JWT VC) and presenting an access credential
+ *   without revealing userMetaDataHash or accessSchedule to every lock
+ */
+export class SDJwtService {
+  private jose: JoseService;
+
+  /**
+   * @param cryptoService - Service that signs the issuer JWT or the key
+   *   binding JWT (defaults to ECDSA)
+   * @throws Error if the service has no JOSE algorithm
+   */
+  constructor(cryptoService: CryptoService = new ECDSACryptoService()) {
+    this.jose = new JoseService(cryptoService);
+  }
+
+  /**
+   * Issue a credential as an SD-JWT VC
+   * credentialSubject claims become JWT claims (its id becomes `sub`); the
+   * issuer, validity dates, id and last type map to iss, nbf/exp, jti and vct
+   *
+   * @param credential - Unsigned credential with a single subject
+   * @param signer - Signer or private key of the service's key type
+   * @param options - Disclosable claim paths, holder key and header options
+   * @returns SD-JWT with every disclosure (<jwt>~<disclosure>~...~)
+   * @throws Error if a disclosable claim does not exist
+   *
+   * @example
+   * ```typescript
+   * const sdJwt = await new SDJwtService(ecdsa).issueCredential(
+   *   credential,
+   *   issuerKey,
+   *   { disclosable: ["userMetaDataHash", "accessSchedule", "lock"] }
+   * );
+   * ```
+   */
+  async issueCredential(
+    credential: Credential,
+    signer: string | Signer,
+    options: {
+      disclosable: string[];
+      vct?: string; // defaults to the last credential type
+      holderJwk?: JWK; // Holder key for key binding (cnf claim)
+      kid?: string;
+    },
+  ): Promise<string> {
+    if (Array.isArray(credential.credentialSubject)) {
+      throw new Error("SD-JWT credentials support a single credentialSubject");
+    }
+
+    const iss =
+      typeof credential.issuer === "string"
+        ? credential.issuer
+        : credential.issuer.id;
+    const { id: sub, ...claims } = credential.credentialSubject;
+
+    const payload: Record<string, unknown> = {
+      iss,
+      iat: Math.floor(Date.now() / 1000),
+      vct: options.vct || credential.type[credential.type.length - 1],
+    };
+    if (credential.id) payload.jti = credential.id;
+    if (sub) payload.sub = sub;
+    if (credential.validFrom) {
+      payload.nbf = JoseService.toNumericDate(credential.validFrom);
+    }
+    if (credential.validUntil) {
+      payload.exp = JoseService.toNumericDate(credential.validUntil);
+    }
+    if (options.holderJwk) payload.cnf = { jwk: options.holderJwk };
+
+    for (const path of options.disclosable) {
+      if (!this.hasClaim(claims, path)) {
+        throw new Error(`Unknown claim: ${path}`);
+      }
+    }
+
+    const disclosures: SDJwtDisclosure[] = [];
+    Object.assign(
+      payload,
+      this.concealClaims(claims, "", options.disclosable, disclosures),
+      { _sd_alg: "sha-256" },
+    );
+
+    const jwt = await this.jose.sign(
+      {
+        alg: this.jose.getAlgorithm(),
+        typ: "dc+sd-jwt",
+        kid: options.kid || `${iss}#keys-1`,
+      },
+      payload,
+      signer,
+    );
+    return [jwt, ...disclosures.map((d) => d.encoded), ""].join("~");
+  }
+
+  /**
+   * Create a presentation with only some disclosures
+   * Disclosing a claim also discloses the claims it is nested in and the
+   * disclosable claims nested below it
+   *
+   * @param sdJwt - SD-JWT from the issuer
+   * @param disclose - Claim paths to disclose (e.g. "lock", "lock.name")
+   * @param keyBinding - Holder key, verifier and nonce for a key binding JWT
+   *   (signed with this service)
+   * @returns SD-JWT presentation, with a key binding JWT if requested
+   * @throws Error if a path is not selectively disclosable
+   */
+  async present(
+    sdJwt: string,
+    disclose: string[],
+    keyBinding?: SDJwtKeyBinding,
+  ): Promise<string> {
+    const { jwt, disclosures } = SDJwtService.parse(sdJwt);
+    const paths = SDJwtService.disclose(jwt.payload, disclosures).paths;
+
+    // Related paths: the same claim, a claim it is nested in, or below it
+    const related = (a: string, b: string) =>
+      a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+    for (const path of disclose) {
+      if (!paths.some((p) => related(path, p))) {
+        throw new Error(`Claim ${path} is not selectively disclosable`);
+      }
+    }
+    const selected = disclosures.filter((_disclosure, index) =>
+      disclose.some((path) => related(path, paths[index])),
+    );
+
+    const presentation = [
+      sdJwt.split("~")[0],
+      ...selected.map((d) => d.encoded),
+      "",
+    ].join("~");
+    if (!keyBinding) {
+      return presentation;
+    }
+
+    const keyBindingJwt = await this.jose.sign(
+      { alg: this.jose.getAlgorithm(), typ: "kb+jwt" },
+      {
+        iat: Math.floor(Date.now() / 1000),
+        aud: keyBinding.audience,
+        nonce: keyBinding.nonce,
+        sd_hash: SDJwtService.createSdHash(presentation),
+      },
+      keyBinding.signer,
+    );
+    return presentation + keyBindingJwt;
+  }
+
+  /**
+   * Split an SD-JWT (or SD-JWT+KB) into its parts, without verifying it
+   * @param sdJwt - SD-JWT or presentation
+   * @returns Issuer JWT, disclosures and key binding JWT
+   * @throws Error if a part is malformed or a disclosure is repeated
+   */
+  static parse(sdJwt: string): ParsedSDJwt {
+    const parts = typeof sdJwt === "string" ? sdJwt.split("~") : [];
+    if (parts.length < 2) {
+      throw new Error("Malformed SD-JWT");
+    }
+
+    const keyBindingPart = parts[parts.length - 1];
+    const disclosures = parts
+      .slice(1, -1)
+      .map((encoded) => SDJwtService.decodeDisclosure(encoded));
+    const digests = new Set(disclosures.map((d) => d.digest));
+    if (digests.size !== disclosures.length) {
+      throw new Error("SD-JWT repeats a disclosure");
+    }
+
+    return {
+      jwt: JoseService.decode(parts[0]),
+      disclosures,
+      keyBindingJwt: keyBindingPart
+        ? JoseService.decode(keyBindingPart)
+        : undefined,
+      sdHashInput: parts.slice(0, -1).join("~") + "~",
+    };
+  }
+
+  /**
+   * Replace the digests of an issuer JWT payload by the disclosed claims
+   * @param payload - Issuer JWT payload
+   * @param disclosures - Disclosures of the SD-JWT
+   * @returns Claims without SD-JWT structure, and the path of each disclosure
+   *   (same order as the disclosures)
+   * @throws Error if a disclosure is not referenced by the payload, or the
+   *   payload uses another digest algorithm
+   */
+  static disclose(
+    payload: Record<string, unknown>,
+    disclosures: SDJwtDisclosure[],
+  ): { claims: Record<string, unknown>; paths: string[] } {
+    if (payload._sd_alg !== undefined && payload._sd_alg !== "sha-256") {
+      throw new Error(
+        `Unsupported SD-JWT digest algorithm: ${payload._sd_alg}`,
+      );
+    }
+
+    const byDigest = new Map(disclosures.map((d) => [d.digest, d]));
+    const pathByDigest = new Map<string, string>();
+
+    const reveal = (
+      object: Record<string, unknown>,
+      prefix: string,
+    ): Record<string, unknown> => {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(object)) {
+        if (key === "_sd") continue;
+        result[key] = SDJwtService.isObject(value)
+          ? reveal(value, `${prefix}${key}.`)
+          : value;
+      }
+
+      const digests = object._sd;
+      if (digests === undefined) {
+        return result;
+      }
+      if (!Array.isArray(digests)) {
+        throw new Error("SD-JWT _sd must be an array of digests");
+      }
+      for (const digest of digests) {
+        const disclosure = byDigest.get(digest as string);
+        if (!disclosure) continue;
+        if (pathByDigest.has(disclosure.digest)) {
+          throw new Error("SD-JWT digest is referenced more than once");
+        }
+        if (disclosure.name in result) {
+          throw new Error(`SD-JWT claim ${disclosure.name} is disclosed twice`);
+        }
+
+        const path = prefix + disclosure.name;
+        pathByDigest.set(disclosure.digest, path);
+        result[disclosure.name] = SDJwtService.isObject(disclosure.value)
+          ? reveal(disclosure.value, `${path}.`)
+          : disclosure.value;
+      }
+      return result;
+    };
+
+    const claims = reveal(payload, "");
+    delete claims._sd_alg;
+
+    const paths = disclosures.map((d) => {
+      const path = pathByDigest.get(d.digest);
+      if (path === undefined) {
+        throw new Error(
+          "SD-JWT disclosure is not referenced by the issuer JWT",
+        );
+      }
+      return path;
+    });
+    return { claims, paths };
+  }
+
+  /**
+   * Rebuild the credential from disclosed SD-JWT VC claims
+   * @param claims - Claims from SDJwtService.disclose
+   * @returns Credential with the disclosed credentialSubject claims
+   */
+  static toCredential(claims: Record<string, unknown>): Credential {
+    const credentialSubject: CredentialSubject = {};
+    if (claims.sub !== undefined) {
+      credentialSubject.id = claims.sub as string;
+    }
+    for (const [key, value] of Object.entries(claims)) {
+      if (!CREDENTIAL_CLAIMS.includes(key)) {
+        credentialSubject[key] = value;
+      }
+    }
+
+    const vct = claims.vct as string | undefined;
+    const credential: Credential = {
+      "@context": [W3C_VC_CONTEXT_V2],
+      type:
+        vct && vct !== "VerifiableCredential"
+          ? ["VerifiableCredential", vct]
+          : ["VerifiableCredential"],
+      issuer: claims.iss as string,
+      validFrom: SDJwtService.fromNumericDate(claims.nbf ?? claims.iat),
+      credentialSubject,
+    };
+    if (claims.jti !== undefined) credential.id = claims.jti as string;
+    if (claims.exp !== undefined) {
+      credential.validUntil = SDJwtService.fromNumericDate(claims.exp);
+    }
+    return credential;
+  }
+
+  /**
+   * sd_hash of a key binding JWT: BASE64URL(SHA-256(SD-JWT without KB-JWT))
+   * @param presentation - SD-JWT up to and including the last "~"
+   */
+  static createSdHash(presentation: string): string {
+    return createHash("sha256")
+      .update(presentation, "ascii")
+      .digest("base64url");
+  }
+
+  /**
+   * Replace the disclosable claims of an object by digests (recursively)
+   *
+   * @private
+   */
+  private concealClaims(
+    object: Record<string, unknown>,
+    prefix: string,
+    disclosable: string[],
+    disclosures: SDJwtDisclosure[],
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const digests: string[] = [];
+
+    for (const [key, value] of Object.entries(object)) {
+      const path = prefix + key;
+      const concealed = SDJwtService.isObject(value)
+        ? this.concealClaims(value, `${path}.`, disclosable, disclosures)
+        : value;
+
+      if (!disclosable.includes(path)) {
+        result[key] = concealed;
+        continue;
+      }
+      if (RESERVED_NAMES.includes(key)) {
+        throw new Error(`Claim ${key} cannot be selectively disclosable`);
+      }
+
+      const disclosure = SDJwtService.createDisclosure(key, concealed);
+      disclosures.push(disclosure);
+      digests.push(disclosure.digest);
+    }
+
+    // Sorted, so the digest order does not reveal the claim order
+    if (digests.length > 0) {
+      result._sd = digests.sort();
+    }
+    return result;
+  }
+
+  /**
+   * Check that a dotted claim path exists
+   *
+   * @private
+   */
+  private hasClaim(object: Record<string, unknown>, path: string): boolean {
+    let current: unknown = object;
+    for (const key of path.split(".")) {
+      if (!SDJwtService.isObject(current) || !(key in current)) {
+        return false;
+      }
+      current = current[key];
+    }
+    return true;
+  }
+
+  /**
+   * Create a salted disclosure
+   *
+   * @private
+   */
+  private static createDisclosure(
+    name: string,
+    value: unknown,
+  ): SDJwtDisclosure {
+    const salt = randomBytes(16).toString("base64url");
+    const encoded = Buffer.from(
+      JSON.stringify([salt, name, value]),
+      "utf8",
+    ).toString("base64url");
+    return {
+      encoded,
+      digest: SDJwtService.digest(encoded),
+      salt,
+      name,
+      value,
+    };
+  }
+
+  /**
+   * Decode a disclosure
+   *
+   * @private
+   */
+  private static decodeDisclosure(encoded: string): SDJwtDisclosure {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    } catch {
+      throw new Error("SD-JWT disclosure is not valid JSON");
+    }
+    if (
+      !/^[\w-]+$/.test(encoded) ||
+      !Array.isArray(decoded) ||
+      decoded.length !== 3 ||
+      typeof decoded[0] !== "string" ||
+      typeof decoded[1] !== "string" ||
+      RESERVED_NAMES.includes(decoded[1])
+    ) {
+      throw new Error("Malformed SD-JWT disclosure");
+    }
+
+    return {
+      encoded,
+      digest: SDJwtService.digest(encoded),
+      salt: decoded[0],
+      name: decoded[1],
+      value: decoded[2],
+    };
+  }
+
+  /**
+   * BASE64URL(SHA-256(ASCII(disclosure)))
+   *
+   * @private
+   */
+  private static digest(encoded: string): string {
+    return createHash("sha256").update(encoded, "ascii").digest("base64url");
+  }
+
+  /**
+   * ISO 8601 date of a JWT NumericDate
+   *
+   * @private
+   */
+  private static fromNumericDate(value: unknown): string {
+    if (typeof value !== "number") {
+      throw new Error("SD-JWT has no valid nbf or iat claim");
+    }
+    return new Date(value * 1000).toISOString();
+  }
+
+  /**
+   * @private
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  slh_dsa_sha2_128s,
+  slh_dsa_sha2_128f,
+  slh_dsa_sha2_192s,
+  slh_dsa_sha2_192f,
+  slh_dsa_sha2_256s,
+  slh_dsa_sha2_256f,
+} from "@noble/post-quantum/slh-dsa.js";
+import { createHash, randomFillSync } from "crypto";
+import { CryptoIdentity } from "../types";
+import { CryptoService } from "./CryptoService";
+
+/**
+ * SLH-DSA parameter sets (FIPS 205, SHA2 instantiations)
+ * - "s" variants: small signatures, slow signing
+ * - "f" variants: fast signing, larger signatures
+ * - 128 / 192 / 256: NIST security level 1 / 3 / 5
+ */
+export type SLHDSAParameterSet =
+  | "SLH-DSA-SHA2-128s"
+  | "SLH-DSA-SHA2-128f"
+  | "SLH-DSA-SHA2-192s"
+  | "SLH-DSA-SHA2-192f"
+  | "SLH-DSA-SHA2-256s"
+  | "SLH-DSA-SHA2-256f";
+
+const SLH_DSA_IMPLEMENTATIONS = {
+  "SLH-DSA-SHA2-128s": slh_dsa_sha2_128s,
+  "SLH-DSA-SHA2-128f": slh_dsa_sha2_128f,
+  "SLH-DSA-SHA2-192s": slh_dsa_sha2_192s,
+  "SLH-DSA-SHA2-192f": slh_dsa_sha2_192f,
+  "SLH-DSA-SHA2-256s": slh_dsa_sha2_256s,
+  "SLH-DSA-SHA2-256f": slh_dsa_sha2_256f,
+};
+
+/**
+ * Post-Quantum Cryptographic Service using SLH-DSA (SPHINCS+)
+ *
+ * SLH-DSA is a stateless hash-based signature scheme (FIPS 205). Its security
+ * rests only on the hash function, which makes it the conservative choice
+ * for long-lived root issuer keys.
+ *
+ * Key characteristics (SHA2-128s / SHA2-128f):
+ * - Public key: 32 bytes, Secret key: 64 bytes
+ * - Signature: 7,856 / 17,088 bytes (raw)
+ * - Signing is much slower than ML-DSA or Falcon (seconds for "s" variants)
+ * - Uses Base64 encoding, same as PQCryptoService
+ *
+ * Use case: Root issuer keys where signing is rare and assurance matters most
+ */
+export class SLHDSACryptoService extends CryptoService {
+  private parameterSet: SLHDSAParameterSet;
+
+  /**
+   * @param parameterSet - SLH-DSA parameter set (defaults to SLH-DSA-SHA2-128s)
+   */
+  constructor(parameterSet: SLHDSAParameterSet = "SLH-DSA-SHA2-128s") {
+    super();
+    if (!Object.keys(SLH_DSA_IMPLEMENTATIONS).includes(parameterSet)) {
+      throw new Error(
+        `SLH-DSA parameter set must be one of ${Object.keys(
+          SLH_DSA_IMPLEMENTATIONS,
+        ).join(", ")}`,
+      );
+    }
+    this.parameterSet = parameterSet;
+  }
+
+  /**
+   * Generate SLH-DSA key pair
+   * @returns CryptoIdentity with base64-encoded keys
+   */
+  async generateIdentity(): Promise<CryptoIdentity> {
+    try {
+      const implementation = this.getImplementation();
+      const seed = new Uint8Array(implementation.lengths.seed ?? 48);
+      if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+        crypto.getRandomValues(seed);
+      } else {
+        randomFillSync(seed);
+      }
+
+      const keypair = implementation.keygen(seed);
+      const secretKey = keypair.secretKey;
+      const publicKey = keypair.publicKey;
+
+      const privateKeyBase64 = Buffer.from(secretKey).toString("base64");
+      const publicKeyBase64 = Buffer.from(publicKey).toString("base64");
+
+      // Create pseudo-address from public key hash for consistency with other services
+      const addressHash = createHash("sha256").update(publicKey).digest("hex");
+
+      return {
+        privateKey: privateKeyBase64,
+        publicKey: publicKeyBase64,
+        address: `0x${addressHash.substring(0, 40)}`, // 20-byte address format
+      };
+    } catch (error) {
+      throw new Error(`${this.parameterSet} key generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Sign data using SLH-DSA
+   * @param data - Hash string to sign (hex format)
+   * @param privateKey - Base64-encoded SLH-DSA secret key
+   * @returns Base64-encoded signature
+   */
+  async sign(data: string, privateKey: string): Promise<string> {
+    try {
+      const secretKey = new Uint8Array(Buffer.from(privateKey, "base64"));
+      const dataBytes = new Uint8Array(
+        Buffer.from(data.replace("0x", ""), "hex"),
+      );
+
+      const signature = this.getImplementation().sign(dataBytes, secretKey);
+      return Buffer.from(signature).toString("base64");
+    } catch (error) {
+      throw new Error(`${this.parameterSet} signing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Verify SLH-DSA signature
+   * @param data - Original hash string (hex format)
+   * @param signature - Base64-encoded signature
+   * @param publicKey - Base64-encoded SLH-DSA public key
+   * @returns True if signature is valid
+   */
+  async verify(
+    data: string,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    try {
+      const publicKeyBytes = new Uint8Array(Buffer.from(publicKey, "base64"));
+      const signatureBytes = new Uint8Array(Buffer.from(signature, "base64"));
+      const dataBytes = new Uint8Array(
+        Buffer.from(data.replace("0x", ""), "hex"),
+      );
+
+      return this.getImplementation().verify(
+        signatureBytes,
+        dataBytes,
+        publicKeyBytes,
+      );
+    } catch (error) {
+      console.error(`${this.parameterSet} verification failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Hash data using SHA-256
+   * @param data - String data to hash
+   * @returns Hex-encoded hash with 0x prefix
+   */
+  hash(data: string): string {
+    const hash = createHash("sha256").update(data, "utf8").digest("hex");
+    return "0x" + hash;
+  }
+
+  /**
+   * Get the configured SLH-DSA parameter set
+   */
+  getParameterSet(): SLHDSAParameterSet {
+    return this.parameterSet;
+  }
+
+  /**
+   * Cryptosuite identifier recorded in issued proofs (e.g. "slhdsa-sha2-128s")
+   */
+  getCryptosuite(): string {
+    return this.parameterSet.toLowerCase().replace("slh-dsa-", "slhdsa-");
+  }
+
+  /**
+   * COSE algorithm name (the parameter set, e.g. "SLH-DSA-SHA2-128s")
+   */
+  getCoseAlgorithm(): string {
+    return this.parameterSet;
+  }
+
+  /**
+   * Resolve the noble implementation for the configured parameter set
+   *
+   * @private
+   */
+  private getImplementation() {
+    return SLH_DSA_IMPLEMENTATIONS[this.parameterSet];
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  VerifiableCredential,
+  CredentialSubject,
+  ECDSAProof,
+} from "../types/w3c-vc.types";
+import { BBSCryptoService } from "./BBSCryptoService";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { SDJwtService, SDJwtKeyBinding } from "./SDJwtService";
+import { getProofs } from "./ProofSet";
+import { HolderBindingService } from "./HolderBindingService";
+import { Signer } from "../types";
+
+/**
+ * VC Holder Service
+ *
+ * Handles what the credential holder does before presenting a credential.
+ *
+ * SELECTIVE DISCLOSURE:
+ * A credential issued with VCIssuer.issueSelectiveDisclosureCredential carries
+ * a BBS signature over every claim. The holder derives a new proof that reveals
+ * only the requested claims; the hidden claims are removed from the credential
+ * and cannot be recovered from the derived proof.
+ *
+ * A credential issued with VCIssuer.issueSdJwtCredential (SD-JWT VC) is
+ * presented with only the chosen disclosures, optionally bound to the holder
+ * key with a key binding JWT over the verifier's nonce.
+ *
+ * HOLDER BINDING:
+ * A credential bound to the holder key (see HolderBindingService) is only
+ * accepted with the holder's signature over the verifier's fresh challenge.
+ */
+export class VCHolder {
+  private cryptoService: BBSCryptoService;
+
+  constructor(cryptoService?: BBSCryptoService) {
+    this.cryptoService = cryptoService || new BBSCryptoService();
+  }
+
+  /**
+   * Derive a credential that reveals only some credentialSubject claims
+   *
+   * @param vc - Credential with a BbsBlsSignature2020 proof
+   * @param revealClaims - Claim paths to reveal (e.g. "lock.id", "permissions").
+   *   A path also reveals every claim nested below it (e.g. "lock"). The
+   *   holder key of a bound credential (did:key id or cnf) is always revealed.
+   * @param issuerPublicKey - BBS public key of the issuer
+   * @param options - Optional verifier challenge to bind the proof to
+   * @returns Credential with the revealed claims and a BbsBlsSignatureProof2020 proof
+   *
+   * @example
+   * ```typescript
+   * const holder = new VCHolder();
+   * const derived = await holder.deriveCredential(
+   *   vc,
+   *   ["lock.id", "permissions"],
+   *   issuerPublicKey,
+   *   { challenge: lockChallenge }
+   * );
+   * ```
+   */
+  async deriveCredential(
+    vc: VerifiableCredential,
+    revealClaims: string[],
+    issuerPublicKey: string,
+    options: { challenge?: string } = {}
+  ): Promise<VerifiableCredential> {
+    // Other proofs of a proof set do not survive hiding claims; only the
+    // BBS signature is carried over, as the derived proof
+    const proof = getProofs(vc).find(
+      (candidate) => candidate.type === "BbsBlsSignature2020"
+    );
+    if (!proof) {
+      throw new Error("Credential has no BbsBlsSignature2020 proof");
+    }
+
+    if (Array.isArray(vc.credentialSubject)) {
+      throw new Error(
+        "Selective disclosure supports a single credentialSubject"
+      );
+    }
+
+    const claims = this.cryptoService.createClaimMessages(vc.credentialSubject);
+    // A claim path names an entry or any object above it
+    const isBelow = (keys: string[], claim: string) =>
+      keys.some((_, depth) => keys.slice(0, depth + 1).join(".") === claim);
+    // The holder key of a bound credential is always revealed
+    const revealed = [
+      ...revealClaims,
+      ...HolderBindingService.getBindingClaims(vc.credentialSubject),
+    ];
+    const isRevealed = (keys: string[]) =>
+      revealed.some((claim) => isBelow(keys, claim));
+
+    for (const claim of revealClaims) {
+      if (!claims.some((entry) => isBelow(entry.keys, claim))) {
+        throw new Error(`Unknown claim: ${claim}`);
+      }
+    }
+
+    const disclosedIndexes = claims
+      .map((entry, index) => (isRevealed(entry.keys) ? index : -1))
+      .filter((index) => index >= 0);
+
+    const derivedProofValue = await this.cryptoService.deriveProof(
+      claims.map((entry) => entry.message),
+      this.cryptoService.createHeader(vc, HolderBindingService.isBound(vc)),
+      proof.proofValue,
+      issuerPublicKey,
+      disclosedIndexes,
+      options.challenge
+    );
+
+    // Rebuild the subject from the revealed claims only
+    const revealedSubject: CredentialSubject = {};
+    for (const index of disclosedIndexes) {
+      this.copyClaim(vc.credentialSubject, revealedSubject, claims[index].keys);
+    }
+
+    const derivedProof: ECDSAProof = {
+      type: "BbsBlsSignatureProof2020",
+      created: new Date().toISOString(),
+      proofPurpose: proof.proofPurpose,
+      verificationMethod: proof.verificationMethod,
+      proofValue: derivedProofValue,
+      disclosedIndexes,
+    };
+    if (options.challenge) {
+      derivedProof.challenge = options.challenge;
+    }
+
+    const { proof: _proof, ...credentialWithoutProof } = vc;
+    return {
+      ...credentialWithoutProof,
+      credentialSubject: revealedSubject,
+      proof: derivedProof,
+    };
+  }
+
+  /**
+   * Present an SD-JWT VC with only some of its selectively disclosable claims
+   *
+   * @param sdJwt - SD-JWT from VCIssuer.issueSdJwtCredential
+   * @param disclose - Claim paths to disclose (e.g. "lock", "lock.name")
+   * @param options - Key binding (holder key from the cnf claim, verifier and
+   *   nonce) and the holder key's crypto service (defaults to ECDSA)
+   * @returns SD-JWT presentation
+   *
+   * @example
+   * ```typescript
+   * const presentation = await holder.presentSdJwtCredential(
+   *   sdJwt,
+   *   ["lock"],
+   *   {
+   *     keyBinding: {
+   *       signer: holderIdentity.privateKey,
+   *       audience: "lock-building-a-room-101",
+   *       nonce: lockChallenge,
+   *     },
+   *   }
+   * );
+   * ```
+   */
+  async presentSdJwtCredential(
+    sdJwt: string,
+    disclose: string[],
+    options: {
+      keyBinding?: SDJwtKeyBinding;
+      cryptoService?: CryptoService;
+    } = {}
+  ): Promise<string> {
+    return new SDJwtService(
+      options.cryptoService || new ECDSACryptoService()
+    ).present(sdJwt, disclose, options.keyBinding);
+  }
+
+  /**
+   * Prove possession of the holder key a credential is bound to, by signing
+   * the verifier's fresh challenge together with the verifier's domain
+   *
+   * @param challenge - Challenge sent by the lock (OffChainService.createChallenge)
+   * @param signer - Signer or private key of the holder
+   * @param domain - The verifier the proof is for (e.g. the lock id)
+   * @param options - The holder key's crypto service (defaults to ECDSA)
+   * @returns Signature for the verifier's holderBinding check
+   *
+   * @example
+   * ```typescript
+   * const signature = await holder.proveHolderBinding(
+   *   lockChallenge,
+   *   holderIdentity.privateKey,
+   *   "lock-building-a-room-101"
+   * );
+   * ```
+   */
+  async proveHolderBinding(
+    challenge: string,
+    signer: string | Signer,
+    domain: string,
+    options: { cryptoService?: CryptoService } = {}
+  ): Promise<string> {
+    return new HolderBindingService(options.cryptoService).signChallenge(
+      challenge,
+      signer,
+      domain
+    );
+  }
+
+  /**
+   * Copy one claim (by its property names) from the full subject into the
+   * revealed one
+   *
+   * @private
+   */
+  private copyClaim(
+    source: Record<string, unknown>,
+    target: Record<string, unknown>,
+    keys: string[]
+  ): void {
+    let from = source;
+    let to = target;
+
+    keys.slice(0, -1).forEach((key) => {
+      from = from[key] as Record<string, unknown>;
+      to[key] = (to[key] as Record<string, unknown>) || {};
+      to = to[key] as Record<string, unknown>;
+    });
+
+    const leaf = keys[keys.length - 1];
+    to[leaf] = from[leaf];
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto";
 import {
   Credential,
   VerifiableCredential,
@@ -9,8 +10,26 @@ import {
   ISO8601DateTime,
 } from "../types/w3c-vc.types";
 import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { BBSCryptoService } from "./BBSCryptoService";
 import { OffChainService } from "./OffChainService";
 import { OnChainService } from "./OnChainService";
+import { AlgorithmRegistry } from "./AlgorithmRegistry";
+import {
+  DataIntegrityService,
+  DataIntegrityCryptosuite,
+} from "./DataIntegrityService";
+import { RDFCanonicalizer } from "./RDFCanonicalizer";
+import { JoseService } from "./JoseService";
+import { SDJwtService } from "./SDJwtService";
+import { CoseService } from "./CoseService";
+import { KeyFormatService, JWK } from "./KeyFormatService";
+import { HolderBindingService } from "./HolderBindingService";
+import {
+  CanonicalizationVersion,
+  DEFAULT_CANONICALIZATION,
+} from "./JsonCanonicalizer";
+import { getProofs, createProofDocument } from "./ProofSet";
+import { Signer } from "../types";
 
 /**
  * VC Issuer Service
@@ -35,26 +54,37 @@ export class VCIssuer {
   private cryptoService: CryptoService;
   private offChainService?: OffChainService;
   private onChainService?: OnChainService;
+  private registry: AlgorithmRegistry;
 
+  /**
+   * @param cryptoService - Service used by issueCredential (defaults to ECDSA)
+   * @param offChainService - Service used by issueOffChainCredential
+   * @param onChainService - Service used by issueOnChainCredential
+   * @param registry - Proof type per algorithm (defaults to the built-in ones)
+   */
   constructor(
     cryptoService?: CryptoService,
     offChainService?: OffChainService,
-    onChainService?: OnChainService
+    onChainService?: OnChainService,
+    registry?: AlgorithmRegistry
   ) {
     this.cryptoService = cryptoService || new ECDSACryptoService();
     this.offChainService = offChainService;
     this.onChainService = onChainService;
+    this.registry = registry || AlgorithmRegistry.createDefault();
   }
 
   /**
    * Issue a W3C-compliant Verifiable Credential using ANY crypto algorithm
-   * This method is algorithm-agnostic and works with ECDSA, RSA, or Post-Quantum
+   * This method is algorithm-agnostic and works with ECDSA, RSA, EdDSA, BLS, or Post-Quantum
    *
    * @param issuer - Issuer identifier (URL or DID)
    * @param credentialSubject - Claims about the subject
-   * @param privateKey - Private key to sign with (format depends on algorithm)
+   * @param signer - Signer (e.g. KMS-backed RemoteSigner) or private key to
+   *   sign with (format depends on algorithm)
    * @param publicKey - Public key for verification (format depends on algorithm)
-   * @param options - Additional credential options
+   * @param options - Additional credential options (cryptosuite selects a
+   *   standard DataIntegrityProof, e.g. "ecdsa-jcs-2019" for P-256)
    * @returns Signed Verifiable Credential
    *
    * @example
@@ -74,11 +104,16 @@ export class VCIssuer {
   async issueCredential(
     issuer: Issuer,
     credentialSubject: CredentialSubject | CredentialSubject[],
-    privateKey: string,
+    signer: string | Signer,
     publicKey: string,
     options: CreateCredentialOptions & {
       validityDays?: number;
       proofType?: string; // Custom proof type for different algorithms
+      cryptosuite?: DataIntegrityCryptosuite; // Data Integrity cryptosuite (P-256 or Ed25519)
+      rdfCanonicalizer?: RDFCanonicalizer; // Contexts for the *-rdfc-* cryptosuites
+      verificationMethod?: string; // Defaults to "<issuer>#keys-1"
+      canonicalization?: CanonicalizationVersion; // For locks on releases up to 3.1
+      proofId?: string; // Lets later proofs chain to this one (see addProof)
     } = {}
   ): Promise<VerifiableCredential> {
     // Create the unsigned credential
@@ -88,24 +123,302 @@ export class VCIssuer {
       options
     );
 
-    // Create canonical representation for signing
-    const credentialHash = this.createCanonicalHash(credential);
+    const verificationMethod =
+      options.verificationMethod ||
+      `${typeof issuer === "string" ? issuer : issuer.id}#keys-1`;
+    const proof = await this.createProof(credential, signer, {
+      ...options,
+      verificationMethod,
+    });
+
+    // Return signed credential
+    return {
+      ...credential,
+      proof,
+    };
+  }
+
+  /**
+   * Add a proof to an issued credential, e.g. an ML-DSA proof next to the
+   * ECDSA one, signed with this issuer's crypto service
+   *
+   * The new proof signs the credential independently (proof set) or, with
+   * previousProof, also the proofs it references (proof chain). Verifiers
+   * must then verify every proof.
+   *
+   * @param vc - Signed credential
+   * @param signer - Signer or private key of the additional key
+   * @param options - Proof options (proofId defaults to a new urn:uuid id,
+   *   verificationMethod to "<issuer>#keys-<n>" for the n-th proof)
+   * @returns Credential with the proof appended to its proof set
+   * @throws Error if the credential has no proof, a referenced proof is
+   *   missing or the proof id is taken
+   *
+   * @example
+   * ```typescript
+   * const pq = new PQCryptoService("ML-DSA-65");
+   * const pqKey = await pq.generateIdentity();
+   * const hybridVC = await new VCIssuer(pq).addProof(ecdsaVC, pqKey.privateKey, {
+   *   verificationMethod: "did:example:issuer123#keys-pq",
+   * });
+   * ```
+   */
+  async addProof(
+    vc: VerifiableCredential,
+    signer: string | Signer,
+    options: {
+      proofType?: string; // Custom proof type for different algorithms
+      cryptosuite?: DataIntegrityCryptosuite; // Data Integrity cryptosuite (P-256 or Ed25519)
+      rdfCanonicalizer?: RDFCanonicalizer; // Contexts for the *-rdfc-* cryptosuites
+      verificationMethod?: string; // Defaults to "<issuer>#keys-<n>"
+      canonicalization?: CanonicalizationVersion;
+      proofId?: string; // Id of the new proof
+      previousProof?: string | string[]; // Id(s) of the proof(s) to chain to
+    } = {}
+  ): Promise<VerifiableCredential> {
+    const proofs = getProofs(vc);
+    if (proofs.length === 0) {
+      throw new Error("Credential has no proof to add to");
+    }
 
-    // Sign using the configured crypto service
-    const signature = await this.cryptoService.sign(credentialHash, privateKey);
+    const proofId = options.proofId || `urn:uuid:${randomUUID()}`;
+    if (proofs.some((proof) => proof.id === proofId)) {
+      throw new Error(`Proof id ${proofId} is not unique`);
+    }
 
-    // Determine proof type based on crypto service
-    const proofType =
-      options.proofType ||
-      (this.cryptoService.constructor.name === "ECDSACryptoService"
-        ? "EcdsaSecp256k1Signature2020"
-        : this.cryptoService.constructor.name === "RSACryptoService"
-        ? "RsaSignature2018"
-        : "DataIntegrityProof");
+    const issuerId = typeof vc.issuer === "string" ? vc.issuer : vc.issuer.id;
+    const verificationMethod =
+      options.verificationMethod || `${issuerId}#keys-${proofs.length + 1}`;
+
+    // The document this proof signs, with the previous proofs of a chain
+    const document = createProofDocument(vc, {
+      type: "",
+      proofValue: "",
+      previousProof: options.previousProof,
+    });
+    const proof = await this.createProof(document, signer, {
+      ...options,
+      verificationMethod,
+      proofId,
+    });
+
+    return {
+      ...vc,
+      proof: [...proofs, proof],
+    };
+  }
+
+  /**
+   * Issue a credential secured as a compact JWS (VC-JOSE-COSE,
+   * application/vc+jwt) instead of an embedded proof
+   * The JWT claims iss, nbf and exp are mapped from issuer, validFrom and
+   * validUntil. Requires a service with a JOSE algorithm (ES256K, ES256, EdDSA)
+   *
+   * @param issuer - Issuer identifier (URL or DID)
+   * @param credentialSubject - Claims about the subject
+   * @param signer - Signer or private key to sign with
+   * @param options - Additional credential options (kid defaults to
+   *   "<issuer>#keys-1")
+   * @returns Compact JWS
+   *
+   * @example
+   * ```typescript
+   * const issuer = new VCIssuer(new ECDSACryptoService());
+   * const jwt = await issuer.issueJwtCredential(
+   *   { id: "did:example:issuer123" },
+   *   { id: "did:example:user456", accessLevel: "standard" },
+   *   identity.privateKey,
+   *   { credentialTypes: ["AccessControlCredential"], validityDays: 30 }
+   * );
+   * ```
+   */
+  async issueJwtCredential(
+    issuer: Issuer,
+    credentialSubject: CredentialSubject | CredentialSubject[],
+    signer: string | Signer,
+    options: CreateCredentialOptions & {
+      validityDays?: number;
+      kid?: string; // Key id of the JWS header
+    } = {}
+  ): Promise<string> {
+    const credential = this.createCredentialDocument(
+      issuer,
+      credentialSubject,
+      options
+    );
+
+    return new JoseService(this.cryptoService).signCredential(
+      credential,
+      signer,
+      { kid: options.kid }
+    );
+  }
+
+  /**
+   * Issue a credential secured as a COSE_Sign1 message with a compact CBOR
+   * payload, for BLE and NFC locks
+   * Requires a service with a COSE algorithm (ES256K, ES256, EdDSA, ML-DSA,
+   * Falcon, SLH-DSA)
+   *
+   * @param issuer - Issuer identifier (URL or DID)
+   * @param credentialSubject - Claims about the subject
+   * @param signer - Signer or private key to sign with
+   * @param options - Additional credential options (kid defaults to
+   *   "<issuer>#keys-1")
+   * @returns COSE_Sign1 message
+   *
+   * @example
+   * ```typescript
+   * const issuer = new VCIssuer(new ECDSACryptoService());
+   * const bytes = await issuer.issueCborCredential(
+   *   { id: "did:example:issuer123" },
+   *   { id: "did:example:user456", userMetaDataHash: "0x123...", lock: { id: "lock-1", name: "Main Entrance" } },
+   *   identity.privateKey,
+   *   { credentialTypes: ["AccessControlCredential"], validityDays: 30 }
+   * );
+   * ```
+   */
+  async issueCborCredential(
+    issuer: Issuer,
+    credentialSubject: CredentialSubject | CredentialSubject[],
+    signer: string | Signer,
+    options: CreateCredentialOptions & {
+      validityDays?: number;
+      kid?: string; // Key id of the COSE header
+    } = {}
+  ): Promise<Uint8Array> {
+    const credential = this.createCredentialDocument(
+      issuer,
+      credentialSubject,
+      options
+    );
+
+    return new CoseService(this.cryptoService).signCredential(
+      credential,
+      signer,
+      { kid: options.kid }
+    );
+  }
+
+  /**
+   * Issue an SD-JWT VC with selectively disclosable credentialSubject claims
+   * The holder later presents only some of them (see
+   * VCHolder.presentSdJwtCredential). Requires a service with a JOSE algorithm
+   *
+   * @param issuer - Issuer identifier (URL or DID)
+   * @param credentialSubject - Claims about the subject (single subject)
+   * @param signer - Signer or private key to sign with
+   * @param options - Additional credential options, the disclosable claim
+   *   paths and the holder key for key binding
+   * @returns SD-JWT with every disclosure, for the holder
+   *
+   * @example
+   * ```typescript
+   * const sdJwt = await issuer.issueSdJwtCredential(
+   *   { id: "did:example:issuer123" },
+   *   { id: "did:example:user456", userMetaDataHash: "0x123...", lock: { id: "lock-1", name: "Main Entrance" } },
+   *   identity.privateKey,
+   *   {
+   *     disclosable: ["userMetaDataHash", "lock"],
+   *     holderJwk: keyFormat.publicKeyToJWK(holder.publicKey),
+   *     validityDays: 30,
+   *   }
+   * );
+   * ```
+   */
+  async issueSdJwtCredential(
+    issuer: Issuer,
+    credentialSubject: CredentialSubject,
+    signer: string | Signer,
+    options: CreateCredentialOptions & {
+      validityDays?: number;
+      disclosable: string[]; // credentialSubject paths, e.g. "lock" or "lock.name"
+      vct?: string; // SD-JWT VC type, defaults to the last credential type
+      holderJwk?: JWK; // Holder key for key binding (cnf claim)
+      kid?: string; // Key id of the JWS header
+    }
+  ): Promise<string> {
+    const credential = this.createCredentialDocument(
+      issuer,
+      credentialSubject,
+      options
+    );
+
+    return new SDJwtService(this.cryptoService).issueCredential(
+      credential,
+      signer,
+      {
+        disclosable: options.disclosable,
+        vct: options.vct,
+        holderJwk: options.holderJwk,
+        kid: options.kid,
+      }
+    );
+  }
+
+  /**
+   * Issue a Verifiable Credential that supports SELECTIVE DISCLOSURE
+   * Every credentialSubject claim is signed as a separate BBS message, so the
+   * holder can later reveal only some claims (see VCHolder.deriveCredential)
+   *
+   * Requires a BBSCryptoService
+   *
+   * @param issuer - Issuer identifier (URL or DID)
+   * @param credentialSubject - Claims about the subject (single subject)
+   * @param privateKey - BBS private key to sign with
+   * @param publicKey - BBS public key for verification
+   * @param options - Additional credential options
+   * @returns Verifiable Credential with a BbsBlsSignature2020 proof
+   *
+   * @example
+   * ```typescript
+   * const bbsCrypto = new BBSCryptoService();
+   * const issuer = new VCIssuer(bbsCrypto);
+   * const identity = await bbsCrypto.generateIdentity();
+   * const vc = await issuer.issueSelectiveDisclosureCredential(
+   *   { id: "did:example:issuer123" },
+   *   { id: "did:example:user456", lock: { id: "lock-1" }, permissions: ["unlock"] },
+   *   identity.privateKey,
+   *   identity.publicKey,
+   *   { validityDays: 30 }
+   * );
+   * ```
+   */
+  async issueSelectiveDisclosureCredential(
+    issuer: Issuer,
+    credentialSubject: CredentialSubject,
+    privateKey: string,
+    publicKey: string,
+    options: CreateCredentialOptions & { validityDays?: number } = {}
+  ): Promise<VerifiableCredential> {
+    if (!(this.cryptoService instanceof BBSCryptoService)) {
+      throw new Error(
+        "BBSCryptoService is required for selective disclosure credentials"
+      );
+    }
+
+    // Create the unsigned credential
+    const credential = this.createCredentialDocument(
+      issuer,
+      credentialSubject,
+      options
+    );
+
+    // Sign every claim separately, bound to the rest of the credential
+    const messages = this.cryptoService
+      .createClaimMessages(credentialSubject)
+      .map((claim) => claim.message);
+    const signature = await this.cryptoService.signMessages(
+      messages,
+      this.cryptoService.createHeader(
+        credential,
+        HolderBindingService.isBound(credential)
+      ),
+      privateKey
+    );
 
-    // Create proof object
     const proof: ECDSAProof = {
-      type: proofType,
+      type: "BbsBlsSignature2020",
       created: new Date().toISOString(),
       proofPurpose: "assertionMethod",
       verificationMethod: `${
@@ -114,7 +427,6 @@ export class VCIssuer {
       proofValue: signature,
     };
 
-    // Return signed credential
     return {
       ...credential,
       proof,
@@ -127,8 +439,9 @@ export class VCIssuer {
    *
    * @param issuer - Issuer identifier (URL or DID)
    * @param credentialSubject - Claims about the subject
-   * @param privateKey - Private key to sign with
-   * @param options - Additional credential options
+   * @param signer - Signer or private key to sign with
+   * @param options - Additional credential options (publicKey defaults to
+   *   the signer's public key)
    * @returns Signed Verifiable Credential
    *
    * @example
@@ -152,12 +465,17 @@ export class VCIssuer {
   async issueOffChainCredential(
     issuer: Issuer,
     credentialSubject: CredentialSubject | CredentialSubject[],
-    privateKey: string,
+    signer: string | Signer,
     options: CreateCredentialOptions & {
       validityDays?: number;
       publicKey?: string; // REQUIRED for off-chain (used in proof)
+      canonicalization?: CanonicalizationVersion; // For locks on releases up to 3.1
     } = {}
   ): Promise<VerifiableCredential> {
+    if (!options.publicKey && typeof signer !== "string") {
+      options = { ...options, publicKey: signer.publicKey };
+    }
+
     if (!options.publicKey) {
       throw new Error("publicKey is required for off-chain credentials");
     }
@@ -176,12 +494,15 @@ export class VCIssuer {
     );
 
     // Create canonical representation for signing
-    const credentialHash = this.createCanonicalHash(credential);
+    const credentialHash = this.createCanonicalHash(
+      credential,
+      options.canonicalization
+    );
 
     // Sign using off-chain service (RAW ECDSA, no Ethereum prefix)
     const { signature } = await this.offChainService.signData(
       credentialHash,
-      privateKey
+      signer
     );
 
     // Create proof object
@@ -193,6 +514,7 @@ export class VCIssuer {
         typeof issuer === "string" ? issuer : issuer.id
       }#keys-1`,
       proofValue: signature,
+      canonicalization: options.canonicalization || DEFAULT_CANONICALIZATION,
     };
 
     // Return signed credential
@@ -208,8 +530,9 @@ export class VCIssuer {
    *
    * @param issuer - Issuer identifier (should include Ethereum address)
    * @param credentialSubject - Claims about the subject
-   * @param privateKey - Private key to sign with
-   * @param options - Additional credential options
+   * @param signer - secp256k1 Signer or private key to sign with
+   * @param options - Additional credential options (ethereumAddress defaults
+   *   to the signer's address)
    * @returns Signed Verifiable Credential
    *
    * @example
@@ -229,12 +552,17 @@ export class VCIssuer {
   async issueOnChainCredential(
     issuer: Issuer,
     credentialSubject: CredentialSubject | CredentialSubject[],
-    privateKey: string,
+    signer: string | Signer,
     options: CreateCredentialOptions & {
       validityDays?: number;
       ethereumAddress?: string; // REQUIRED for on-chain (used in proof)
+      canonicalization?: CanonicalizationVersion; // For locks on releases up to 3.1
     } = {}
   ): Promise<VerifiableCredential> {
+    if (!options.ethereumAddress && typeof signer !== "string") {
+      options = { ...options, ethereumAddress: signer.address };
+    }
+
     if (!options.ethereumAddress) {
       throw new Error("ethereumAddress is required for on-chain credentials");
     }
@@ -253,12 +581,15 @@ export class VCIssuer {
     );
 
     // Create canonical representation for signing
-    const credentialHash = this.createCanonicalHash(credential);
+    const credentialHash = this.createCanonicalHash(
+      credential,
+      options.canonicalization
+    );
 
     // Sign using on-chain service (Ethereum-prefixed signature)
     const { signature } = await this.onChainService.signForBlockchain(
       credentialHash,
-      privateKey
+      signer
     );
 
     // Create proof object
@@ -268,6 +599,7 @@ export class VCIssuer {
       proofPurpose: "assertionMethod",
       verificationMethod: options.ethereumAddress,
       proofValue: signature,
+      canonicalization: options.canonicalization || DEFAULT_CANONICALIZATION,
     };
 
     // Return signed credential
@@ -346,14 +678,99 @@ export class VCIssuer {
     return credential;
   }
 
+  /**
+   * Sign a document with the configured crypto service
+   * Proof type and cryptosuite come from the algorithm registry; standard
+   * Data Integrity cryptosuites also sign the proof configuration
+   *
+   * @private
+   */
+  private async createProof(
+    document: Credential,
+    signer: string | Signer,
+    options: {
+      proofType?: string;
+      cryptosuite?: DataIntegrityCryptosuite;
+      rdfCanonicalizer?: RDFCanonicalizer;
+      verificationMethod: string;
+      canonicalization?: CanonicalizationVersion;
+      proofId?: string;
+      previousProof?: string | string[];
+    }
+  ): Promise<ECDSAProof> {
+    // The proof is labelled with the service's algorithm, so the signer must
+    // hold a key of it
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+
+    // Determine proof type and cryptosuite from the algorithm registry
+    const registration = this.registry.lookup(this.cryptoService);
+    const cryptosuite =
+      options.cryptosuite ||
+      (registration
+        ? registration.cryptosuite
+        : this.cryptoService.getCryptosuite?.());
+
+    if (DataIntegrityService.isDataIntegrityCryptosuite(cryptosuite)) {
+      return new DataIntegrityService(this.cryptoService, {
+        rdfCanonicalizer: options.rdfCanonicalizer,
+      }).createProof(document, signer, {
+        cryptosuite,
+        verificationMethod: options.verificationMethod,
+        id: options.proofId,
+        previousProof: options.previousProof,
+      });
+    }
+
+    // Create canonical representation for signing
+    const documentHash = this.createCanonicalHash(
+      document,
+      options.canonicalization
+    );
+
+    // Sign using the configured crypto service (or the external signer)
+    const signature =
+      typeof signer === "string"
+        ? await this.cryptoService.sign(documentHash, signer)
+        : await signer.sign(documentHash);
+
+    const proof: ECDSAProof = {
+      type:
+        options.proofType || registration?.proofType || "DataIntegrityProof",
+      created: new Date().toISOString(),
+      proofPurpose: "assertionMethod",
+      verificationMethod: options.verificationMethod,
+      proofValue: signature,
+    };
+
+    // Record the exact algorithm variant (e.g. ML-DSA parameter set)
+    if (cryptosuite) {
+      proof.cryptosuite = cryptosuite;
+    }
+    proof.canonicalization =
+      options.canonicalization || DEFAULT_CANONICALIZATION;
+    if (options.proofId !== undefined) {
+      proof.id = options.proofId;
+    }
+    if (options.previousProof !== undefined) {
+      proof.previousProof = options.previousProof;
+    }
+
+    return proof;
+  }
+
   /**
    * Create a canonical hash of the credential for signing
    * Delegates to ECDSACryptoService for consistent hashing
    *
    * @private
    */
-  private createCanonicalHash(credential: Credential): string {
-    return this.cryptoService.createCanonicalHash(credential);
+  private createCanonicalHash(
+    credential: Credential,
+    canonicalization?: CanonicalizationVersion
+  ): string {
+    return this.cryptoService.createCanonicalHash(credential, canonicalization);
   }
 
   /**
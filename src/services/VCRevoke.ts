@@ -1,10 +1,17 @@
+import { ethers } from "ethers";
 import {
   VerifiableCredential,
   Credential,
   ECDSAProof,
 } from "../types/w3c-vc.types";
 import { ECDSACryptoService } from "./CryptoService";
+import {
+  CanonicalizationVersion,
+  resolveCanonicalization,
+} from "./JsonCanonicalizer";
 import { OnChainService } from "./OnChainService";
+import { getProofs, createProofDocument } from "./ProofSet";
+import { Signer } from "../types";
 
 /**
  * VC Revoke Service
@@ -48,8 +55,12 @@ export class VCRevoke {
    * Only the signature is re-created using Ethereum-prefixed signing.
    *
    * @param offChainVC - The original off-chain verifiable credential
-   * @param privateKey - Private key of the issuer (must match original issuer)
-   * @param ethereumAddress - Ethereum address of the issuer (for verification method)
+   * @param signer - secp256k1 Signer or private key of the issuer (must match
+   *   original issuer)
+   * @param ethereumAddress - Ethereum address of the issuer (for verification
+   *   method, defaults to the signer's address)
+   * @param options - Canonicalization the off-chain VC was signed with
+   *   (defaults to the one its proof records)
    * @returns On-chain VC with Ethereum-compatible signature
    *
    * @example
@@ -82,20 +93,32 @@ export class VCRevoke {
    */
   async convertToOnChain(
     offChainVC: VerifiableCredential,
-    privateKey: string,
-    ethereumAddress: string
+    signer: string | Signer,
+    ethereumAddress: string = typeof signer === "string"
+      ? ethers.computeAddress(signer)
+      : signer.address,
+    options: {
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+    } = {}
   ): Promise<VerifiableCredential> {
     // Extract the credential document (everything except the proof)
     const { proof, ...credential } = offChainVC;
 
     // Create the SAME canonical hash as the off-chain version
     // This is critical - the hash must be identical!
-    const credentialHash = this.createCanonicalHash(credential);
+    const canonicalization = resolveCanonicalization(
+      getProofs(offChainVC)[0]?.canonicalization,
+      options.canonicalization
+    );
+    const credentialHash = this.createCanonicalHash(
+      credential,
+      canonicalization
+    );
 
     // Re-sign with Ethereum prefix for smart contract verification
     const { signature } = await this.onChainService.signForBlockchain(
       credentialHash,
-      privateKey
+      signer
     );
 
     // Create on-chain proof
@@ -105,6 +128,7 @@ export class VCRevoke {
       proofPurpose: "assertionMethod",
       verificationMethod: ethereumAddress, // Smart contract uses address
       proofValue: signature,
+      canonicalization,
     };
 
     // Return VC with on-chain signature
@@ -119,6 +143,8 @@ export class VCRevoke {
    * This is the hash that gets signed and used for revocation
    *
    * @param vc - Verifiable credential (with or without proof)
+   * @param options - Canonicalization the credential was signed with
+   *   (defaults to the one its proof records)
    * @returns Canonical hash of the credential
    *
    * @example
@@ -129,10 +155,21 @@ export class VCRevoke {
    * // Submit this hash to smart contract for revocation
    * ```
    */
-  getCredentialHash(vc: VerifiableCredential): string {
+  getCredentialHash(
+    vc: VerifiableCredential,
+    options: {
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+    } = {}
+  ): string {
     // Remove proof if present
     const { proof, ...credential } = vc;
-    return this.createCanonicalHash(credential);
+    return this.createCanonicalHash(
+      credential,
+      resolveCanonicalization(
+        getProofs(vc)[0]?.canonicalization,
+        options.canonicalization
+      )
+    );
   }
 
   /**
@@ -141,6 +178,8 @@ export class VCRevoke {
    *
    * @param offChainVC - Original off-chain VC
    * @param onChainVC - Converted on-chain VC
+   * @param options - Canonicalization both VCs were signed with
+   *   (defaults to the ones their proofs record)
    * @returns True if both VCs hash to the same value
    *
    * @example
@@ -153,20 +192,26 @@ export class VCRevoke {
    */
   verifyHashConsistency(
     offChainVC: VerifiableCredential,
-    onChainVC: VerifiableCredential
+    onChainVC: VerifiableCredential,
+    options: {
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+    } = {}
   ): boolean {
-    const offChainHash = this.getCredentialHash(offChainVC);
-    const onChainHash = this.getCredentialHash(onChainVC);
+    const offChainHash = this.getCredentialHash(offChainVC, options);
+    const onChainHash = this.getCredentialHash(onChainVC, options);
     return offChainHash === onChainHash;
   }
 
   /**
    * Verify the on-chain signature
-   * Confirms the signature can be verified by smart contracts
+   * Confirms the signature can be verified by smart contracts. Every proof
+   * of a proof set or chain must be signed by the expected address.
    *
    * @param onChainVC - On-chain VC to verify
    * @param expectedAddress - Expected signer address
-   * @returns True if signature is valid for the given address
+   * @param options - Canonicalization the VC was signed with
+   *   (defaults to the one each proof records)
+   * @returns True if every signature is valid for the given address
    *
    * @example
    * ```typescript
@@ -180,24 +225,37 @@ export class VCRevoke {
    */
   async verifyOnChainSignature(
     onChainVC: VerifiableCredential,
-    expectedAddress: string
+    expectedAddress: string,
+    options: {
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+    } = {}
   ): Promise<boolean> {
-    const credentialHash = this.getCredentialHash(onChainVC);
-
-    // Handle proof as single or array
-    const proof = Array.isArray(onChainVC.proof)
-      ? onChainVC.proof[0]
-      : onChainVC.proof;
-
-    if (!proof || !proof.proofValue) {
+    const proofs = getProofs(onChainVC);
+    if (proofs.length === 0 || proofs.some((proof) => !proof.proofValue)) {
       throw new Error("VC does not have a valid proof");
     }
 
-    return this.onChainService.verifyBlockchainSignature(
-      credentialHash,
-      proof.proofValue,
-      expectedAddress
-    );
+    // Every proof of a proof set or chain must be signed by the address
+    for (const proof of proofs) {
+      const credentialHash = this.createCanonicalHash(
+        createProofDocument(onChainVC, proof),
+        resolveCanonicalization(
+          proof.canonicalization,
+          options.canonicalization
+        )
+      );
+      const signatureValid =
+        await this.onChainService.verifyBlockchainSignature(
+          credentialHash,
+          proof.proofValue,
+          expectedAddress
+        );
+      if (!signatureValid) {
+        return false;
+      }
+    }
+
+    return true;
   }
 
   /**
@@ -206,7 +264,10 @@ export class VCRevoke {
    *
    * @private
    */
-  private createCanonicalHash(credential: Credential): string {
-    return this.cryptoService.createCanonicalHash(credential);
+  private createCanonicalHash(
+    credential: Credential,
+    canonicalization?: CanonicalizationVersion
+  ): string {
+    return this.cryptoService.createCanonicalHash(credential, canonicalization);
   }
 }
@@ -1,3 +1,4 @@
+import { ethers } from "ethers";
 import {
   VerifiableCredential,
   Credential,
@@ -6,8 +7,46 @@ import {
   ISO8601DateTime,
 } from "../types/w3c-vc.types";
 import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { BBSCryptoService } from "./BBSCryptoService";
+import { RSACryptoService } from "./RSACryptoService";
 import { OffChainService } from "./OffChainService";
 import { OnChainService } from "./OnChainService";
+import { AlgorithmRegistry } from "./AlgorithmRegistry";
+import { DataIntegrityService } from "./DataIntegrityService";
+import { RDFCanonicalizer } from "./RDFCanonicalizer";
+import {
+  JoseService,
+  JoseHeader,
+  DecodedJWS,
+  VC_JWT_MEDIA_TYPE,
+} from "./JoseService";
+import { SDJwtService } from "./SDJwtService";
+import { CoseService } from "./CoseService";
+import { KeyFormatService, JWK } from "./KeyFormatService";
+import {
+  CanonicalizationVersion,
+  DEFAULT_CANONICALIZATION,
+  resolveCanonicalization,
+} from "./JsonCanonicalizer";
+import { getProofs, createProofDocument } from "./ProofSet";
+import {
+  HolderBindingService,
+  HolderBindingCheck,
+} from "./HolderBindingService";
+
+/**
+ * Issuer keys accepted by verifyOffChainCredential when the signer is
+ * recovered from the signature instead of passing its public key
+ */
+export interface IssuerKeyRecovery {
+  trustedIssuers?: Record<string, string[]>; // Trusted issuers: issuer id -> public keys or addresses
+  // Also accept the key the proof's verificationMethod (a key of the issuer)
+  // resolves to, as a public key or address. The resolver is the trust
+  // anchor: it must only resolve keys of issuers the caller trusts.
+  resolveVerificationMethod?: (
+    verificationMethod: string
+  ) => Promise<string | undefined>;
+}
 
 /**
  * VC Verifier Service
@@ -20,79 +59,852 @@ import { OnChainService } from "./OnChainService";
  *   (e.g., not expired, correct issuer, meets requirements)
  *
  * This service handles both.
+ *
+ * ALGORITHM DISPATCH:
+ * Constructed with a CryptoService, the verifier checks every proof with that
+ * service. Constructed with an AlgorithmRegistry, it picks the service from
+ * each proof's type and cryptosuite, so one verifier accepts credentials of
+ * every registered algorithm.
  */
 export class VCVerifier {
   private cryptoService: CryptoService;
   private offChainService?: OffChainService;
+  private onChainService?: OnChainService;
+  private registry?: AlgorithmRegistry;
 
+  /**
+   * @param cryptoService - Service to verify with, or a registry to pick the
+   *   service from each proof (defaults to ECDSA)
+   * @param offChainService - Service used by verifyOffChainCredential
+   * @param onChainService - Service used by verifyOnChainCredential
+   */
   constructor(
-    cryptoService?: CryptoService,
-    offChainService?: OffChainService
+    cryptoService?: CryptoService | AlgorithmRegistry,
+    offChainService?: OffChainService,
+    onChainService?: OnChainService
   ) {
-    this.cryptoService = cryptoService || new ECDSACryptoService();
+    if (cryptoService instanceof AlgorithmRegistry) {
+      this.registry = cryptoService;
+      this.cryptoService = new ECDSACryptoService();
+    } else {
+      this.cryptoService = cryptoService || new ECDSACryptoService();
+    }
     this.offChainService = offChainService;
+    this.onChainService = onChainService;
+  }
+
+  /**
+   * Verify a Verifiable Credential using ANY crypto algorithm
+   * This method is algorithm-agnostic and works with ECDSA, RSA, EdDSA, BLS, or Post-Quantum
+   *
+   * Every proof of a proof set or chain must verify. Proofs made with
+   * different keys need the key of each verification method. With
+   * holderBinding, the presenter must also prove possession of the holder
+   * key the credential is bound to; bound credentials are rejected without
+   * it, unless holderBinding is false.
+   *
+   * @param vc - The verifiable credential to verify
+   * @param publicKey - Public key of the issuer (format depends on algorithm),
+   *   or the public key per verification method for proofs made with
+   *   different keys
+   * @param options - Validation options
+   * @returns Verification result
+   *
+   * @example
+   * ```typescript
+   * const rsaCrypto = new RSACryptoService();
+   * const verifier = new VCVerifier(rsaCrypto);
+   * const result = await verifier.verifyCredential(
+   *   vc,
+   *   issuerPublicKey,
+   *   { checkExpiration: true }
+   * );
+   * if (result.verified) {
+   *   console.log("Credential is valid!");
+   * }
+   * ```
+   */
+  async verifyCredential(
+    vc: VerifiableCredential,
+    publicKey: string | Record<string, string>,
+    options: {
+      checkExpiration?: boolean;
+      checkNotBefore?: boolean;
+      currentTime?: Date;
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+      rdfCanonicalizer?: RDFCanonicalizer; // Contexts for the *-rdfc-* cryptosuites
+      holderBinding?: HolderBindingCheck | false; // Proof of possession of the holder key; false skips it
+    } = {}
+  ): Promise<VerificationResult> {
+    try {
+      // Verify every proof of the proof set or chain, each with the crypto
+      // service of its algorithm; standard Data Integrity cryptosuites also
+      // cover the proof configuration
+      const proofResult = await this.verifyProofs(
+        vc,
+        publicKey,
+        async (credential, proof, proofKey) => {
+          const { cryptoService, error } = this.selectCryptoService(proof);
+          if (!cryptoService) {
+            return error;
+          }
+
+          const signatureValid =
+            DataIntegrityService.isDataIntegrityCryptosuite(proof.cryptosuite)
+              ? await new DataIntegrityService(cryptoService, {
+                  rdfCanonicalizer: options.rdfCanonicalizer,
+                }).verifyProof(credential, proof, proofKey)
+              : await cryptoService.verify(
+                  cryptoService.createCanonicalHash(
+                    credential,
+                    resolveCanonicalization(
+                      proof.canonicalization,
+                      options.canonicalization
+                    )
+                  ),
+                  proof.proofValue,
+                  proofKey
+                );
+          return signatureValid ? undefined : "Invalid signature";
+        }
+      );
+      if (!proofResult.valid) {
+        return {
+          verified: false,
+          error: proofResult.reason,
+        };
+      }
+
+      // Perform validation checks
+      const validationResult = this.validateCredential(vc, options);
+      if (!validationResult.valid) {
+        return {
+          verified: false,
+          error: validationResult.reason,
+        };
+      }
+
+      // The presenter must hold the key the credential is bound to
+      const holderResult = await this.verifyHolderBinding(
+        vc,
+        options.holderBinding
+      );
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: holderResult.reason,
+        };
+      }
+
+      // Success!
+      return {
+        verified: true,
+        verifiableCredential: vc,
+        details: {
+          ...this.extractCredentialDetails(vc),
+          ...(holderResult.holderPublicKey && {
+            holderPublicKey: holderResult.holderPublicKey,
+          }),
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: `Verification failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Verify many Verifiable Credentials from the SAME issuer at once
+   *
+   * If the crypto service supports batch verification (e.g. BLSCryptoService),
+   * all signatures are checked together with one pairing check. If that check
+   * fails, or the service has no batch support, every credential is verified
+   * individually so the result pinpoints which credentials are invalid.
+   *
+   * @param vcs - Verifiable credentials signed by the same issuer
+   * @param publicKey - Public key of the issuer
+   * @param options - Validation options (applied to every credential)
+   * @returns One verification result per credential, in input order
+   *
+   * @example
+   * ```typescript
+   * const verifier = new VCVerifier(new BLSCryptoService());
+   * const results = await verifier.verifyCredentialBatch(vcs, issuerPublicKey);
+   * const admitted = results.filter((result) => result.verified);
+   * ```
+   */
+  async verifyCredentialBatch(
+    vcs: VerifiableCredential[],
+    publicKey: string,
+    options: {
+      checkExpiration?: boolean;
+      checkNotBefore?: boolean;
+      currentTime?: Date;
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+      rdfCanonicalizer?: RDFCanonicalizer; // Contexts for the *-rdfc-* cryptosuites
+    } = {}
+  ): Promise<VerificationResult[]> {
+    // Batch only if every credential has a single proof, handled by the same
+    // crypto service and signing the plain credential hash; anything else
+    // (missing proofs, proof sets, mismatches, Data Integrity cryptosuites,
+    // legacy canonicalization) is reported per credential
+    const services = vcs.map((vc) => {
+      const proofs = getProofs(vc);
+      return proofs.length === 1 &&
+        proofs[0].previousProof === undefined &&
+        !DataIntegrityService.isDataIntegrityCryptosuite(
+          proofs[0].cryptosuite
+        ) &&
+        (options.canonicalization !== undefined ||
+          proofs[0].canonicalization === undefined ||
+          proofs[0].canonicalization === DEFAULT_CANONICALIZATION)
+        ? this.selectCryptoService(proofs[0]).cryptoService
+        : undefined;
+    });
+    const cryptoService = services[0];
+    const batchable =
+      cryptoService !== undefined &&
+      services.every((service) => service === cryptoService);
+    const verifyBatch = cryptoService?.verifyBatch?.bind(cryptoService);
+
+    if (cryptoService && verifyBatch && batchable) {
+      const items = vcs.map((vc) => {
+        const { proof: _proof, ...credentialWithoutProof } = vc;
+        return {
+          data: cryptoService.createCanonicalHash(
+            credentialWithoutProof as Credential,
+            resolveCanonicalization(
+              getProofs(vc)[0].canonicalization,
+              options.canonicalization
+            )
+          ),
+          signature: getProofs(vc)[0].proofValue,
+        };
+      });
+
+      if (await verifyBatch(items, publicKey)) {
+        return Promise.all(
+          vcs.map(async (vc) => {
+            const validationResult = this.validateCredential(vc, options);
+            if (!validationResult.valid) {
+              return { verified: false, error: validationResult.reason };
+            }
+            // Bound credentials need a proof of possession each
+            const holderResult = await this.verifyHolderBinding(vc);
+            if (!holderResult.valid) {
+              return { verified: false, error: holderResult.reason };
+            }
+            return {
+              verified: true,
+              verifiableCredential: vc,
+              details: this.extractCredentialDetails(vc),
+            };
+          })
+        );
+      }
+    }
+
+    return Promise.all(
+      vcs.map((vc) => this.verifyCredential(vc, publicKey, options))
+    );
+  }
+
+  /**
+   * Verify a credential secured as a compact JWS (application/vc+jwt)
+   * Checks the signature with the service for the header "alg", then the
+   * JWT claims against the credential: iss must be the issuer, nbf and exp
+   * must match validFrom and validUntil, and kid must belong to the issuer
+   *
+   * @param jwt - Compact JWS from VCIssuer.issueJwtCredential
+   * @param publicKey - Public key of the issuer
+   * @param options - Validation options, the expected key id and the
+   *   holder's proof of possession
+   * @returns Verification result with the decoded credential
+   *
+   * @example
+   * ```typescript
+   * const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+   * const result = await verifier.verifyJwtCredential(jwt, issuerPublicKey);
+   * if (result.verified) {
+   *   console.log(result.credential?.credentialSubject);
+   * }
+   * ```
+   */
+  async verifyJwtCredential(
+    jwt: string,
+    publicKey: string,
+    options: {
+      checkExpiration?: boolean;
+      checkNotBefore?: boolean;
+      currentTime?: Date;
+      kid?: string; // Expected key id of the JWS header
+      holderBinding?: HolderBindingCheck | false; // Proof of possession of the holder key; false skips it
+    } = {}
+  ): Promise<VerificationResult> {
+    try {
+      const jws = JoseService.decode(jwt);
+      const { header, payload } = jws;
+
+      if (header.typ !== "vc+jwt" && header.typ !== VC_JWT_MEDIA_TYPE) {
+        return {
+          verified: false,
+          error: `Unsupported JWS type: ${header.typ}`,
+        };
+      }
+
+      // Pick the crypto service for the header algorithm
+      const cryptoService = this.selectJoseService(header.alg);
+      if (!cryptoService) {
+        return {
+          verified: false,
+          error: `Unsupported JWS algorithm: ${header.alg}`,
+        };
+      }
+
+      const signatureValid = await new JoseService(cryptoService).verify(
+        jws,
+        publicKey
+      );
+      if (!signatureValid) {
+        return {
+          verified: false,
+          error: "Invalid signature",
+        };
+      }
+
+      const credential = JoseService.toCredential(payload);
+      const claimsResult = this.validateJwtClaims(
+        header,
+        payload,
+        credential,
+        options
+      );
+      if (!claimsResult.valid) {
+        return {
+          verified: false,
+          error: claimsResult.reason,
+        };
+      }
+
+      // Perform validation checks
+      const validationResult = this.validateCredential(credential, options);
+      if (!validationResult.valid) {
+        return {
+          verified: false,
+          error: validationResult.reason,
+        };
+      }
+
+      // The presenter must hold the key the credential is bound to
+      const holderResult = await this.verifyHolderBinding(
+        credential,
+        options.holderBinding
+      );
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: holderResult.reason,
+        };
+      }
+
+      return {
+        verified: true,
+        credential,
+        details: {
+          ...this.extractCredentialDetails(credential),
+          alg: header.alg,
+          kid: header.kid,
+          ...(holderResult.holderPublicKey && {
+            holderPublicKey: holderResult.holderPublicKey,
+          }),
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: `Verification failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Verify a credential secured as a COSE_Sign1 message
+   * (see VCIssuer.issueCborCredential)
+   * Checks the signature, decodes the compact CBOR credential and validates it
+   * like an embedded-proof credential
+   *
+   * @param cose - COSE_Sign1 message
+   * @param publicKey - Public key of the issuer
+   * @param options - Validation options (kid: expected key id of the header)
+   *   and the holder's proof of possession
+   * @returns Verification result with the decoded credential and its sizes
+   *
+   * @example
+   * ```typescript
+   * const result = await verifier.verifyCborCredential(bytes, issuerPublicKey);
+   * if (result.verified) {
+   *   console.log(result.credential?.credentialSubject);
+   * }
+   * ```
+   */
+  async verifyCborCredential(
+    cose: Uint8Array,
+    publicKey: string,
+    options: {
+      checkExpiration?: boolean;
+      checkNotBefore?: boolean;
+      currentTime?: Date;
+      kid?: string; // Expected key id of the COSE header
+      holderBinding?: HolderBindingCheck | false; // Proof of possession of the holder key; false skips it
+    } = {}
+  ): Promise<VerificationResult> {
+    try {
+      const message = CoseService.decode(cose);
+      const { header } = message;
+
+      // Pick the crypto service for the header algorithm
+      const cryptoService = this.selectCoseService(header.alg);
+      if (!cryptoService) {
+        return {
+          verified: false,
+          error: `Unsupported COSE algorithm: ${header.alg}`,
+        };
+      }
+
+      const signatureValid = await new CoseService(cryptoService).verify(
+        message,
+        publicKey
+      );
+      if (!signatureValid) {
+        return {
+          verified: false,
+          error: "Invalid signature",
+        };
+      }
+
+      const credential = CoseService.decodeCredential(message.payload);
+      const keyIdResult = this.validateKeyId(
+        header.kid,
+        credential,
+        options.kid,
+        "COSE"
+      );
+      if (!keyIdResult.valid) {
+        return {
+          verified: false,
+          error: keyIdResult.reason,
+        };
+      }
+
+      // Perform validation checks
+      const validationResult = this.validateCredential(credential, options);
+      if (!validationResult.valid) {
+        return {
+          verified: false,
+          error: validationResult.reason,
+        };
+      }
+
+      // The presenter must hold the key the credential is bound to
+      const holderResult = await this.verifyHolderBinding(
+        credential,
+        options.holderBinding
+      );
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: holderResult.reason,
+        };
+      }
+
+      return {
+        verified: true,
+        credential,
+        details: {
+          ...this.extractCredentialDetails(credential),
+          alg: header.alg,
+          kid: header.kid,
+          size: CoseService.getSizeReport(cose),
+          ...(holderResult.holderPublicKey && {
+            holderPublicKey: holderResult.holderPublicKey,
+          }),
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: `Verification failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Verify an SD-JWT VC presentation
+   * Checks the issuer signature, recomputes the digest of every disclosure,
+   * and checks the key binding JWT (holder key from the cnf claim, sd_hash,
+   * audience and nonce). The result holds only the disclosed claims.
+   *
+   * @param sdJwt - Presentation from VCHolder.presentSdJwtCredential
+   * @param publicKey - Public key of the issuer
+   * @param options - Validation options, and the audience and nonce the key
+   *   binding must be made for (key binding is required when a nonce is given)
+   * @returns Verification result with the disclosed credential
+   *
+   * @example
+   * ```typescript
+   * const result = await verifier.verifySdJwtCredential(
+   *   presentation,
+   *   issuerPublicKey,
+   *   { audience: "lock-building-a-room-101", nonce: challenge }
+   * );
+   * ```
+   */
+  async verifySdJwtCredential(
+    sdJwt: string,
+    publicKey: string,
+    options: {
+      checkExpiration?: boolean;
+      checkNotBefore?: boolean;
+      currentTime?: Date;
+      audience?: string; // Expected aud of the key binding JWT
+      nonce?: string; // Expected nonce of the key binding JWT
+      requireKeyBinding?: boolean; // Defaults to true if a nonce is given
+    } = {}
+  ): Promise<VerificationResult> {
+    try {
+      const { jwt, disclosures, keyBindingJwt, sdHashInput } =
+        SDJwtService.parse(sdJwt);
+
+      if (jwt.header.typ !== "dc+sd-jwt" && jwt.header.typ !== "vc+sd-jwt") {
+        return {
+          verified: false,
+          error: `Unsupported SD-JWT type: ${jwt.header.typ}`,
+        };
+      }
+
+      const cryptoService = this.selectJoseService(jwt.header.alg);
+      if (!cryptoService) {
+        return {
+          verified: false,
+          error: `Unsupported JWS algorithm: ${jwt.header.alg}`,
+        };
+      }
+      if (!(await new JoseService(cryptoService).verify(jwt, publicKey))) {
+        return {
+          verified: false,
+          error: "Invalid signature",
+        };
+      }
+
+      // Every disclosure must match a digest signed by the issuer
+      const { claims, paths } = SDJwtService.disclose(jwt.payload, disclosures);
+
+      const requireKeyBinding =
+        options.requireKeyBinding ?? options.nonce !== undefined;
+      if (keyBindingJwt) {
+        const keyBindingResult = await this.verifyKeyBinding(
+          keyBindingJwt,
+          sdHashInput,
+          claims.cnf,
+          options
+        );
+        if (!keyBindingResult.valid) {
+          return {
+            verified: false,
+            error: keyBindingResult.reason,
+          };
+        }
+      } else if (requireKeyBinding) {
+        return {
+          verified: false,
+          error: "Key binding JWT required",
+        };
+      }
+
+      const credential = SDJwtService.toCredential(claims);
+
+      // Perform validation checks
+      const validationResult = this.validateCredential(credential, options);
+      if (!validationResult.valid) {
+        return {
+          verified: false,
+          error: validationResult.reason,
+        };
+      }
+
+      return {
+        verified: true,
+        credential,
+        details: {
+          ...this.extractCredentialDetails(credential),
+          alg: jwt.header.alg,
+          kid: jwt.header.kid,
+          disclosed: paths,
+          keyBinding: keyBindingJwt !== undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: `Verification failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Verify a SELECTIVE DISCLOSURE credential derived by the holder
+   * Checks the BBS proof against the claims that were revealed, without
+   * needing the hidden ones. Requires a BBSCryptoService.
+   *
+   * @param vc - Credential with a BbsBlsSignatureProof2020 proof
+   * @param publicKey - BBS public key of the issuer
+   * @param options - Validation options, the expected challenge and the
+   *   holder's proof of possession
+   * @returns Verification result
+   *
+   * @example
+   * ```typescript
+   * const verifier = new VCVerifier(new BBSCryptoService());
+   * const result = await verifier.verifyDerivedCredential(
+   *   derivedVC,
+   *   issuerPublicKey,
+   *   { challenge: lockChallenge }
+   * );
+   * ```
+   */
+  async verifyDerivedCredential(
+    vc: VerifiableCredential,
+    publicKey: string,
+    options: {
+      challenge?: string;
+      checkExpiration?: boolean;
+      checkNotBefore?: boolean;
+      currentTime?: Date;
+      holderBinding?: HolderBindingCheck | false; // Proof of possession of the holder key; false skips it
+    } = {}
+  ): Promise<VerificationResult> {
+    try {
+      if (!(this.cryptoService instanceof BBSCryptoService)) {
+        throw new Error(
+          "BBSCryptoService is required to verify derived credentials"
+        );
+      }
+
+      const proofs = getProofs(vc);
+      if (proofs.length > 1) {
+        return {
+          verified: false,
+          error: "A derived credential must have a single proof",
+        };
+      }
+
+      const proof = proofs[0];
+      if (!proof || proof.type !== "BbsBlsSignatureProof2020") {
+        return {
+          verified: false,
+          error: "No BbsBlsSignatureProof2020 proof found in credential",
+        };
+      }
+
+      if (
+        options.challenge !== undefined &&
+        proof.challenge !== options.challenge
+      ) {
+        return {
+          verified: false,
+          error: "Challenge mismatch",
+        };
+      }
+
+      if (Array.isArray(vc.credentialSubject)) {
+        return {
+          verified: false,
+          error: "Selective disclosure supports a single credentialSubject",
+        };
+      }
+
+      // Revealed claims must line up with the disclosed indexes
+      const disclosedMessages = this.cryptoService
+        .createClaimMessages(vc.credentialSubject)
+        .map((claim) => claim.message);
+      const disclosedIndexes = proof.disclosedIndexes || [];
+      if (disclosedMessages.length !== disclosedIndexes.length) {
+        return {
+          verified: false,
+          error: "Revealed claims do not match disclosed indexes",
+        };
+      }
+
+      const proofValid = await this.cryptoService.verifyProof(
+        disclosedMessages,
+        disclosedIndexes,
+        // A bound credential signs that it is bound; hiding the holder key
+        // claim fails here
+        this.cryptoService.createHeader(vc, HolderBindingService.isBound(vc)),
+        proof.proofValue,
+        publicKey,
+        proof.challenge
+      );
+
+      if (!proofValid) {
+        return {
+          verified: false,
+          error: "Invalid signature",
+        };
+      }
+
+      // Perform validation checks
+      const validationResult = this.validateCredential(vc, options);
+      if (!validationResult.valid) {
+        return {
+          verified: false,
+          error: validationResult.reason,
+        };
+      }
+
+      // The presenter must hold the key the credential is bound to
+      const holderResult = await this.verifyHolderBinding(
+        vc,
+        options.holderBinding
+      );
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: holderResult.reason,
+        };
+      }
+
+      return {
+        verified: true,
+        verifiableCredential: vc,
+        details: {
+          ...this.extractCredentialDetails(vc),
+          ...(holderResult.holderPublicKey && {
+            holderPublicKey: holderResult.holderPublicKey,
+          }),
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: `Verification failed: ${error}`,
+      };
+    }
   }
 
   /**
-   * Verify a Verifiable Credential using ANY crypto algorithm
-   * This method is algorithm-agnostic and works with ECDSA, RSA, or Post-Quantum
+   * Verify an OFF-CHAIN Verifiable Credential
+   * Uses raw ECDSA verification with full public key
+   *
+   * Locks should require holderBinding: the holder signs the lock's fresh
+   * challenge and the lock's domain with the key the credential is bound to
+   * (did:key subject id or cnf claim), so a copied credential does not open
+   * the door. Bound credentials are rejected without holderBinding.
+   *
+   * Instead of a public key, the issuer keys to accept can be given: the
+   * signer key is then recovered from each EcdsaSecp256k1RecoverySignature2020
+   * proof and checked against the trusted keys of the credential's issuer, or
+   * against the key its verificationMethod resolves to; the verificationMethod
+   * must be a key of the issuer either way. details.signerPublicKeys and
+   * details.signerAddresses report which key signed.
    *
    * @param vc - The verifiable credential to verify
-   * @param publicKey - Public key of the issuer (format depends on algorithm)
-   * @param options - Validation options
+   * @param publicKey - Full 65-byte public key of the issuer, or the issuer
+   *   keys to accept when recovering the signer
+   * @param options - Validation options and the holder's proof of possession
    * @returns Verification result
    *
    * @example
    * ```typescript
-   * const rsaCrypto = new RSACryptoService();
-   * const verifier = new VCVerifier(rsaCrypto);
-   * const result = await verifier.verifyCredential(
+   * // A gateway trusting many issuers
+   * const result = await verifier.verifyOffChainCredential(vc, {
+   *   trustedIssuers: {
+   *     "did:example:issuerA": [issuerA.publicKey],
+   *     "did:example:issuerB": [issuerB.address],
+   *   },
+   * });
+   * console.log("Signed by", result.details?.signerAddresses);
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const verifier = new VCVerifier(undefined, offChainService);
+   * const challenge = offChainService.createChallenge(); // sent to the holder
+   * const result = await verifier.verifyOffChainCredential(
    *   vc,
    *   issuerPublicKey,
-   *   { checkExpiration: true }
+   *   {
+   *     checkExpiration: true,
+   *     holderBinding: {
+   *       challenge,
+   *       domain: "lock-building-a-room-101",
+   *       signature: holderSignature,
+   *     },
+   *   }
    * );
+   *
    * if (result.verified) {
-   *   console.log("Credential is valid!");
+   *   // Grant access
+   *   console.log("Credential is valid!", result.details);
+   * } else {
+   *   console.error("Credential invalid:", result.error);
    * }
    * ```
    */
-  async verifyCredential(
+  async verifyOffChainCredential(
     vc: VerifiableCredential,
-    publicKey: string,
+    publicKey: string | IssuerKeyRecovery,
     options: {
       checkExpiration?: boolean;
       checkNotBefore?: boolean;
       currentTime?: Date;
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+      holderBinding?: HolderBindingCheck | false; // Proof of possession of the holder key; false skips it
     } = {}
   ): Promise<VerificationResult> {
     try {
-      // Extract proof
-      const proof = this.extractProof(vc);
-      if (!proof) {
-        return {
-          verified: false,
-          error: "No proof found in credential",
-        };
+      if (!this.offChainService) {
+        throw new Error(
+          "OffChainService not initialized. Use verifyCredential() for generic crypto services."
+        );
       }
 
-      // Recreate the credential without proof for verification
-      const { proof: _proof, ...credentialWithoutProof } = vc;
-      const credential = credentialWithoutProof as Credential;
-
-      // Create canonical hash (same as signing)
-      const credentialHash = this.createCanonicalHash(credential);
-
-      // Verify signature using the configured crypto service
-      const signatureValid = await this.cryptoService.verify(
-        credentialHash,
-        proof.proofValue,
-        publicKey
-      );
-
-      if (!signatureValid) {
+      // Verify every proof of the proof set or chain with the off-chain
+      // service, over the same canonical hash the issuer signed; without a
+      // public key, the signer of each proof is recovered and checked
+      const offChainService = this.offChainService;
+      const signerPublicKeys: string[] = [];
+      const proofResult =
+        typeof publicKey === "string"
+          ? await this.verifyProofs(
+              vc,
+              publicKey,
+              async (credential, proof, proofKey) => {
+                const credentialHash = this.createCanonicalHash(
+                  credential,
+                  proof,
+                  options.canonicalization
+                );
+                const signatureValid = await offChainService.verifySignature(
+                  credentialHash,
+                  proof.proofValue,
+                  proofKey
+                );
+                return signatureValid ? undefined : "Invalid signature";
+              }
+            )
+          : await this.recoverSigners(
+              vc,
+              publicKey,
+              signerPublicKeys,
+              options.canonicalization
+            );
+      if (!proofResult.valid) {
         return {
           verified: false,
-          error: "Invalid signature",
+          error: proofResult.reason,
         };
       }
 
@@ -105,11 +917,34 @@ export class VCVerifier {
         };
       }
 
+      // The presenter must hold the key the credential is bound to
+      const holderResult = await this.verifyHolderBinding(
+        vc,
+        options.holderBinding
+      );
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: holderResult.reason,
+        };
+      }
+
       // Success!
       return {
         verified: true,
         verifiableCredential: vc,
-        details: this.extractCredentialDetails(vc),
+        details: {
+          ...this.extractCredentialDetails(vc),
+          ...(signerPublicKeys.length > 0 && {
+            signerPublicKeys,
+            signerAddresses: signerPublicKeys.map((key) =>
+              ethers.computeAddress(key)
+            ),
+          }),
+          ...(holderResult.holderPublicKey && {
+            holderPublicKey: holderResult.holderPublicKey,
+          }),
+        },
       };
     } catch (error) {
       return {
@@ -120,73 +955,132 @@ export class VCVerifier {
   }
 
   /**
-   * Verify an OFF-CHAIN Verifiable Credential
-   * Uses raw ECDSA verification with full public key
+   * Verify an ON-CHAIN Verifiable Credential
+   * Checks Ethereum-prefixed signatures (VCIssuer.issueOnChainCredential,
+   * VCRevoke.convertToOnChain) against an address, as ecrecover in a smart
+   * contract does
+   *
+   * Without an address, each proof's verificationMethod must name one (an
+   * address, did:ethr or did:pkh:eip155) of the issuer: the issuer is a
+   * did:ethr or did:pkh:eip155 DID of that address, or the verification
+   * method is a DID URL of the issuer. The issuer itself is not vouched for:
+   * check it (or details.signerAddresses) against the issuers you trust.
    *
    * @param vc - The verifiable credential to verify
-   * @param publicKey - Full 65-byte public key of the issuer
-   * @param options - Validation options
-   * @returns Verification result
+   * @param address - Expected signer address (defaults to the address in
+   *   proof.verificationMethod)
+   * @param options - Validation options and the holder's proof of possession
+   * @returns Verification result, with the signer addresses in details
    *
    * @example
    * ```typescript
-   * const verifier = new VCVerifier();
-   * const result = await verifier.verifyOffChainCredential(
-   *   vc,
-   *   issuerPublicKey,
+   * const verifier = new VCVerifier(undefined, undefined, onChainService);
+   * const result = await verifier.verifyOnChainCredential(
+   *   onChainVC,
+   *   issuerIdentity.address,
    *   { checkExpiration: true }
    * );
-   *
-   * if (result.verified) {
-   *   // Grant access
-   *   console.log("Credential is valid!", result.details);
-   * } else {
-   *   console.error("Credential invalid:", result.error);
-   * }
    * ```
    */
-  async verifyOffChainCredential(
+  async verifyOnChainCredential(
     vc: VerifiableCredential,
-    publicKey: string,
+    address?: string,
     options: {
       checkExpiration?: boolean;
       checkNotBefore?: boolean;
       currentTime?: Date;
+      canonicalization?: CanonicalizationVersion; // "legacy" for credentials from releases up to 3.1
+      holderBinding?: HolderBindingCheck | false; // Proof of possession of the holder key; false skips it
     } = {}
   ): Promise<VerificationResult> {
     try {
-      if (!this.offChainService) {
+      if (!this.onChainService) {
         throw new Error(
-          "OffChainService not initialized. Use verifyCredential() for generic crypto services."
+          "OnChainService not initialized. Use verifyCredential() for generic crypto services."
         );
       }
-
-      // Extract proof
-      const proof = this.extractProof(vc);
-      if (!proof) {
+      if (address !== undefined && !ethers.isAddress(address)) {
         return {
           verified: false,
-          error: "No proof found in credential",
+          error: `Invalid address: ${address}`,
         };
       }
 
-      // Recreate the credential without proof for verification
-      const { proof: _proof, ...credentialWithoutProof } = vc;
-      const credential = credentialWithoutProof as Credential;
+      // The expected address, or the address each proof names, which must
+      // be an address of the issuer
+      const addresses: Record<string, string> = {};
+      if (address === undefined) {
+        const issuer = typeof vc.issuer === "string" ? vc.issuer : vc.issuer.id;
+        const issuerAddress = this.getVerificationMethodAddress(issuer);
+        for (const proof of getProofs(vc)) {
+          const verificationMethod = proof.verificationMethod as string;
+          const proofAddress =
+            this.getVerificationMethodAddress(verificationMethod);
+          if (!proofAddress) {
+            return {
+              verified: false,
+              error: `No address in verification method ${verificationMethod}`,
+            };
+          }
+          if (
+            !(
+              issuerAddress?.toLowerCase() === proofAddress.toLowerCase() ||
+              verificationMethod === issuer ||
+              verificationMethod.startsWith(`${issuer}#`)
+            )
+          ) {
+            return {
+              verified: false,
+              error: `Verification method ${verificationMethod} does not belong to issuer ${issuer}`,
+            };
+          }
+          addresses[verificationMethod] = proofAddress;
+        }
+      }
 
-      // Create canonical hash (same as signing)
-      const credentialHash = this.createCanonicalHash(credential);
-      // Verify signature using off-chain service
-      const signatureValid = await this.offChainService.verifySignature(
-        credentialHash,
-        proof.proofValue,
-        publicKey
-      );
+      // Verify every proof of the proof set or chain with the on-chain
+      // service, over the same canonical hash the issuer signed
+      const onChainService = this.onChainService;
+      const signerAddresses: string[] = [];
+      const proofResult = await this.verifyProofs(
+        vc,
+        address ?? addresses,
+        async (credential, proof, proofAddress) => {
+          const methodAddress = this.getVerificationMethodAddress(
+            proof.verificationMethod
+          );
+          if (
+            methodAddress &&
+            methodAddress.toLowerCase() !== proofAddress.toLowerCase()
+          ) {
+            return `Verification method ${proof.verificationMethod} does not match address ${proofAddress}`;
+          }
 
-      if (!signatureValid) {
+          const credentialHash = this.createCanonicalHash(
+            credential,
+            proof,
+            options.canonicalization
+          );
+          const signatureValid = await onChainService.verifyBlockchainSignature(
+            credentialHash,
+            proof.proofValue,
+            proofAddress
+          );
+          if (!signatureValid) {
+            return "Invalid signature";
+          }
+
+          const signerAddress = ethers.getAddress(proofAddress);
+          if (!signerAddresses.includes(signerAddress)) {
+            signerAddresses.push(signerAddress);
+          }
+          return undefined;
+        }
+      );
+      if (!proofResult.valid) {
         return {
           verified: false,
-          error: "Invalid signature",
+          error: proofResult.reason,
         };
       }
 
@@ -199,11 +1093,29 @@ export class VCVerifier {
         };
       }
 
+      // The presenter must hold the key the credential is bound to
+      const holderResult = await this.verifyHolderBinding(
+        vc,
+        options.holderBinding
+      );
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: holderResult.reason,
+        };
+      }
+
       // Success!
       return {
         verified: true,
         verifiableCredential: vc,
-        details: this.extractCredentialDetails(vc),
+        details: {
+          ...this.extractCredentialDetails(vc),
+          signerAddresses,
+          ...(holderResult.holderPublicKey && {
+            holderPublicKey: holderResult.holderPublicKey,
+          }),
+        },
       };
     } catch (error) {
       return {
@@ -220,7 +1132,7 @@ export class VCVerifier {
    * @private
    */
   private validateCredential(
-    vc: VerifiableCredential,
+    vc: Credential,
     options: {
       checkExpiration?: boolean;
       checkNotBefore?: boolean;
@@ -271,17 +1183,473 @@ export class VCVerifier {
   }
 
   /**
-   * Extract proof from credential
-   * Handles both single proof and array of proofs
+   * Check the JWT claims and header of a VC-JWT against its credential
+   *
+   * @private
+   */
+  private validateJwtClaims(
+    header: JoseHeader,
+    payload: Record<string, unknown>,
+    credential: Credential,
+    options: { kid?: string }
+  ): { valid: boolean; reason?: string } {
+    const issuer =
+      typeof credential.issuer === "string"
+        ? credential.issuer
+        : credential.issuer?.id;
+    if (!issuer || payload.iss !== issuer) {
+      return {
+        valid: false,
+        reason: "JWT iss does not match the credential issuer",
+      };
+    }
+
+    const nbf = credential.validFrom
+      ? JoseService.toNumericDate(credential.validFrom)
+      : undefined;
+    if (payload.nbf !== nbf) {
+      return { valid: false, reason: "JWT nbf does not match validFrom" };
+    }
+    const exp = credential.validUntil
+      ? JoseService.toNumericDate(credential.validUntil)
+      : undefined;
+    if (payload.exp !== exp) {
+      return { valid: false, reason: "JWT exp does not match validUntil" };
+    }
+
+    return this.validateKeyId(header.kid, credential, options.kid, "JWS");
+  }
+
+  /**
+   * Check the key id of a JWS or COSE header against the expected one and
+   * the credential issuer
+   *
+   * @private
+   */
+  private validateKeyId(
+    kid: unknown,
+    credential: Credential,
+    expectedKid: string | undefined,
+    format: "JWS" | "COSE"
+  ): { valid: boolean; reason?: string } {
+    if (expectedKid !== undefined && kid !== expectedKid) {
+      return {
+        valid: false,
+        reason: `Key id mismatch: expected ${expectedKid}, got ${kid}`,
+      };
+    }
+
+    // A kid is a DID URL of the issuer or a fragment relative to it
+    const issuer =
+      typeof credential.issuer === "string"
+        ? credential.issuer
+        : credential.issuer?.id;
+    if (
+      kid !== undefined &&
+      (typeof kid !== "string" ||
+        !(kid.startsWith("#") || kid.startsWith(`${issuer}#`)))
+    ) {
+      return {
+        valid: false,
+        reason: `${format} kid ${kid} does not belong to issuer ${issuer}`,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check the key binding JWT of an SD-JWT presentation against the holder
+   * key in the cnf claim
+   *
+   * @private
+   */
+  private async verifyKeyBinding(
+    keyBindingJwt: DecodedJWS,
+    sdHashInput: string,
+    cnf: unknown,
+    options: { audience?: string; nonce?: string; currentTime?: Date }
+  ): Promise<{ valid: boolean; reason?: string }> {
+    const { header, payload } = keyBindingJwt;
+    if (header.typ !== "kb+jwt") {
+      return { valid: false, reason: "Key binding JWT must have typ kb+jwt" };
+    }
+
+    const holderJwk = (cnf as { jwk?: JWK } | undefined)?.jwk;
+    if (!holderJwk) {
+      return { valid: false, reason: "SD-JWT has no cnf holder key" };
+    }
+    const cryptoService = this.selectJoseService(header.alg);
+    if (!cryptoService) {
+      return {
+        valid: false,
+        reason: `Unsupported key binding algorithm: ${header.alg}`,
+      };
+    }
+
+    const holderPublicKey = new KeyFormatService(
+      cryptoService
+    ).publicKeyFromJWK(holderJwk);
+    if (
+      !(await new JoseService(cryptoService).verify(
+        keyBindingJwt,
+        holderPublicKey
+      ))
+    ) {
+      return { valid: false, reason: "Invalid key binding signature" };
+    }
+
+    if (payload.sd_hash !== SDJwtService.createSdHash(sdHashInput)) {
+      return {
+        valid: false,
+        reason: "Key binding JWT does not match the presentation",
+      };
+    }
+    if (options.audience !== undefined && payload.aud !== options.audience) {
+      return { valid: false, reason: "Key binding audience mismatch" };
+    }
+    if (options.nonce !== undefined && payload.nonce !== options.nonce) {
+      return { valid: false, reason: "Key binding nonce mismatch" };
+    }
+    // Not issued in the future (a minute of clock skew is allowed)
+    const currentTime = options.currentTime || new Date();
+    if (
+      typeof payload.iat !== "number" ||
+      payload.iat > Math.floor(currentTime.getTime() / 1000) + 60
+    ) {
+      return { valid: false, reason: "Key binding JWT has an invalid iat" };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Select the crypto service for a JOSE algorithm
+   * - With a registry: the first registered service with that algorithm
+   * - Otherwise: the configured service, if it uses that algorithm
+   *
+   * @private
+   */
+  private selectJoseService(algorithm: string): CryptoService | undefined {
+    if (this.registry) {
+      return this.registry.resolveJoseAlgorithm(algorithm);
+    }
+    return this.cryptoService.getJoseAlgorithm?.() === algorithm
+      ? this.cryptoService
+      : undefined;
+  }
+
+  /**
+   * Select the crypto service for the COSE algorithm of a header
+   *
+   * @private
+   */
+  private selectCoseService(
+    algorithm: number | string
+  ): CryptoService | undefined {
+    if (this.registry) {
+      return this.registry.resolveCoseAlgorithm(algorithm);
+    }
+    return this.cryptoService.getCoseAlgorithm?.() === algorithm
+      ? this.cryptoService
+      : undefined;
+  }
+
+  /**
+   * Select the crypto service that verifies a proof
+   * - With a registry: the service registered for the proof type and cryptosuite
+   * - Otherwise: the configured service, unless the proof names another cryptosuite
+   *
+   * @private
+   */
+  private selectCryptoService(proof: ECDSAProof): {
+    cryptoService?: CryptoService;
+    error?: string;
+  } {
+    if (this.registry) {
+      const cryptoService = this.registry.resolve(
+        proof.type,
+        proof.cryptosuite
+      );
+      if (!cryptoService) {
+        return {
+          error: `Unsupported proof type: ${proof.type}${
+            proof.cryptosuite ? ` (cryptosuite ${proof.cryptosuite})` : ""
+          }`,
+        };
+      }
+      return { cryptoService };
+    }
+
+    // Reject proofs made with a different algorithm variant
+    // RSA proofs name their padding; verify with the matching one
+    const padding =
+      proof.cryptosuite && RSACryptoService.getPaddingOf(proof.cryptosuite);
+    if (this.cryptoService instanceof RSACryptoService && padding) {
+      return { cryptoService: this.cryptoService.withPadding(padding) };
+    }
+
+    const cryptosuite = this.cryptoService.getCryptosuite?.();
+    if (proof.cryptosuite && cryptosuite && proof.cryptosuite !== cryptosuite) {
+      return {
+        error: `Cryptosuite mismatch: proof uses ${proof.cryptosuite}, verifier expects ${cryptosuite}`,
+      };
+    }
+    return { cryptoService: this.cryptoService };
+  }
+
+  /**
+   * Verify every proof of a credential: all proofs of a proof set must
+   * verify, and a chained proof also signs the proofs it references
+   * Errors name the failing proof when there is more than one
+   *
+   * @private
+   */
+  private async verifyProofs(
+    vc: VerifiableCredential,
+    publicKey: string | Record<string, string>,
+    verifyProof: (
+      credential: Credential,
+      proof: ECDSAProof,
+      publicKey: string
+    ) => Promise<string | undefined>
+  ): Promise<{ valid: boolean; reason?: string }> {
+    const proofs = getProofs(vc);
+    if (proofs.length === 0) {
+      return { valid: false, reason: "No proof found in credential" };
+    }
+
+    for (let index = 0; index < proofs.length; index++) {
+      const proof = proofs[index];
+      const label = proofs.length > 1 ? `Proof ${index}: ` : "";
+
+      const proofKey = this.resolvePublicKey(publicKey, proof);
+      if (!proofKey) {
+        return {
+          valid: false,
+          reason: `${label}No public key for verification method ${proof.verificationMethod}`,
+        };
+      }
+
+      let credential: Credential;
+      try {
+        credential = createProofDocument(vc, proof);
+      } catch (error) {
+        return { valid: false, reason: `${label}${(error as Error).message}` };
+      }
+
+      const reason = await verifyProof(credential, proof, proofKey);
+      if (reason) {
+        return { valid: false, reason: `${label}${reason}` };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check the holder's proof of possession. A credential bound to a holder
+   * key needs one, unless the caller skips the check with false (e.g. when
+   * a presentation proof already covers it).
+   *
+   * @private
+   */
+  private async verifyHolderBinding(
+    vc: Credential,
+    holderBinding?: HolderBindingCheck | false
+  ): Promise<{ valid: boolean; reason?: string; holderPublicKey?: string }> {
+    if (holderBinding === false) {
+      return { valid: true };
+    }
+    if (!holderBinding) {
+      return HolderBindingService.isBound(vc)
+        ? {
+            valid: false,
+            reason:
+              "Holder binding failed: Credential is bound to a holder key, but no proof of possession was given",
+          }
+        : { valid: true };
+    }
+
+    const result = await new HolderBindingService(
+      holderBinding.cryptoService
+    ).verifyPossession(
+      vc,
+      holderBinding.challenge,
+      holderBinding.signature,
+      holderBinding.domain
+    );
+    return result.valid
+      ? result
+      : { valid: false, reason: `Holder binding failed: ${result.reason}` };
+  }
+
+  /**
+   * Recover the signer of every proof and check it against the accepted
+   * issuer keys; the recovered keys are added to signerPublicKeys
+   *
+   * @private
+   */
+  private async recoverSigners(
+    vc: VerifiableCredential,
+    recovery: IssuerKeyRecovery,
+    signerPublicKeys: string[],
+    canonicalization?: CanonicalizationVersion
+  ): Promise<{ valid: boolean; reason?: string }> {
+    const offChainService = this.offChainService as OffChainService;
+    if (!recovery.trustedIssuers && !recovery.resolveVerificationMethod) {
+      return {
+        valid: false,
+        reason: "No trusted issuers or verification method resolution given",
+      };
+    }
+
+    const proofs = getProofs(vc);
+    if (proofs.length === 0) {
+      return { valid: false, reason: "No proof found in credential" };
+    }
+
+    for (let index = 0; index < proofs.length; index++) {
+      const proof = proofs[index];
+      const label = proofs.length > 1 ? `Proof ${index}: ` : "";
+      if (proof.type !== "EcdsaSecp256k1RecoverySignature2020") {
+        return {
+          valid: false,
+          reason: `${label}Proof type ${proof.type} is not recoverable`,
+        };
+      }
+
+      let credential: Credential;
+      try {
+        credential = createProofDocument(vc, proof);
+      } catch (error) {
+        return { valid: false, reason: `${label}${(error as Error).message}` };
+      }
+
+      const credentialHash = this.createCanonicalHash(
+        credential,
+        proof,
+        canonicalization
+      );
+      let signerPublicKey: string;
+      try {
+        signerPublicKey = await offChainService.recoverPublicKey(
+          credentialHash,
+          proof.proofValue
+        );
+      } catch {
+        return { valid: false, reason: `${label}Invalid signature` };
+      }
+
+      const reason = await this.checkRecoveredSigner(
+        vc,
+        proof,
+        signerPublicKey,
+        recovery
+      );
+      if (reason) {
+        return { valid: false, reason: `${label}${reason}` };
+      }
+      if (!signerPublicKeys.includes(signerPublicKey)) {
+        signerPublicKeys.push(signerPublicKey);
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check a recovered signer key against the trusted keys of the issuer, or
+   * against the key the proof's verificationMethod resolves to
    *
    * @private
    */
-  private extractProof(vc: VerifiableCredential): ECDSAProof | null {
-    if (!vc.proof) return null;
+  private async checkRecoveredSigner(
+    vc: Credential,
+    proof: ECDSAProof,
+    signerPublicKey: string,
+    recovery: IssuerKeyRecovery
+  ): Promise<string | undefined> {
+    const signerAddress = ethers.computeAddress(signerPublicKey);
+    const matches = (key: string) => {
+      try {
+        const address = ethers.isAddress(key)
+          ? key
+          : ethers.computeAddress(key);
+        return address.toLowerCase() === signerAddress.toLowerCase();
+      } catch {
+        return false;
+      }
+    };
+
+    // The verification method must be a key of the issuer
+    const verificationMethod = proof.verificationMethod;
+    const issuer = typeof vc.issuer === "string" ? vc.issuer : vc.issuer.id;
+    if (
+      !verificationMethod ||
+      !(
+        verificationMethod === issuer ||
+        verificationMethod.startsWith(`${issuer}#`)
+      )
+    ) {
+      return `Verification method ${verificationMethod} does not belong to issuer ${issuer}`;
+    }
 
-    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    // Only the keys trusted for this issuer
+    const trustedKeys =
+      recovery.trustedIssuers &&
+      Object.prototype.hasOwnProperty.call(recovery.trustedIssuers, issuer)
+        ? recovery.trustedIssuers[issuer]
+        : [];
+    if (trustedKeys.some(matches)) {
+      return undefined;
+    }
+    if (!recovery.resolveVerificationMethod) {
+      return `Signer ${signerAddress} is not a trusted key of issuer ${issuer}`;
+    }
+
+    const resolvedKey = await recovery.resolveVerificationMethod(
+      verificationMethod
+    );
+    if (!resolvedKey) {
+      return `Cannot resolve verification method ${verificationMethod}`;
+    }
+    return matches(resolvedKey)
+      ? undefined
+      : `Signer ${signerAddress} does not match verification method ${verificationMethod}`;
+  }
+
+  /**
+   * Ethereum address named by a verification method: the address itself,
+   * or a did:ethr / did:pkh:eip155 DID URL ending in it
+   *
+   * @private
+   */
+  private getVerificationMethodAddress(
+    verificationMethod?: string
+  ): string | undefined {
+    const match = verificationMethod?.match(
+      /^(?:did:ethr:(?:[^:#]+:)?|did:pkh:eip155:[^:#]+:)?(0x[0-9a-fA-F]{40})(?:#.*)?$/
+    );
+    return match && ethers.isAddress(match[1]) ? match[1] : undefined;
+  }
 
-    return proof as ECDSAProof;
+  /**
+   * Public key of the proof's verification method
+   *
+   * @private
+   */
+  private resolvePublicKey(
+    publicKey: string | Record<string, string>,
+    proof: ECDSAProof
+  ): string | undefined {
+    if (typeof publicKey === "string") {
+      return publicKey;
+    }
+    const method = proof.verificationMethod;
+    return method && Object.prototype.hasOwnProperty.call(publicKey, method)
+      ? publicKey[method]
+      : undefined;
   }
 
   /**
@@ -289,7 +1657,7 @@ export class VCVerifier {
    *
    * @private
    */
-  private extractCredentialDetails(vc: VerifiableCredential) {
+  private extractCredentialDetails(vc: Credential) {
     const issuer = typeof vc.issuer === "string" ? vc.issuer : vc.issuer.id;
 
     const subject = Array.isArray(vc.credentialSubject)
@@ -311,13 +1679,21 @@ export class VCVerifier {
   }
 
   /**
-   * Create canonical hash (must match issuer's implementation)
+   * Create canonical hash (must match issuer's implementation), with the
+   * canonicalization the proof records unless the caller overrides it
    * Delegates to ECDSACryptoService for consistent hashing
    *
    * @private
    */
-  private createCanonicalHash(credential: Credential): string {
-    return this.cryptoService.createCanonicalHash(credential);
+  private createCanonicalHash(
+    credential: Credential,
+    proof: ECDSAProof,
+    canonicalization?: CanonicalizationVersion
+  ): string {
+    return this.cryptoService.createCanonicalHash(
+      credential,
+      resolveCanonicalization(proof.canonicalization, canonicalization)
+    );
   }
 
   /**
@@ -0,0 +1,243 @@
+import {
+  ECDSAProof,
+  ISO8601DateTime,
+  Presentation,
+  VCURL,
+  VerifiableCredential,
+  VerifiablePresentation,
+  W3C_VC_CONTEXT_V2,
+} from "../types/w3c-vc.types";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { KeyFormatService } from "./KeyFormatService";
+import { AlgorithmRegistry } from "./AlgorithmRegistry";
+import {
+  DataIntegrityService,
+  DataIntegrityCryptosuite,
+} from "./DataIntegrityService";
+import { RDFCanonicalizer } from "./RDFCanonicalizer";
+import {
+  CanonicalizationVersion,
+  DEFAULT_CANONICALIZATION,
+} from "./JsonCanonicalizer";
+import { Signer } from "../types";
+
+/**
+ * Options of a presentation proof
+ */
+export interface PresentationProofOptions {
+  challenge: string; // Verifier nonce, e.g. OffChainService.createChallenge()
+  domain?: string; // Verifier the presentation is meant for, e.g. a lock id
+  verificationMethod?: string; // Defaults to "<holder>#keys-1"
+  created?: ISO8601DateTime; // Defaults to now
+  proofType?: string; // Custom proof type for different algorithms
+  cryptosuite?: DataIntegrityCryptosuite; // Data Integrity cryptosuite (P-256 or Ed25519)
+  rdfCanonicalizer?: RDFCanonicalizer; // Contexts for the *-rdfc-* cryptosuites
+  canonicalization?: CanonicalizationVersion;
+}
+
+/**
+ * VP Builder
+ *
+ * Wraps the holder's credentials in a W3C Verifiable Presentation and signs
+ * it with the holder's key. The proof has `proofPurpose: "authentication"`
+ * and carries the verifier's challenge and domain, which are signed with the
+ * presentation, so a recorded presentation cannot be replayed to another
+ * verifier or for another challenge.
+ *
+ * Key characteristics:
+ * - Any CryptoService; the proof type comes from the AlgorithmRegistry, as
+ *   for issued credentials
+ * - Standard DataIntegrityProof cryptosuites (ecdsa-*, eddsa-*) for P-256
+ *   and Ed25519 holder keys
+ * - Other proof types sign the canonical hash of the presentation with the
+ *   proof options (everything but proofValue) embedded
+ *
+ * Use case: Holders answering a lock's challenge (see VPVerifier)
+ */
+export class VPBuilder {
+  private cryptoService: CryptoService;
+  private registry: AlgorithmRegistry;
+
+  /**
+   * @param cryptoService - Service of the holder's key (defaults to ECDSA)
+   * @param registry - Proof type per algorithm (defaults to the built-in ones)
+   */
+  constructor(
+    cryptoService: CryptoService = new ECDSACryptoService(),
+    registry: AlgorithmRegistry = AlgorithmRegistry.createDefault(),
+  ) {
+    this.cryptoService = cryptoService;
+    this.registry = registry;
+  }
+
+  /**
+   * Wrap credentials in an unsigned presentation
+   * @param credentials - Credentials to present
+   * @param options - Holder, presentation id and additional contexts / types
+   * @returns Presentation without proof
+   */
+  createPresentation(
+    credentials: VerifiableCredential | VerifiableCredential[],
+    options: {
+      holder?: VCURL;
+      id?: VCURL;
+      additionalContexts?: string[];
+      additionalTypes?: string[];
+    } = {},
+  ): Presentation {
+    const presentation: Presentation = {
+      "@context": [W3C_VC_CONTEXT_V2, ...(options.additionalContexts || [])],
+      type: ["VerifiablePresentation", ...(options.additionalTypes || [])],
+      verifiableCredential: Array.isArray(credentials)
+        ? credentials
+        : [credentials],
+    };
+
+    if (options.id) {
+      presentation.id = options.id;
+    }
+    if (options.holder) {
+      presentation.holder = options.holder;
+    }
+
+    return presentation;
+  }
+
+  /**
+   * Sign a presentation for one verifier challenge
+   * @param presentation - Unsigned presentation
+   * @param signer - Signer or private key of the holder
+   * @param options - Verifier challenge and domain, and proof options
+   * @returns Verifiable Presentation with an authentication proof
+   * @throws Error if the challenge is missing or the presentation is signed
+   */
+  async signPresentation(
+    presentation: Presentation,
+    signer: string | Signer,
+    options: PresentationProofOptions,
+  ): Promise<VerifiablePresentation> {
+    if (!options.challenge) {
+      throw new Error("A presentation proof needs the verifier's challenge");
+    }
+    if ("proof" in presentation) {
+      throw new Error("Presentation is already signed");
+    }
+
+    const verificationMethod =
+      options.verificationMethod ||
+      (presentation.holder ? `${presentation.holder}#keys-1` : undefined);
+    if (!verificationMethod) {
+      throw new Error(
+        "A presentation proof needs a holder or a verification method",
+      );
+    }
+
+    const registration = this.registry.lookup(this.cryptoService);
+    const cryptosuite =
+      options.cryptosuite ||
+      (registration
+        ? registration.cryptosuite
+        : this.cryptoService.getCryptosuite?.());
+    const created = options.created || new Date().toISOString();
+
+    // Standard Data Integrity cryptosuites sign the proof configuration
+    if (DataIntegrityService.isDataIntegrityCryptosuite(cryptosuite)) {
+      const proof = await new DataIntegrityService(this.cryptoService, {
+        rdfCanonicalizer: options.rdfCanonicalizer,
+      }).createProof(presentation, signer, {
+        cryptosuite,
+        verificationMethod,
+        proofPurpose: "authentication",
+        created,
+        challenge: options.challenge,
+        domain: options.domain,
+      });
+      return { ...presentation, proof };
+    }
+
+    const proofOptions: Record<string, unknown> = {
+      type:
+        options.proofType || registration?.proofType || "DataIntegrityProof",
+      created,
+      proofPurpose: "authentication",
+      verificationMethod,
+      challenge: options.challenge,
+    };
+    if (cryptosuite) {
+      proofOptions.cryptosuite = cryptosuite;
+    }
+    if (options.domain !== undefined) {
+      proofOptions.domain = options.domain;
+    }
+    proofOptions.canonicalization =
+      options.canonicalization || DEFAULT_CANONICALIZATION;
+
+    const hash = VPBuilder.createProofHash(
+      this.cryptoService,
+      presentation,
+      proofOptions,
+      options.canonicalization,
+    );
+    if (typeof signer !== "string") {
+      KeyFormatService.assertSignerAlgorithm(this.cryptoService, signer);
+    }
+    const proofValue =
+      typeof signer === "string"
+        ? await this.cryptoService.sign(hash, signer)
+        : await signer.sign(hash);
+
+    const proof = { ...proofOptions, proofValue } as ECDSAProof;
+    return { ...presentation, proof };
+  }
+
+  /**
+   * Wrap credentials and sign the presentation in one step
+   * @param credentials - Credentials to present
+   * @param signer - Signer or private key of the holder
+   * @param options - Holder, verifier challenge and domain, and proof options
+   * @returns Verifiable Presentation
+   *
+   * @example
+   * ```typescript
+   * const challenge = offChainService.createChallenge(); // sent by the lock
+   * const vp = await new VPBuilder(ecdsa).buildPresentation(
+   *   vc,
+   *   holder.privateKey,
+   *   { holder: "did:example:user456", challenge, domain: "lock-building-a-room-101" }
+   * );
+   * ```
+   */
+  async buildPresentation(
+    credentials: VerifiableCredential | VerifiableCredential[],
+    signer: string | Signer,
+    options: PresentationProofOptions & { holder?: VCURL; id?: VCURL },
+  ): Promise<VerifiablePresentation> {
+    const presentation = this.createPresentation(credentials, {
+      holder: options.holder,
+      id: options.id,
+    });
+    return this.signPresentation(presentation, signer, options);
+  }
+
+  /**
+   * Hash signed by a presentation proof that is not a Data Integrity
+   * cryptosuite: the canonical presentation with the proof options embedded
+   *
+   * @param cryptoService - Service of the holder's key
+   * @param presentation - Presentation without proof
+   * @param proofOptions - Proof without proofValue
+   * @param canonicalization - Canonicalization algorithm
+   * @returns Hash to sign
+   */
+  static createProofHash(
+    cryptoService: CryptoService,
+    presentation: Presentation,
+    proofOptions: Record<string, unknown>,
+    canonicalization?: CanonicalizationVersion,
+  ): string {
+    return cryptoService.createCanonicalHash(
+      { ...presentation, proof: proofOptions },
+      canonicalization,
+    );
+  }
+}
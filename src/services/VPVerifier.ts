@@ -0,0 +1,345 @@
+import {
+  Credential,
+  ECDSAProof,
+  Presentation,
+  PresentationVerificationResult,
+  VerifiableCredential,
+  VerifiablePresentation,
+  VerificationResult,
+} from "../types/w3c-vc.types";
+import { CryptoService, ECDSACryptoService } from "./CryptoService";
+import { AlgorithmRegistry } from "./AlgorithmRegistry";
+import { RSACryptoService } from "./RSACryptoService";
+import { DataIntegrityService } from "./DataIntegrityService";
+import { RDFCanonicalizer } from "./RDFCanonicalizer";
+import {
+  CanonicalizationVersion,
+  resolveCanonicalization,
+} from "./JsonCanonicalizer";
+import { VCVerifier } from "./VCVerifier";
+import { HolderBindingService } from "./HolderBindingService";
+import { VPBuilder } from "./VPBuilder";
+import { getProofs } from "./ProofSet";
+
+/**
+ * Options of VPVerifier.verifyPresentation
+ */
+export interface PresentationVerificationOptions {
+  challenge: string; // Challenge the verifier sent; must be fresh
+  domain?: string; // Expected domain of the proof
+  issuerPublicKeys: Record<string, string>; // Trusted issuers: issuer id -> public key
+  checkExpiration?: boolean;
+  checkNotBefore?: boolean;
+  currentTime?: Date;
+  canonicalization?: CanonicalizationVersion;
+  rdfCanonicalizer?: RDFCanonicalizer; // Contexts for the *-rdfc-* cryptosuites
+}
+
+/**
+ * VP Verifier
+ *
+ * Verifies Verifiable Presentations made with VPBuilder:
+ * 1. The presentation proof is an "authentication" proof of the holder, made
+ *    for the verifier's challenge (and domain, if given)
+ * 2. The holder's signature covers the presentation, challenge and domain
+ * 3. Every embedded credential verifies against its trusted issuer's key
+ * 4. Credentials bound to a holder key are bound to the key of the holder's
+ *    proof, which is their proof of possession
+ *
+ * The challenge must be fresh (one per presentation, e.g. from
+ * OffChainService.createChallenge); checking the challenge is what stops a
+ * recorded presentation from being replayed.
+ *
+ * Use case: Locks admitting holders who present their access credential
+ */
+export class VPVerifier {
+  private cryptoService: CryptoService;
+  private registry?: AlgorithmRegistry;
+  private credentialVerifier: VCVerifier;
+
+  /**
+   * @param cryptoService - Service to verify with, or a registry to pick the
+   *   service from each proof (defaults to ECDSA); used for the presentation
+   *   and the embedded credentials
+   */
+  constructor(cryptoService?: CryptoService | AlgorithmRegistry) {
+    if (cryptoService instanceof AlgorithmRegistry) {
+      this.registry = cryptoService;
+      this.cryptoService = new ECDSACryptoService();
+    } else {
+      this.cryptoService = cryptoService || new ECDSACryptoService();
+    }
+    this.credentialVerifier = new VCVerifier(cryptoService);
+  }
+
+  /**
+   * Verify a presentation and every credential in it
+   * @param vp - Verifiable Presentation
+   * @param holderPublicKey - Public key of the holder
+   * @param options - Expected challenge and domain, trusted issuer keys and
+   *   validation options for the credentials
+   * @returns Verification result, with one result per credential
+   *
+   * @example
+   * ```typescript
+   * const result = await new VPVerifier(ecdsa).verifyPresentation(
+   *   vp,
+   *   holderPublicKey,
+   *   {
+   *     challenge,
+   *     domain: "lock-building-a-room-101",
+   *     issuerPublicKeys: { "did:example:issuer123": issuerPublicKey },
+   *   }
+   * );
+   * ```
+   */
+  async verifyPresentation(
+    vp: VerifiablePresentation,
+    holderPublicKey: string,
+    options: PresentationVerificationOptions,
+  ): Promise<PresentationVerificationResult> {
+    try {
+      const proofResult = await this.verifyPresentationProof(
+        vp,
+        holderPublicKey,
+        options,
+      );
+      if (!proofResult.valid) {
+        return {
+          verified: false,
+          credentialResults: [],
+          error: proofResult.reason,
+        };
+      }
+
+      const credentials = this.extractCredentials(vp);
+      if (credentials.length === 0) {
+        return {
+          verified: false,
+          credentialResults: [],
+          error: "Presentation has no credentials",
+        };
+      }
+
+      const holderBinding = new HolderBindingService(
+        this.selectCryptoService(getProofs(vp)[0]),
+      );
+      const credentialResults: VerificationResult[] = [];
+      for (const vc of credentials) {
+        credentialResults.push(
+          await this.verifyEmbeddedCredential(
+            vc,
+            holderBinding,
+            holderPublicKey,
+            options,
+          ),
+        );
+      }
+
+      const failed = credentialResults.findIndex((result) => !result.verified);
+      if (failed >= 0) {
+        return {
+          verified: false,
+          credentialResults,
+          error: `Credential ${failed} failed verification: ${credentialResults[failed].error}`,
+        };
+      }
+
+      return {
+        verified: true,
+        verifiablePresentation: vp,
+        credentialResults,
+        details: {
+          holder: vp.holder,
+          challenge: options.challenge,
+          domain: options.domain,
+          credentials: credentials.length,
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        credentialResults: [],
+        error: `Verification failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Check the holder's proof: purpose, challenge, domain, verification
+   * method and signature
+   *
+   * @private
+   */
+  private async verifyPresentationProof(
+    vp: VerifiablePresentation,
+    holderPublicKey: string,
+    options: PresentationVerificationOptions,
+  ): Promise<{ valid: boolean; reason?: string }> {
+    if (!vp.type?.includes("VerifiablePresentation")) {
+      return { valid: false, reason: "Not a VerifiablePresentation" };
+    }
+
+    // One holder proof; an appended proof would otherwise go unchecked
+    const proofs = getProofs(vp);
+    if (proofs.length === 0) {
+      return { valid: false, reason: "No proof found in presentation" };
+    }
+    if (proofs.length > 1) {
+      return { valid: false, reason: "Presentation has more than one proof" };
+    }
+    const proof = proofs[0];
+    if (proof.proofPurpose !== "authentication") {
+      return {
+        valid: false,
+        reason: `Unexpected proof purpose: ${proof.proofPurpose}`,
+      };
+    }
+
+    if (!options.challenge) {
+      return { valid: false, reason: "No challenge to verify against" };
+    }
+    if (proof.challenge !== options.challenge) {
+      return { valid: false, reason: "Challenge mismatch" };
+    }
+    if (options.domain !== undefined && proof.domain !== options.domain) {
+      return { valid: false, reason: "Domain mismatch" };
+    }
+
+    if (
+      vp.holder &&
+      !(
+        proof.verificationMethod === vp.holder ||
+        proof.verificationMethod?.startsWith(`${vp.holder}#`)
+      )
+    ) {
+      return {
+        valid: false,
+        reason: `Verification method ${proof.verificationMethod} does not belong to holder ${vp.holder}`,
+      };
+    }
+
+    const cryptoService = this.selectCryptoService(proof);
+    if (!cryptoService) {
+      return {
+        valid: false,
+        reason: `Unsupported proof type: ${proof.type}`,
+      };
+    }
+
+    const { proof: _proof, ...presentation } = vp;
+    const { proofValue, ...proofOptions } = proof;
+    const signatureValid = DataIntegrityService.isDataIntegrityCryptosuite(
+      proof.cryptosuite,
+    )
+      ? await new DataIntegrityService(cryptoService, {
+          rdfCanonicalizer: options.rdfCanonicalizer,
+        }).verifyProof(presentation as Presentation, proof, holderPublicKey)
+      : await cryptoService.verify(
+          VPBuilder.createProofHash(
+            cryptoService,
+            presentation as Presentation,
+            proofOptions,
+            resolveCanonicalization(
+              proof.canonicalization,
+              options.canonicalization,
+            ),
+          ),
+          proofValue,
+          holderPublicKey,
+        );
+
+    return signatureValid
+      ? { valid: true }
+      : { valid: false, reason: "Invalid presentation signature" };
+  }
+
+  /**
+   * Verify one embedded credential against the key of its issuer
+   *
+   * @private
+   */
+  private async verifyEmbeddedCredential(
+    vc: VerifiableCredential,
+    holderBinding: HolderBindingService,
+    holderPublicKey: string,
+    options: PresentationVerificationOptions,
+  ): Promise<VerificationResult> {
+    const issuer = this.getIssuerId(vc);
+    const issuerPublicKey =
+      issuer &&
+      Object.prototype.hasOwnProperty.call(options.issuerPublicKeys, issuer)
+        ? options.issuerPublicKeys[issuer]
+        : undefined;
+    if (!issuerPublicKey) {
+      return { verified: false, error: `Untrusted issuer: ${issuer}` };
+    }
+
+    // The holder's proof, made for this challenge and domain, is the proof
+    // of possession of a bound credential
+    if (HolderBindingService.isBound(vc)) {
+      const holderResult = holderBinding.matchHolderKey(vc, holderPublicKey);
+      if (!holderResult.valid) {
+        return {
+          verified: false,
+          error: `Holder binding failed: ${holderResult.reason}`,
+        };
+      }
+    }
+
+    return this.credentialVerifier.verifyCredential(vc, issuerPublicKey, {
+      checkExpiration: options.checkExpiration,
+      checkNotBefore: options.checkNotBefore,
+      currentTime: options.currentTime,
+      canonicalization: options.canonicalization,
+      rdfCanonicalizer: options.rdfCanonicalizer,
+      holderBinding: false,
+    });
+  }
+
+  /**
+   * Select the crypto service that verifies the presentation proof
+   *
+   * @private
+   */
+  private selectCryptoService(proof: ECDSAProof): CryptoService | undefined {
+    if (this.registry) {
+      return this.registry.resolve(proof.type, proof.cryptosuite);
+    }
+    // RSA proofs name their padding; verify with the matching one
+    const padding =
+      proof.cryptosuite && RSACryptoService.getPaddingOf(proof.cryptosuite);
+    if (this.cryptoService instanceof RSACryptoService && padding) {
+      return this.cryptoService.withPadding(padding);
+    }
+
+    const cryptosuite = this.cryptoService.getCryptosuite?.();
+    if (proof.cryptosuite && cryptosuite && proof.cryptosuite !== cryptosuite) {
+      return undefined;
+    }
+    return this.cryptoService;
+  }
+
+  /**
+   * Embedded credentials as an array
+   *
+   * @private
+   */
+  private extractCredentials(vp: Presentation): VerifiableCredential[] {
+    if (!vp.verifiableCredential) {
+      return [];
+    }
+    return Array.isArray(vp.verifiableCredential)
+      ? vp.verifiableCredential
+      : [vp.verifiableCredential];
+  }
+
+  /**
+   * Issuer id of a credential
+   *
+   * @private
+   */
+  private getIssuerId(vc: Credential): string | undefined {
+    return typeof vc.issuer === "string" ? vc.issuer : vc.issuer?.id;
+  }
+}
@@ -17,6 +17,23 @@ export interface CryptoIdentity {
   address: string; // Ethereum address (20 bytes) - for on-chain smart contract use
 }
 
+/**
+ * Signs hashes without exposing the private key to the caller
+ * Implemented in memory (InMemorySigner) or by an external key service such
+ * as a KMS or HSM (RemoteSigner)
+ */
+export interface Signer {
+  algorithm: string; // Key algorithm (e.g. "secp256k1", "ML-DSA-44")
+  publicKey: string; // Public key in the CryptoService's format
+  address: string; // Address in the CryptoService's format
+
+  /**
+   * Sign a hash exactly as CryptoService.sign would with the private key
+   * (raw signature, no Ethereum prefix)
+   */
+  sign(hash: Hash): Promise<string>;
+}
+
 /**
  * @deprecated Use CryptoIdentity instead
  */
@@ -0,0 +1,10 @@
+/**
+ * Type declarations for @digitalbazaar/credentials-context
+ * (the package ships plain JavaScript without typings)
+ */
+declare module "@digitalbazaar/credentials-context" {
+  /**
+   * JSON-LD context documents by URL (VC v1, VC v2 and undefined-terms v2)
+   */
+  export const contexts: Map<string, Record<string, unknown>>;
+}
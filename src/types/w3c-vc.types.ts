@@ -175,6 +175,16 @@ export interface Proof {
    */
   verificationMethod?: VCURL;
 
+  /**
+   * Identifier of the proof, referenced by previousProof in proof chains
+   */
+  id?: VCURL;
+
+  /**
+   * Id(s) of the proof(s) this proof also signs (proof chains)
+   */
+  previousProof?: VCURL | VCURL[];
+
   /**
    * The actual signature value
    */
@@ -191,18 +201,41 @@ export interface Proof {
  * Uses compact signature format (r+s+v)
  * 
  * Extended to support multiple signature algorithms:
- * - ECDSA (EcdsaSecp256k1*)
+ * - ECDSA (EcdsaSecp256k1*, EcdsaSecp256r1Signature2019 for P-256)
  * - RSA (RsaSignature2018)
- * - Post-Quantum (DataIntegrityProof for ML-DSA)
+ * - EdDSA (Ed25519Sha256Signature, DataIntegrityProof with eddsa-*-2022)
+ * - Post-Quantum (DataIntegrityProof for ML-DSA/Falcon/SLH-DSA, variant in cryptosuite)
+ * - BLS12-381 (DataIntegrityProof, cryptosuite "bls12381-g2")
+ * - BBS selective disclosure (BbsBlsSignature2020, derived BbsBlsSignatureProof2020)
  */
 export interface ECDSAProof extends Proof {
   type: 
     | "EcdsaSecp256k1Signature2019" 
     | "EcdsaSecp256k1RecoverySignature2020"
+    | "EcdsaSecp256r1Signature2019"
     | "RsaSignature2018"
+    | "Ed25519Sha256Signature"
     | "DataIntegrityProof"
+    | "BbsBlsSignature2020"
+    | "BbsBlsSignatureProof2020"
     | string; // Allow custom proof types for algorithm comparison
 
+  /**
+   * Algorithm variant used for the signature (e.g. "mldsa65")
+   */
+  cryptosuite?: string;
+
+  /**
+   * JSON canonicalization the signed hash was computed with ("rfc8785" or
+   * "legacy"); absent on proofs from releases up to 3.1
+   */
+  canonicalization?: string;
+
+  /**
+   * Indexes of the revealed claims (BbsBlsSignatureProof2020 only)
+   */
+  disclosedIndexes?: number[];
+
   /**
    * Nonce or challenge for replay protection
    */
@@ -465,6 +498,12 @@ export interface VerificationResult {
    */
   verifiableCredential?: VerifiableCredential;
 
+  /**
+   * The verified credential of an enveloping proof such as a VC-JWT
+   * (if successful)
+   */
+  credential?: Credential;
+
   /**
    * Error message (if failed)
    */
@@ -482,3 +521,38 @@ export interface VerificationResult {
     [key: string]: unknown;
   };
 }
+
+/**
+ * Presentation verification result
+ */
+export interface PresentationVerificationResult {
+  /**
+   * Whether the presentation proof and every credential verified
+   */
+  verified: boolean;
+
+  /**
+   * The verified presentation (if successful)
+   */
+  verifiablePresentation?: VerifiablePresentation;
+
+  /**
+   * One result per embedded credential, in presentation order
+   */
+  credentialResults: VerificationResult[];
+
+  /**
+   * Error message (if failed)
+   */
+  error?: string;
+
+  /**
+   * Additional verification details
+   */
+  details?: {
+    holder?: string;
+    challenge?: string;
+    domain?: string;
+    [key: string]: unknown;
+  };
+}
@@ -0,0 +1,205 @@
+import {
+  AlgorithmRegistry,
+  CryptoService,
+  ECDSACryptoService,
+  RSACryptoService,
+  Ed25519CryptoService,
+  P256CryptoService,
+  PQCryptoService,
+  FalconCryptoService,
+  BLSCryptoService,
+  CompositeCryptoService,
+  OffChainService,
+  VCIssuer,
+  VCVerifier,
+  VerifiableCredential,
+} from "../src/index";
+
+describe("AlgorithmRegistry", () => {
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject = { id: "did:example:user456", accessLevel: "standard" };
+
+  async function issue(crypto: CryptoService) {
+    const identity = await crypto.generateIdentity();
+    const vc = await new VCIssuer(crypto).issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey
+    );
+    return { vc, identity };
+  }
+
+  function proofOf(vc: VerifiableCredential) {
+    return Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+  }
+
+  it("should look up proof types by class and cryptosuite", () => {
+    const registry = AlgorithmRegistry.createDefault();
+
+    expect(registry.lookup(new ECDSACryptoService())?.proofType).toBe(
+      "EcdsaSecp256k1Signature2020"
+    );
+    expect(registry.lookup(new RSACryptoService())?.proofType).toBe(
+      "RsaSignature2018"
+    );
+    expect(registry.lookup(new Ed25519CryptoService())?.proofType).toBe(
+      "Ed25519Sha256Signature"
+    );
+    // Not an Ed25519Signature2020 proof, so the name must not resolve
+    expect(registry.resolve("Ed25519Signature2020")).toBeUndefined();
+    expect(registry.lookup(new P256CryptoService())?.proofType).toBe(
+      "EcdsaSecp256r1Signature2019"
+    );
+    expect(registry.lookup(new PQCryptoService("ML-DSA-87"))).toMatchObject({
+      proofType: "DataIntegrityProof",
+      cryptosuite: "mldsa87",
+    });
+  });
+
+  it("should not depend on constructor names", async () => {
+    // Minifiers rename classes, e.g. RSACryptoService -> "r"
+    const originalName = RSACryptoService.name;
+    Object.defineProperty(RSACryptoService, "name", { value: "r" });
+    try {
+      const { vc } = await issue(
+        new RSACryptoService(2048, { backend: "native" })
+      );
+      expect(proofOf(vc).type).toBe("RsaSignature2018");
+    } finally {
+      Object.defineProperty(RSACryptoService, "name", { value: originalName });
+    }
+  });
+
+  it("should use custom registrations and fall back for unknown services", async () => {
+    class CustomMLDSA extends PQCryptoService {}
+    const custom = new CustomMLDSA("ML-DSA-65");
+
+    const { vc } = await issue(custom);
+    expect(proofOf(vc)).toMatchObject({
+      type: "DataIntegrityProof",
+      cryptosuite: "mldsa65",
+    });
+
+    const issuer = new VCIssuer(
+      custom,
+      undefined,
+      undefined,
+      new AlgorithmRegistry().register(custom, "MlDsaSignature2025")
+    );
+    const identity = await custom.generateIdentity();
+    const customVC = await issuer.issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey
+    );
+    expect(proofOf(customVC).type).toBe("MlDsaSignature2025");
+  });
+
+  it("should verify ECDSA, RSA, ML-DSA and Falcon credentials with one verifier", async () => {
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const services: CryptoService[] = [
+      new ECDSACryptoService(),
+      new RSACryptoService(2048, { backend: "native" }),
+      new PQCryptoService("ML-DSA-65"),
+      new FalconCryptoService("Falcon-512"),
+    ];
+
+    for (const crypto of services) {
+      const { vc, identity } = await issue(crypto);
+      const result = await verifier.verifyCredential(vc, identity.publicKey);
+      expect(result.verified).toBe(true);
+
+      const tampered = {
+        ...vc,
+        credentialSubject: { ...subject, accessLevel: "admin" },
+      };
+      expect(
+        (await verifier.verifyCredential(tampered, identity.publicKey)).verified
+      ).toBe(false);
+    }
+  });
+
+  it("should verify off-chain ECDSA credentials by proof type", async () => {
+    const crypto = new ECDSACryptoService();
+    const identity = await crypto.generateIdentity();
+    const vc = await new VCIssuer(
+      crypto,
+      new OffChainService(crypto)
+    ).issueOffChainCredential(issuerInfo, subject, identity.privateKey, {
+      publicKey: identity.publicKey,
+    });
+
+    const result = await new VCVerifier(
+      AlgorithmRegistry.createDefault()
+    ).verifyCredential(vc, identity.publicKey);
+    expect(result.verified).toBe(true);
+  });
+
+  it("should reject unregistered proof types and cryptosuites", async () => {
+    const verifier = new VCVerifier(
+      new AlgorithmRegistry().register(new PQCryptoService("ML-DSA-44"))
+    );
+    const { vc, identity } = await issue(new PQCryptoService("ML-DSA-65"));
+
+    const result = await verifier.verifyCredential(vc, identity.publicKey);
+    expect(result.verified).toBe(false);
+    expect(result.error).toBe(
+      "Unsupported proof type: DataIntegrityProof (cryptosuite mldsa65)"
+    );
+
+    const ecdsa = await issue(new ECDSACryptoService());
+    expect(
+      (await verifier.verifyCredential(ecdsa.vc, ecdsa.identity.publicKey))
+        .error
+    ).toBe("Unsupported proof type: EcdsaSecp256k1Signature2020");
+  });
+
+  it("should accept registered composite services", async () => {
+    const composite = new CompositeCryptoService(
+      new ECDSACryptoService(),
+      new PQCryptoService()
+    );
+    const registry = AlgorithmRegistry.createDefault().register(composite);
+    expect(
+      registry.resolve("DataIntegrityProof", composite.getCryptosuite())
+    ).toBe(composite);
+
+    const { vc, identity } = await issue(composite);
+    const result = await new VCVerifier(registry).verifyCredential(
+      vc,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(true);
+  });
+
+  it("should batch only credentials handled by the same service", async () => {
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const crypto = new BLSCryptoService();
+    const identity = await crypto.generateIdentity();
+    const issuer = new VCIssuer(crypto);
+    const vcs = await Promise.all(
+      [1, 2].map((n) =>
+        issuer.issueCredential(
+          issuerInfo,
+          { ...subject, id: `did:example:user${n}` },
+          identity.privateKey,
+          identity.publicKey
+        )
+      )
+    );
+
+    const results = await verifier.verifyCredentialBatch(
+      vcs,
+      identity.publicKey
+    );
+    expect(results.map((result) => result.verified)).toEqual([true, true]);
+
+    const mixed = await verifier.verifyCredentialBatch(
+      [vcs[0], (await issue(new PQCryptoService())).vc],
+      identity.publicKey
+    );
+    expect(mixed.map((result) => result.verified)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  BBSCryptoService,
+  VCIssuer,
+  VCVerifier,
+  VCHolder,
+  VerifiableCredential,
+  AccessControlCredentialSubject,
+  CryptoIdentity,
+} from "../src/index";
+
+describe("BBS selective disclosure", () => {
+  let crypto: BBSCryptoService;
+  let identity: CryptoIdentity;
+  let holder: VCHolder;
+  let verifier: VCVerifier;
+  let vc: VerifiableCredential;
+
+  beforeAll(async () => {
+    crypto = new BBSCryptoService();
+    identity = await crypto.generateIdentity();
+    holder = new VCHolder(crypto);
+    verifier = new VCVerifier(crypto);
+
+    const credentialSubject: AccessControlCredentialSubject = {
+      id: "did:example:employee42",
+      userMetaDataHash: crypto.hash("employee42@example.com"),
+      lock: { id: "lock-1", name: "Main Entrance" },
+      permissions: ["unlock"],
+    };
+
+    vc = await new VCIssuer(crypto).issueSelectiveDisclosureCredential(
+      { id: "did:example:issuer123" },
+      credentialSubject,
+      identity.privateKey,
+      identity.publicKey,
+      { credentialTypes: ["LockAccessCredential"], validityDays: 30 }
+    );
+  });
+
+  it("should sign every claim separately", async () => {
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("BbsBlsSignature2020");
+
+    const claims = crypto.createClaimMessages(
+      vc.credentialSubject as AccessControlCredentialSubject
+    );
+    expect(claims.map((claim) => claim.path)).toEqual([
+      "id",
+      "lock.id",
+      "lock.name",
+      "permissions",
+      "userMetaDataHash",
+    ]);
+    expect(
+      await crypto.verifyMessages(
+        claims.map((claim) => claim.message),
+        crypto.createHeader(vc),
+        proof.proofValue,
+        identity.publicKey
+      )
+    ).toBe(true);
+  });
+
+  it("should reveal only the requested claims", async () => {
+    const derived = await holder.deriveCredential(
+      vc,
+      ["lock.id", "permissions"],
+      identity.publicKey
+    );
+
+    expect(derived.credentialSubject).toEqual({
+      lock: { id: "lock-1" },
+      permissions: ["unlock"],
+    });
+    expect(JSON.stringify(derived)).not.toContain("userMetaDataHash");
+
+    const proof = Array.isArray(derived.proof)
+      ? derived.proof[0]
+      : derived.proof;
+    expect(proof.type).toBe("BbsBlsSignatureProof2020");
+    expect(proof.disclosedIndexes).toEqual([1, 3]);
+
+    const result = await verifier.verifyDerivedCredential(
+      derived,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(true);
+  });
+
+  it("should reveal nested claims by parent path", async () => {
+    const derived = await holder.deriveCredential(
+      vc,
+      ["lock"],
+      identity.publicKey
+    );
+
+    expect(derived.credentialSubject).toEqual({
+      lock: { id: "lock-1", name: "Main Entrance" },
+    });
+    expect(
+      (await verifier.verifyDerivedCredential(derived, identity.publicKey))
+        .verified
+    ).toBe(true);
+  });
+
+  it("should reject tampered revealed claims and metadata", async () => {
+    const derived = await holder.deriveCredential(
+      vc,
+      ["lock.id", "permissions"],
+      identity.publicKey
+    );
+
+    const tamperedClaim = {
+      ...derived,
+      credentialSubject: { lock: { id: "lock-1" }, permissions: ["admin"] },
+    };
+    const claimResult = await verifier.verifyDerivedCredential(
+      tamperedClaim,
+      identity.publicKey
+    );
+    expect(claimResult.verified).toBe(false);
+    expect(claimResult.error).toBe("Invalid signature");
+
+    const tamperedValidity = {
+      ...derived,
+      validUntil: new Date(Date.now() + 10 * 365 * 86400000).toISOString(),
+    };
+    expect(
+      (
+        await verifier.verifyDerivedCredential(
+          tamperedValidity,
+          identity.publicKey
+        )
+      ).verified
+    ).toBe(false);
+  });
+
+  it("should bind the derived proof to a verifier challenge", async () => {
+    const derived = await holder.deriveCredential(
+      vc,
+      ["lock.id"],
+      identity.publicKey,
+      { challenge: "nonce-123" }
+    );
+
+    expect(
+      (
+        await verifier.verifyDerivedCredential(derived, identity.publicKey, {
+          challenge: "nonce-123",
+        })
+      ).verified
+    ).toBe(true);
+
+    const replayed = await verifier.verifyDerivedCredential(
+      derived,
+      identity.publicKey,
+      { challenge: "nonce-456" }
+    );
+    expect(replayed.verified).toBe(false);
+    expect(replayed.error).toBe("Challenge mismatch");
+
+    const rewritten = await verifier.verifyDerivedCredential(
+      { ...derived, proof: { ...derived.proof, challenge: "nonce-456" } },
+      identity.publicKey,
+      { challenge: "nonce-456" }
+    );
+    expect(rewritten.verified).toBe(false);
+  });
+
+  it("should not let differently nested claims collide", async () => {
+    expect(
+      crypto.createClaimMessages({ "lock.id": "lock-1" })[0].message
+    ).not.toBe(
+      crypto.createClaimMessages({ lock: { id: "lock-1" } })[0].message
+    );
+    expect(crypto.createClaimMessages({ "a=b": "c" })[0].message).not.toBe(
+      crypto.createClaimMessages({ a: "b=c" })[0].message
+    );
+
+    // A dotted key cannot be presented as a nested claim
+    const dotted = await new VCIssuer(
+      crypto
+    ).issueSelectiveDisclosureCredential(
+      { id: "did:example:issuer123" },
+      { "lock.id": "lock-1", accessLevel: "admin" },
+      identity.privateKey,
+      identity.publicKey
+    );
+    const derived = await holder.deriveCredential(
+      dotted,
+      ["lock.id"],
+      identity.publicKey
+    );
+    expect(derived.credentialSubject).toEqual({ "lock.id": "lock-1" });
+    expect(
+      (await verifier.verifyDerivedCredential(derived, identity.publicKey))
+        .verified
+    ).toBe(true);
+
+    const renested = await verifier.verifyDerivedCredential(
+      { ...derived, credentialSubject: { lock: { id: "lock-1" } } },
+      identity.publicKey
+    );
+    expect(renested).toMatchObject({
+      verified: false,
+      error: "Invalid signature",
+    });
+  });
+
+  it("should reject unknown claims and non-BBS issuers", async () => {
+    await expect(
+      holder.deriveCredential(vc, ["accessLevel"], identity.publicKey)
+    ).rejects.toThrow("Unknown claim: accessLevel");
+
+    await expect(
+      new VCIssuer().issueSelectiveDisclosureCredential(
+        { id: "did:example:issuer123" },
+        { id: "did:example:user456" },
+        identity.privateKey,
+        identity.publicKey
+      )
+    ).rejects.toThrow("BBSCryptoService is required");
+  });
+});
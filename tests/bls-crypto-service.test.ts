@@ -0,0 +1,140 @@
+import {
+  BLSCryptoService,
+  VCIssuer,
+  VCVerifier,
+  VerifiableCredential,
+} from "../src/index";
+
+describe("BLSCryptoService", () => {
+  let crypto: BLSCryptoService;
+
+  beforeAll(() => {
+    crypto = new BLSCryptoService();
+  });
+
+  it("should sign and verify with 48-byte keys and 96-byte signatures", async () => {
+    const identity = await crypto.generateIdentity();
+    const hash = crypto.hash("open lock-1");
+    const signature = await crypto.sign(hash, identity.privateKey);
+
+    expect(identity.publicKey).toMatch(/^0x[0-9a-f]{96}$/i);
+    expect(signature).toMatch(/^0x[0-9a-f]{192}$/i);
+    expect(await crypto.verify(hash, signature, identity.publicKey)).toBe(true);
+    expect(
+      await crypto.verify(
+        crypto.hash("open lock-2"),
+        signature,
+        identity.publicKey
+      )
+    ).toBe(false);
+  });
+
+  it("should aggregate signatures from different issuers", async () => {
+    const issuers = await Promise.all(
+      [0, 1, 2].map(() => crypto.generateIdentity())
+    );
+    const items = issuers.map((identity, i) => ({
+      data: crypto.hash(`credential-${i}`),
+      publicKey: identity.publicKey,
+    }));
+    const signatures = await Promise.all(
+      items.map((item, i) => crypto.sign(item.data, issuers[i].privateKey))
+    );
+
+    const aggregate = crypto.aggregateSignatures(signatures);
+    expect(aggregate).toMatch(/^0x[0-9a-f]{192}$/i);
+    expect(await crypto.verifyAggregate(items, aggregate)).toBe(true);
+
+    const swapped = [
+      { ...items[0], publicKey: items[1].publicKey },
+      { ...items[1], publicKey: items[0].publicKey },
+      items[2],
+    ];
+    expect(await crypto.verifyAggregate(swapped, aggregate)).toBe(false);
+  });
+
+  describe("VCVerifier.verifyCredentialBatch", () => {
+    let issuerIdentity: { privateKey: string; publicKey: string };
+    let verifier: VCVerifier;
+    let vcs: VerifiableCredential[];
+
+    beforeAll(async () => {
+      issuerIdentity = await crypto.generateIdentity();
+      const issuer = new VCIssuer(crypto);
+      verifier = new VCVerifier(crypto);
+
+      vcs = await Promise.all(
+        [1, 2, 3, 4].map((n) =>
+          issuer.issueCredential(
+            { id: "did:example:issuer123" },
+            { id: `did:example:user${n}`, accessLevel: "standard" },
+            issuerIdentity.privateKey,
+            issuerIdentity.publicKey,
+            { validityDays: 1 }
+          )
+        )
+      );
+    });
+
+    it("should issue DataIntegrityProof credentials with the BLS cryptosuite", () => {
+      const proof = Array.isArray(vcs[0].proof)
+        ? vcs[0].proof[0]
+        : vcs[0].proof;
+      expect(proof.type).toBe("DataIntegrityProof");
+      expect(proof.cryptosuite).toBe("bls12381-g2");
+    });
+
+    it("should verify a burst of credentials with one batch check", async () => {
+      const batchSpy = jest.spyOn(crypto, "verifyBatch");
+      const verifySpy = jest.spyOn(crypto, "verify");
+
+      const results = await verifier.verifyCredentialBatch(
+        vcs,
+        issuerIdentity.publicKey
+      );
+
+      expect(results.map((result) => result.verified)).toEqual([
+        true,
+        true,
+        true,
+        true,
+      ]);
+      expect(batchSpy).toHaveBeenCalledTimes(1);
+      expect(verifySpy).not.toHaveBeenCalled();
+
+      batchSpy.mockRestore();
+      verifySpy.mockRestore();
+    });
+
+    it("should pinpoint the tampered credential when the batch fails", async () => {
+      const tampered = {
+        ...vcs[2],
+        credentialSubject: { id: "did:example:user3", accessLevel: "admin" },
+      };
+
+      const results = await verifier.verifyCredentialBatch(
+        [vcs[0], vcs[1], tampered, vcs[3]],
+        issuerIdentity.publicKey
+      );
+
+      expect(results.map((result) => result.verified)).toEqual([
+        true,
+        true,
+        false,
+        true,
+      ]);
+      expect(results[2].error).toBe("Invalid signature");
+    });
+
+    it("should still apply validation checks after a successful batch", async () => {
+      const results = await verifier.verifyCredentialBatch(
+        vcs,
+        issuerIdentity.publicKey,
+        { currentTime: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000) }
+      );
+
+      expect(results.every((result) => !result.verified)).toBe(true);
+      expect(results[0].error).toContain("Credential expired");
+    });
+  });
+});
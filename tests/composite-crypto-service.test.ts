@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import {
+  CompositeCryptoService,
+  ECDSACryptoService,
+  PQCryptoService,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("CompositeCryptoService - ECDSA + ML-DSA", () => {
+  let ecdsa: ECDSACryptoService;
+  let composite: CompositeCryptoService;
+
+  beforeAll(() => {
+    ecdsa = new ECDSACryptoService();
+    composite = new CompositeCryptoService(ecdsa, new PQCryptoService());
+  });
+
+  it("should round-trip the composite encoding", () => {
+    const encoded = CompositeCryptoService.encode("0xabc", "base64+/=");
+    expect(encoded.startsWith(CompositeCryptoService.PREFIX)).toBe(true);
+    expect(CompositeCryptoService.decode(encoded)).toEqual({
+      classical: "0xabc",
+      postQuantum: "base64+/=",
+    });
+    expect(() => CompositeCryptoService.decode("0xabc")).toThrow(
+      "not a composite"
+    );
+  });
+
+  it("should generate a composite identity with the classical address", async () => {
+    const identity = await composite.generateIdentity();
+    const publicKeys = CompositeCryptoService.decode(identity.publicKey);
+
+    expect(identity.address).toMatch(/^0x[0-9a-fA-F]{40}$/);
+    expect(ethers.computeAddress(publicKeys.classical)).toBe(identity.address);
+    expect(composite.getCryptosuite()).toBe("composite-ecdsa-mldsa44");
+  });
+
+  it("should only verify when both halves are valid", async () => {
+    const identity = await composite.generateIdentity();
+    const other = await composite.generateIdentity();
+    const hash = composite.hash("open lock-1");
+    const signature = await composite.sign(hash, identity.privateKey);
+
+    expect(await composite.verify(hash, signature, identity.publicKey)).toBe(
+      true
+    );
+
+    // Swap in a valid signature from another key for one half at a time
+    const otherSignature = CompositeCryptoService.decode(
+      await composite.sign(hash, other.privateKey)
+    );
+    const halves = CompositeCryptoService.decode(signature);
+    const badPostQuantum = CompositeCryptoService.encode(
+      halves.classical,
+      otherSignature.postQuantum
+    );
+    const badClassical = CompositeCryptoService.encode(
+      otherSignature.classical,
+      halves.postQuantum
+    );
+
+    expect(
+      await composite.verify(hash, badPostQuantum, identity.publicKey)
+    ).toBe(false);
+    expect(await composite.verify(hash, badClassical, identity.publicKey)).toBe(
+      false
+    );
+  });
+
+  it("should let legacy verifiers check only the classical half", async () => {
+    const identity = await composite.generateIdentity();
+    const issuer = new VCIssuer(composite);
+    const vc = await issuer.issueCredential(
+      { id: "did:example:issuer123" },
+      { id: "did:example:user456", accessLevel: "premium" },
+      identity.privateKey,
+      identity.publicKey,
+      { validityDays: 30 }
+    );
+
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("DataIntegrityProof");
+    expect(proof.cryptosuite).toBe("composite-ecdsa-mldsa44");
+
+    const fullResult = await new VCVerifier(composite).verifyCredential(
+      vc,
+      identity.publicKey
+    );
+    expect(fullResult.verified).toBe(true);
+
+    const legacyComposite = new CompositeCryptoService(
+      ecdsa,
+      new PQCryptoService(),
+      { verificationMode: "classical" }
+    );
+    const classicalKey = CompositeCryptoService.decode(
+      identity.publicKey
+    ).classical;
+    const legacyResult = await new VCVerifier(legacyComposite).verifyCredential(
+      vc,
+      classicalKey
+    );
+    expect(legacyResult.verified).toBe(true);
+
+    // The classical half alone is a plain ECDSA signature over the same hash
+    const hash = ecdsa.createCanonicalHash({ ...vc, proof: undefined });
+    const classicalSignature = CompositeCryptoService.decode(
+      proof.proofValue as string
+    ).classical;
+    expect(await ecdsa.verify(hash, classicalSignature, classicalKey)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,383 @@
+import { verify as nodeVerify, JsonWebKey } from "crypto";
+import {
+  AccessControlCredentialSubject,
+  AlgorithmRegistry,
+  canonicalizeJSON,
+  CBORTag,
+  CoseService,
+  CoseSizeReport,
+  Credential,
+  CryptoService,
+  decodeCBOR,
+  ECDSACryptoService,
+  Ed25519CryptoService,
+  encodeCBOR,
+  FalconCryptoService,
+  KeyFormatService,
+  P256CryptoService,
+  PQCryptoService,
+  RSACryptoService,
+  SLHDSACryptoService,
+  VCIssuer,
+  VCVerifier,
+  W3C_VC_CONTEXT_V2,
+} from "../src/index";
+
+describe("CBOR / COSE credentials", () => {
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject: AccessControlCredentialSubject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    accessSchedule: {
+      allowedDays: [1, 2, 3, 4, 5],
+      allowedTimeRanges: [{ start: "08:00", end: "18:00" }],
+      timezone: "Europe/Berlin",
+    },
+    lock: {
+      id: "lock-building-a-room-101",
+      name: "Lab Room 101",
+      building: "A",
+      floor: "1",
+    },
+  };
+
+  const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+  const fromHex = (value: string) => new Uint8Array(Buffer.from(value, "hex"));
+
+  it("should encode CBOR as in RFC 8949 Appendix A", () => {
+    const vectors: [unknown, string][] = [
+      [0, "00"],
+      [23, "17"],
+      [24, "1818"],
+      [1000, "1903e8"],
+      [1000000000000, "1b000000e8d4a51000"],
+      [-1000, "3903e7"],
+      [false, "f4"],
+      [null, "f6"],
+      ["IETF", "6449455446"],
+      ["ü", "62c3bc"],
+      [fromHex("01020304"), "4401020304"],
+      [[1, [2, 3], [4, 5]], "8301820203820405"],
+      [{ a: 1, b: [2, 3] }, "a26161016162820203"],
+      [new CBORTag(1, 1363896240), "c11a514b67b0"],
+    ];
+    for (const [value, encoded] of vectors) {
+      expect(hex(encodeCBOR(value))).toBe(encoded);
+      expect(decodeCBOR(fromHex(encoded))).toEqual(
+        (value as object)?.constructor === Object
+          ? new Map(Object.entries(value as object))
+          : value
+      );
+    }
+
+    // Deterministic: map keys in bytewise order of their encodings
+    expect(
+      hex(
+        encodeCBOR(
+          new Map<unknown, number>([
+            ["z", 3],
+            [-1, 2],
+            [10, 1],
+          ])
+        )
+      )
+    ).toBe("a30a012002617a03");
+    expect(hex(encodeCBOR(1.5))).toBe("fa3fc00000");
+    expect(decodeCBOR(fromHex("f93e00"))).toBe(1.5);
+    expect(decodeCBOR(fromHex("fb3ff199999999999a"))).toBe(1.1);
+
+    expect(() => decodeCBOR(fromHex("9f01ff"))).toThrow("Indefinite-length");
+    expect(() => decodeCBOR(fromHex("0101"))).toThrow("Unexpected bytes");
+    expect(() => decodeCBOR(fromHex("a2616101616102"))).toThrow(
+      "duplicate key"
+    );
+    expect(() => decodeCBOR(fromHex("1bffffffffffffffff"))).toThrow("2^53");
+    expect(() => encodeCBOR(Infinity)).toThrow("non-finite");
+  });
+
+  it("should round-trip credentials losslessly with the JSON form", () => {
+    const credential: Credential = {
+      "@context": [
+        W3C_VC_CONTEXT_V2,
+        "https://locks.example.com/contexts/lock-access/v1",
+      ],
+      id: "urn:uuid:58172aac-d8ba-11ed-83dd-0b3aef56cc33",
+      type: ["VerifiableCredential", "AccessControlCredential", "ex:Custom"],
+      issuer: { id: "did:ethr:0x" + "1f".repeat(20), name: "Lab Admin" },
+      validFrom: "2025-01-01T08:30:15.250Z",
+      validUntil: "2025-02-01T00:00:00.000Z",
+      credentialSubject: {
+        ...subject,
+        accessValidFrom: "2025-01-06T00:00:00Z", // Not in toISOString form
+        "ex:badge": {
+          number: 42,
+          ratio: 0.1,
+          half: -2.5,
+          checksum: "0xAbCdEf", // Mixed case stays text
+          empty: "0x",
+          odd: "0xabc",
+          constructor: "not a prototype key",
+          id: "1",
+          "2": "text key, not the id label",
+          flags: [true, false, null],
+        },
+      },
+      credentialStatus: {
+        id: "https://example.com/status/3#94567",
+        type: "BitstringStatusListEntry",
+        statusPurpose: "revocation",
+        statusListIndex: "94567",
+        statusListCredential: "https://example.com/status/3",
+      },
+    };
+
+    const encoded = CoseService.encodeCredential(credential);
+    const decoded = CoseService.decodeCredential(encoded);
+    expect(decoded).toEqual(credential);
+    expect(canonicalizeJSON(decoded)).toBe(canonicalizeJSON(credential));
+    // Encoding the decoded credential gives the same bytes
+    expect(hex(CoseService.encodeCredential(decoded))).toBe(hex(encoded));
+
+    // Claim names and well-known terms become integers
+    const map = decodeCBOR(encoded) as Map<unknown, unknown>;
+    expect(map.get(3)).toEqual([2, 3, "ex:Custom"]);
+    expect(map.get(5)).toEqual(new CBORTag(1, 1735720215.25));
+    expect((map.get(7) as Map<unknown, unknown>).get(11)).toEqual(
+      fromHex("ab".repeat(32))
+    );
+
+    expect(() =>
+      CoseService.encodeCredential({ ...credential, type: [2] } as never)
+    ).toThrow("must not hold numbers");
+    expect(() => CoseService.decodeCredential(fromHex("a1186301"))).toThrow(
+      "Unknown claim key: 99"
+    );
+  });
+
+  it("should keep an ECDSA access credential under 400 bytes", async () => {
+    const ecdsa = new ECDSACryptoService();
+    const identity = await ecdsa.generateIdentity();
+    const issuer = new VCIssuer(ecdsa);
+    const options = {
+      credentialTypes: ["AccessControlCredential"],
+      credentialId: "urn:uuid:58172aac-d8ba-11ed-83dd-0b3aef56cc33",
+      validityDays: 30,
+    };
+
+    const cose = await issuer.issueCborCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      options
+    );
+    const json = await issuer.issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey,
+      options
+    );
+
+    const message = CoseService.decode(cose);
+    expect(message.header).toEqual({
+      alg: -47,
+      kid: "did:example:issuer123#keys-1",
+    });
+    // COSE signatures are r || s, without the recovery byte
+    expect(message.signature).toHaveLength(64);
+
+    const size = CoseService.getSizeReport(cose);
+    expect(size.total).toBe(cose.length);
+    expect(size.total).toBeLessThan(400);
+    // The same credential as JSON with an embedded proof is far larger
+    expect(JSON.stringify(json).length).toBeGreaterThan(2 * size.total);
+
+    const result = await new VCVerifier(ecdsa).verifyCborCredential(
+      cose,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(true);
+    expect(result.credential?.credentialSubject).toEqual(subject);
+    expect(result.credential?.type).toEqual([
+      "VerifiableCredential",
+      "AccessControlCredential",
+    ]);
+    expect(result.details).toMatchObject({
+      issuer: "did:example:issuer123",
+      subject: "did:example:user456",
+      alg: -47,
+      kid: "did:example:issuer123#keys-1",
+      size,
+    });
+  });
+
+  it("should issue and verify with every COSE algorithm", async () => {
+    const registry = AlgorithmRegistry.createDefault();
+    const verifier = new VCVerifier(registry);
+    const sizes: Record<string, CoseSizeReport> = {};
+
+    for (const crypto of [
+      new ECDSACryptoService(),
+      new P256CryptoService(),
+      new Ed25519CryptoService(),
+      new PQCryptoService("ML-DSA-44"),
+      new PQCryptoService("ML-DSA-65"),
+      new FalconCryptoService("Falcon-512"),
+      new SLHDSACryptoService("SLH-DSA-SHA2-128f"),
+    ] as CryptoService[]) {
+      const identity = await crypto.generateIdentity();
+      const cose = await new VCIssuer(crypto).issueCborCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey,
+        { credentialTypes: ["AccessControlCredential"], validityDays: 30 }
+      );
+
+      const result = await verifier.verifyCborCredential(
+        cose,
+        identity.publicKey
+      );
+      expect(result.verified).toBe(true);
+      expect(result.details?.alg).toBe(crypto.getCoseAlgorithm?.());
+      const size = result.details?.size as CoseSizeReport;
+      expect(size.payload).toBeLessThan(size.json);
+      sizes[String(result.details?.alg)] = size;
+
+      // Independent check of the ECDSA and EdDSA signatures with Node
+      const { toBeSigned, signature } = CoseService.decode(cose);
+      const { alg } = CoseService.decode(cose).header;
+      if (alg === -47 || alg === -7 || alg === -8) {
+        expect(
+          nodeVerify(
+            alg === -8 ? null : "sha256",
+            toBeSigned,
+            {
+              key: new KeyFormatService(crypto).publicKeyToJWK(
+                identity.publicKey
+              ) as JsonWebKey,
+              format: "jwk",
+              dsaEncoding: "ieee-p1363",
+            },
+            signature
+          )
+        ).toBe(true);
+      }
+    }
+
+    // Classical credentials stay below their JSON form, post-quantum
+    // signatures dominate the size
+    for (const alg of ["-47", "-7", "-8"]) {
+      expect(sizes[alg].total).toBeLessThan(sizes[alg].json);
+    }
+    expect(sizes["-48"].total).toBeGreaterThan(sizes["-48"].json);
+    expect(sizes["-48"]).toMatchObject({ signature: 2420 });
+    expect(sizes["-49"]).toMatchObject({ signature: 3309 });
+    expect(sizes["SLH-DSA-SHA2-128f"]).toMatchObject({ signature: 17088 });
+  });
+
+  it("should reject tampered messages, keys and algorithms", async () => {
+    const ecdsa = new ECDSACryptoService();
+    const identity = await ecdsa.generateIdentity();
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const cose = await new VCIssuer(ecdsa).issueCborCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      { validityDays: 30 }
+    );
+    const [header, , payload, signature] = (decodeCBOR(cose) as CBORTag)
+      .value as Uint8Array[];
+    const message = (
+      protectedHeader: Uint8Array,
+      content: Uint8Array,
+      sig = signature
+    ) =>
+      encodeCBOR(new CBORTag(18, [protectedHeader, new Map(), content, sig]));
+
+    // Changed payload, same signature
+    const credential = CoseService.decodeCredential(payload);
+    const tampered = message(
+      header,
+      CoseService.encodeCredential({
+        ...credential,
+        credentialSubject: { ...subject, accessLevel: "admin" },
+      })
+    );
+    expect(
+      await verifier.verifyCborCredential(tampered, identity.publicKey)
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+
+    const other = await ecdsa.generateIdentity();
+    expect(
+      await verifier.verifyCborCredential(cose, other.publicKey)
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+
+    // Swapped and unknown algorithms
+    const swapped = message(
+      encodeCBOR(new Map<number, unknown>([[1, -7]])),
+      payload
+    );
+    expect(
+      (await verifier.verifyCborCredential(swapped, identity.publicKey))
+        .verified
+    ).toBe(false);
+    const unknown = message(
+      encodeCBOR(new Map<number, unknown>([[1, -257]])),
+      payload
+    );
+    expect(
+      await verifier.verifyCborCredential(unknown, identity.publicKey)
+    ).toMatchObject({
+      verified: false,
+      error: "Unsupported COSE algorithm: -257",
+    });
+
+    // Validly signed, but with the key of another issuer
+    const stolenKid = await new CoseService(ecdsa).signCredential(
+      credential,
+      identity.privateKey,
+      { kid: "did:example:attacker#keys-1" }
+    );
+    expect(
+      await verifier.verifyCborCredential(stolenKid, identity.publicKey)
+    ).toMatchObject({
+      verified: false,
+      error:
+        "COSE kid did:example:attacker#keys-1 does not belong to issuer did:example:issuer123",
+    });
+    expect(
+      await verifier.verifyCborCredential(cose, identity.publicKey, {
+        kid: "did:example:issuer123#keys-2",
+      })
+    ).toMatchObject({
+      verified: false,
+      error: expect.stringContaining("Key id mismatch"),
+    });
+
+    const expired = await verifier.verifyCborCredential(
+      cose,
+      identity.publicKey,
+      { currentTime: new Date(Date.now() + 31 * 24 * 60 * 60 * 1000) }
+    );
+    expect(expired.verified).toBe(false);
+    expect(expired.error).toContain("Credential expired");
+
+    expect(
+      await verifier.verifyCborCredential(
+        encodeCBOR(new CBORTag(18, [header, payload])),
+        identity.publicKey
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Verification failed: Error: Malformed COSE_Sign1 message",
+    });
+  });
+
+  it("should require a service with a COSE algorithm", () => {
+    expect(() => new CoseService(new RSACryptoService())).toThrow(
+      "RSACryptoService has no COSE algorithm"
+    );
+  });
+});
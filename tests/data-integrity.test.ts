@@ -0,0 +1,251 @@
+import { createHash, verify as nodeVerify, JsonWebKey } from "crypto";
+import { ethers } from "ethers";
+import {
+  AlgorithmRegistry,
+  Credential,
+  DataIntegrityService,
+  ECDSACryptoService,
+  InMemorySigner,
+  KeyFormatService,
+  P256CryptoService,
+  VCIssuer,
+  VCVerifier,
+  VerifiableCredential,
+  W3C_VC_CONTEXT_V2,
+} from "../src/index";
+
+describe("DataIntegrityService", () => {
+  const p256 = new P256CryptoService();
+  const dataIntegrity = new DataIntegrityService(p256);
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject = { id: "did:example:user456", name: "Alice" };
+
+  function proofOf(vc: VerifiableCredential) {
+    return Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+  }
+
+  it("should hash the JCS proof configuration together with the document", async () => {
+    const document: Credential = {
+      "@context": [W3C_VC_CONTEXT_V2],
+      type: ["VerifiableCredential"],
+      issuer: "did:example:issuer123",
+      validFrom: "2025-01-01T00:00:00Z",
+      credentialSubject: { id: "did:example:user456", name: "Alice" },
+    };
+    const proofOptions = {
+      type: "DataIntegrityProof",
+      cryptosuite: "ecdsa-jcs-2019",
+      created: "2025-01-01T00:00:00Z",
+      verificationMethod: "did:example:issuer123#keys-1",
+      proofPurpose: "assertionMethod",
+    };
+
+    const canonicalProofConfig =
+      '{"@context":["https://www.w3.org/ns/credentials/v2"],' +
+      '"created":"2025-01-01T00:00:00Z","cryptosuite":"ecdsa-jcs-2019",' +
+      '"proofPurpose":"assertionMethod","type":"DataIntegrityProof",' +
+      '"verificationMethod":"did:example:issuer123#keys-1"}';
+    const canonicalDocument =
+      '{"@context":["https://www.w3.org/ns/credentials/v2"],' +
+      '"credentialSubject":{"id":"did:example:user456","name":"Alice"},' +
+      '"issuer":"did:example:issuer123","type":["VerifiableCredential"],' +
+      '"validFrom":"2025-01-01T00:00:00Z"}';
+    const sha256 = (data: string) =>
+      createHash("sha256").update(data).digest("hex");
+
+    expect(await dataIntegrity.createHashData(document, proofOptions)).toBe(
+      "0x" + sha256(canonicalProofConfig) + sha256(canonicalDocument)
+    );
+  });
+
+  it("should issue proofs that verify as ECDSA P-256 with SHA-256 over the hash data", async () => {
+    const identity = await p256.generateIdentity();
+    const vc = await new VCIssuer(p256).issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey,
+      {
+        cryptosuite: "ecdsa-jcs-2019",
+        verificationMethod: dataIntegrity.getVerificationMethod(
+          identity.publicKey
+        ),
+      }
+    );
+
+    const { proof, ...document } = vc;
+    const { proofValue, ...proofOptions } = proofOf(vc);
+    expect(proofOptions).toEqual({
+      type: "DataIntegrityProof",
+      cryptosuite: "ecdsa-jcs-2019",
+      created: expect.any(String),
+      verificationMethod: expect.stringMatching(/^did:key:zDn\w+#zDn\w+$/),
+      proofPurpose: "assertionMethod",
+    });
+    expect(proofValue).toMatch(/^z[1-9A-HJ-NP-Za-km-z]+$/);
+
+    // Independent check with Node's WebCrypto-compatible ECDSA (IEEE P1363)
+    const hashData = await dataIntegrity.createHashData(
+      document as Credential,
+      proofOptions
+    );
+    const signature = ethers.toBeArray(
+      ethers.decodeBase58(proofValue.slice(1))
+    );
+    expect(
+      nodeVerify(
+        "sha256",
+        ethers.getBytes(hashData),
+        {
+          key: new KeyFormatService(p256).publicKeyToJWK(
+            identity.publicKey
+          ) as JsonWebKey,
+          format: "jwk",
+          dsaEncoding: "ieee-p1363",
+        },
+        Buffer.from(ethers.zeroPadValue(signature, 64).slice(2), "hex")
+      )
+    ).toBe(true);
+  });
+
+  it("should verify jcs and rdfc proofs with the issuer's service or a registry", async () => {
+    const identity = await p256.generateIdentity();
+    const issuer = new VCIssuer(p256);
+
+    for (const cryptosuite of ["ecdsa-jcs-2019", "ecdsa-rdfc-2019"] as const) {
+      const vc = await issuer.issueCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey,
+        identity.publicKey,
+        { cryptosuite }
+      );
+      expect(proofOf(vc).cryptosuite).toBe(cryptosuite);
+
+      for (const verifier of [
+        new VCVerifier(p256),
+        new VCVerifier(AlgorithmRegistry.createDefault()),
+      ]) {
+        const result = await verifier.verifyCredential(vc, identity.publicKey);
+        expect(result.verified).toBe(true);
+      }
+    }
+  });
+
+  it("should reject changed proof options and claims", async () => {
+    const identity = await p256.generateIdentity();
+    const verifier = new VCVerifier(p256);
+
+    for (const cryptosuite of ["ecdsa-jcs-2019", "ecdsa-rdfc-2019"] as const) {
+      const vc = await new VCIssuer(p256).issueCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey,
+        identity.publicKey,
+        { cryptosuite }
+      );
+      const proof = proofOf(vc);
+
+      const tampered: VerifiableCredential[] = [
+        { ...vc, credentialSubject: { ...subject, name: "Mallory" } },
+        { ...vc, proof: { ...proof, created: "2020-01-01T00:00:00Z" } },
+        {
+          ...vc,
+          proof: { ...proof, verificationMethod: "did:example:evil#keys-1" },
+        },
+        { ...vc, proof: { ...proof, proofPurpose: "authentication" } },
+      ];
+      for (const credential of tampered) {
+        const result = await verifier.verifyCredential(
+          credential,
+          identity.publicKey
+        );
+        expect(result.verified).toBe(false);
+      }
+    }
+  });
+
+  it("should reject a proof with a different cryptosuite", async () => {
+    const identity = await p256.generateIdentity();
+    const vc = await new VCIssuer(p256).issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey,
+      { cryptosuite: "ecdsa-jcs-2019" }
+    );
+
+    const relabeled = {
+      ...vc,
+      proof: { ...proofOf(vc), cryptosuite: "ecdsa-rdfc-2019" },
+    };
+    const result = await new VCVerifier(p256).verifyCredential(
+      relabeled,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(false);
+  });
+
+  it("should reject terms that no context defines under rdfc", async () => {
+    const identity = await p256.generateIdentity();
+    const issuer = new VCIssuer(p256);
+
+    await expect(
+      issuer.issueCredential(
+        issuerInfo,
+        { ...subject, accessLevel: "standard" },
+        identity.privateKey,
+        identity.publicKey,
+        { cryptosuite: "ecdsa-rdfc-2019" }
+      )
+    ).rejects.toThrow('Undefined JSON-LD term "accessLevel"');
+
+    await expect(
+      issuer.issueCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey,
+        identity.publicKey,
+        {
+          cryptosuite: "ecdsa-rdfc-2019",
+          additionalContexts: ["https://example.com/contexts/lock-v1"],
+        }
+      )
+    ).rejects.toThrow("https://example.com/contexts/lock-v1");
+  });
+
+  it("should sign with external signers", async () => {
+    const signer = await InMemorySigner.generate(p256);
+    const vc = await new VCIssuer(p256).issueCredential(
+      issuerInfo,
+      subject,
+      signer,
+      signer.publicKey,
+      { cryptosuite: "ecdsa-rdfc-2019" }
+    );
+
+    const result = await new VCVerifier(p256).verifyCredential(
+      vc,
+      signer.publicKey
+    );
+    expect(result.verified).toBe(true);
+  });
+
+  it("should require P-256 keys", async () => {
+    expect(() => new DataIntegrityService(new ECDSACryptoService())).toThrow(
+      "Data Integrity cryptosuites require P256CryptoService"
+    );
+
+    const ecdsa = new ECDSACryptoService();
+    const identity = await ecdsa.generateIdentity();
+    await expect(
+      new VCIssuer(ecdsa).issueCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey,
+        identity.publicKey,
+        { cryptosuite: "ecdsa-jcs-2019" }
+      )
+    ).rejects.toThrow("require P256CryptoService");
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  Ed25519CryptoService,
+  VCIssuer,
+  VCVerifier,
+  AccessControlCredentialSubject,
+} from "../src/index";
+
+describe("Ed25519CryptoService", () => {
+  let crypto: Ed25519CryptoService;
+  let issuer: VCIssuer;
+  let verifier: VCVerifier;
+
+  beforeAll(() => {
+    crypto = new Ed25519CryptoService();
+    issuer = new VCIssuer(crypto);
+    verifier = new VCVerifier(crypto);
+  });
+
+  it("should generate a hex-encoded Ed25519 identity", async () => {
+    const identity = await crypto.generateIdentity();
+
+    expect(identity.privateKey).toMatch(/^0x[0-9a-f]{64}$/i);
+    expect(identity.publicKey).toMatch(/^0x[0-9a-f]{64}$/i);
+    expect(identity.address).toMatch(/^0x[0-9a-f]{40}$/i);
+  });
+
+  it("should sign and verify a hash", async () => {
+    const identity = await crypto.generateIdentity();
+    const hash = crypto.hash("open lock-1");
+
+    const signature = await crypto.sign(hash, identity.privateKey);
+    expect(signature).toMatch(/^0x[0-9a-f]{128}$/i);
+
+    expect(await crypto.verify(hash, signature, identity.publicKey)).toBe(true);
+    expect(
+      await crypto.verify(
+        crypto.hash("open lock-2"),
+        signature,
+        identity.publicKey
+      )
+    ).toBe(false);
+
+    const otherIdentity = await crypto.generateIdentity();
+    expect(await crypto.verify(hash, signature, otherIdentity.publicKey)).toBe(
+      false
+    );
+  });
+
+  it("should issue and verify a credential through VCIssuer/VCVerifier", async () => {
+    const identity = await crypto.generateIdentity();
+    const credentialSubject: AccessControlCredentialSubject = {
+      id: "did:example:user456",
+      userMetaDataHash: crypto.hash("user@example.com"),
+      lock: { id: "lock-1", name: "Main Entrance" },
+      permissions: ["unlock"],
+    };
+
+    const vc = await issuer.issueCredential(
+      { id: "did:example:issuer123" },
+      credentialSubject,
+      identity.privateKey,
+      identity.publicKey,
+      { credentialTypes: ["LockAccessCredential"], validityDays: 30 }
+    );
+
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("Ed25519Sha256Signature");
+
+    const result = await verifier.verifyCredential(vc, identity.publicKey);
+    expect(result.verified).toBe(true);
+
+    const tamperedVC = {
+      ...vc,
+      credentialSubject: { ...credentialSubject, permissions: ["admin"] },
+    };
+    const tamperedResult = await verifier.verifyCredential(
+      tamperedVC,
+      identity.publicKey
+    );
+    expect(tamperedResult.verified).toBe(false);
+    expect(tamperedResult.error).toBe("Invalid signature");
+  });
+});
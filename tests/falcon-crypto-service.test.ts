@@ -0,0 +1,52 @@
+import {
+  FalconCryptoService,
+  FalconVariant,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("FalconCryptoService - Falcon variants", () => {
+  it("should default to Falcon-512", () => {
+    const crypto = new FalconCryptoService();
+    expect(crypto.getVariant()).toBe("Falcon-512");
+    expect(crypto.getCryptosuite()).toBe("falcon512");
+  });
+
+  it("should reject unknown variants", () => {
+    expect(
+      () => new FalconCryptoService("Falcon-2048" as FalconVariant)
+    ).toThrow("Falcon variant must be");
+  });
+
+  it("should issue and verify a credential with Falcon-1024", async () => {
+    const crypto = new FalconCryptoService("Falcon-1024");
+    const identity = await crypto.generateIdentity();
+
+    // Falcon-1024 public keys are 1793 bytes raw
+    expect(Buffer.from(identity.publicKey, "base64").length).toBe(1793);
+
+    const vc = await new VCIssuer(crypto).issueCredential(
+      { id: "did:example:issuer123" },
+      { id: "did:example:user456", accessLevel: "premium" },
+      identity.privateKey,
+      identity.publicKey,
+      { validityDays: 365 }
+    );
+
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("DataIntegrityProof");
+    expect(proof.cryptosuite).toBe("falcon1024");
+
+    const result = await new VCVerifier(crypto).verifyCredential(
+      vc,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(true);
+
+    const falcon512Result = await new VCVerifier(
+      new FalconCryptoService("Falcon-512")
+    ).verifyCredential(vc, identity.publicKey);
+    expect(falcon512Result.verified).toBe(false);
+    expect(falcon512Result.error).toContain("Cryptosuite mismatch");
+  });
+});
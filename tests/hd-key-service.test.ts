@@ -0,0 +1,112 @@
+import {
+  HDKeyService,
+  ECDSACryptoService,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("HDKeyService", () => {
+  // BIP-39 test mnemonic used by ethers, MetaMask and Hardhat
+  const testMnemonic =
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+  it("should match the BIP-32 and BIP-44 test vectors", () => {
+    // BIP-32 test vector 1, chain m/0H
+    const bip32 = HDKeyService.fromSeed("0x000102030405060708090a0b0c0d0e0f");
+    expect(bip32.deriveIdentityAtPath("m/0'").privateKey).toBe(
+      "0xedb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea"
+    );
+
+    // First Ethereum account of the test mnemonic
+    const hd = HDKeyService.fromMnemonic(testMnemonic);
+    expect(hd.deriveIdentityAtPath("m/44'/60'/0'/0/0").address).toBe(
+      "0x9858EfFD232B4033E47d90003D41EC34EcaEda94"
+    );
+  });
+
+  it("should derive site, building and lock keys along the documented path", () => {
+    const hd = HDKeyService.fromMnemonic(testMnemonic);
+
+    expect(hd.getPath({ site: 3 })).toBe("m/44'/60'/3'");
+    expect(hd.getPath({ site: 3, building: 1 })).toBe("m/44'/60'/3'/1'");
+    expect(hd.getPath({ site: 3, building: 1, lock: 42 })).toBe(
+      "m/44'/60'/3'/1'/42'"
+    );
+    expect(hd.deriveIdentity({ site: 3, building: 1, lock: 42 })).toEqual(
+      hd.deriveIdentityAtPath("m/44'/60'/3'/1'/42'")
+    );
+
+    const addresses = new Set(
+      [0, 1, 2].flatMap((lock) => [
+        hd.deriveIdentity({ site: 0, building: 0, lock }).address,
+        hd.deriveIdentity({ site: 0, building: 1, lock }).address,
+        hd.deriveIdentity({ site: 1, building: 0, lock }).address,
+      ])
+    );
+    expect(addresses.size).toBe(9);
+  });
+
+  it("should restore every key from the mnemonic backup", () => {
+    const hd = HDKeyService.generate({ passphrase: "site-secret" });
+    const phrase = hd.getMnemonic() as string;
+    expect(phrase.split(" ")).toHaveLength(24);
+
+    const location = { site: 7, building: 2, lock: 1500 };
+    const restored = HDKeyService.fromMnemonic(
+      `  ${phrase.toUpperCase()} `,
+      "site-secret"
+    );
+    expect(restored.deriveIdentity(location)).toEqual(
+      hd.deriveIdentity(location)
+    );
+
+    const wrongPassphrase = HDKeyService.fromMnemonic(phrase);
+    expect(wrongPassphrase.deriveIdentity(location).address).not.toBe(
+      hd.deriveIdentity(location).address
+    );
+    expect(
+      HDKeyService.generate({ wordCount: 12 }).getMnemonic()?.split(" ")
+    ).toHaveLength(12);
+    expect(
+      HDKeyService.fromSeed("0x" + "11".repeat(32)).getMnemonic()
+    ).toBeUndefined();
+  });
+
+  it("should produce keys usable with ECDSACryptoService", async () => {
+    const crypto = new ECDSACryptoService();
+    const hd = HDKeyService.generate();
+    const identity = hd.deriveIdentity({ site: 0, building: 0, lock: 5 });
+
+    const hash = crypto.hash("lock challenge");
+    const signature = await crypto.sign(hash, identity.privateKey);
+    expect(await crypto.verify(hash, signature, identity.publicKey)).toBe(true);
+
+    const signer = hd.deriveSigner({ site: 0 });
+    const vc = await new VCIssuer(crypto).issueCredential(
+      { id: "did:example:site0" },
+      { id: "did:example:user1" },
+      signer,
+      signer.publicKey
+    );
+    expect(
+      (await new VCVerifier(crypto).verifyCredential(vc, signer.publicKey))
+        .verified
+    ).toBe(true);
+  });
+
+  it("should reject invalid input", () => {
+    expect(() => HDKeyService.fromMnemonic("abandon abandon abandon")).toThrow(
+      "Invalid mnemonic phrase"
+    );
+    expect(() => HDKeyService.generate({ wordCount: 13 })).toThrow(
+      "Mnemonic must have 12, 15, 18, 21 or 24 words"
+    );
+
+    const hd = HDKeyService.fromMnemonic(testMnemonic);
+    expect(() => hd.getPath({ site: 0, lock: 1 })).toThrow(
+      "A lock key requires a building index"
+    );
+    expect(() => hd.getPath({ site: 2 ** 31 })).toThrow("Invalid HD index");
+    expect(() => hd.getPath({ site: -1 })).toThrow("Invalid HD index");
+  });
+});
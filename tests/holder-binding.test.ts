@@ -0,0 +1,396 @@
+import {
+  AccessControlCredentialSubject,
+  BBSCryptoService,
+  ECDSACryptoService,
+  ECDSAProof,
+  Ed25519CryptoService,
+  HolderBindingService,
+  OffChainService,
+  VCHolder,
+  VCIssuer,
+  VCVerifier,
+  VPBuilder,
+  VPVerifier,
+  VerifiableCredential,
+} from "../src/index";
+
+describe("Holder binding", () => {
+  const ecdsa = new ECDSACryptoService();
+  const offChain = new OffChainService(ecdsa);
+  const holder = new VCHolder();
+  const subject: AccessControlCredentialSubject = {
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    lock: { id: "lock-building-a-room-101", name: "Lab Room 101" },
+  };
+  const domain = "lock-building-a-room-101";
+
+  async function issueLockCredential(
+    credentialSubject: AccessControlCredentialSubject
+  ) {
+    const issuer = await ecdsa.generateIdentity();
+    const vc = await new VCIssuer(ecdsa, offChain).issueOffChainCredential(
+      { id: "did:example:issuer123" },
+      credentialSubject,
+      issuer.privateKey,
+      { publicKey: issuer.publicKey, credentialTypes: ["LockAccessCredential"] }
+    );
+    return { vc, issuer };
+  }
+
+  it("should admit only the holder of a did:key bound credential", async () => {
+    const holderIdentity = await ecdsa.generateIdentity();
+    const binding = new HolderBindingService(ecdsa);
+    const boundSubject = binding.bindSubject(subject, holderIdentity.publicKey);
+    expect(boundSubject.id).toBe(
+      binding.createDidKey(holderIdentity.publicKey)
+    );
+    expect(boundSubject.id).toMatch(/^did:key:zQ3s/);
+
+    const { vc, issuer } = await issueLockCredential(boundSubject);
+    expect(binding.resolveHolderKey(vc)).toBe(holderIdentity.publicKey);
+
+    const verifier = new VCVerifier(ecdsa, offChain);
+    const challenge = offChain.createChallenge();
+    const signature = await holder.proveHolderBinding(
+      challenge,
+      holderIdentity.privateKey,
+      domain
+    );
+    const verify = (holderBinding: {
+      challenge: string;
+      domain: string;
+      signature: string;
+    }) =>
+      verifier.verifyOffChainCredential(vc, issuer.publicKey, {
+        holderBinding,
+      });
+
+    const result = await verify({ challenge, domain, signature });
+    expect(result.verified).toBe(true);
+    expect(result.details?.holderPublicKey).toBe(holderIdentity.publicKey);
+
+    // A copied credential without the holder key
+    const attacker = await ecdsa.generateIdentity();
+    expect(
+      await verify({
+        challenge,
+        domain,
+        signature: await holder.proveHolderBinding(
+          challenge,
+          attacker.privateKey,
+          domain
+        ),
+      })
+    ).toMatchObject({
+      verified: false,
+      error: "Holder binding failed: Invalid possession signature",
+    });
+
+    // A recorded response replayed to a new challenge
+    expect(
+      await verify({ challenge: offChain.createChallenge(), domain, signature })
+    ).toMatchObject({
+      verified: false,
+      error: "Holder binding failed: Invalid possession signature",
+    });
+
+    // A response relayed by another lock that sent the same challenge
+    expect(
+      await verify({ challenge, domain: "lock-building-b-room-202", signature })
+    ).toMatchObject({
+      verified: false,
+      error: "Holder binding failed: Invalid possession signature",
+    });
+  });
+
+  it("should reject bound credentials without proof of possession", async () => {
+    const holderIdentity = await ecdsa.generateIdentity();
+    const binding = new HolderBindingService(ecdsa);
+    const verifier = new VCVerifier(ecdsa, offChain);
+    const error =
+      "Holder binding failed: Credential is bound to a holder key, but no proof of possession was given";
+
+    for (const method of ["did:key", "cnf"] as const) {
+      const { vc, issuer } = await issueLockCredential(
+        binding.bindSubject(subject, holderIdentity.publicKey, method)
+      );
+      expect(HolderBindingService.isBound(vc)).toBe(true);
+      expect(
+        await verifier.verifyOffChainCredential(vc, issuer.publicKey)
+      ).toMatchObject({ verified: false, error });
+
+      // Unless the caller skips the check explicitly
+      expect(
+        (
+          await verifier.verifyOffChainCredential(vc, issuer.publicKey, {
+            holderBinding: false,
+          })
+        ).verified
+      ).toBe(true);
+    }
+  });
+
+  it("should require proof of possession for JWT and CBOR credentials", async () => {
+    const holderIdentity = await ecdsa.generateIdentity();
+    const boundSubject = new HolderBindingService(ecdsa).bindSubject(
+      subject,
+      holderIdentity.publicKey
+    );
+    const issuer = await ecdsa.generateIdentity();
+    const vcIssuer = new VCIssuer(ecdsa);
+    const verifier = new VCVerifier(ecdsa);
+    const jwt = await vcIssuer.issueJwtCredential(
+      { id: "did:example:issuer123" },
+      boundSubject,
+      issuer.privateKey
+    );
+    const cose = await vcIssuer.issueCborCredential(
+      { id: "did:example:issuer123" },
+      boundSubject,
+      issuer.privateKey
+    );
+    const verifyAll = (options: {
+      holderBinding?: { challenge: string; domain: string; signature: string };
+    }) =>
+      Promise.all([
+        verifier.verifyJwtCredential(jwt, issuer.publicKey, options),
+        verifier.verifyCborCredential(cose, issuer.publicKey, options),
+      ]);
+
+    for (const result of await verifyAll({})) {
+      expect(result).toMatchObject({
+        verified: false,
+        error:
+          "Holder binding failed: Credential is bound to a holder key, but no proof of possession was given",
+      });
+    }
+
+    const challenge = offChain.createChallenge();
+    const holderBinding = {
+      challenge,
+      domain,
+      signature: await holder.proveHolderBinding(
+        challenge,
+        holderIdentity.privateKey,
+        domain
+      ),
+    };
+    for (const result of await verifyAll({ holderBinding })) {
+      expect(result.verified).toBe(true);
+      expect(result.details?.holderPublicKey).toBe(holderIdentity.publicKey);
+    }
+  });
+
+  it("should keep derived credentials bound to the holder key", async () => {
+    const bbs = new BBSCryptoService();
+    const issuer = await bbs.generateIdentity();
+    const holderIdentity = await ecdsa.generateIdentity();
+    const boundSubject = new HolderBindingService(ecdsa).bindSubject(
+      subject,
+      holderIdentity.publicKey
+    );
+    const vc = await new VCIssuer(bbs).issueSelectiveDisclosureCredential(
+      { id: "did:example:issuer123" },
+      boundSubject,
+      issuer.privateKey,
+      issuer.publicKey
+    );
+    const verifier = new VCVerifier(bbs);
+
+    // The holder key is revealed even when not asked for
+    const derived = await new VCHolder(bbs).deriveCredential(
+      vc,
+      ["lock.id"],
+      issuer.publicKey
+    );
+    expect(derived.credentialSubject).toEqual({
+      id: boundSubject.id,
+      lock: { id: subject.lock?.id },
+    });
+    expect(
+      await verifier.verifyDerivedCredential(derived, issuer.publicKey)
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Holder binding failed: Credential is bound to a holder key, but no proof of possession was given",
+    });
+
+    const challenge = offChain.createChallenge();
+    const result = await verifier.verifyDerivedCredential(
+      derived,
+      issuer.publicKey,
+      {
+        holderBinding: {
+          challenge,
+          domain,
+          signature: await holder.proveHolderBinding(
+            challenge,
+            holderIdentity.privateKey,
+            domain
+          ),
+        },
+      }
+    );
+    expect(result.verified).toBe(true);
+    expect(result.details?.holderPublicKey).toBe(holderIdentity.publicKey);
+
+    // A proof derived without the holder key claim does not verify
+    const claims = bbs.createClaimMessages(boundSubject);
+    const lockIndex = claims.findIndex((claim) => claim.path === "lock.id");
+    const proof = vc.proof as ECDSAProof;
+    const unbound: VerifiableCredential = {
+      ...derived,
+      credentialSubject: { lock: { id: subject.lock?.id } },
+      proof: {
+        ...(derived.proof as ECDSAProof),
+        proofValue: await bbs.deriveProof(
+          claims.map((claim) => claim.message),
+          bbs.createHeader(vc, true),
+          proof.proofValue,
+          issuer.publicKey,
+          [lockIndex]
+        ),
+        disclosedIndexes: [lockIndex],
+      },
+    };
+    expect(
+      await verifier.verifyDerivedCredential(unbound, issuer.publicKey)
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+  });
+
+  it("should take the presentation proof as proof of possession", async () => {
+    const holderIdentity = await ecdsa.generateIdentity();
+    const boundSubject = new HolderBindingService(ecdsa).bindSubject(
+      subject,
+      holderIdentity.publicKey
+    );
+    const { vc, issuer } = await issueLockCredential(boundSubject);
+    const vpVerifier = new VPVerifier(ecdsa);
+    const options = {
+      challenge: offChain.createChallenge(),
+      domain,
+      issuerPublicKeys: { "did:example:issuer123": issuer.publicKey },
+    };
+    const present = (privateKey: string, holderId: string) =>
+      new VPBuilder(ecdsa).buildPresentation(vc, privateKey, {
+        holder: holderId,
+        challenge: options.challenge,
+        domain,
+      });
+
+    const vp = await present(
+      holderIdentity.privateKey,
+      boundSubject.id as string
+    );
+    expect(
+      (
+        await vpVerifier.verifyPresentation(
+          vp,
+          holderIdentity.publicKey,
+          options
+        )
+      ).verified
+    ).toBe(true);
+
+    // Presented by someone else, with their own key
+    const attacker = await ecdsa.generateIdentity();
+    expect(
+      await vpVerifier.verifyPresentation(
+        await present(attacker.privateKey, "did:example:attacker"),
+        attacker.publicKey,
+        options
+      )
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Credential 0 failed verification: Holder binding failed: Credential is bound to another holder key",
+    });
+  });
+
+  it("should bind the holder key through a cnf claim", async () => {
+    const ed25519 = new Ed25519CryptoService();
+    const holderIdentity = await ed25519.generateIdentity();
+    const binding = new HolderBindingService(ed25519);
+    const boundSubject = binding.bindSubject(
+      { ...subject, id: "did:example:user456" },
+      holderIdentity.publicKey,
+      "cnf"
+    );
+    expect(boundSubject.id).toBe("did:example:user456");
+    expect(boundSubject.cnf).toEqual({
+      jwk: { kty: "OKP", crv: "Ed25519", x: expect.any(String) },
+    });
+
+    const issuer = await ecdsa.generateIdentity();
+    const vc = await new VCIssuer(ecdsa).issueCredential(
+      { id: "did:example:issuer123" },
+      boundSubject,
+      issuer.privateKey,
+      issuer.publicKey
+    );
+
+    const challenge = offChain.createChallenge();
+    const signature = await holder.proveHolderBinding(
+      challenge,
+      holderIdentity.privateKey,
+      domain,
+      { cryptoService: ed25519 }
+    );
+    const verifier = new VCVerifier(ecdsa);
+    const result = await verifier.verifyCredential(vc, issuer.publicKey, {
+      holderBinding: { challenge, domain, signature, cryptoService: ed25519 },
+    });
+    expect(result.verified).toBe(true);
+    expect(result.details?.holderPublicKey).toBe(holderIdentity.publicKey);
+
+    // The cnf key is checked with the holder key's algorithm only
+    expect(
+      await verifier.verifyCredential(vc, issuer.publicKey, {
+        holderBinding: { challenge, domain, signature },
+      })
+    ).toMatchObject({
+      verified: false,
+      error: expect.stringContaining("Holder binding failed"),
+    });
+  });
+
+  it("should reject credentials that name no holder key", async () => {
+    const { vc, issuer } = await issueLockCredential({
+      ...subject,
+      id: "did:example:user456",
+    });
+    const verifier = new VCVerifier(ecdsa, offChain);
+    const holderIdentity = await ecdsa.generateIdentity();
+    const challenge = offChain.createChallenge();
+
+    // Without holderBinding, the credential alone still verifies
+    expect(
+      (await verifier.verifyOffChainCredential(vc, issuer.publicKey)).verified
+    ).toBe(true);
+    expect(
+      await verifier.verifyOffChainCredential(vc, issuer.publicKey, {
+        holderBinding: {
+          challenge,
+          domain,
+          signature: await holder.proveHolderBinding(
+            challenge,
+            holderIdentity.privateKey,
+            domain
+          ),
+        },
+      })
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Holder binding failed: Credential subject is not bound to a holder key",
+    });
+    expect(
+      await new HolderBindingService().verifyPossession(vc, "", "0x", domain)
+    ).toMatchObject({ valid: false, reason: "No challenge to verify against" });
+    expect(
+      await new HolderBindingService().verifyPossession(vc, challenge, "0x", "")
+    ).toMatchObject({ valid: false, reason: "No domain to verify against" });
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  AccessControlCredentialSubject,
+  CryptoIdentity,
+  ECDSACryptoService,
+  ECDSAProof,
+  HolderBindingService,
+  OffChainService,
+  VCIssuer,
+  VCVerifier,
+  VerifiableCredential,
+} from "../src/index";
+
+describe("VCVerifier - Recovering the issuer key", () => {
+  const ecdsa = new ECDSACryptoService();
+  const offChain = new OffChainService(ecdsa);
+  const issuer = new VCIssuer(ecdsa, offChain);
+  const verifier = new VCVerifier(ecdsa, offChain);
+  const subject: AccessControlCredentialSubject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    lock: { id: "lock-building-a-room-101", name: "Lab Room 101" },
+  };
+
+  function issueFrom(identity: CryptoIdentity, issuerId: string) {
+    return issuer.issueOffChainCredential(
+      { id: issuerId },
+      subject,
+      identity.privateKey,
+      { publicKey: identity.publicKey }
+    );
+  }
+
+  it("should report which trusted issuer signed", async () => {
+    const issuers = await Promise.all(
+      [0, 1, 2].map(() => ecdsa.generateIdentity())
+    );
+    // Trusted by public key or by address
+    const trustedIssuers = {
+      "did:example:issuer0": [issuers[0].publicKey],
+      "did:example:issuer1": [issuers[1].address],
+      "did:example:issuer2": [issuers[2].publicKey],
+    };
+
+    for (const [index, identity] of issuers.entries()) {
+      const vc = await issueFrom(identity, `did:example:issuer${index}`);
+      const result = await verifier.verifyOffChainCredential(vc, {
+        trustedIssuers,
+      });
+      expect(result.verified).toBe(true);
+      expect(result.details).toMatchObject({
+        issuer: `did:example:issuer${index}`,
+        signerPublicKeys: [identity.publicKey],
+        signerAddresses: [identity.address],
+      });
+    }
+
+    // Signed by a key nobody trusts, or tampered with
+    const stranger = await ecdsa.generateIdentity();
+    const untrusted = await issueFrom(stranger, "did:example:issuer0");
+    expect(
+      await verifier.verifyOffChainCredential(untrusted, { trustedIssuers })
+    ).toMatchObject({
+      verified: false,
+      error: `Signer ${stranger.address} is not a trusted key of issuer did:example:issuer0`,
+    });
+
+    // A trusted key only vouches for its own issuer
+    const impersonated = await issueFrom(issuers[1], "did:example:issuer0");
+    expect(
+      await verifier.verifyOffChainCredential(impersonated, { trustedIssuers })
+    ).toMatchObject({
+      verified: false,
+      error: `Signer ${issuers[1].address} is not a trusted key of issuer did:example:issuer0`,
+    });
+    const untrustedIssuer = await issueFrom(issuers[1], "did:example:issuer9");
+    expect(
+      await verifier.verifyOffChainCredential(untrustedIssuer, {
+        trustedIssuers,
+      })
+    ).toMatchObject({
+      verified: false,
+      error: `Signer ${issuers[1].address} is not a trusted key of issuer did:example:issuer9`,
+    });
+
+    // The verification method must be a key of the issuer
+    const moved = await issueFrom(issuers[0], "did:example:issuer0");
+    expect(
+      await verifier.verifyOffChainCredential(
+        {
+          ...moved,
+          proof: {
+            ...(moved.proof as ECDSAProof),
+            verificationMethod: "did:example:issuer1#keys-1",
+          },
+        },
+        { trustedIssuers }
+      )
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Verification method did:example:issuer1#keys-1 does not belong to issuer did:example:issuer0",
+    });
+
+    const vc = await issueFrom(issuers[0], "did:example:issuer0");
+    const tampered = await verifier.verifyOffChainCredential(
+      { ...vc, credentialSubject: { ...subject, accessLevel: "admin" } },
+      { trustedIssuers }
+    );
+    expect(tampered.verified).toBe(false);
+    expect(tampered.error).toMatch(
+      /^Signer 0x[0-9a-fA-F]{40} is not a trusted key of issuer did:example:issuer0$/
+    );
+  });
+
+  it("should check the key the verification method resolves to", async () => {
+    const identity = await ecdsa.generateIdentity();
+    const didKey = new HolderBindingService(ecdsa).createDidKey(
+      identity.publicKey
+    );
+    // The caller's resolver decides which issuers to trust
+    const options = {
+      resolveVerificationMethod: async (verificationMethod: string) =>
+        verificationMethod === `${didKey}#keys-1` ||
+        verificationMethod === "did:example:issuer123#keys-1"
+          ? identity.publicKey
+          : undefined,
+    };
+
+    for (const issuerId of [didKey, "did:example:issuer123"]) {
+      const vc = await issueFrom(identity, issuerId);
+      expect((vc.proof as ECDSAProof).verificationMethod).toBe(
+        `${issuerId}#keys-1`
+      );
+      const result = await verifier.verifyOffChainCredential(vc, options);
+      expect(result.verified).toBe(true);
+      expect(result.details?.signerPublicKeys).toEqual([identity.publicKey]);
+      expect(result.details?.signerAddresses).toEqual([identity.address]);
+    }
+
+    // Someone else signing in the issuer's name
+    const impostor = await ecdsa.generateIdentity();
+    const forged = await issueFrom(impostor, didKey);
+    expect(
+      await verifier.verifyOffChainCredential(forged, options)
+    ).toMatchObject({
+      verified: false,
+      error: `Signer ${impostor.address} does not match verification method ${didKey}#keys-1`,
+    });
+
+    // A self-issued did:key credential names its own key: without a trust
+    // anchor for it, it is rejected
+    const selfIssuer = await ecdsa.generateIdentity();
+    const selfDidKey = new HolderBindingService(ecdsa).createDidKey(
+      selfIssuer.publicKey
+    );
+    const selfIssued = await issueFrom(selfIssuer, selfDidKey);
+    expect(
+      await verifier.verifyOffChainCredential(selfIssued, options)
+    ).toMatchObject({
+      verified: false,
+      error: `Cannot resolve verification method ${selfDidKey}#keys-1`,
+    });
+    expect(
+      await verifier.verifyOffChainCredential(selfIssued, {
+        trustedIssuers: { [didKey]: [identity.publicKey] },
+      })
+    ).toMatchObject({
+      verified: false,
+      error: `Signer ${selfIssuer.address} is not a trusted key of issuer ${selfDidKey}`,
+    });
+
+    // The verification method must be a key of the issuer
+    const vc = await issueFrom(identity, "did:example:issuer456");
+    const proof = vc.proof as ECDSAProof;
+    const elsewhere: VerifiableCredential = {
+      ...vc,
+      proof: { ...proof, verificationMethod: `${didKey}#keys-1` },
+    };
+    expect(
+      await verifier.verifyOffChainCredential(elsewhere, options)
+    ).toMatchObject({
+      verified: false,
+      error: `Verification method ${didKey}#keys-1 does not belong to issuer did:example:issuer456`,
+    });
+  });
+
+  it("should only recover from recoverable proofs", async () => {
+    const identity = await ecdsa.generateIdentity();
+    const vc = await issueFrom(identity, "did:example:issuer123");
+    const proof = vc.proof as ECDSAProof;
+    const trustedIssuers = { "did:example:issuer123": [identity.publicKey] };
+
+    expect(
+      await verifier.verifyOffChainCredential(
+        { ...vc, proof: { ...proof, type: "EcdsaSecp256k1Signature2019" } },
+        { trustedIssuers }
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Proof type EcdsaSecp256k1Signature2019 is not recoverable",
+    });
+    expect(
+      await verifier.verifyOffChainCredential(
+        { ...vc, proof: { ...proof, proofValue: "0x1234" } },
+        { trustedIssuers }
+      )
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+    expect(await verifier.verifyOffChainCredential(vc, {})).toMatchObject({
+      verified: false,
+      error: "No trusted issuers or verification method resolution given",
+    });
+
+    // Every proof of a proof set is recovered; a proof copied from another
+    // credential recovers to some unrelated signer
+    const otherProof = (await issueFrom(identity, "did:example:issuer123"))
+      .proof as ECDSAProof;
+    const result = await verifier.verifyOffChainCredential(
+      { ...vc, proof: [proof, otherProof] },
+      { trustedIssuers }
+    );
+    expect(result.verified).toBe(false);
+    expect(result.error).toMatch(
+      /^Proof 1: Signer 0x[0-9a-fA-F]{40} is not a trusted key of issuer did:example:issuer123$/
+    );
+  });
+});
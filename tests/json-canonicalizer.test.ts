@@ -0,0 +1,292 @@
+import {
+  canonicalizeJSON,
+  ECDSACryptoService,
+  P256CryptoService,
+  PQCryptoService,
+  RSACryptoService,
+  FalconCryptoService,
+  VCIssuer,
+  VCVerifier,
+  VCRevoke,
+  OffChainService,
+  ECDSAProof,
+} from "../src/index";
+
+describe("JSON canonicalization (RFC 8785)", () => {
+  describe("RFC 8785 test vectors", () => {
+    it("should serialize primitives (section 3.2.2)", () => {
+      const input = JSON.parse(`{
+        "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+        "string": "\\u20ac$\\u000F\\u000aA'\\u0042\\u0022\\u005c\\\\\\"\\/",
+        "literals": [null, true, false]
+      }`);
+
+      expect(canonicalizeJSON(input)).toBe(
+        '{"literals":[null,true,false],' +
+          '"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+          '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+      );
+    });
+
+    it("should sort properties by UTF-16 code units (section 3.2.3)", () => {
+      const input = JSON.parse(`{
+        "\\u20ac": "Euro Sign",
+        "\\r": "Carriage Return",
+        "\\ufb33": "Hebrew Letter Dalet With Dagesh",
+        "1": "One",
+        "\\ud83d\\ude00": "Emoji: Grinning Face",
+        "\\u0080": "Control",
+        "\\u00f6": "Latin Small Letter O With Diaeresis"
+      }`);
+
+      expect(canonicalizeJSON(input)).toBe(
+        '{"\\r":"Carriage Return","1":"One","\u0080":"Control",' +
+          '"\u00f6":"Latin Small Letter O With Diaeresis","\u20ac":"Euro Sign",' +
+          '"\ud83d\ude00":"Emoji: Grinning Face",' +
+          '"\ufb33":"Hebrew Letter Dalet With Dagesh"}'
+      );
+    });
+
+    it("should serialize IEEE 754 numbers (appendix B)", () => {
+      const vectors: [string, string][] = [
+        ["0000000000000000", "0"],
+        ["8000000000000000", "0"],
+        ["0000000000000001", "5e-324"],
+        ["8000000000000001", "-5e-324"],
+        ["7fefffffffffffff", "1.7976931348623157e+308"],
+        ["ffefffffffffffff", "-1.7976931348623157e+308"],
+        ["4340000000000000", "9007199254740992"],
+        ["c340000000000000", "-9007199254740992"],
+        ["4430000000000000", "295147905179352830000"],
+        ["44b52d02c7e14af5", "9.999999999999997e+22"],
+        ["44b52d02c7e14af6", "1e+23"],
+        ["44b52d02c7e14af7", "1.0000000000000001e+23"],
+        ["444b1ae4d6e2ef4e", "999999999999999700000"],
+        ["444b1ae4d6e2ef4f", "999999999999999900000"],
+        ["444b1ae4d6e2ef50", "1e+21"],
+        ["3eb0c6f7a0b5ed8c", "9.999999999999997e-7"],
+        ["3eb0c6f7a0b5ed8d", "0.000001"],
+        ["41b3de4355555553", "333333333.3333332"],
+        ["41b3de4355555554", "333333333.33333325"],
+        ["41b3de4355555555", "333333333.3333333"],
+        ["41b3de4355555556", "333333333.3333334"],
+        ["41b3de4355555557", "333333333.33333343"],
+        ["becbf647612f3696", "-0.0000033333333333333333"],
+        ["43143ff3c1cb0959", "1424953923781206.2"],
+      ];
+
+      for (const [ieee, expected] of vectors) {
+        const value = Buffer.from(ieee, "hex").readDoubleBE(0);
+        expect(canonicalizeJSON(value)).toBe(expected);
+      }
+
+      for (const ieee of ["7fffffffffffffff", "7ff0000000000000"]) {
+        const value = Buffer.from(ieee, "hex").readDoubleBE(0);
+        expect(() => canonicalizeJSON(value)).toThrow("non-finite number");
+      }
+    });
+
+    it("should canonicalize nested structures", () => {
+      const input = JSON.parse(`{
+        "1": {"f": {"f": "hi","F": 5} ,"\\n": 56.0},
+        "10": { },
+        "": "empty",
+        "a": { },
+        "111": [ {"e": "yes","E": "no" } ],
+        "A": { }
+      }`);
+
+      expect(canonicalizeJSON(input)).toBe(
+        '{"":"empty","1":{"\\n":56,"f":{"F":5,"f":"hi"}},"10":{},' +
+          '"111":[{"E":"no","e":"yes"}],"A":{},"a":{}}'
+      );
+    });
+  });
+
+  it("should follow JSON semantics for values that are not JSON", () => {
+    expect(
+      canonicalizeJSON({
+        b: undefined,
+        a: [undefined, 1],
+        date: new Date("2025-01-01T00:00:00Z"),
+      })
+    ).toBe('{"a":[null,1],"date":"2025-01-01T00:00:00.000Z"}');
+
+    expect(() => canonicalizeJSON(undefined)).toThrow(
+      "Cannot canonicalize a top-level undefined"
+    );
+    expect(() => canonicalizeJSON({ a: BigInt(1) })).toThrow("BigInt");
+    expect(() => canonicalizeJSON("\ud800")).toThrow("unpaired surrogates");
+  });
+
+  it("should keep the legacy algorithm available", () => {
+    const input = { 'say "hi"': [undefined, 1] };
+
+    expect(canonicalizeJSON(input, "legacy")).toBe(
+      '{"say "hi"":[undefined,1]}'
+    );
+    expect(canonicalizeJSON(input)).toBe('{"say \\"hi\\"":[null,1]}');
+    expect(canonicalizeJSON(undefined, "legacy")).toBe("undefined");
+
+    // Ordinary credentials canonicalize the same way in both versions
+    const credential = {
+      type: ["VerifiableCredential"],
+      credentialSubject: { id: "did:example:user456", permissions: ["unlock"] },
+      validFrom: "2025-01-01T00:00:00.000Z",
+    };
+    expect(canonicalizeJSON(credential)).toBe(
+      canonicalizeJSON(credential, "legacy")
+    );
+  });
+
+  it("should be shared by every crypto service", () => {
+    const input = { b: [1e21, "€"], a: { 'k"': true } };
+    const expected = canonicalizeJSON(input);
+
+    for (const crypto of [
+      new ECDSACryptoService(),
+      new RSACryptoService(),
+      new P256CryptoService(),
+      new PQCryptoService(),
+      new FalconCryptoService(),
+    ]) {
+      expect(crypto.canonicalize(input)).toBe(expected);
+      expect(crypto.createCanonicalHash(input)).toBe(crypto.hash(expected));
+    }
+  });
+
+  it("should verify credentials signed under the legacy algorithm", async () => {
+    const crypto = new ECDSACryptoService();
+    const identity = await crypto.generateIdentity();
+    const issuerInfo = { id: "did:example:issuer123" };
+    // Claim names that need escaping canonicalize differently per version
+    const subject = { id: "did:example:user456", 'door "A"': "unlock" };
+
+    const legacyVC = await new VCIssuer(crypto).issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey,
+      { canonicalization: "legacy" }
+    );
+
+    const legacyProof = legacyVC.proof as ECDSAProof;
+    expect(legacyProof.canonicalization).toBe("legacy");
+
+    // Legacy canonicalization is only accepted when asked for, whether the
+    // proof records it or comes from a release that did not record it
+    const verifier = new VCVerifier(crypto);
+    const unrecorded = {
+      ...legacyVC,
+      proof: { ...legacyProof, canonicalization: undefined },
+    };
+    for (const credential of [legacyVC, unrecorded]) {
+      expect(
+        (await verifier.verifyCredential(credential, identity.publicKey))
+          .verified
+      ).toBe(false);
+      expect(
+        (
+          await verifier.verifyCredential(credential, identity.publicKey, {
+            canonicalization: "legacy",
+          })
+        ).verified
+      ).toBe(true);
+    }
+    expect(
+      (await verifier.verifyCredential(legacyVC, identity.publicKey)).error
+    ).toContain('verify with canonicalization: "legacy"');
+
+    const vc = await new VCIssuer(crypto).issueCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      identity.publicKey
+    );
+    expect((vc.proof as ECDSAProof).canonicalization).toBe("rfc8785");
+    expect(
+      (await verifier.verifyCredential(vc, identity.publicKey)).verified
+    ).toBe(true);
+  });
+
+  it("should verify with the canonicalization the proof records", async () => {
+    const crypto = new ECDSACryptoService();
+    const identity = await crypto.generateIdentity();
+    const verifier = new VCVerifier(crypto);
+    const vc = await new VCIssuer(crypto).issueCredential(
+      { id: "did:example:issuer123" },
+      { id: "did:example:user456", 'door "A"': "unlock" },
+      identity.privateKey,
+      identity.publicKey
+    );
+    const proof = vc.proof as ECDSAProof;
+
+    // A recorded legacy canonicalization is not trusted on its own
+    const relabelled = {
+      ...vc,
+      proof: { ...proof, canonicalization: "legacy" },
+    };
+    expect(
+      (await verifier.verifyCredential(relabelled, identity.publicKey)).verified
+    ).toBe(false);
+
+    const unknown = { ...vc, proof: { ...proof, canonicalization: "jcs-2" } };
+    expect(
+      (await verifier.verifyCredential(unknown, identity.publicKey)).error
+    ).toContain("Unknown canonicalization version: jcs-2");
+
+    // The option overrides what the proof records
+    expect(
+      (
+        await verifier.verifyCredential(unknown, identity.publicKey, {
+          canonicalization: "rfc8785",
+        })
+      ).verified
+    ).toBe(true);
+  });
+
+  it("should convert and verify legacy on-chain credentials", async () => {
+    const crypto = new ECDSACryptoService();
+    const identity = await crypto.generateIdentity();
+    const revoker = new VCRevoke(crypto);
+    const legacy = { canonicalization: "legacy" } as const;
+
+    const offChainVC = await new VCIssuer(
+      crypto,
+      new OffChainService(crypto)
+    ).issueOffChainCredential(
+      { id: "did:example:issuer123" },
+      { id: "did:example:user456", 'door "A"': "unlock" },
+      identity.privateKey,
+      { publicKey: identity.publicKey, ...legacy }
+    );
+    const onChainVC = await revoker.convertToOnChain(
+      offChainVC,
+      identity.privateKey,
+      identity.address,
+      legacy
+    );
+
+    expect((onChainVC.proof as ECDSAProof).canonicalization).toBe("legacy");
+    expect(() => revoker.getCredentialHash(onChainVC)).toThrow(
+      "Proof uses legacy canonicalization"
+    );
+    expect(revoker.getCredentialHash(onChainVC, legacy)).not.toBe(
+      revoker.getCredentialHash(onChainVC, { canonicalization: "rfc8785" })
+    );
+    expect(revoker.verifyHashConsistency(offChainVC, onChainVC, legacy)).toBe(
+      true
+    );
+    expect(
+      await revoker.verifyOnChainSignature(onChainVC, identity.address, legacy)
+    ).toBe(true);
+    await expect(
+      revoker.verifyOnChainSignature(onChainVC, identity.address)
+    ).rejects.toThrow("Proof uses legacy canonicalization");
+    expect(
+      await revoker.verifyOnChainSignature(onChainVC, identity.address, {
+        canonicalization: "rfc8785",
+      })
+    ).toBe(false);
+  });
+});
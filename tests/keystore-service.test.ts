@@ -0,0 +1,279 @@
+import { createCipheriv, pbkdf2Sync, randomBytes } from "crypto";
+import { ethers } from "ethers";
+import {
+  KeystoreService,
+  CryptoService,
+  ECDSACryptoService,
+  RSACryptoService,
+  PQCryptoService,
+  SLHDSACryptoService,
+  CompositeCryptoService,
+} from "../src/index";
+
+describe("KeystoreService", () => {
+  const password = "correct horse battery staple";
+  const data = "0x" + "cd".repeat(32);
+  // Low scrypt cost keeps the tests fast; production uses the default
+  const scrypt = { N: 1024 };
+
+  describe.each([
+    ["secp256k1", () => new ECDSACryptoService()],
+    ["RSA", () => new RSACryptoService(2048, { backend: "native" })],
+    ["ML-DSA-65", () => new PQCryptoService("ML-DSA-65")],
+    ["SLH-DSA-SHA2-128f", () => new SLHDSACryptoService("SLH-DSA-SHA2-128f")],
+    [
+      "composite-ecdsa-mldsa44",
+      () =>
+        new CompositeCryptoService(
+          new ECDSACryptoService(),
+          new PQCryptoService()
+        ),
+    ],
+  ])("%s", (algorithm, createService) => {
+    const crypto: CryptoService = createService();
+    const keystore = new KeystoreService(crypto, { scrypt });
+
+    it("should encrypt and load back a usable identity", async () => {
+      expect(keystore.getAlgorithm()).toBe(algorithm);
+
+      const identity = await crypto.generateIdentity();
+      const encrypted = await keystore.encrypt(identity, password);
+
+      expect(encrypted.publicKey).toBe(identity.publicKey);
+      expect(JSON.stringify(encrypted)).not.toContain(identity.privateKey);
+
+      const loaded = await keystore.decrypt(
+        JSON.stringify(encrypted),
+        password
+      );
+      expect(loaded).toEqual(identity);
+
+      const signature = await crypto.sign(data, loaded.privateKey);
+      expect(await crypto.verify(data, signature, loaded.publicKey)).toBe(true);
+    });
+  });
+
+  describe("tampering", () => {
+    const crypto = new ECDSACryptoService();
+    const keystore = new KeystoreService(crypto, { scrypt });
+
+    it("should reject a wrong password", async () => {
+      const encrypted = await keystore.encrypt(
+        await crypto.generateIdentity(),
+        password
+      );
+      await expect(keystore.decrypt(encrypted, "wrong")).rejects.toThrow(
+        "Invalid password or corrupted keystore"
+      );
+    });
+
+    it("should reject a substituted public key or address", async () => {
+      const encrypted = await keystore.encrypt(
+        await crypto.generateIdentity(),
+        password
+      );
+      const other = await crypto.generateIdentity();
+
+      await expect(
+        keystore.decrypt({ ...encrypted, publicKey: other.publicKey }, password)
+      ).rejects.toThrow("Invalid password or corrupted keystore");
+      await expect(
+        keystore.decrypt({ ...encrypted, address: other.address }, password)
+      ).rejects.toThrow("Invalid password or corrupted keystore");
+    });
+
+    it("should reject keystores of another algorithm", async () => {
+      const pq = new PQCryptoService();
+      const encrypted = await new KeystoreService(pq, { scrypt }).encrypt(
+        await pq.generateIdentity(),
+        password
+      );
+      await expect(keystore.decrypt(encrypted, password)).rejects.toThrow(
+        "Keystore holds ML-DSA-44 keys, service expects secp256k1"
+      );
+    });
+
+    it("should reject unsafe scrypt parameters", async () => {
+      const encrypted = await keystore.encrypt(
+        await crypto.generateIdentity(),
+        password
+      );
+      encrypted.crypto.kdfparams.N = 1 << 30;
+
+      await expect(keystore.decrypt(encrypted, password)).rejects.toThrow(
+        "Invalid scrypt parameters"
+      );
+      expect(
+        () => new KeystoreService(crypto, { scrypt: { N: 1000 } })
+      ).toThrow("Invalid scrypt parameters");
+    });
+
+    it("should reject costly scrypt parameters before deriving a key", async () => {
+      const encrypted = await keystore.encrypt(
+        await crypto.generateIdentity(),
+        password
+      );
+      const { kdfparams } = encrypted.crypto;
+      const started = Date.now();
+
+      for (const [params, message] of [
+        [{ N: 1 << 17, r: 8, p: 1_000_000 }, "p must be between 1 and 16"],
+        [{ N: 1 << 10, r: 1 << 20, p: 1 }, "r must be between 1 and 32"],
+        [{ N: 1 << 20, r: 32, p: 1 }, "cost exceeds 1 GiB"],
+        [{ N: 1 << 20, r: 8, p: 16 }, "cost exceeds 1 GiB"],
+      ] as const) {
+        await expect(
+          keystore.decrypt(
+            {
+              ...encrypted,
+              crypto: {
+                ...encrypted.crypto,
+                kdfparams: { ...kdfparams, ...params },
+              },
+            },
+            password
+          )
+        ).rejects.toThrow(message);
+      }
+
+      // ethers keystores are checked before ethers runs scrypt
+      const json = JSON.parse(
+        await keystore.encryptEthersKeystore(
+          await crypto.generateIdentity(),
+          password
+        )
+      );
+      json.Crypto.kdfparams.p = 1_000_000;
+      await expect(
+        keystore.decrypt(JSON.stringify(json), password)
+      ).rejects.toThrow("p must be between 1 and 16");
+
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it("should bound every key derivation of ethers keystores", async () => {
+      const identity = await crypto.generateIdentity();
+      const json = JSON.parse(
+        await keystore.encryptEthersKeystore(identity, password)
+      );
+      const { salt } = json.Crypto.kdfparams;
+
+      // PBKDF2 keystores (as written by geth), with a low iteration count
+      const iv = randomBytes(16);
+      const key = pbkdf2Sync(
+        password,
+        Buffer.from(salt, "hex"),
+        1024,
+        32,
+        "sha256"
+      );
+      const cipher = createCipheriv("aes-128-ctr", key.subarray(0, 16), iv);
+      const ciphertext = Buffer.concat([
+        cipher.update(Buffer.from(identity.privateKey.slice(2), "hex")),
+        cipher.final(),
+      ]);
+      const pbkdf2 = {
+        ...json,
+        Crypto: {
+          cipher: "aes-128-ctr",
+          cipherparams: { iv: iv.toString("hex") },
+          ciphertext: ciphertext.toString("hex"),
+          kdf: "pbkdf2",
+          kdfparams: { c: 1024, dklen: 32, prf: "hmac-sha256", salt },
+          mac: ethers
+            .keccak256(Buffer.concat([key.subarray(16, 32), ciphertext]))
+            .slice(2),
+        },
+      };
+      expect(await keystore.decrypt(JSON.stringify(pbkdf2), password)).toEqual(
+        identity
+      );
+
+      const started = Date.now();
+      for (const [derivation, message] of [
+        [
+          { kdf: "pbkdf2", kdfparams: { c: 1e9, dklen: 32 } },
+          "c must be between 1 and 1048576",
+        ],
+        [
+          { kdf: "PBKDF2", kdfparams: { C: "1000000000", dklen: 32 } },
+          "c must be between 1 and 1048576",
+        ],
+        [
+          { kdf: "pbkdf2", kdfparams: { c: 1024, dklen: 1 << 30 } },
+          "dklen must be 32",
+        ],
+        [
+          { kdf: "scrypt", kdfparams: { N: "1073741824", r: 8, p: 1 } },
+          "N must be a power of two up to",
+        ],
+        [{ kdf: "argon2id" }, "Unsupported keystore key derivation: argon2id"],
+      ] as const) {
+        await expect(
+          keystore.decrypt(
+            JSON.stringify({
+              ...pbkdf2,
+              Crypto: {
+                ...pbkdf2.Crypto,
+                ...derivation,
+                kdfparams: {
+                  prf: "hmac-sha256",
+                  salt,
+                  ...derivation.kdfparams,
+                },
+              },
+            }),
+            password
+          )
+        ).rejects.toThrow(message);
+      }
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+  });
+
+  describe("ethers JSON keystores", () => {
+    const crypto = new ECDSACryptoService();
+    const keystore = new KeystoreService(crypto, { scrypt });
+
+    it("should load keystores created by ethers", async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const json = await ethers.encryptKeystoreJson(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        password,
+        { scrypt }
+      );
+
+      const identity = await keystore.decrypt(json, password);
+      expect(identity).toEqual({
+        privateKey: wallet.privateKey,
+        publicKey: wallet.signingKey.publicKey,
+        address: wallet.address,
+      });
+      await expect(keystore.decrypt(json, "wrong")).rejects.toThrow(
+        "Invalid password or corrupted keystore"
+      );
+    });
+
+    it("should export keystores readable by ethers", async () => {
+      const identity = await crypto.generateIdentity();
+      const json = await keystore.encryptEthersKeystore(identity, password);
+
+      const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+      expect(wallet.address).toBe(identity.address);
+      expect(await keystore.decrypt(json, password)).toEqual(identity);
+    });
+
+    it("should only accept ethers keystores for ECDSA", async () => {
+      const json = await keystore.encryptEthersKeystore(
+        await crypto.generateIdentity(),
+        password
+      );
+      await expect(
+        new KeystoreService(new PQCryptoService(), { scrypt }).decrypt(
+          json,
+          password
+        )
+      ).rejects.toThrow("ethers JSON keystores require ECDSACryptoService");
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  AccessControlCredentialSubject,
+  ECDSACryptoService,
+  ECDSAProof,
+  OnChainService,
+  VCIssuer,
+  VCRevoke,
+  VCVerifier,
+} from "../src/index";
+
+describe("VCVerifier - On-Chain Credentials", () => {
+  const ecdsa = new ECDSACryptoService();
+  const onChain = new OnChainService(ecdsa);
+  const verifier = new VCVerifier(ecdsa, undefined, onChain);
+  const subject: AccessControlCredentialSubject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    lock: { id: "lock-building-a-room-101", name: "Lab Room 101" },
+  };
+
+  async function issueOnChainCredential(
+    options: { validityDays?: number } = {}
+  ) {
+    const identity = await ecdsa.generateIdentity();
+    const vc = await new VCIssuer(
+      ecdsa,
+      undefined,
+      onChain
+    ).issueOnChainCredential(
+      { id: `did:ethr:${identity.address}` },
+      subject,
+      identity.privateKey,
+      { ethereumAddress: identity.address, ...options }
+    );
+    return { vc, identity };
+  }
+
+  it("should verify Ethereum-prefixed proofs against the address", async () => {
+    const { vc, identity } = await issueOnChainCredential();
+
+    const result = await verifier.verifyOnChainCredential(vc, identity.address);
+    expect(result.verified).toBe(true);
+    expect(result.details).toMatchObject({
+      issuer: `did:ethr:${identity.address}`,
+      subject: subject.id,
+      signerAddresses: [identity.address],
+    });
+
+    // Addresses are compared case-insensitively
+    expect(
+      (
+        await verifier.verifyOnChainCredential(
+          vc,
+          identity.address.toLowerCase()
+        )
+      ).verified
+    ).toBe(true);
+
+    // Signed by another address, or tampered with
+    const other = await ecdsa.generateIdentity();
+    expect(
+      await verifier.verifyOnChainCredential(
+        {
+          ...vc,
+          proof: {
+            ...(vc.proof as ECDSAProof),
+            verificationMethod: other.address,
+          },
+        },
+        other.address
+      )
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+    expect(
+      await verifier.verifyOnChainCredential(
+        { ...vc, credentialSubject: { ...subject, accessLevel: "admin" } },
+        identity.address
+      )
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+  });
+
+  it("should read the address from the verification method", async () => {
+    const { vc, identity } = await issueOnChainCredential();
+    const proof = vc.proof as ECDSAProof;
+
+    const result = await verifier.verifyOnChainCredential(vc);
+    expect(result.verified).toBe(true);
+    expect(result.details?.signerAddresses).toEqual([identity.address]);
+
+    for (const verificationMethod of [
+      `did:ethr:${identity.address}#controller`,
+      `did:ethr:sepolia:${identity.address}#controller`,
+      `did:pkh:eip155:1:${identity.address}#blockchainAccountId`,
+    ]) {
+      expect(
+        (
+          await verifier.verifyOnChainCredential({
+            ...vc,
+            proof: { ...proof, verificationMethod },
+          })
+        ).verified
+      ).toBe(true);
+    }
+
+    expect(
+      await verifier.verifyOnChainCredential({
+        ...vc,
+        proof: { ...proof, verificationMethod: "did:example:issuer#keys-1" },
+      })
+    ).toMatchObject({
+      verified: false,
+      error: "No address in verification method did:example:issuer#keys-1",
+    });
+
+    // An explicit address must agree with the one the proof names
+    const other = await ecdsa.generateIdentity();
+    expect(
+      await verifier.verifyOnChainCredential(vc, other.address)
+    ).toMatchObject({
+      verified: false,
+      error: `Verification method ${identity.address} does not match address ${other.address}`,
+    });
+    expect(await verifier.verifyOnChainCredential(vc, "0x1234")).toMatchObject({
+      verified: false,
+      error: "Invalid address: 0x1234",
+    });
+  });
+
+  it("should only take addresses of the issuer from the proof", async () => {
+    const victim = await ecdsa.generateIdentity();
+    const attacker = await ecdsa.generateIdentity();
+    const issuer = new VCIssuer(ecdsa, undefined, onChain);
+
+    // Self-signed in the name of another issuer
+    const forged = await issuer.issueOnChainCredential(
+      { id: `did:ethr:${victim.address}` },
+      subject,
+      attacker.privateKey,
+      { ethereumAddress: attacker.address }
+    );
+    expect(await verifier.verifyOnChainCredential(forged)).toMatchObject({
+      verified: false,
+      error: `Verification method ${attacker.address} does not belong to issuer did:ethr:${victim.address}`,
+    });
+    const forgedMethod = `did:ethr:${attacker.address}#controller`;
+    expect(
+      await verifier.verifyOnChainCredential({
+        ...forged,
+        proof: {
+          ...(forged.proof as ECDSAProof),
+          verificationMethod: forgedMethod,
+        },
+      })
+    ).toMatchObject({
+      verified: false,
+      error: `Verification method ${forgedMethod} does not belong to issuer did:ethr:${victim.address}`,
+    });
+
+    // An issuer that names no address needs the expected one
+    const vc = await issuer.issueOnChainCredential(
+      { id: "did:example:issuer123" },
+      subject,
+      attacker.privateKey,
+      { ethereumAddress: attacker.address }
+    );
+    expect(await verifier.verifyOnChainCredential(vc)).toMatchObject({
+      verified: false,
+      error: `Verification method ${attacker.address} does not belong to issuer did:example:issuer123`,
+    });
+    expect(
+      (await verifier.verifyOnChainCredential(vc, attacker.address)).verified
+    ).toBe(true);
+  });
+
+  it("should verify credentials converted by VCRevoke", async () => {
+    const identity = await ecdsa.generateIdentity();
+    const vc = await new VCIssuer(ecdsa).issueCredential(
+      { id: `did:ethr:${identity.address}` },
+      subject,
+      identity.privateKey,
+      identity.publicKey
+    );
+
+    // Raw (off-chain) signatures are not Ethereum-prefixed
+    expect(
+      await verifier.verifyOnChainCredential(vc, identity.address)
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+
+    const onChainVC = await new VCRevoke(ecdsa, onChain).convertToOnChain(
+      vc,
+      identity.privateKey,
+      identity.address
+    );
+    expect((await verifier.verifyOnChainCredential(onChainVC)).verified).toBe(
+      true
+    );
+  });
+
+  it("should run the same validation as the off-chain path", async () => {
+    const { vc, identity } = await issueOnChainCredential({ validityDays: 30 });
+
+    expect(
+      await verifier.verifyOnChainCredential(vc, identity.address, {
+        currentTime: new Date(Date.now() + 31 * 24 * 60 * 60 * 1000),
+      })
+    ).toMatchObject({
+      verified: false,
+      error: expect.stringContaining("Credential expired"),
+    });
+    expect(
+      await new VCVerifier(ecdsa).verifyOnChainCredential(vc, identity.address)
+    ).toMatchObject({
+      verified: false,
+      error: expect.stringContaining("OnChainService not initialized"),
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  P256CryptoService,
+  VCIssuer,
+  VCVerifier,
+  AccessControlCredentialSubject,
+} from "../src/index";
+
+// P-256 group order, used to build the high-S twin of a signature
+const P256_ORDER = BigInt(
+  "0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551"
+);
+
+describe("P256CryptoService", () => {
+  let crypto: P256CryptoService;
+
+  beforeAll(() => {
+    crypto = new P256CryptoService();
+  });
+
+  it("should generate an uncompressed 65-byte public key", async () => {
+    const identity = await crypto.generateIdentity();
+
+    expect(identity.privateKey).toMatch(/^0x[0-9a-f]{64}$/i);
+    expect(identity.publicKey).toMatch(/^0x04[0-9a-f]{128}$/i);
+    expect(identity.address).toMatch(/^0x[0-9a-f]{40}$/i);
+  });
+
+  it("should verify with both compressed and uncompressed public keys", async () => {
+    const identity = await crypto.generateIdentity();
+    const hash = crypto.hash("open lock-1");
+    const signature = await crypto.sign(hash, identity.privateKey);
+
+    const compressed = crypto.compressPublicKey(identity.publicKey);
+    expect(compressed).toMatch(/^0x0[23][0-9a-f]{64}$/i);
+    expect(crypto.decompressPublicKey(compressed)).toBe(identity.publicKey);
+
+    expect(await crypto.verify(hash, signature, identity.publicKey)).toBe(true);
+    expect(await crypto.verify(hash, signature, compressed)).toBe(true);
+    expect(
+      await crypto.verify(crypto.hash("open lock-2"), signature, compressed)
+    ).toBe(false);
+  });
+
+  it("should accept high-S signatures produced by secure elements", async () => {
+    const identity = await crypto.generateIdentity();
+    const hash = crypto.hash("secure element");
+    const signature = await crypto.sign(hash, identity.privateKey);
+
+    const r = signature.slice(2, 66);
+    const s = BigInt("0x" + signature.slice(66));
+    const highS = (P256_ORDER - s).toString(16).padStart(64, "0");
+
+    expect(
+      await crypto.verify(hash, `0x${r}${highS}`, identity.publicKey)
+    ).toBe(true);
+  });
+
+  it("should issue and verify a credential with an EcdsaSecp256r1Signature2019 proof", async () => {
+    const identity = await crypto.generateIdentity();
+    const issuer = new VCIssuer(crypto);
+    const verifier = new VCVerifier(crypto);
+    const credentialSubject: AccessControlCredentialSubject = {
+      id: "did:example:user456",
+      userMetaDataHash: crypto.hash("user@example.com"),
+      lock: { id: "lock-1", name: "Main Entrance" },
+    };
+
+    const vc = await issuer.issueCredential(
+      { id: "did:example:issuer123" },
+      credentialSubject,
+      identity.privateKey,
+      identity.publicKey,
+      { validityDays: 30 }
+    );
+
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("EcdsaSecp256r1Signature2019");
+
+    const result = await verifier.verifyCredential(
+      vc,
+      crypto.compressPublicKey(identity.publicKey)
+    );
+    expect(result.verified).toBe(true);
+
+    const tamperedVC = {
+      ...vc,
+      credentialSubject: { ...credentialSubject, accessLevel: "admin" },
+    };
+    const tamperedResult = await verifier.verifyCredential(
+      tamperedVC,
+      identity.publicKey
+    );
+    expect(tamperedResult.verified).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  PQCryptoService,
+  MLDSAParameterSet,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("PQCryptoService - ML-DSA parameter sets", () => {
+  const parameterSets: MLDSAParameterSet[] = [
+    "ML-DSA-44",
+    "ML-DSA-65",
+    "ML-DSA-87",
+  ];
+
+  it("should default to ML-DSA-44", () => {
+    const crypto = new PQCryptoService();
+    expect(crypto.getParameterSet()).toBe("ML-DSA-44");
+    expect(crypto.getCryptosuite()).toBe("mldsa44");
+  });
+
+  it("should reject unknown parameter sets", () => {
+    expect(() => new PQCryptoService("ML-DSA-99" as MLDSAParameterSet)).toThrow(
+      "ML-DSA parameter set must be"
+    );
+  });
+
+  it.each(parameterSets)(
+    "should issue and verify a credential with %s",
+    async (parameterSet) => {
+      const crypto = new PQCryptoService(parameterSet);
+      const issuer = new VCIssuer(crypto);
+      const verifier = new VCVerifier(crypto);
+      const identity = await crypto.generateIdentity();
+
+      const vc = await issuer.issueCredential(
+        { id: "did:example:issuer123" },
+        { id: "did:example:user456", accessLevel: "premium" },
+        identity.privateKey,
+        identity.publicKey,
+        { validityDays: 365 }
+      );
+
+      const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+      expect(proof.type).toBe("DataIntegrityProof");
+      expect(proof.cryptosuite).toBe(crypto.getCryptosuite());
+
+      const result = await verifier.verifyCredential(vc, identity.publicKey);
+      expect(result.verified).toBe(true);
+    }
+  );
+
+  it("should report a cryptosuite mismatch between parameter sets", async () => {
+    const crypto65 = new PQCryptoService("ML-DSA-65");
+    const identity = await crypto65.generateIdentity();
+    const vc = await new VCIssuer(crypto65).issueCredential(
+      { id: "did:example:issuer123" },
+      { id: "did:example:user456" },
+      identity.privateKey,
+      identity.publicKey
+    );
+
+    const verifier44 = new VCVerifier(new PQCryptoService("ML-DSA-44"));
+    const result = await verifier44.verifyCredential(vc, identity.publicKey);
+
+    expect(result.verified).toBe(false);
+    expect(result.error).toContain("Cryptosuite mismatch");
+  });
+});
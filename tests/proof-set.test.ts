@@ -0,0 +1,242 @@
+import {
+  AccessControlCredentialSubject,
+  AlgorithmRegistry,
+  ECDSACryptoService,
+  ECDSAProof,
+  Ed25519CryptoService,
+  OffChainService,
+  PQCryptoService,
+  VCIssuer,
+  VCRevoke,
+  VCVerifier,
+  VerifiableCredential,
+  getProofs,
+} from "../src/index";
+
+describe("Proof sets and proof chains", () => {
+  const ecdsa = new ECDSACryptoService();
+  const issuerId = "did:example:issuer123";
+  const subject: AccessControlCredentialSubject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    lock: { id: "lock-building-a-room-101", name: "Lab Room 101" },
+  };
+
+  async function issueECDSACredential(options: { proofId?: string } = {}) {
+    const identity = await ecdsa.generateIdentity();
+    const vc = await new VCIssuer(ecdsa).issueCredential(
+      { id: issuerId },
+      subject,
+      identity.privateKey,
+      identity.publicKey,
+      { credentialTypes: ["AccessControlCredential"], ...options }
+    );
+    return { vc, identity };
+  }
+
+  it("should verify an ML-DSA proof added next to the ECDSA one", async () => {
+    const { vc, identity } = await issueECDSACredential();
+    const pq = new PQCryptoService("ML-DSA-65");
+    const pqIdentity = await pq.generateIdentity();
+
+    const hybrid = await new VCIssuer(pq).addProof(vc, pqIdentity.privateKey);
+    const proofs = getProofs(hybrid);
+    expect(proofs).toHaveLength(2);
+    expect(proofs[0]).toEqual(vc.proof);
+    expect(proofs[1]).toMatchObject({
+      type: "DataIntegrityProof",
+      cryptosuite: "mldsa65",
+      verificationMethod: `${issuerId}#keys-2`,
+    });
+    expect(proofs[1].id).toMatch(
+      /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const publicKeys = {
+      [`${issuerId}#keys-1`]: identity.publicKey,
+      [`${issuerId}#keys-2`]: pqIdentity.publicKey,
+    };
+    expect((await verifier.verifyCredential(hybrid, publicKeys)).verified).toBe(
+      true
+    );
+
+    // Every proof needs its own key
+    expect(
+      await verifier.verifyCredential(hybrid, identity.publicKey)
+    ).toMatchObject({ verified: false, error: "Proof 1: Invalid signature" });
+    expect(
+      await verifier.verifyCredential(hybrid, {
+        [`${issuerId}#keys-1`]: identity.publicKey,
+      })
+    ).toMatchObject({
+      verified: false,
+      error: `Proof 1: No public key for verification method ${issuerId}#keys-2`,
+    });
+
+    // Tampering breaks both proofs; the first failure is reported
+    expect(
+      await verifier.verifyCredential(
+        { ...hybrid, credentialSubject: { ...subject, accessLevel: "admin" } },
+        publicKeys
+      )
+    ).toMatchObject({ verified: false, error: "Proof 0: Invalid signature" });
+  });
+
+  it("should reject a junk proof appended to a credential", async () => {
+    const { vc, identity } = await issueECDSACredential();
+    const proof = vc.proof as ECDSAProof;
+    const junk: ECDSAProof = {
+      ...proof,
+      proofValue: "0x" + "00".repeat(65),
+    };
+    const withJunk: VerifiableCredential = { ...vc, proof: [proof, junk] };
+
+    const verifier = new VCVerifier(ecdsa, new OffChainService(ecdsa));
+    expect(
+      (await verifier.verifyCredential(vc, identity.publicKey)).verified
+    ).toBe(true);
+    expect(
+      await verifier.verifyCredential(withJunk, identity.publicKey)
+    ).toMatchObject({ verified: false, error: "Proof 1: Invalid signature" });
+    expect(
+      await verifier.verifyOffChainCredential(withJunk, identity.publicKey)
+    ).toMatchObject({ verified: false, error: "Proof 1: Invalid signature" });
+
+    // A proof of an unknown algorithm is not skipped either
+    const registryVerifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    expect(
+      await registryVerifier.verifyCredential(
+        {
+          ...vc,
+          proof: [proof, { ...junk, type: "MadeUpSignature2030" }],
+        },
+        identity.publicKey
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Proof 1: Unsupported proof type: MadeUpSignature2030",
+    });
+
+    // Batches fall back to verifying every proof
+    const results = await verifier.verifyCredentialBatch(
+      [vc, withJunk],
+      identity.publicKey
+    );
+    expect(results.map((result) => result.verified)).toEqual([true, false]);
+  });
+
+  it("should check every on-chain proof against the address", async () => {
+    const { vc, identity } = await issueECDSACredential();
+    const revoker = new VCRevoke(ecdsa);
+    const onChainVC = await revoker.convertToOnChain(
+      vc,
+      identity.privateKey,
+      identity.address
+    );
+    const proof = onChainVC.proof as ECDSAProof;
+    expect(
+      await revoker.verifyOnChainSignature(onChainVC, identity.address)
+    ).toBe(true);
+
+    const other = await ecdsa.generateIdentity();
+    const otherProof = (
+      await revoker.convertToOnChain(vc, other.privateKey, other.address)
+    ).proof as ECDSAProof;
+    expect(
+      await revoker.verifyOnChainSignature(
+        { ...onChainVC, proof: [proof, otherProof] },
+        identity.address
+      )
+    ).toBe(false);
+    expect(
+      await revoker.verifyOnChainSignature(
+        { ...onChainVC, proof: [proof, { ...proof, proofValue: "0x1234" }] },
+        identity.address
+      )
+    ).toBe(false);
+  });
+
+  it("should verify proof chains over the previous proofs", async () => {
+    const { vc, identity } = await issueECDSACredential({
+      proofId: "urn:uuid:proof-1",
+    });
+    const ed25519 = new Ed25519CryptoService();
+    const edIdentity = await ed25519.generateIdentity();
+
+    const chained = await new VCIssuer(ed25519).addProof(
+      vc,
+      edIdentity.privateKey,
+      {
+        cryptosuite: "eddsa-jcs-2022",
+        proofId: "urn:uuid:proof-2",
+        previousProof: "urn:uuid:proof-1",
+      }
+    );
+    const [first, second] = getProofs(chained);
+    expect(first.id).toBe("urn:uuid:proof-1");
+    expect(second).toMatchObject({
+      id: "urn:uuid:proof-2",
+      previousProof: "urn:uuid:proof-1",
+      cryptosuite: "eddsa-jcs-2022",
+    });
+
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const publicKeys = {
+      [`${issuerId}#keys-1`]: identity.publicKey,
+      [`${issuerId}#keys-2`]: edIdentity.publicKey,
+    };
+    expect(
+      (await verifier.verifyCredential(chained, publicKeys)).verified
+    ).toBe(true);
+
+    // The chained proof signs the first proof, so changing it is noticed
+    // even where the first proof's own signature does not cover the field
+    expect(
+      await verifier.verifyCredential(
+        {
+          ...chained,
+          proof: [{ ...first, created: "2020-01-01T00:00:00Z" }, second],
+        },
+        publicKeys
+      )
+    ).toMatchObject({ verified: false, error: "Proof 1: Invalid signature" });
+
+    // Dropping the previous proof breaks the chain
+    expect(
+      await verifier.verifyCredential(
+        { ...chained, proof: [second] },
+        publicKeys
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Previous proof urn:uuid:proof-1 not found",
+    });
+  });
+
+  it("should reject proof ids that are taken or missing", async () => {
+    const { vc, identity } = await issueECDSACredential({
+      proofId: "urn:uuid:proof-1",
+    });
+    const issuer = new VCIssuer(ecdsa);
+
+    await expect(
+      issuer.addProof(vc, identity.privateKey, { proofId: "urn:uuid:proof-1" })
+    ).rejects.toThrow("Proof id urn:uuid:proof-1 is not unique");
+    await expect(
+      issuer.addProof(vc, identity.privateKey, {
+        previousProof: "urn:uuid:unknown",
+      })
+    ).rejects.toThrow("Previous proof urn:uuid:unknown not found");
+
+    const { proof: _proof, ...unsigned } = vc;
+    await expect(
+      issuer.addProof(
+        { ...unsigned, proof: [] } as VerifiableCredential,
+        identity.privateKey
+      )
+    ).rejects.toThrow("Credential has no proof to add to");
+  });
+});
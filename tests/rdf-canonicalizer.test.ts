@@ -0,0 +1,218 @@
+import {
+  AccessControlCredentialSubject,
+  AlgorithmRegistry,
+  DataIntegrityService,
+  Ed25519CryptoService,
+  P256CryptoService,
+  RDFCanonicalizer,
+  VCIssuer,
+  VCVerifier,
+  W3C_VC_CONTEXT_V2,
+} from "../src/index";
+
+describe("RDFCanonicalizer", () => {
+  const LOCK_CONTEXT_URL = "https://locks.example.com/contexts/lock-access/v1";
+  const lockContext = {
+    "@context": {
+      "@protected": true,
+      AccessControlCredential:
+        "https://locks.example.com/vocab#AccessControlCredential",
+      userMetaDataHash: "https://locks.example.com/vocab#userMetaDataHash",
+      accessLevel: "https://locks.example.com/vocab#accessLevel",
+      permissions: {
+        "@id": "https://locks.example.com/vocab#permissions",
+        "@container": "@set",
+      },
+      lock: {
+        "@id": "https://locks.example.com/vocab#lock",
+        "@type": "@id",
+      },
+    },
+  };
+
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject: AccessControlCredentialSubject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+  };
+  const accessOptions = {
+    additionalContexts: [LOCK_CONTEXT_URL],
+    credentialTypes: ["AccessControlCredential"],
+  };
+
+  function createCanonicalizer(): RDFCanonicalizer {
+    return new RDFCanonicalizer().registerContext(
+      LOCK_CONTEXT_URL,
+      lockContext
+    );
+  }
+
+  it("should load the bundled VC v2 context offline", async () => {
+    const rdfc = new RDFCanonicalizer();
+    expect(rdfc.hasContext(W3C_VC_CONTEXT_V2)).toBe(true);
+    expect(rdfc.hasContext(LOCK_CONTEXT_URL)).toBe(false);
+
+    const nquads = await rdfc.canonicalize({
+      "@context": [W3C_VC_CONTEXT_V2],
+      type: ["VerifiableCredential"],
+      issuer: "did:example:issuer123",
+      credentialSubject: { id: "did:example:user456", name: "Alice" },
+    });
+    expect(nquads).toContain(
+      '<did:example:user456> <https://schema.org/name> "Alice" .'
+    );
+    expect(nquads).toContain(
+      "<https://www.w3.org/2018/credentials#issuer> <did:example:issuer123>"
+    );
+  });
+
+  it("should canonicalize independently of the JSON layout", async () => {
+    const rdfc = createCanonicalizer();
+    const document = {
+      "@context": [W3C_VC_CONTEXT_V2, LOCK_CONTEXT_URL],
+      type: ["VerifiableCredential", "AccessControlCredential"],
+      issuer: "did:example:issuer123",
+      credentialSubject: subject,
+    };
+    const reordered = {
+      credentialSubject: {
+        permissions: ["unlock"],
+        accessLevel: "standard",
+        userMetaDataHash: subject.userMetaDataHash,
+        id: "did:example:user456",
+      },
+      issuer: { id: "did:example:issuer123" },
+      type: ["VerifiableCredential", "AccessControlCredential"],
+      "@context": [W3C_VC_CONTEXT_V2, LOCK_CONTEXT_URL],
+    };
+
+    const nquads = await rdfc.canonicalize(document);
+    expect(await rdfc.canonicalize(reordered)).toBe(nquads);
+    expect(nquads).toContain(
+      '<did:example:user456> <https://locks.example.com/vocab#accessLevel> "standard" .'
+    );
+  });
+
+  it("should sign and verify access credentials with rdfc cryptosuites", async () => {
+    const rdfCanonicalizer = createCanonicalizer();
+    const p256 = new P256CryptoService();
+    const ed25519 = new Ed25519CryptoService();
+    const registry = AlgorithmRegistry.createDefault();
+
+    for (const [crypto, cryptosuite] of [
+      [p256, "ecdsa-rdfc-2019"],
+      [ed25519, "eddsa-rdfc-2022"],
+      [ed25519, "eddsa-jcs-2022"],
+    ] as const) {
+      const identity = await crypto.generateIdentity();
+      const vc = await new VCIssuer(crypto).issueCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey,
+        identity.publicKey,
+        { ...accessOptions, cryptosuite, rdfCanonicalizer }
+      );
+      expect(vc.proof).toMatchObject({
+        type: "DataIntegrityProof",
+        cryptosuite,
+      });
+
+      const result = await new VCVerifier(registry).verifyCredential(
+        vc,
+        identity.publicKey,
+        { rdfCanonicalizer }
+      );
+      expect(result.verified).toBe(true);
+
+      const tampered = {
+        ...vc,
+        credentialSubject: { ...subject, accessLevel: "admin" },
+      };
+      const tamperedResult = await new VCVerifier(registry).verifyCredential(
+        tampered,
+        identity.publicKey,
+        { rdfCanonicalizer }
+      );
+      expect(tamperedResult.verified).toBe(false);
+    }
+  });
+
+  it("should reject undefined terms, types and contexts", async () => {
+    const rdfCanonicalizer = createCanonicalizer();
+    const p256 = new P256CryptoService();
+    const identity = await p256.generateIdentity();
+    const issuer = new VCIssuer(p256);
+    const issue = (
+      credentialSubject: object,
+      options: Record<string, unknown>
+    ) =>
+      issuer.issueCredential(
+        issuerInfo,
+        credentialSubject as AccessControlCredentialSubject,
+        identity.privateKey,
+        identity.publicKey,
+        { cryptosuite: "ecdsa-rdfc-2019", ...options }
+      );
+
+    await expect(
+      issue(
+        { ...subject, doorCode: "1234" },
+        { ...accessOptions, rdfCanonicalizer }
+      )
+    ).rejects.toThrow('Undefined JSON-LD term "doorCode"');
+    await expect(
+      issue(subject, {
+        ...accessOptions,
+        credentialTypes: ["GuestPass"],
+        rdfCanonicalizer,
+      })
+    ).rejects.toThrow('Undefined JSON-LD type "GuestPass"');
+
+    // The lock-access context is not bundled
+    await expect(issue(subject, accessOptions)).rejects.toThrow(
+      `JSON-LD context ${LOCK_CONTEXT_URL} is not available offline`
+    );
+  });
+
+  it("should not replace registered contexts", () => {
+    const rdfc = createCanonicalizer();
+    expect(() => rdfc.registerContext(LOCK_CONTEXT_URL, lockContext)).toThrow(
+      "already registered"
+    );
+    expect(() =>
+      rdfc.registerContext(W3C_VC_CONTEXT_V2, { "@context": {} })
+    ).toThrow("already registered");
+    expect(() =>
+      rdfc.registerContext("https://locks.example.com/contexts/other", {})
+    ).toThrow('must have a "@context" member');
+  });
+
+  it("should match cryptosuites to the key type", async () => {
+    const ed25519 = new Ed25519CryptoService();
+    const identity = await ed25519.generateIdentity();
+    const dataIntegrity = new DataIntegrityService(ed25519);
+
+    await expect(
+      dataIntegrity.createProof(
+        {
+          "@context": [W3C_VC_CONTEXT_V2],
+          type: ["VerifiableCredential"],
+          issuer: "did:example:issuer123",
+          validFrom: "2025-01-01T00:00:00Z",
+          credentialSubject: { id: "did:example:user456" },
+        },
+        identity.privateKey,
+        {
+          cryptosuite: "ecdsa-rdfc-2019",
+          verificationMethod: dataIntegrity.getVerificationMethod(
+            identity.publicKey
+          ),
+        }
+      )
+    ).rejects.toThrow(
+      "Cryptosuite ecdsa-rdfc-2019 does not match Ed25519CryptoService keys"
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  AlgorithmRegistry,
+  RSACryptoService,
+  RSAPadding,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("RSACryptoService - native backend and padding", () => {
+  const paddings: RSAPadding[] = ["pss", "pkcs1"];
+
+  it("should default to the node-rsa backend with PSS padding", () => {
+    const crypto = new RSACryptoService();
+    expect(crypto.getKeySize()).toBe(2048);
+    expect(crypto.getBackend()).toBe("node-rsa");
+    expect(crypto.getPadding()).toBe("pss");
+  });
+
+  it("should reject unsupported key sizes, backends and paddings", () => {
+    expect(() => new RSACryptoService(1024)).toThrow(
+      "RSA key size must be 2048, 3072 or 4096 bits"
+    );
+    expect(
+      () =>
+        new RSACryptoService(2048, {
+          backend: "openssl" as unknown as "native",
+        })
+    ).toThrow("RSA backend must be");
+    expect(
+      () =>
+        new RSACryptoService(2048, { padding: "oaep" as unknown as RSAPadding })
+    ).toThrow("RSA padding must be");
+  });
+
+  it("should generate and use 3072-bit keys with the native backend", async () => {
+    const crypto = new RSACryptoService(3072, { backend: "native" });
+    const identity = await crypto.generateIdentity();
+    const hash = crypto.hash("open lock-1");
+
+    expect(identity.privateKey).toContain("BEGIN PRIVATE KEY");
+    expect(identity.publicKey).toContain("BEGIN PUBLIC KEY");
+
+    const signature = await crypto.sign(hash, identity.privateKey);
+    expect(Buffer.from(signature, "base64").length).toBe(384);
+    expect(await crypto.verify(hash, signature, identity.publicKey)).toBe(true);
+    expect(
+      await crypto.verify(
+        crypto.hash("open lock-2"),
+        signature,
+        identity.publicKey
+      )
+    ).toBe(false);
+  });
+
+  it.each(paddings)(
+    "should produce %s signatures that both backends accept",
+    async (padding) => {
+      const nodeRsa = new RSACryptoService(2048, { padding });
+      const native = new RSACryptoService(2048, {
+        backend: "native",
+        padding,
+      });
+      const identity = await native.generateIdentity();
+      const hash = native.hash("interop");
+
+      const nativeSignature = await native.sign(hash, identity.privateKey);
+      const nodeRsaSignature = await nodeRsa.sign(hash, identity.privateKey);
+
+      expect(
+        await nodeRsa.verify(hash, nativeSignature, identity.publicKey)
+      ).toBe(true);
+      expect(
+        await native.verify(hash, nodeRsaSignature, identity.publicKey)
+      ).toBe(true);
+    }
+  );
+
+  it("should not accept a PSS signature as PKCS#1 v1.5", async () => {
+    const pss = new RSACryptoService(2048, { backend: "native" });
+    const pkcs1 = new RSACryptoService(2048, {
+      backend: "native",
+      padding: "pkcs1",
+    });
+    const identity = await pss.generateIdentity();
+    const hash = pss.hash("padding");
+
+    const signature = await pss.sign(hash, identity.privateKey);
+    expect(await pkcs1.verify(hash, signature, identity.publicKey)).toBe(false);
+  });
+
+  it("should issue and verify a credential with the native backend", async () => {
+    const crypto = new RSACryptoService(2048, {
+      backend: "native",
+      padding: "pkcs1",
+    });
+    const identity = await crypto.generateIdentity();
+    const vc = await new VCIssuer(crypto).issueCredential(
+      { id: "did:example:issuer123" },
+      { id: "did:example:user456", accessLevel: "premium" },
+      identity.privateKey,
+      identity.publicKey,
+      { validityDays: 30 }
+    );
+
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("RsaSignature2018");
+
+    const verifier = new VCVerifier(crypto);
+    for (let i = 0; i < 3; i++) {
+      const result = await verifier.verifyCredential(vc, identity.publicKey);
+      expect(result.verified).toBe(true);
+    }
+  });
+
+  it("should record the padding so verifiers pick the matching one", async () => {
+    const pss = new RSACryptoService(2048, { backend: "native" });
+    const pkcs1 = pss.withPadding("pkcs1");
+    expect(pkcs1.getPadding()).toBe("pkcs1");
+    expect(pkcs1.getBackend()).toBe("native");
+    expect(pss.withPadding("pss")).toBe(pss);
+
+    const identity = await pss.generateIdentity();
+    const issue = (crypto: RSACryptoService) =>
+      new VCIssuer(crypto).issueCredential(
+        { id: "did:example:issuer123" },
+        { id: "did:example:user456", accessLevel: "premium" },
+        identity.privateKey,
+        identity.publicKey
+      );
+    const pssVC = await issue(pss);
+    const pkcs1VC = await issue(pkcs1);
+    expect(pssVC.proof).toMatchObject({
+      type: "RsaSignature2018",
+      cryptosuite: "rsa-pss-sha256",
+    });
+    expect(pkcs1VC.proof).toMatchObject({
+      type: "RsaSignature2018",
+      cryptosuite: "rsa-pkcs1-sha256",
+    });
+
+    // Either padding verifies, whatever the verifier was configured with
+    const registry = AlgorithmRegistry.createDefault();
+    for (const verifier of [
+      new VCVerifier(pss),
+      new VCVerifier(pkcs1),
+      new VCVerifier(registry),
+    ]) {
+      for (const vc of [pssVC, pkcs1VC]) {
+        expect(
+          (await verifier.verifyCredential(vc, identity.publicKey)).verified
+        ).toBe(true);
+      }
+    }
+
+    // Proofs issued before the padding was recorded are PSS
+    const { cryptosuite: _cryptosuite, ...legacyProof } = Array.isArray(
+      pssVC.proof
+    )
+      ? pssVC.proof[0]
+      : pssVC.proof;
+    expect(
+      (
+        await new VCVerifier(registry).verifyCredential(
+          { ...pssVC, proof: legacyProof },
+          identity.publicKey
+        )
+      ).verified
+    ).toBe(true);
+  });
+});
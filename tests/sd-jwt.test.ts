@@ -0,0 +1,302 @@
+import {
+  AccessControlCredentialSubject,
+  AlgorithmRegistry,
+  ECDSACryptoService,
+  KeyFormatService,
+  OffChainService,
+  P256CryptoService,
+  SDJwtService,
+  VCHolder,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("SD-JWT VC", () => {
+  const ecdsa = new ECDSACryptoService();
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject: AccessControlCredentialSubject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    accessSchedule: { allowedDays: [1, 2, 3, 4, 5] },
+    lock: {
+      id: "lock-building-a-room-101",
+      name: "Lab Room 101",
+      location: "Building A",
+    },
+  };
+  const disclosable = [
+    "userMetaDataHash",
+    "accessSchedule",
+    "lock",
+    "lock.location",
+  ];
+
+  it("should compute disclosure digests as in RFC 9901", () => {
+    const header = Buffer.from('{"alg":"ES256K"}').toString("base64url");
+    const disclosure =
+      "WyI2cU1RdlJMNWhhaiIsICJmYW1pbHlfbmFtZSIsICJNw7ZiaXVzIl0";
+
+    const { disclosures } = SDJwtService.parse(
+      `${header}.e30.c2ln~${disclosure}~`
+    );
+    expect(disclosures[0]).toEqual({
+      encoded: disclosure,
+      digest: "uutlBuYeMDyjLLTpf6Jxi7yNkEF35jdyWMn9U7b_RYY",
+      salt: "6qMQvRL5haj",
+      name: "family_name",
+      value: "Möbius",
+    });
+  });
+
+  it("should hide disclosable access claims behind digests", async () => {
+    const issuerIdentity = await ecdsa.generateIdentity();
+    const sdJwt = await new VCIssuer(ecdsa).issueSdJwtCredential(
+      issuerInfo,
+      subject,
+      issuerIdentity.privateKey,
+      {
+        credentialTypes: ["AccessControlCredential"],
+        validityDays: 30,
+        disclosable,
+      }
+    );
+
+    const { jwt, disclosures, keyBindingJwt } = SDJwtService.parse(sdJwt);
+    expect(sdJwt.endsWith("~")).toBe(true);
+    expect(keyBindingJwt).toBeUndefined();
+    expect(jwt.header).toMatchObject({ alg: "ES256K", typ: "dc+sd-jwt" });
+    expect(jwt.payload).toMatchObject({
+      iss: "did:example:issuer123",
+      sub: "did:example:user456",
+      vct: "AccessControlCredential",
+      accessLevel: "standard",
+      permissions: ["unlock"],
+      _sd_alg: "sha-256",
+    });
+    expect(jwt.payload).not.toHaveProperty("userMetaDataHash");
+    expect(jwt.payload).not.toHaveProperty("lock");
+    expect(jwt.payload._sd).toHaveLength(3);
+    expect(disclosures.map((d) => d.name).sort()).toEqual([
+      "accessSchedule",
+      "location",
+      "lock",
+      "userMetaDataHash",
+    ]);
+
+    // The lock disclosure hides its location behind a nested digest
+    const lock = disclosures.find((d) => d.name === "lock");
+    expect(lock?.value).toMatchObject({
+      id: "lock-building-a-room-101",
+      name: "Lab Room 101",
+      _sd: [disclosures.find((d) => d.name === "location")?.digest],
+    });
+
+    // Presenting every disclosure restores the credential
+    const result = await new VCVerifier(ecdsa).verifySdJwtCredential(
+      sdJwt,
+      issuerIdentity.publicKey
+    );
+    expect(result.verified).toBe(true);
+    expect(result.credential?.credentialSubject).toEqual(subject);
+    expect(result.credential?.type).toEqual([
+      "VerifiableCredential",
+      "AccessControlCredential",
+    ]);
+    expect(result.credential?.validUntil).toBeDefined();
+  });
+
+  it("should present only the claims the holder selects", async () => {
+    const issuerIdentity = await ecdsa.generateIdentity();
+    const sdJwt = await new VCIssuer(ecdsa).issueSdJwtCredential(
+      issuerInfo,
+      subject,
+      issuerIdentity.privateKey,
+      { disclosable }
+    );
+    const holder = new VCHolder();
+    const verifier = new VCVerifier(ecdsa);
+
+    const lockOnly = await holder.presentSdJwtCredential(sdJwt, ["lock"]);
+    const lockResult = await verifier.verifySdJwtCredential(
+      lockOnly,
+      issuerIdentity.publicKey
+    );
+    expect(lockResult.verified).toBe(true);
+    expect(lockResult.credential?.credentialSubject).toEqual({
+      id: "did:example:user456",
+      accessLevel: "standard",
+      permissions: ["unlock"],
+      lock: subject.lock,
+    });
+    expect(lockResult.details?.disclosed).toEqual(
+      expect.arrayContaining(["lock", "lock.location"])
+    );
+
+    // A nested claim brings its parent, but not its siblings
+    const nameOnly = await holder.presentSdJwtCredential(sdJwt, ["lock.name"]);
+    const nameResult = await verifier.verifySdJwtCredential(
+      nameOnly,
+      issuerIdentity.publicKey
+    );
+    expect(nameResult.credential?.credentialSubject).toMatchObject({
+      lock: { id: "lock-building-a-room-101", name: "Lab Room 101" },
+    });
+    expect(
+      (
+        nameResult.credential
+          ?.credentialSubject as AccessControlCredentialSubject
+      ).lock
+    ).not.toHaveProperty("location");
+
+    const nothing = await holder.presentSdJwtCredential(sdJwt, []);
+    const nothingResult = await verifier.verifySdJwtCredential(
+      nothing,
+      issuerIdentity.publicKey
+    );
+    expect(nothingResult.credential?.credentialSubject).toEqual({
+      id: "did:example:user456",
+      accessLevel: "standard",
+      permissions: ["unlock"],
+    });
+
+    await expect(
+      holder.presentSdJwtCredential(sdJwt, ["accessLevel"])
+    ).rejects.toThrow("Claim accessLevel is not selectively disclosable");
+    await expect(
+      new VCIssuer(ecdsa).issueSdJwtCredential(
+        issuerInfo,
+        subject,
+        issuerIdentity.privateKey,
+        { disclosable: ["doorCode"] }
+      )
+    ).rejects.toThrow("Unknown claim: doorCode");
+  });
+
+  it("should bind presentations to the holder key and verifier nonce", async () => {
+    const p256 = new P256CryptoService();
+    const issuerIdentity = await ecdsa.generateIdentity();
+    const holderIdentity = await p256.generateIdentity();
+    const sdJwt = await new VCIssuer(ecdsa).issueSdJwtCredential(
+      issuerInfo,
+      subject,
+      issuerIdentity.privateKey,
+      {
+        disclosable,
+        holderJwk: new KeyFormatService(p256).publicKeyToJWK(
+          holderIdentity.publicKey
+        ),
+      }
+    );
+
+    const nonce = new OffChainService().createChallenge();
+    const audience = "lock-building-a-room-101";
+    const holder = new VCHolder();
+    const presentation = await holder.presentSdJwtCredential(sdJwt, ["lock"], {
+      keyBinding: { signer: holderIdentity.privateKey, audience, nonce },
+      cryptoService: p256,
+    });
+    const keyBindingJwt = SDJwtService.parse(presentation).keyBindingJwt;
+    expect(keyBindingJwt?.header).toEqual({ alg: "ES256", typ: "kb+jwt" });
+
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const verify = (token: string, options: Record<string, unknown>) =>
+      verifier.verifySdJwtCredential(token, issuerIdentity.publicKey, options);
+
+    const result = await verify(presentation, { audience, nonce });
+    expect(result.verified).toBe(true);
+    expect(result.details?.keyBinding).toBe(true);
+
+    expect(
+      await verify(presentation, { audience, nonce: "0x1234" })
+    ).toMatchObject({ verified: false, error: "Key binding nonce mismatch" });
+    expect(
+      await verify(presentation, { audience: "another-lock", nonce })
+    ).toMatchObject({
+      verified: false,
+      error: "Key binding audience mismatch",
+    });
+
+    // Without key binding, or with disclosures swapped after binding
+    const unbound = await holder.presentSdJwtCredential(sdJwt, ["lock"]);
+    expect(await verify(unbound, { audience, nonce })).toMatchObject({
+      verified: false,
+      error: "Key binding JWT required",
+    });
+    const [issuerJwt, ...rest] = presentation.split("~");
+    const swapped = [
+      issuerJwt,
+      SDJwtService.parse(sdJwt).disclosures[0].encoded,
+      rest[rest.length - 1],
+    ].join("~");
+    expect(await verify(swapped, { audience, nonce })).toMatchObject({
+      verified: false,
+      error: "Key binding JWT does not match the presentation",
+    });
+
+    // Signed by another key than the one in cnf
+    const stranger = await p256.generateIdentity();
+    const stolen = await holder.presentSdJwtCredential(sdJwt, ["lock"], {
+      keyBinding: { signer: stranger.privateKey, audience, nonce },
+      cryptoService: p256,
+    });
+    expect(await verify(stolen, { audience, nonce })).toMatchObject({
+      verified: false,
+      error: "Invalid key binding signature",
+    });
+  });
+
+  it("should reject disclosures the issuer did not sign", async () => {
+    const issuerIdentity = await ecdsa.generateIdentity();
+    const sdJwt = await new VCIssuer(ecdsa).issueSdJwtCredential(
+      issuerInfo,
+      subject,
+      issuerIdentity.privateKey,
+      { disclosable }
+    );
+    const verifier = new VCVerifier(ecdsa);
+    const [issuerJwt] = sdJwt.split("~");
+
+    const forged = Buffer.from(
+      JSON.stringify(["salt", "accessLevel", "admin"])
+    ).toString("base64url");
+    expect(
+      await verifier.verifySdJwtCredential(
+        `${issuerJwt}~${forged}~`,
+        issuerIdentity.publicKey
+      )
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Verification failed: Error: SD-JWT disclosure is not referenced by the issuer JWT",
+    });
+
+    const { disclosures } = SDJwtService.parse(sdJwt);
+    expect(
+      await verifier.verifySdJwtCredential(
+        `${issuerJwt}~${disclosures[0].encoded}~${disclosures[0].encoded}~`,
+        issuerIdentity.publicKey
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Verification failed: Error: SD-JWT repeats a disclosure",
+    });
+
+    // Nested disclosures need their parent
+    const location = disclosures.find((d) => d.name === "location");
+    expect(
+      (
+        await verifier.verifySdJwtCredential(
+          `${issuerJwt}~${location?.encoded}~`,
+          issuerIdentity.publicKey
+        )
+      ).verified
+    ).toBe(false);
+
+    const other = await ecdsa.generateIdentity();
+    expect(
+      await verifier.verifySdJwtCredential(sdJwt, other.publicKey)
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  InMemorySigner,
+  RemoteSigner,
+  RemoteSignerRequest,
+  KeystoreService,
+  ECDSACryptoService,
+  Ed25519CryptoService,
+  PQCryptoService,
+  OffChainService,
+  OnChainService,
+  VCIssuer,
+  VCVerifier,
+  VCRevoke,
+  Signer,
+  HolderBindingService,
+} from "../src/index";
+
+/**
+ * Stand-in for an out-of-process signer (KMS/HSM): keys live only inside the
+ * stub and every request/response crosses a JSON boundary
+ */
+function createSignerStub(signers: Record<string, Signer>) {
+  const requests: RemoteSignerRequest[] = [];
+
+  const transport = async (request: RemoteSignerRequest) => {
+    const received: RemoteSignerRequest = JSON.parse(JSON.stringify(request));
+    requests.push(received);
+
+    const signer = signers[received.keyId];
+    if (!signer) {
+      throw new Error(`Unknown key ${received.keyId}`);
+    }
+
+    const response =
+      received.method === "sign"
+        ? { signature: await signer.sign(received.hash) }
+        : {
+            algorithm: signer.algorithm,
+            publicKey: signer.publicKey,
+            address: signer.address,
+          };
+    return JSON.parse(JSON.stringify(response));
+  };
+
+  return { transport, requests };
+}
+
+describe("Signer", () => {
+  const ecdsa = new ECDSACryptoService();
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject = {
+    id: "did:example:user456",
+    userMetaDataHash: ecdsa.hash("user456@example.com"),
+  };
+
+  describe("InMemorySigner", () => {
+    it("should sign like the crypto service without exposing the key", async () => {
+      const identity = await ecdsa.generateIdentity();
+      const signer = new InMemorySigner(ecdsa, identity);
+      const hash = ecdsa.hash("data");
+
+      expect(signer.algorithm).toBe("secp256k1");
+      expect(signer.address).toBe(identity.address);
+      expect(await signer.sign(hash)).toBe(
+        await ecdsa.sign(hash, identity.privateKey)
+      );
+      expect(JSON.stringify(signer)).not.toContain(
+        identity.privateKey.slice(2)
+      );
+    });
+
+    it("should load from an encrypted keystore", async () => {
+      const identity = await ecdsa.generateIdentity();
+      const keystore = await new KeystoreService(ecdsa, {
+        scrypt: { N: 1024 },
+      }).encrypt(identity, "password");
+
+      const signer = await InMemorySigner.fromKeystore(
+        ecdsa,
+        keystore,
+        "password"
+      );
+      expect(signer.publicKey).toBe(identity.publicKey);
+    });
+
+    it("should issue credentials for any algorithm", async () => {
+      const pq = new PQCryptoService();
+      const signer = await InMemorySigner.generate(pq);
+      expect(signer.algorithm).toBe("ML-DSA-44");
+
+      const vc = await new VCIssuer(pq).issueCredential(
+        issuerInfo,
+        subject,
+        signer,
+        signer.publicKey
+      );
+      const result = await new VCVerifier(pq).verifyCredential(
+        vc,
+        signer.publicKey
+      );
+      expect(result.verified).toBe(true);
+    });
+  });
+
+  describe("RemoteSigner", () => {
+    let issuerSigner: InMemorySigner;
+    let remote: RemoteSigner;
+    let requests: RemoteSignerRequest[];
+    let offChain: OffChainService;
+    let onChain: OnChainService;
+
+    beforeAll(async () => {
+      issuerSigner = await InMemorySigner.generate(ecdsa);
+      const stub = createSignerStub({
+        "issuer-key": issuerSigner,
+        "ed25519-key": await InMemorySigner.generate(
+          new Ed25519CryptoService()
+        ),
+      });
+      requests = stub.requests;
+      remote = await RemoteSigner.connect(stub.transport, {
+        keyId: "issuer-key",
+        cryptoService: ecdsa,
+      });
+      offChain = new OffChainService(ecdsa);
+      onChain = new OnChainService(ecdsa);
+    });
+
+    it("should describe the remote key and send only hashes", async () => {
+      expect(remote.getKeyId()).toBe("issuer-key");
+      expect(remote.address).toBe(issuerSigner.address);
+      expect(remote.publicKey).toBe(issuerSigner.publicKey);
+
+      const hash = ecdsa.hash("data");
+      await offChain.signData(hash, remote);
+      expect(requests[requests.length - 1]).toEqual({
+        method: "sign",
+        keyId: "issuer-key",
+        hash,
+      });
+    });
+
+    it("should issue and verify off-chain credentials", async () => {
+      const issuer = new VCIssuer(ecdsa, offChain);
+      const vc = await issuer.issueOffChainCredential(
+        issuerInfo,
+        subject,
+        remote,
+        { credentialTypes: ["AccessControlCredential"] }
+      );
+
+      const result = await new VCVerifier(
+        ecdsa,
+        offChain
+      ).verifyOffChainCredential(vc, remote.publicKey);
+      expect(result.verified).toBe(true);
+    });
+
+    it("should sign Ethereum-prefixed hashes for on-chain use", async () => {
+      const hash = ecdsa.hash("revoke");
+      const { signature } = await onChain.signForBlockchain(hash, remote);
+
+      expect(
+        await onChain.verifyBlockchainSignature(hash, signature, remote.address)
+      ).toBe(true);
+      expect(await onChain.recoverAddress(hash, signature)).toBe(
+        remote.address
+      );
+
+      const vc = await new VCIssuer(
+        ecdsa,
+        undefined,
+        onChain
+      ).issueOnChainCredential(issuerInfo, subject, remote);
+      const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+      expect(proof.verificationMethod).toBe(remote.address);
+    });
+
+    it("should convert off-chain credentials for revocation", async () => {
+      const vc = await new VCIssuer(ecdsa, offChain).issueOffChainCredential(
+        issuerInfo,
+        subject,
+        remote
+      );
+
+      const revoker = new VCRevoke(ecdsa, onChain);
+      const onChainVC = await revoker.convertToOnChain(vc, remote);
+      expect(revoker.verifyHashConsistency(vc, onChainVC)).toBe(true);
+      expect(
+        await revoker.verifyOnChainSignature(onChainVC, remote.address)
+      ).toBe(true);
+    });
+
+    it("should reject non-secp256k1 signers for on-chain signing", async () => {
+      const stub = createSignerStub({
+        default: await InMemorySigner.generate(new Ed25519CryptoService()),
+      });
+      const ed25519Remote = await RemoteSigner.connect(stub.transport);
+
+      await expect(
+        onChain.signForBlockchain(ecdsa.hash("data"), ed25519Remote)
+      ).rejects.toThrow("On-chain signing requires a secp256k1 signer");
+    });
+
+    it("should reject signers of another algorithm than the service", async () => {
+      const stub = createSignerStub({
+        default: await InMemorySigner.generate(new PQCryptoService()),
+      });
+      const mlDsaRemote = await RemoteSigner.connect(stub.transport);
+      const message = "Signer holds a ML-DSA-44 key, service expects secp256k1";
+
+      await expect(
+        new VCIssuer(ecdsa).issueCredential(
+          issuerInfo,
+          subject,
+          mlDsaRemote,
+          mlDsaRemote.publicKey
+        )
+      ).rejects.toThrow(message);
+      await expect(
+        new VCIssuer(ecdsa, offChain).issueOffChainCredential(
+          issuerInfo,
+          subject,
+          mlDsaRemote,
+          { publicKey: mlDsaRemote.publicKey }
+        )
+      ).rejects.toThrow(message);
+      await expect(
+        offChain.signData(ecdsa.hash("data"), mlDsaRemote)
+      ).rejects.toThrow(message);
+      await expect(
+        new HolderBindingService().signChallenge(
+          "challenge",
+          mlDsaRemote,
+          "lock-1"
+        )
+      ).rejects.toThrow(message);
+      expect(stub.requests.map((request) => request.method)).toEqual([
+        "getPublicKey",
+      ]);
+    });
+
+    it("should surface transport failures and bad signatures", async () => {
+      await expect(
+        RemoteSigner.connect(createSignerStub({}).transport, {
+          keyId: "missing",
+        })
+      ).rejects.toThrow("Remote signing failed: Error: Unknown key missing");
+
+      const other = await InMemorySigner.generate(ecdsa);
+      const lying = await RemoteSigner.connect(
+        async (request) =>
+          request.method === "sign"
+            ? { signature: await other.sign(request.hash) }
+            : {
+                algorithm: "secp256k1",
+                publicKey: issuerSigner.publicKey,
+                address: issuerSigner.address,
+              },
+        { cryptoService: ecdsa }
+      );
+      await expect(lying.sign(ecdsa.hash("data"))).rejects.toThrow(
+        "Remote signer returned an invalid signature"
+      );
+    });
+  });
+});
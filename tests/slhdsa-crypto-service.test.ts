@@ -0,0 +1,65 @@
+import {
+  SLHDSACryptoService,
+  SLHDSAParameterSet,
+  VCIssuer,
+  VCVerifier,
+} from "../src/index";
+
+describe("SLHDSACryptoService", () => {
+  it("should default to SLH-DSA-SHA2-128s", () => {
+    const crypto = new SLHDSACryptoService();
+    expect(crypto.getParameterSet()).toBe("SLH-DSA-SHA2-128s");
+    expect(crypto.getCryptosuite()).toBe("slhdsa-sha2-128s");
+  });
+
+  it("should reject unknown parameter sets", () => {
+    expect(
+      () => new SLHDSACryptoService("SLH-DSA-MD5-128s" as SLHDSAParameterSet)
+    ).toThrow("SLH-DSA parameter set must be one of");
+  });
+
+  it("should sign and verify with SLH-DSA-SHA2-128s", async () => {
+    const crypto = new SLHDSACryptoService("SLH-DSA-SHA2-128s");
+    const identity = await crypto.generateIdentity();
+
+    // Same base64 key encoding as PQCryptoService
+    expect(Buffer.from(identity.publicKey, "base64").length).toBe(32);
+    expect(Buffer.from(identity.privateKey, "base64").length).toBe(64);
+
+    const hash = crypto.hash("root issuer key");
+    const signature = await crypto.sign(hash, identity.privateKey);
+    expect(Buffer.from(signature, "base64").length).toBe(7856);
+
+    expect(await crypto.verify(hash, signature, identity.publicKey)).toBe(true);
+    expect(
+      await crypto.verify(
+        crypto.hash("tampered"),
+        signature,
+        identity.publicKey
+      )
+    ).toBe(false);
+  });
+
+  it("should issue and verify a credential with SLH-DSA-SHA2-128f", async () => {
+    const crypto = new SLHDSACryptoService("SLH-DSA-SHA2-128f");
+    const identity = await crypto.generateIdentity();
+
+    const vc = await new VCIssuer(crypto).issueCredential(
+      { id: "did:example:root-issuer" },
+      { id: "did:example:site-issuer", accessLevel: "issuer" },
+      identity.privateKey,
+      identity.publicKey,
+      { validityDays: 3650 }
+    );
+
+    const proof = Array.isArray(vc.proof) ? vc.proof[0] : vc.proof;
+    expect(proof.type).toBe("DataIntegrityProof");
+    expect(proof.cryptosuite).toBe("slhdsa-sha2-128f");
+
+    const result = await new VCVerifier(crypto).verifyCredential(
+      vc,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(true);
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  createPrivateKey,
+  sign as nodeSign,
+  verify as nodeVerify,
+  JsonWebKey,
+} from "crypto";
+import {
+  AlgorithmRegistry,
+  CryptoService,
+  ECDSACryptoService,
+  Ed25519CryptoService,
+  InMemorySigner,
+  JoseService,
+  KeyFormatService,
+  P256CryptoService,
+  PQCryptoService,
+  VCIssuer,
+  VCVerifier,
+  W3C_VC_CONTEXT_V2,
+} from "../src/index";
+
+describe("VC-JWT (VC-JOSE-COSE)", () => {
+  const issuerInfo = { id: "did:example:issuer123" };
+  const subject = {
+    id: "did:example:user456",
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+  };
+
+  function base64url(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+  }
+
+  it("should map the credential to JOSE headers and JWT claims", async () => {
+    const ecdsa = new ECDSACryptoService();
+    const identity = await ecdsa.generateIdentity();
+
+    const jwt = await new VCIssuer(ecdsa).issueJwtCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      { credentialTypes: ["AccessControlCredential"], validityDays: 30 }
+    );
+
+    const { header, payload, signature } = JoseService.decode(jwt);
+    expect(header).toEqual({
+      alg: "ES256K",
+      typ: "vc+jwt",
+      cty: "vc",
+      kid: "did:example:issuer123#keys-1",
+    });
+    expect(payload.iss).toBe("did:example:issuer123");
+    expect(payload.nbf).toBe(
+      Math.floor(new Date(payload.validFrom as string).getTime() / 1000)
+    );
+    expect(payload.exp).toBe(
+      Math.floor(new Date(payload.validUntil as string).getTime() / 1000)
+    );
+    expect(payload.proof).toBeUndefined();
+    expect(payload.credentialSubject).toEqual(subject);
+    // JOSE signatures are r || s, without the recovery byte
+    expect(signature).toMatch(/^0x[0-9a-f]{128}$/);
+
+    const result = await new VCVerifier(ecdsa).verifyJwtCredential(
+      jwt,
+      identity.publicKey
+    );
+    expect(result.verified).toBe(true);
+    expect(result.credential).toEqual(JoseService.toCredential(payload));
+    expect(result.credential).not.toHaveProperty("iss");
+    expect(result.details).toMatchObject({
+      issuer: "did:example:issuer123",
+      subject: "did:example:user456",
+      alg: "ES256K",
+      kid: "did:example:issuer123#keys-1",
+    });
+  });
+
+  it("should issue and verify with ES256K, ES256 and EdDSA", async () => {
+    const registry = AlgorithmRegistry.createDefault();
+
+    for (const [crypto, algorithm] of [
+      [new ECDSACryptoService(), "ES256K"],
+      [new P256CryptoService(), "ES256"],
+      [new Ed25519CryptoService(), "EdDSA"],
+    ] as [CryptoService, string][]) {
+      const identity = await crypto.generateIdentity();
+      const jwt = await new VCIssuer(crypto).issueJwtCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey
+      );
+      const { header, signingInput, signature } = JoseService.decode(jwt);
+      expect(header.alg).toBe(algorithm);
+
+      // Independent check with Node's JOSE-compatible verification
+      expect(
+        nodeVerify(
+          algorithm === "EdDSA" ? null : "sha256",
+          Buffer.from(signingInput, "ascii"),
+          {
+            key: new KeyFormatService(crypto).publicKeyToJWK(
+              identity.publicKey
+            ) as JsonWebKey,
+            format: "jwk",
+            dsaEncoding: "ieee-p1363",
+          },
+          Buffer.from(signature.slice(2), "hex")
+        )
+      ).toBe(true);
+
+      const result = await new VCVerifier(registry).verifyJwtCredential(
+        jwt,
+        identity.publicKey
+      );
+      expect(result.verified).toBe(true);
+    }
+  });
+
+  it("should verify ES256K credentials signed by other JOSE libraries", async () => {
+    const ecdsa = new ECDSACryptoService();
+    const identity = await ecdsa.generateIdentity();
+    const privateJwk = new KeyFormatService(ecdsa).identityToJWK(
+      identity
+    ) as JsonWebKey;
+    const key = createPrivateKey({ key: privateJwk, format: "jwk" });
+
+    const credential = {
+      "@context": [W3C_VC_CONTEXT_V2],
+      type: ["VerifiableCredential"],
+      issuer: "did:example:issuer123",
+      validFrom: "2025-01-01T00:00:00Z",
+      credentialSubject: subject,
+    };
+    const signingInput = `${base64url({
+      alg: "ES256K",
+      typ: "vc+jwt",
+      kid: "did:example:issuer123#keys-1",
+    })}.${base64url({
+      ...credential,
+      iss: "did:example:issuer123",
+      nbf: 1735689600,
+    })}`;
+
+    // OpenSSL does not normalize S, so this covers high-S signatures too
+    const verifier = new VCVerifier(ecdsa);
+    for (let i = 0; i < 8; i++) {
+      const signature = nodeSign("sha256", Buffer.from(signingInput), {
+        key,
+        dsaEncoding: "ieee-p1363",
+      }).toString("base64url");
+      const result = await verifier.verifyJwtCredential(
+        `${signingInput}.${signature}`,
+        identity.publicKey
+      );
+      expect(result.verified).toBe(true);
+    }
+  });
+
+  it("should sign with external signers", async () => {
+    const p256 = new P256CryptoService();
+    const signer = await InMemorySigner.generate(p256);
+
+    const jwt = await new VCIssuer(p256).issueJwtCredential(
+      issuerInfo,
+      subject,
+      signer,
+      { kid: "did:example:issuer123#p256-1" }
+    );
+
+    const verifier = new VCVerifier(p256);
+    expect(
+      (
+        await verifier.verifyJwtCredential(jwt, signer.publicKey, {
+          kid: "did:example:issuer123#p256-1",
+        })
+      ).verified
+    ).toBe(true);
+    expect(
+      await verifier.verifyJwtCredential(jwt, signer.publicKey, {
+        kid: "did:example:issuer123#keys-1",
+      })
+    ).toMatchObject({
+      verified: false,
+      error: expect.stringContaining("Key id mismatch"),
+    });
+  });
+
+  it("should reject tampered claims, headers and algorithms", async () => {
+    const ecdsa = new ECDSACryptoService();
+    const identity = await ecdsa.generateIdentity();
+    const jose = new JoseService(ecdsa);
+    const verifier = new VCVerifier(AlgorithmRegistry.createDefault());
+    const jwt = await new VCIssuer(ecdsa).issueJwtCredential(
+      issuerInfo,
+      subject,
+      identity.privateKey,
+      { validityDays: 30 }
+    );
+    const { header, payload } = JoseService.decode(jwt);
+    const [, , signature] = jwt.split(".");
+
+    // Changed payload, same signature
+    const tampered = `${base64url(header)}.${base64url({
+      ...payload,
+      credentialSubject: { ...subject, accessLevel: "admin" },
+    })}.${signature}`;
+    expect(
+      await verifier.verifyJwtCredential(tampered, identity.publicKey)
+    ).toMatchObject({ verified: false, error: "Invalid signature" });
+
+    // Unsigned and swapped algorithms
+    const unsigned = `${base64url({ ...header, alg: "none" })}.${base64url(
+      payload
+    )}.`;
+    expect(
+      (await verifier.verifyJwtCredential(unsigned, identity.publicKey))
+        .verified
+    ).toBe(false);
+    const swapped = `${base64url({ ...header, alg: "ES256" })}.${base64url(
+      payload
+    )}.${signature}`;
+    expect(
+      (await verifier.verifyJwtCredential(swapped, identity.publicKey)).verified
+    ).toBe(false);
+
+    // Validly signed, but the JWT claims disagree with the credential
+    const resign = (
+      changes: Record<string, unknown>,
+      headerChanges: Record<string, unknown> = {}
+    ) =>
+      jose.sign(
+        { ...header, ...headerChanges },
+        { ...payload, ...changes },
+        identity.privateKey
+      );
+    const expectError = async (token: string, error: string) =>
+      expect(
+        await verifier.verifyJwtCredential(token, identity.publicKey)
+      ).toMatchObject({ verified: false, error });
+
+    await expectError(
+      await resign({ iss: "did:example:attacker" }),
+      "JWT iss does not match the credential issuer"
+    );
+    await expectError(
+      await resign({ nbf: (payload.nbf as number) - 3600 }),
+      "JWT nbf does not match validFrom"
+    );
+    await expectError(
+      await resign({ exp: (payload.exp as number) + 3600 }),
+      "JWT exp does not match validUntil"
+    );
+    await expectError(
+      await resign({}, { kid: "did:example:attacker#keys-1" }),
+      "JWS kid did:example:attacker#keys-1 does not belong to issuer did:example:issuer123"
+    );
+    await expectError(
+      await resign({}, { typ: "JWT" }),
+      "Unsupported JWS type: JWT"
+    );
+
+    // Time validation uses the mapped dates
+    const expired = await verifier.verifyJwtCredential(
+      jwt,
+      identity.publicKey,
+      { currentTime: new Date(Date.now() + 31 * 24 * 60 * 60 * 1000) }
+    );
+    expect(expired.verified).toBe(false);
+    expect(expired.error).toContain("Credential expired");
+
+    expect(
+      await verifier.verifyJwtCredential("not.a-jwt", identity.publicKey)
+    ).toMatchObject({
+      verified: false,
+      error: "Verification failed: Error: Malformed compact JWS",
+    });
+  });
+
+  it("should require a service with a JOSE algorithm", async () => {
+    const pq = new PQCryptoService();
+    expect(() => new JoseService(pq)).toThrow(
+      "PQCryptoService has no JOSE algorithm"
+    );
+
+    const identity = await pq.generateIdentity();
+    await expect(
+      new VCIssuer(pq).issueJwtCredential(
+        issuerInfo,
+        subject,
+        identity.privateKey
+      )
+    ).rejects.toThrow("no JOSE algorithm");
+  });
+});
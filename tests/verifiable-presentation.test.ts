@@ -0,0 +1,318 @@
+import {
+  AccessControlCredentialSubject,
+  AlgorithmRegistry,
+  ECDSACryptoService,
+  ECDSAProof,
+  Ed25519CryptoService,
+  OffChainService,
+  P256CryptoService,
+  VCIssuer,
+  VerifiableCredential,
+  VerifiablePresentation,
+  VPBuilder,
+  VPVerifier,
+} from "../src/index";
+
+describe("Verifiable Presentations", () => {
+  const ecdsa = new ECDSACryptoService();
+  const holderId = "did:example:user456";
+  const lockId = "lock-building-a-room-101";
+  const subject: AccessControlCredentialSubject = {
+    id: holderId,
+    userMetaDataHash: "0x" + "ab".repeat(32),
+    accessLevel: "standard",
+    permissions: ["unlock"],
+    lock: { id: lockId, name: "Lab Room 101" },
+  };
+
+  async function issueAccessCredential() {
+    const issuer = await ecdsa.generateIdentity();
+    const vc = await new VCIssuer(ecdsa).issueCredential(
+      { id: "did:example:issuer123" },
+      subject,
+      issuer.privateKey,
+      issuer.publicKey,
+      { credentialTypes: ["AccessControlCredential"], validityDays: 30 }
+    );
+    return {
+      vc,
+      issuerPublicKeys: { "did:example:issuer123": issuer.publicKey },
+    };
+  }
+
+  it("should present credentials bound to the lock's challenge", async () => {
+    const { vc, issuerPublicKeys } = await issueAccessCredential();
+
+    // A second credential from a P-256 issuer with a Data Integrity proof
+    const p256 = new P256CryptoService();
+    const p256Issuer = await p256.generateIdentity();
+    const badge = await new VCIssuer(p256).issueCredential(
+      { id: "did:example:facilities" },
+      { id: holderId, badge: "contractor" },
+      p256Issuer.privateKey,
+      p256Issuer.publicKey,
+      { cryptosuite: "ecdsa-jcs-2019" }
+    );
+
+    const holder = await ecdsa.generateIdentity();
+    const challenge = new OffChainService().createChallenge();
+    const vp = await new VPBuilder(ecdsa).buildPresentation(
+      [vc, badge],
+      holder.privateKey,
+      { holder: holderId, challenge, domain: lockId }
+    );
+
+    expect(vp.type).toEqual(["VerifiablePresentation"]);
+    expect(vp.verifiableCredential).toEqual([vc, badge]);
+    expect(vp.proof).toMatchObject({
+      type: "EcdsaSecp256k1Signature2020",
+      proofPurpose: "authentication",
+      verificationMethod: `${holderId}#keys-1`,
+      challenge,
+      domain: lockId,
+    });
+
+    const result = await new VPVerifier(
+      AlgorithmRegistry.createDefault()
+    ).verifyPresentation(vp, holder.publicKey, {
+      challenge,
+      domain: lockId,
+      issuerPublicKeys: {
+        ...issuerPublicKeys,
+        "did:example:facilities": p256Issuer.publicKey,
+      },
+    });
+    expect(result.verified).toBe(true);
+    expect(result.credentialResults.map((r) => r.verified)).toEqual([
+      true,
+      true,
+    ]);
+    expect(result.details).toMatchObject({
+      holder: holderId,
+      challenge,
+      domain: lockId,
+      credentials: 2,
+    });
+  });
+
+  it("should reject replayed and tampered presentations", async () => {
+    const { vc, issuerPublicKeys } = await issueAccessCredential();
+    const holder = await ecdsa.generateIdentity();
+    const offChain = new OffChainService();
+    const challenge = offChain.createChallenge();
+    const builder = new VPBuilder(ecdsa);
+    const verifier = new VPVerifier(ecdsa);
+    const vp = await builder.buildPresentation(vc, holder.privateKey, {
+      holder: holderId,
+      challenge,
+      domain: lockId,
+    });
+    const verify = (
+      presentation: VerifiablePresentation,
+      options: { challenge?: string; domain?: string } = {},
+      publicKey = holder.publicKey
+    ) =>
+      verifier.verifyPresentation(presentation, publicKey, {
+        challenge,
+        domain: lockId,
+        issuerPublicKeys,
+        ...options,
+      });
+    const proof = vp.proof as ECDSAProof;
+
+    expect((await verify(vp)).verified).toBe(true);
+
+    // Replayed to a new challenge or another lock
+    expect(
+      await verify(vp, { challenge: offChain.createChallenge() })
+    ).toMatchObject({ verified: false, error: "Challenge mismatch" });
+    expect(await verify(vp, { domain: "another-lock" })).toMatchObject({
+      verified: false,
+      error: "Domain mismatch",
+    });
+
+    // Challenge, domain or credentials changed after signing
+    const fresh = offChain.createChallenge();
+    expect(
+      await verify(
+        { ...vp, proof: { ...proof, challenge: fresh } },
+        { challenge: fresh }
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Invalid presentation signature",
+    });
+    expect(
+      await verify(
+        { ...vp, proof: { ...proof, domain: "another-lock" } },
+        { domain: "another-lock" }
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Invalid presentation signature",
+    });
+    expect(
+      await verify({ ...vp, verifiableCredential: [vc, vc] })
+    ).toMatchObject({
+      verified: false,
+      error: "Invalid presentation signature",
+    });
+
+    // Signed by someone else than the holder
+    const other = await ecdsa.generateIdentity();
+    expect(await verify(vp, {}, other.publicKey)).toMatchObject({
+      verified: false,
+      error: "Invalid presentation signature",
+    });
+    expect(
+      await verify({ ...vp, holder: "did:example:someone-else" })
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Verification method did:example:user456#keys-1 does not belong to holder did:example:someone-else",
+    });
+    expect(
+      await verify({
+        ...vp,
+        proof: { ...proof, proofPurpose: "assertionMethod" },
+      })
+    ).toMatchObject({
+      verified: false,
+      error: "Unexpected proof purpose: assertionMethod",
+    });
+    expect(
+      await verify({
+        ...vp,
+        proof: [proof, { ...proof, proofValue: "0x" + "00".repeat(65) }],
+      })
+    ).toMatchObject({
+      verified: false,
+      error: "Presentation has more than one proof",
+    });
+  });
+
+  it("should verify every embedded credential", async () => {
+    const { vc, issuerPublicKeys } = await issueAccessCredential();
+    const holder = await ecdsa.generateIdentity();
+    const challenge = new OffChainService().createChallenge();
+    const builder = new VPBuilder(ecdsa);
+    const verifier = new VPVerifier(ecdsa);
+
+    // The holder signs a credential whose claims were changed
+    const tampered: VerifiableCredential = {
+      ...vc,
+      credentialSubject: { ...subject, accessLevel: "admin" },
+    };
+    const forged = await builder.buildPresentation(
+      [vc, tampered],
+      holder.privateKey,
+      { holder: holderId, challenge }
+    );
+    const forgedResult = await verifier.verifyPresentation(
+      forged,
+      holder.publicKey,
+      { challenge, issuerPublicKeys }
+    );
+    expect(forgedResult).toMatchObject({
+      verified: false,
+      error: "Credential 1 failed verification: Invalid signature",
+    });
+    expect(forgedResult.credentialResults.map((r) => r.verified)).toEqual([
+      true,
+      false,
+    ]);
+
+    const vp = await builder.buildPresentation(vc, holder.privateKey, {
+      holder: holderId,
+      challenge,
+    });
+    expect(
+      await verifier.verifyPresentation(vp, holder.publicKey, {
+        challenge,
+        issuerPublicKeys: {},
+      })
+    ).toMatchObject({
+      verified: false,
+      error:
+        "Credential 0 failed verification: Untrusted issuer: did:example:issuer123",
+    });
+    expect(
+      await verifier.verifyPresentation(vp, holder.publicKey, {
+        challenge,
+        issuerPublicKeys,
+        currentTime: new Date(Date.now() + 31 * 24 * 60 * 60 * 1000),
+      })
+    ).toMatchObject({
+      verified: false,
+      error: expect.stringContaining("Credential expired"),
+    });
+  });
+
+  it("should sign presentations with Data Integrity cryptosuites", async () => {
+    const { vc, issuerPublicKeys } = await issueAccessCredential();
+    const ed25519 = new Ed25519CryptoService();
+    const holder = await ed25519.generateIdentity();
+    const challenge = new OffChainService().createChallenge();
+
+    const vp = await new VPBuilder(ed25519).buildPresentation(
+      vc,
+      holder.privateKey,
+      {
+        holder: holderId,
+        challenge,
+        domain: lockId,
+        cryptosuite: "eddsa-jcs-2022",
+      }
+    );
+    const proof = vp.proof as ECDSAProof;
+    expect(proof).toMatchObject({
+      type: "DataIntegrityProof",
+      cryptosuite: "eddsa-jcs-2022",
+      proofPurpose: "authentication",
+      challenge,
+      domain: lockId,
+    });
+    expect(proof.proofValue.startsWith("z")).toBe(true);
+
+    const verifier = new VPVerifier(AlgorithmRegistry.createDefault());
+    const options = { challenge, domain: lockId, issuerPublicKeys };
+    expect(
+      (await verifier.verifyPresentation(vp, holder.publicKey, options))
+        .verified
+    ).toBe(true);
+    expect(
+      await verifier.verifyPresentation(
+        { ...vp, proof: { ...proof, domain: "another-lock" } },
+        holder.publicKey,
+        { ...options, domain: "another-lock" }
+      )
+    ).toMatchObject({
+      verified: false,
+      error: "Invalid presentation signature",
+    });
+  });
+
+  it("should require a challenge and a holder key reference", async () => {
+    const { vc } = await issueAccessCredential();
+    const holder = await ecdsa.generateIdentity();
+    const builder = new VPBuilder(ecdsa);
+
+    await expect(
+      builder.buildPresentation(vc, holder.privateKey, {
+        holder: holderId,
+        challenge: "",
+      })
+    ).rejects.toThrow("needs the verifier's challenge");
+    await expect(
+      builder.buildPresentation(vc, holder.privateKey, { challenge: "0x01" })
+    ).rejects.toThrow("needs a holder or a verification method");
+
+    const vp = await builder.buildPresentation(vc, holder.privateKey, {
+      holder: holderId,
+      challenge: "0x01",
+    });
+    await expect(
+      builder.signPresentation(vp, holder.privateKey, { challenge: "0x02" })
+    ).rejects.toThrow("Presentation is already signed");
+  });
+});